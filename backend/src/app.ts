@@ -0,0 +1,237 @@
+/**
+ * Express app implementing the webhook contract (shared/schema.ts):
+ * - send:        generate greetings and capture them in the inbox, answering
+ *                with each recipient's result (or a job, with MOCK_JOBS=true)
+ * - preview:     return generated drafts without sending
+ * - send_drafts: capture the approved drafts verbatim, generating for the rest
+ * Test sends (`test: true`) get TEST_SUBJECT_PREFIX in front of every subject.
+ *
+ * Plus the inbox (GET /inbox, GET /inbox.json, POST /inbox/clear,
+ * POST /inbox/unsubscribe), reported bounces and unsubscribes
+ * (GET <webhook path>/suppressions), the capabilities document
+ * (GET <webhook path>/capabilities) and, with MOCK_JOBS=true, job status
+ * endpoints (GET /jobs/:id[/events]).
+ * With WEBHOOK_SECRET set, the webhook and job endpoints only accept
+ * requests signed by the proxy.
+ */
+
+import cors from "cors";
+import express, { Request, Response } from "express";
+import {
+  PreviewResponse,
+  SendResponse,
+  SendResult,
+  SuppressionsResponse,
+  TEST_SUBJECT_PREFIX,
+  createErrorResponse,
+  createValidationErrorResponse,
+  getBase64Size,
+  validateWebhookPayload,
+} from "../../shared/schema";
+import { buildCapabilities } from "./capabilities";
+import { Config } from "./config";
+import { injectFaults } from "./faults";
+import { generateGreeting } from "./greetings";
+import { IDEMPOTENCY_HEADER, createIdempotencyStore } from "./idempotency";
+import { Inbox, InboxMessage } from "./inbox";
+import { renderInboxPage } from "./inboxPage";
+import { JobRunner, isFinished, outcomeFor } from "./jobs";
+import { WebhookPayload, listPayloadRecipients } from "./payload";
+import { keepRawBody, requireSignature } from "./signature";
+import { SuppressionLog } from "./suppressions";
+
+/**
+ * Returns the scheduled delivery time for a recipient, honoring
+ * per-recipient schedules.
+ */
+function scheduledFor(payload: WebhookPayload, email: string): string | undefined {
+  const own = payload.recipient_schedule?.find((entry) => entry.email.toLowerCase() === email.toLowerCase());
+  return own?.send_at ?? payload.send_at;
+}
+
+/**
+ * Builds the emails a send or send_drafts request delivers.
+ */
+function buildOutgoing(payload: WebhookPayload): Omit<InboxMessage, "id" | "receivedAt">[] {
+  const drafts = new Map((payload.drafts ?? []).map((draft) => [draft.recipient.toLowerCase(), draft]));
+
+  return listPayloadRecipients(payload).map(({ email, group }) => {
+    const draft = payload.mode === "send_drafts" ? drafts.get(email.toLowerCase()) : undefined;
+    const { subject, body } = draft ?? generateGreeting(payload, group, email);
+    return {
+      to: email,
+      from: payload.sender_name,
+      subject: payload.test ? TEST_SUBJECT_PREFIX + subject : subject,
+      body,
+      holiday: payload.holiday_name,
+      language: group.language,
+      group: group.name || undefined,
+      attachment: payload.attachment && {
+        filename: payload.attachment.filename,
+        contentType: payload.attachment.content_type,
+        size: getBase64Size(payload.attachment.data),
+      },
+      scheduledFor: scheduledFor(payload, email),
+      fromDraft: Boolean(draft),
+      ...(payload.test && { test: true }),
+    };
+  });
+}
+
+export function createApp(config: Config, inbox: Inbox, jobs: JobRunner, suppressions: SuppressionLog) {
+  const app = express();
+  const idempotency = createIdempotencyStore();
+
+  app.use(cors({ origin: config.corsOrigin }));
+  // Room for a holiday card image (see MAX_ATTACHMENT_BYTES in shared/schema.ts)
+  app.use(express.json({ limit: "2mb", verify: keepRawBody }));
+  const signed = requireSignature(config.webhookSecret);
+
+  app.post(config.webhookPath, signed, injectFaults(config), (req: Request, res: Response) => {
+    const idempotencyKey = req.get(IDEMPOTENCY_HEADER);
+    const replay = idempotencyKey ? idempotency.get(idempotencyKey) : undefined;
+    if (replay) {
+      console.log(`🔁 Replaying response for ${IDEMPOTENCY_HEADER} ${idempotencyKey}`);
+      res.set("Idempotent-Replayed", "true").status(replay.status).json(replay.body);
+      return;
+    }
+
+    /**
+     * Sends a success response and remembers it for retries with the same key.
+     */
+    const accept = (status: number, body: SendResponse) => {
+      if (idempotencyKey) idempotency.set(idempotencyKey, status, body);
+      res.status(status).json(body);
+    };
+
+    const result = validateWebhookPayload(req.body);
+    if (!result.ok) {
+      res.status(400).json(createValidationErrorResponse(result.errors));
+      return;
+    }
+    const payload = result.value;
+
+    const recipientCount = listPayloadRecipients(payload).length;
+    if (config.maxRecipients > 0 && recipientCount > config.maxRecipients) {
+      res.status(400).json(
+        createErrorResponse("invalid_payload", "Invalid fields: groups.", {
+          groups: `At most ${config.maxRecipients} recipients are accepted; got ${recipientCount}.`,
+        })
+      );
+      return;
+    }
+
+    if (payload.mode === "preview") {
+      const recipients = listPayloadRecipients(payload);
+      const sample = config.previewSample > 0 ? recipients.slice(0, config.previewSample) : recipients;
+      res.json({
+        drafts: sample.map(({ email, group }, index) => ({
+          id: String(index + 1),
+          recipient: email,
+          ...generateGreeting(payload, group, email),
+        })),
+      } satisfies PreviewResponse);
+      return;
+    }
+
+    const outgoing = buildOutgoing(payload);
+    console.log(
+      `📨 ${payload.mode}${payload.test ? " (test)" : ""}: ${outgoing.length} email(s) for ${payload.holiday_name}`
+    );
+
+    if (config.jobs) {
+      const id = jobs.start(outgoing);
+      accept(202, { job_id: id, status_url: `/jobs/${id}`, events_url: `/jobs/${id}/events` });
+      return;
+    }
+
+    const results: SendResult[] = outgoing.map((message) => ({
+      email: message.to,
+      subject: message.subject,
+      ...outcomeFor(message.to),
+    }));
+    inbox.add(outgoing.filter((_, index) => results[index].status === "sent"));
+    results
+      .filter((result) => result.status === "bounced")
+      .forEach((result) => suppressions.add(result.email, "bounced", result.error));
+    accept(200, { ok: true, accepted: outgoing.length, results });
+  });
+
+  app.get("/jobs/:id", signed, (req, res) => {
+    const body = jobs.get(req.params.id);
+    if (!body) {
+      res.status(404).json(createErrorResponse("not_found", "Unknown job."));
+      return;
+    }
+    res.json(body);
+  });
+
+  app.get("/jobs/:id/events", signed, (req, res) => {
+    const body = jobs.get(req.params.id);
+    if (!body) {
+      res.status(404).json(createErrorResponse("not_found", "Unknown job."));
+      return;
+    }
+
+    res.set({ "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    res.flushHeaders();
+
+    const write = (snapshot: typeof body) => {
+      res.write(`data: ${JSON.stringify(snapshot)}\n\n`);
+      if (isFinished(snapshot)) res.end();
+    };
+    write(body);
+    if (isFinished(body)) return;
+
+    const unsubscribe = jobs.subscribe(req.params.id, write);
+    req.on("close", unsubscribe);
+  });
+
+  app.get(`${config.webhookPath}/suppressions`, signed, (req, res) => {
+    const since = typeof req.query.since === "string" ? new Date(req.query.since) : undefined;
+    if (since && Number.isNaN(since.getTime())) {
+      res.status(400).json(
+        createErrorResponse("invalid_payload", "Invalid fields: since.", {
+          since: "Must be an ISO 8601 date and time.",
+        })
+      );
+      return;
+    }
+    res.json({ suppressions: suppressions.list(since) } satisfies SuppressionsResponse);
+  });
+
+  app.get(`${config.webhookPath}/capabilities`, signed, (_req, res) => {
+    res.json(buildCapabilities(config));
+  });
+
+  app.get("/inbox", (_req, res) => {
+    res.type("html").send(renderInboxPage(inbox.list(), config));
+  });
+
+  app.get("/inbox.json", (_req, res) => {
+    res.json(inbox.list());
+  });
+
+  app.post("/inbox/clear", (_req, res) => {
+    inbox.clear();
+    res.redirect(303, "/inbox");
+  });
+
+  // Simulates a recipient clicking "unsubscribe" in a captured email
+  app.post("/inbox/unsubscribe", express.urlencoded({ extended: false }), (req, res) => {
+    const email = typeof req.body?.email === "string" ? req.body.email.trim() : "";
+    if (email) suppressions.add(email, "unsubscribed", "Unsubscribed from the mock inbox");
+    res.redirect(303, "/inbox");
+  });
+
+  // Same endpoint as n8n, for the frontend's health indicator
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  app.get("/", (_req, res) => {
+    res.redirect("/inbox");
+  });
+
+  return app;
+}
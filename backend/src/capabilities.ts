@@ -0,0 +1,50 @@
+/**
+ * Capabilities document served at GET <webhook path>/capabilities: the
+ * languages, audiences and tones the frontend offers for this backend,
+ * plus its recipient limit and feature flags (see CapabilitiesResponse in
+ * shared/schema.ts). Languages without a template get English greetings.
+ */
+
+import { CAPABILITY_FEATURES, CapabilitiesResponse, CapabilityFeature } from "../../shared/schema";
+import { Config } from "./config";
+
+const LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "hi", label: "हिन्दी" },
+  { code: "ar", label: "العربية" },
+  { code: "bn", label: "বাংলা" },
+  { code: "ta", label: "தமிழ்" },
+  { code: "ur", label: "اردو" },
+  { code: "es", label: "Español" },
+  { code: "fr", label: "Français" },
+  { code: "de", label: "Deutsch" },
+  { code: "pt", label: "Português" },
+  { code: "zh", label: "中文" },
+  { code: "ja", label: "日本語" },
+];
+
+/** "family" shows an audience the frontend has no built-in label for; it gets personal greetings. */
+const AUDIENCES = [
+  { value: "business", label: "Business" },
+  { value: "personal", label: "Personal" },
+  { value: "family", label: "Family" },
+];
+
+const TONES = ["warm", "formal", "playful", "heartfelt"];
+
+/**
+ * Builds the capabilities document for a configuration.
+ */
+export function buildCapabilities(config: Config): CapabilitiesResponse {
+  const features = Object.fromEntries(
+    CAPABILITY_FEATURES.map((feature) => [feature, !config.disabledFeatures.includes(feature)])
+  ) as Record<CapabilityFeature, boolean>;
+
+  return {
+    languages: LANGUAGES,
+    audiences: AUDIENCES,
+    tones: TONES,
+    ...(config.maxRecipients > 0 && { max_recipients: config.maxRecipients }),
+    features,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Configuration for the mock backend.
+ *
+ * All settings come from environment variables (a `.env` file in
+ * `backend/` is loaded automatically) and have defaults that match the
+ * frontend's `.env.local.example`, so `npm run dev` works without setup.
+ *
+ * FAULT INJECTION:
+ * MOCK_LATENCY_MS and MOCK_FAILURE_RATE apply to every webhook request.
+ * They can be overridden per request with query parameters on the webhook
+ * URL, e.g. `VITE_WEBHOOK_URL=http://localhost:5678/webhook/holiday?fail=500`
+ * (see faults.ts).
+ */
+
+import "dotenv/config";
+import path from "path";
+import { CAPABILITY_FEATURES, CapabilityFeature } from "../../shared/schema";
+
+/** How an injected failure surfaces: an HTTP error status or a dropped connection. */
+export type FailureStatus = number | "network";
+
+export interface Config {
+  /** Port to listen on (n8n's default, so the frontend's example URL works) */
+  port: number;
+  /** Path the webhook is served at */
+  webhookPath: string;
+  /** Allowed CORS origin(s); "*" allows any */
+  corsOrigin: string;
+  /** JSON file the inbox is persisted to; empty keeps it in memory only */
+  inboxFile: string;
+  /** Delay range in ms added to every webhook request (MOCK_LATENCY_MS="250" or "200-1500") */
+  latency: { min: number; max: number };
+  /** Share of webhook requests (0–1) that fail with failureStatus */
+  failureRate: number;
+  /** HTTP status returned for injected failures, or "network" to drop the connection */
+  failureStatus: FailureStatus;
+  /** Whether send requests return a job to track instead of a plain 200 */
+  jobs: boolean;
+  /** Delay between per-recipient job steps in ms */
+  jobStepMs: number;
+  /** Maximum number of drafts returned in preview mode (0 = all recipients) */
+  previewSample: number;
+  /** Secret shared with the proxy; when set, unsigned webhook and job requests are rejected */
+  webhookSecret: string;
+  /** Most recipients per campaign published in the capabilities (0 = no limit) */
+  maxRecipients: number;
+  /** Features published as unsupported in the capabilities (MOCK_DISABLED_FEATURES="scheduling,note") */
+  disabledFeatures: CapabilityFeature[];
+}
+
+/**
+ * Parses "250" or "200-1500" into a latency range.
+ */
+export function parseLatency(value: string | undefined): { min: number; max: number } {
+  const [min, max] = (value || "0").split("-").map((part) => Math.max(0, Number(part) || 0));
+  return { min, max: Math.max(min, max ?? min) };
+}
+
+/**
+ * Reads a number from the environment, falling back to a default.
+ */
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Parses "network" or an HTTP error status (400–599).
+ */
+export function parseFailureStatus(value: string | undefined): FailureStatus | undefined {
+  if (value === "network") return "network";
+  const status = Number(value);
+  return Number.isInteger(status) && status >= 400 && status <= 599 ? status : undefined;
+}
+
+/**
+ * Parses a comma-separated list of capability features, ignoring unknown ones.
+ */
+function parseFeatures(value: string | undefined): CapabilityFeature[] {
+  const names = (value ?? "").split(",").map((name) => name.trim());
+  return CAPABILITY_FEATURES.filter((feature) => names.includes(feature));
+}
+
+/**
+ * Reads the configuration from the environment.
+ */
+export function loadConfig(): Config {
+  return {
+    port: numberFromEnv("PORT", 5678),
+    webhookPath: process.env.WEBHOOK_PATH || "/webhook/holiday",
+    corsOrigin: process.env.CORS_ORIGIN || "*",
+    inboxFile:
+      process.env.INBOX_FILE === undefined
+        ? path.resolve("data", "inbox.json")
+        : process.env.INBOX_FILE,
+    latency: parseLatency(process.env.MOCK_LATENCY_MS),
+    failureRate: Math.min(1, Math.max(0, numberFromEnv("MOCK_FAILURE_RATE", 0))),
+    failureStatus: parseFailureStatus(process.env.MOCK_FAILURE_STATUS) ?? 500,
+    jobs: process.env.MOCK_JOBS === "true",
+    jobStepMs: numberFromEnv("MOCK_JOB_STEP_MS", 800),
+    previewSample: numberFromEnv("MOCK_PREVIEW_SAMPLE", 5),
+    webhookSecret: process.env.WEBHOOK_SECRET || "",
+    maxRecipients: Math.max(0, Math.floor(numberFromEnv("MOCK_MAX_RECIPIENTS", 0))),
+    disabledFeatures: parseFeatures(process.env.MOCK_DISABLED_FEATURES),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Latency and failure injection for the webhook, so every branch of the
+ * frontend's submit flow (slow responses, HTTP errors, network errors)
+ * can be exercised offline.
+ *
+ * Defaults come from the config; each request can override them with
+ * query parameters on the webhook URL:
+ *
+ *   ?latency=2000        fixed delay in ms (or a range, e.g. 500-3000)
+ *   ?fail=503            always fail with this HTTP status
+ *   ?fail=network        always drop the connection without a response
+ *   ?fail_rate=0.5       fail half of the requests (with ?fail or the default status)
+ */
+
+import { NextFunction, Request, Response } from "express";
+import { createErrorResponse } from "../../shared/schema";
+import { Config, parseFailureStatus, parseLatency } from "./config";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Returns middleware that delays and/or fails requests before they reach
+ * the webhook handler.
+ */
+export function injectFaults(config: Config) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const query = req.query as Record<string, string | undefined>;
+    const latency = query.latency !== undefined ? parseLatency(query.latency) : config.latency;
+    const failureStatus = parseFailureStatus(query.fail) ?? config.failureStatus;
+    const failureRate =
+      query.fail_rate !== undefined ? Number(query.fail_rate) : query.fail !== undefined ? 1 : config.failureRate;
+
+    const ms = latency.min + Math.random() * (latency.max - latency.min);
+    if (ms > 0) await delay(ms);
+
+    if (Math.random() >= failureRate) {
+      next();
+      return;
+    }
+
+    if (failureStatus === "network") {
+      console.log(`💥 Injected network failure for ${req.method} ${req.originalUrl}`);
+      req.socket.destroy();
+      return;
+    }
+    console.log(`💥 Injected HTTP ${failureStatus} for ${req.method} ${req.originalUrl}`);
+    res
+      .status(failureStatus)
+      .json(createErrorResponse("injected_failure", "Injected failure from the mock backend."));
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Deterministic, template-based greetings that stand in for the AI step.
+ * The same payload and recipient always produce the same email, so
+ * previews, regenerations and sends are reproducible in development.
+ */
+
+import { RecipientDetail, RecipientGroup, WebhookPayload } from "./payload";
+import { getMergeValues, renderNote } from "../../shared/note";
+
+export interface GeneratedEmail {
+  subject: string;
+  body: string;
+}
+
+interface Templates {
+  subjects: string[];
+  openings: { business: string[]; personal: string[] };
+  closing: { business: string; personal: string };
+}
+
+/**
+ * Templates per language. `{holiday}` and `{name}` are replaced;
+ * unknown languages fall back to English.
+ */
+const TEMPLATES: Record<string, Templates> = {
+  en: {
+    subjects: ["Happy {holiday}!", "Warm wishes for {holiday}", "Celebrating {holiday} with you"],
+    openings: {
+      business: [
+        "Dear {name},\n\nAs {holiday} approaches, we wanted to thank you for the trust and partnership you've shown us this year.",
+        "Dear {name},\n\nOn the occasion of {holiday}, all of us send our best wishes to you and your team.",
+      ],
+      personal: [
+        "Hi {name},\n\nHappy {holiday}! I hope the day brings you plenty of joy and time with the people you love.",
+        "Dear {name},\n\nWishing you a wonderful {holiday} full of laughter, good food and great company.",
+      ],
+    },
+    closing: { business: "Kind regards,", personal: "With love," },
+  },
+  hi: {
+    subjects: ["{holiday} की हार्दिक शुभकामनाएँ!", "{holiday} पर शुभकामनाएँ"],
+    openings: {
+      business: [
+        "प्रिय {name},\n\n{holiday} के अवसर पर इस वर्ष आपके सहयोग और विश्वास के लिए हार्दिक धन्यवाद।",
+      ],
+      personal: [
+        "प्रिय {name},\n\n{holiday} की ढेर सारी शुभकामनाएँ! यह दिन आपके जीवन में खुशियाँ और उमंग लाए।",
+      ],
+    },
+    closing: { business: "सादर,", personal: "स्नेह सहित," },
+  },
+};
+
+/** Audiences greeted with the personal templates; any other gets the business ones. */
+const PERSONAL_AUDIENCES = ["personal", "family"];
+
+/**
+ * Small stable string hash (FNV-1a) used to pick template variants.
+ */
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+function pick<T>(options: T[], seed: string): T {
+  return options[hash(seed) % options.length];
+}
+
+/**
+ * Derives a display name: imported first name, else the local part of
+ * the address ("jane.doe@…" → "Jane").
+ */
+function displayName(email: string, detail?: RecipientDetail): string {
+  if (detail?.first_name) return detail.first_name;
+  const local = email.split("@")[0].split(/[._+-]/)[0];
+  return local ? local.charAt(0).toUpperCase() + local.slice(1) : email;
+}
+
+/**
+ * Generates the greeting for one recipient of a payload, in the language
+ * and for the audience of the recipient's group. The campaign's personal
+ * note follows the opening, with its merge fields filled in.
+ */
+export function generateGreeting(payload: WebhookPayload, group: RecipientGroup, email: string): GeneratedEmail {
+  const templates = TEMPLATES[group.language] ?? TEMPLATES.en;
+  const audience = PERSONAL_AUDIENCES.includes(group.audience_type) ? "personal" : "business";
+  const detail = payload.recipient_details?.find((d) => d.email.toLowerCase() === email.toLowerCase());
+  const seed = `${payload.holiday_name}|${email.toLowerCase()}`;
+
+  const fill = (text: string) =>
+    text.replace(/\{holiday\}/g, payload.holiday_name).replace(/\{name\}/g, displayName(email, detail));
+
+  const company = detail?.company && audience === "business" ? `\n\nBest wishes to everyone at ${detail.company}.` : "";
+  const note = payload.note?.trim() ? `\n\n${renderNote(payload.note.trim(), getMergeValues(email, detail))}` : "";
+
+  return {
+    subject: fill(pick(templates.subjects, seed)),
+    body: `${fill(pick(templates.openings[audience], seed))}${company}${note}\n\n${templates.closing[audience]}\n${payload.sender_name}`,
+  };
+}
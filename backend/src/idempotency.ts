@@ -0,0 +1,45 @@
+/**
+ * Idempotency-Key support for the webhook.
+ *
+ * The frontend sends a unique key with every submission and reuses it
+ * when retrying. Successful responses are remembered per key, so a retry
+ * of a request that was already processed (e.g. the connection dropped
+ * before the response arrived) replays the first response instead of
+ * capturing the emails twice.
+ */
+
+/** Request header carrying the key. */
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+/** How long keys are remembered. */
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CachedResponse {
+  status: number;
+  body: unknown;
+  expiresAt: number;
+}
+
+export interface IdempotencyStore {
+  get(key: string): { status: number; body: unknown } | undefined;
+  set(key: string, status: number, body: unknown): void;
+}
+
+export function createIdempotencyStore(ttlMs = TTL_MS): IdempotencyStore {
+  const responses = new Map<string, CachedResponse>();
+
+  return {
+    get(key) {
+      const cached = responses.get(key);
+      if (cached && cached.expiresAt < Date.now()) {
+        responses.delete(key);
+        return undefined;
+      }
+      return cached;
+    },
+
+    set(key, status, body) {
+      responses.set(key, { status, body, expiresAt: Date.now() + ttlMs });
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Captured-mail inbox. "Sent" emails are kept in memory and, when a file
+ * is configured, persisted as JSON so they survive restarts.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export interface InboxMessage {
+  id: string;
+  /** When the message was captured (ISO 8601) */
+  receivedAt: string;
+  /** Scheduled delivery time from the payload, if any (ISO 8601) */
+  scheduledFor?: string;
+  from: string;
+  to: string;
+  subject: string;
+  body: string;
+  holiday: string;
+  language: string;
+  /** Name of the recipient group, if the campaign named it */
+  group?: string;
+  /** Holiday card sent with the email; only its details are kept */
+  attachment?: { filename: string; contentType: string; size: number };
+  /** Whether the body was a reviewed draft rather than generated on send */
+  fromDraft: boolean;
+  /** Whether the email came from a test send */
+  test?: boolean;
+}
+
+export interface Inbox {
+  list(): InboxMessage[];
+  add(messages: Omit<InboxMessage, "id" | "receivedAt">[]): InboxMessage[];
+  clear(): void;
+}
+
+/**
+ * Creates an inbox backed by `file` (or memory only when `file` is empty).
+ */
+export function createInbox(file: string): Inbox {
+  let messages: InboxMessage[] = [];
+  let nextId = 1;
+
+  if (file && fs.existsSync(file)) {
+    try {
+      messages = JSON.parse(fs.readFileSync(file, "utf8"));
+      nextId = messages.reduce((max, message) => Math.max(max, Number(message.id) || 0), 0) + 1;
+    } catch {
+      console.warn(`⚠️  Could not read ${file}; starting with an empty inbox.`);
+    }
+  }
+
+  const save = () => {
+    if (!file) return;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(messages, null, 2));
+  };
+
+  return {
+    list: () => [...messages].reverse(),
+
+    add(incoming) {
+      const receivedAt = new Date().toISOString();
+      const added = incoming.map((message) => ({ ...message, id: String(nextId++), receivedAt }));
+      messages.push(...added);
+      save();
+      return added;
+    },
+
+    clear() {
+      messages = [];
+      save();
+    },
+  };
+}
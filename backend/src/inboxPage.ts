@@ -0,0 +1,99 @@
+/**
+ * Minimal HTML view of the captured-mail inbox, served at /inbox.
+ * Styled to match the frontend's dark theme; no client-side JavaScript.
+ */
+
+import { Config } from "./config";
+import { InboxMessage } from "./inbox";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderMessage(message: InboxMessage): string {
+  const badges = [
+    message.test ? "test send" : "",
+    message.group ?? "",
+    message.language,
+    message.fromDraft ? "reviewed draft" : "generated",
+    message.attachment ? `📎 ${message.attachment.filename} (${Math.ceil(message.attachment.size / 1024)} KB)` : "",
+    message.scheduledFor ? `scheduled for ${new Date(message.scheduledFor).toUTCString()}` : "",
+  ]
+    .filter(Boolean)
+    .map((badge) => `<span class="badge">${escapeHtml(badge)}</span>`)
+    .join("");
+
+  return `
+    <details>
+      <summary>
+        <span class="to">${escapeHtml(message.to)}</span>
+        <span class="subject">${escapeHtml(message.subject)}</span>
+        <span class="date">${escapeHtml(new Date(message.receivedAt).toLocaleString())}</span>
+      </summary>
+      <div class="meta">
+        From ${escapeHtml(message.from)} · ${escapeHtml(message.holiday)} ${badges}
+        <form method="post" action="/inbox/unsubscribe" class="unsubscribe">
+          <input type="hidden" name="email" value="${escapeHtml(message.to)}">
+          <button type="submit">Simulate unsubscribe</button>
+        </form>
+      </div>
+      <pre>${escapeHtml(message.body)}</pre>
+    </details>`;
+}
+
+/**
+ * Renders the inbox page.
+ */
+export function renderInboxPage(messages: InboxMessage[], config: Config): string {
+  const failure =
+    config.failureRate > 0
+      ? `${Math.round(config.failureRate * 100)}% → ${config.failureStatus === "network" ? "network error" : `HTTP ${config.failureStatus}`}`
+      : "off";
+  const latency =
+    config.latency.max > 0
+      ? config.latency.min === config.latency.max
+        ? `${config.latency.min} ms`
+        : `${config.latency.min}–${config.latency.max} ms`
+      : "off";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Mock inbox (${messages.length})</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; max-width: 56rem; margin: 2rem auto; padding: 0 1rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    .info { color: #94a3b8; font-size: 0.8rem; display: flex; gap: 1rem; flex-wrap: wrap; align-items: center; }
+    code { color: #cbd5e1; }
+    details { background: #1e293b; border: 1px solid #334155; border-radius: 0.5rem; margin: 0.5rem 0; }
+    summary { cursor: pointer; padding: 0.75rem 1rem; display: flex; gap: 1rem; }
+    .to { color: #60a5fa; min-width: 14rem; }
+    .subject { flex: 1; }
+    .date, .meta { color: #94a3b8; font-size: 0.8rem; }
+    .meta { padding: 0 1rem; }
+    .unsubscribe { display: inline; margin-left: 0.5rem; }
+    .unsubscribe button { font-size: 0.7rem; padding: 0 0.5rem; }
+    .badge { border: 1px solid #475569; border-radius: 999px; padding: 0 0.5rem; margin-left: 0.25rem; }
+    pre { white-space: pre-wrap; font-family: inherit; padding: 0.5rem 1rem 1rem; margin: 0; }
+    button { background: none; border: 1px solid #475569; color: #cbd5e1; border-radius: 0.375rem; padding: 0.25rem 0.75rem; cursor: pointer; }
+    .empty { color: #64748b; text-align: center; padding: 3rem 0; }
+  </style>
+</head>
+<body>
+  <h1>📬 Mock inbox</h1>
+  <div class="info">
+    <span>Webhook: <code>POST ${escapeHtml(config.webhookPath)}</code></span>
+    <span>Latency: ${latency}</span>
+    <span>Failures: ${failure}</span>
+    <span>Jobs: ${config.jobs ? "on" : "off"}</span>
+    <form method="post" action="/inbox/clear"><button type="submit">Clear inbox</button></form>
+  </div>
+  ${messages.length === 0 ? '<p class="empty">No emails captured yet.</p>' : messages.map(renderMessage).join("")}
+</body>
+</html>`;
+}
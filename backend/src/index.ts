@@ -0,0 +1,21 @@
+/**
+ * Entry point of the mock backend.
+ */
+
+import { createApp } from "./app";
+import { loadConfig } from "./config";
+import { createInbox } from "./inbox";
+import { createJobRunner } from "./jobs";
+import { createSuppressionLog } from "./suppressions";
+
+const config = loadConfig();
+const inbox = createInbox(config.inboxFile);
+const suppressions = createSuppressionLog();
+const jobs = createJobRunner(inbox, suppressions, config.jobStepMs);
+
+createApp(config, inbox, jobs, suppressions).listen(config.port, () => {
+  const base = `http://localhost:${config.port}`;
+  console.log(`🎄 Mock holiday email backend running`);
+  console.log(`   Webhook: POST ${base}${config.webhookPath}`);
+  console.log(`   Inbox:   ${base}/inbox`);
+});
@@ -0,0 +1,128 @@
+/**
+ * Simulated asynchronous delivery jobs (enabled with MOCK_JOBS=true).
+ *
+ * Instead of capturing all emails at once, a job walks through the
+ * recipients one step at a time (pending → generated → sent) so the
+ * frontend's progress panel can be exercised. Addresses whose local part
+ * contains "bounce" or "fail" end up bounced or failed, respectively (in
+ * synchronous sends too, see outcomeFor); bounces are reported to the
+ * suppression log.
+ */
+
+import { JobStatusResponse, RecipientDeliveryStatus } from "../../shared/schema";
+import { Inbox, InboxMessage } from "./inbox";
+import { SuppressionLog } from "./suppressions";
+
+type Outgoing = Omit<InboxMessage, "id" | "receivedAt">;
+
+interface Job {
+  body: JobStatusResponse;
+  outgoing: Outgoing[];
+  listeners: Set<(body: JobStatusResponse) => void>;
+}
+
+export interface JobRunner {
+  /** Starts a job for the given emails and returns its id */
+  start(outgoing: Outgoing[]): string;
+  /** Returns the current status of a job */
+  get(id: string): JobStatusResponse | undefined;
+  /** Calls `listener` on every change until the job finishes; returns an unsubscribe function */
+  subscribe(id: string, listener: (body: JobStatusResponse) => void): () => void;
+}
+
+/**
+ * Returns the final delivery status for an address.
+ */
+export function outcomeFor(email: string): { status: RecipientDeliveryStatus; error?: string } {
+  const local = email.split("@")[0].toLowerCase();
+  if (local.includes("bounce")) return { status: "bounced", error: "550 Mailbox unavailable (simulated)" };
+  if (local.includes("fail")) return { status: "failed", error: "SMTP connection refused (simulated)" };
+  return { status: "sent" };
+}
+
+export function isFinished(body: JobStatusResponse): boolean {
+  return body.status === "completed" || body.status === "failed";
+}
+
+/**
+ * Creates a job runner that captures sent emails into `inbox`, advancing
+ * one recipient step every `stepMs`.
+ */
+export function createJobRunner(inbox: Inbox, suppressions: SuppressionLog, stepMs: number): JobRunner {
+  const jobs = new Map<string, Job>();
+  let nextId = 1;
+
+  const publish = (job: Job) => {
+    const snapshot = structuredClone(job.body);
+    job.listeners.forEach((listener) => listener(snapshot));
+  };
+
+  /**
+   * Advances a job by one step: the first pending recipient is generated,
+   * or the first generated one is delivered.
+   */
+  const step = (job: Job) => {
+    const { body } = job;
+    body.status = "running";
+
+    const generated = body.recipients.findIndex((r) => r.status === "generated");
+    const pending = body.recipients.findIndex((r) => r.status === "pending");
+
+    if (generated !== -1) {
+      const recipient = body.recipients[generated];
+      Object.assign(recipient, outcomeFor(recipient.email));
+      if (recipient.status === "sent") {
+        inbox.add([job.outgoing[generated]]);
+      } else if (recipient.status === "bounced") {
+        suppressions.add(recipient.email, "bounced", recipient.error);
+      }
+    } else if (pending !== -1) {
+      body.recipients[pending].status = "generated";
+    }
+
+    if (body.recipients.every((r) => r.status !== "pending" && r.status !== "generated")) {
+      const delivered = body.recipients.some((r) => r.status === "sent");
+      body.status = delivered || body.recipients.length === 0 ? "completed" : "failed";
+      if (!delivered && body.recipients.length > 0) {
+        body.error = "None of the emails could be delivered.";
+      }
+    }
+
+    publish(job);
+    if (isFinished(body)) {
+      job.listeners.clear();
+    } else {
+      setTimeout(() => step(job), stepMs);
+    }
+  };
+
+  return {
+    start(outgoing) {
+      const id = `job-${Date.now().toString(36)}-${nextId++}`;
+      const job: Job = {
+        body: {
+          job_id: id,
+          status: "queued",
+          recipients: outgoing.map((message) => ({ email: message.to, status: "pending" })),
+        },
+        outgoing,
+        listeners: new Set(),
+      };
+      jobs.set(id, job);
+      setTimeout(() => step(job), stepMs);
+      return id;
+    },
+
+    get(id) {
+      const job = jobs.get(id);
+      return job && structuredClone(job.body);
+    },
+
+    subscribe(id, listener) {
+      const job = jobs.get(id);
+      if (!job || isFinished(job.body)) return () => undefined;
+      job.listeners.add(listener);
+      return () => job.listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Helpers for the webhook payload. The payload type and its validator
+ * live in shared/schema.ts, shared with the frontend.
+ */
+
+export type { RecipientDetail, RecipientGroup, WebhookPayload } from "../../shared/schema";
+export { listPayloadRecipients } from "../../shared/schema";
@@ -0,0 +1,50 @@
+/**
+ * Signature checks for requests forwarded by the proxy (see proxy/ and
+ * shared/signature.ts). Enabled by setting WEBHOOK_SECRET to the proxy's
+ * secret; the mock then behaves like a workflow that only accepts signed
+ * requests.
+ */
+
+import { IncomingMessage } from "http";
+import { NextFunction, Request, Response } from "express";
+import { createErrorResponse } from "../../shared/schema";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from "../../shared/signature";
+
+/**
+ * The raw body of a JSON request, kept because signatures cover the
+ * exact bytes sent rather than the parsed JSON.
+ */
+const rawBodies = new WeakMap<IncomingMessage, string>();
+
+/**
+ * `verify` option for express.json() that keeps the raw body.
+ */
+export function keepRawBody(req: IncomingMessage, _res: unknown, buffer: Buffer): void {
+  rawBodies.set(req, buffer.toString("utf8"));
+}
+
+/**
+ * Returns middleware rejecting requests without a valid signature with
+ * 401. Passes everything through when no secret is configured.
+ */
+export function requireSignature(secret: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!secret) {
+      next();
+      return;
+    }
+
+    const error = verifySignature(
+      secret,
+      rawBodies.get(req) ?? "",
+      req.get(SIGNATURE_HEADER),
+      req.get(TIMESTAMP_HEADER)
+    );
+    if (error) {
+      console.log(`🔒 Rejected unsigned or tampered request: ${error}`);
+      res.status(401).json(createErrorResponse("invalid_signature", error));
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Addresses that bounced or unsubscribed, reported to the frontend at
+ * GET <webhook path>/suppressions so it can add them to its suppression
+ * list. Kept in memory only; the frontend keeps its own copy.
+ */
+
+import { ReportedSuppression, SuppressionReason } from "../../shared/schema";
+
+export interface SuppressionLog {
+  /** Records an address; a later report for the same address replaces it */
+  add(email: string, reason: SuppressionReason, note?: string): void;
+  /** Returns the reports, oldest first, optionally only those after `since` */
+  list(since?: Date): ReportedSuppression[];
+}
+
+export function createSuppressionLog(): SuppressionLog {
+  const reports = new Map<string, ReportedSuppression>();
+
+  return {
+    add(email, reason, note) {
+      const key = email.trim().toLowerCase();
+      reports.delete(key);
+      reports.set(key, {
+        email: email.trim(),
+        reason,
+        reported_at: new Date().toISOString(),
+        ...(note && { note }),
+      });
+      console.log(`🚫 ${email} ${reason}`);
+    },
+
+    list(since) {
+      const all = Array.from(reports.values());
+      return since ? all.filter((report) => new Date(report.reported_at) > since) : all;
+    },
+  };
+}
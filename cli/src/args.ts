@@ -0,0 +1,114 @@
+/**
+ * Command-line arguments of holiday-send.
+ */
+
+import { parseArgs } from "util";
+import { CliError, EXIT_USAGE } from "./errors";
+
+export interface Options {
+  /** Campaign file (YAML or JSON) */
+  campaignFile: string;
+  /** Webhook URL; wins over the campaign's `webhook_url` and HOLIDAY_WEBHOOK_URL */
+  webhookUrl?: string;
+  /** Header sent with the request, e.g. Authorization for the proxy */
+  header?: { name: string; value: string };
+  /** File with addresses that must not be emailed */
+  suppressionsFile?: string;
+  /** Reused by reruns of the same campaign so the backend can spot duplicates */
+  idempotencyKey?: string;
+  /** Validate and build the payload without sending it */
+  dryRun: boolean;
+  /** Print one JSON document instead of text */
+  json: boolean;
+  help: boolean;
+}
+
+export const USAGE = `Usage: holiday-send <campaign.yaml> [options]
+
+Validates a campaign file and sends it to the holiday email webhook.
+
+Options:
+  --webhook <url>           Webhook URL (default: the campaign's webhook_url,
+                            then HOLIDAY_WEBHOOK_URL)
+  --header "<name>: <value>"
+                            Header sent with the request, e.g. an Authorization
+                            header for the proxy (default: HOLIDAY_WEBHOOK_HEADER)
+  --suppressions <file>     CSV of addresses never to email, e.g. exported from
+                            the Suppressions tab
+  --idempotency-key <key>   Key for this campaign; reruns with the same key
+                            aren't sent twice by backends that support it
+  --dry-run                 Validate and print the payload without sending it
+  --json                    Print the result as JSON
+  -h, --help                Show this help
+
+Exit codes:
+  0  sent (or valid, with --dry-run)
+  1  the webhook rejected the campaign
+  2  usage error
+  3  invalid campaign, recipients or suppressions file
+  4  the webhook is unreachable or failed temporarily; try again later
+  5  unexpected error`;
+
+/**
+ * Parses "Name: value" into a header.
+ */
+function parseHeader(value: string): { name: string; value: string } {
+  const colon = value.indexOf(":");
+  const name = colon === -1 ? "" : value.slice(0, colon).trim();
+  if (!name) {
+    throw new CliError(`Invalid header "${value}"; expected "Name: value".`, EXIT_USAGE);
+  }
+  return { name, value: value.slice(colon + 1).trim() };
+}
+
+/**
+ * Reads the options from the command-line arguments (without the node
+ * and script paths) and the environment.
+ */
+export function parseOptions(args: string[], env: NodeJS.ProcessEnv = process.env): Options {
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(args);
+  } catch (error) {
+    throw new CliError((error as Error).message, EXIT_USAGE);
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    return { campaignFile: "", dryRun: false, json: false, help: true };
+  }
+  if (positionals.length !== 1) {
+    throw new CliError(
+      positionals.length === 0 ? "Missing campaign file." : "Expected a single campaign file.",
+      EXIT_USAGE
+    );
+  }
+
+  const header = values.header ?? env.HOLIDAY_WEBHOOK_HEADER;
+  return {
+    campaignFile: positionals[0],
+    webhookUrl: values.webhook,
+    header: header ? parseHeader(header) : undefined,
+    suppressionsFile: values.suppressions,
+    idempotencyKey: values["idempotency-key"],
+    dryRun: values["dry-run"] ?? false,
+    json: values.json ?? false,
+    help: false,
+  };
+}
+
+function parse(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      webhook: { type: "string" },
+      header: { type: "string" },
+      suppressions: { type: "string" },
+      "idempotency-key": { type: "string" },
+      "dry-run": { type: "boolean" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
@@ -0,0 +1,246 @@
+/**
+ * Campaign files for holiday-send.
+ *
+ * A campaign file is YAML (or JSON, which is valid YAML) with the
+ * payload's field names (see the API contract in the main README):
+ *
+ *   holiday_name: Diwali
+ *   sender_name: Priya Sharma
+ *   audience_type: business        # campaign defaults for the groups
+ *   language: en
+ *   tone: warm
+ *   send_at: 2026-11-08T09:00      # optional, wall-clock time in `timezone`
+ *   timezone: Asia/Kolkata         # defaults to this machine's timezone
+ *   card: card.jpg                 # optional holiday card image
+ *   note: "Thanks for a great year, {{first_name}}!"   # optional personal note
+ *   webhook_url: https://…         # optional
+ *   groups:
+ *     - name: Clients
+ *       tone: formal
+ *       recipients_file: clients.csv
+ *     - name: Family
+ *       audience_type: personal
+ *       language: hi
+ *       recipients: [ravi@example.com, meera@example.com]
+ *
+ * A campaign with one group can list `recipients` / `recipients_file` at
+ * the top level instead of `groups`. Files are resolved relative to the
+ * campaign file. Recipients files are read like the form's contact import
+ * (CSV, TSV or vCard), so their name and company columns fill in the
+ * recipient details and their other columns are merge fields for the note.
+ */
+
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { ATTACHMENT_CONTENT_TYPES, MAX_ATTACHMENT_BYTES, PayloadAttachment } from "../../shared/schema";
+import { CampaignContext } from "../../frontend/src/lib/campaign";
+import {
+  ImportedContact,
+  guessColumnMapping,
+  mapContacts,
+  parseContactFile,
+} from "../../frontend/src/lib/contactImport";
+import { createRecipientGroup, RecipientGroupFields } from "../../frontend/src/lib/groups";
+import { getBrowserTimeZone } from "../../frontend/src/lib/schedule";
+import { FormFields, extractEmails } from "../../frontend/src/lib/validation";
+import { CliError, EXIT_INVALID } from "./errors";
+
+/**
+ * A campaign read from a file, ready for validateCampaign and
+ * buildCampaignPayload.
+ */
+export interface Campaign {
+  fields: FormFields;
+  context: CampaignContext;
+  /** The file's `webhook_url`, if any */
+  webhookUrl?: string;
+  /** Problems that don't stop the campaign, e.g. skipped rows of a recipients file */
+  warnings: string[];
+}
+
+/** Content types of the card images, by file extension. */
+const CARD_CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+function invalid(message: string): CliError {
+  return new CliError(message, EXIT_INVALID);
+}
+
+function readText(file: string): string {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch (error) {
+    throw invalid(`Can't read ${file}: ${(error as NodeJS.ErrnoException).code ?? (error as Error).message}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads an optional text setting, e.g. `tone`.
+ */
+function readString(data: Record<string, unknown>, key: string, where: string): string {
+  const value = data[key];
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw invalid(`${where}${key} must be text.`);
+  }
+  return String(value).trim();
+}
+
+/**
+ * Reads the contacts of a recipients file; rows without a valid address
+ * are skipped with a warning.
+ */
+function readRecipientsFile(file: string, warnings: string[]): ImportedContact[] {
+  const table = parseContactFile(file, readText(file));
+  const mapping = guessColumnMapping(table);
+  if (mapping.email === null) {
+    throw invalid(`${file} has no email column.`);
+  }
+
+  const contacts = mapContacts(table, mapping);
+  contacts
+    .filter((contact) => !contact.valid)
+    .forEach((contact) => warnings.push(`${file} row ${contact.row}: "${contact.email}" isn't a valid address; skipped.`));
+  return contacts.filter((contact) => contact.valid);
+}
+
+/**
+ * Reads a group's recipients: a list or comma-separated text in
+ * `recipients`, and/or the contacts of `recipients_file`.
+ */
+function readGroup(
+  data: Record<string, unknown>,
+  where: string,
+  baseDir: string,
+  contactDetails: Record<string, ImportedContact>,
+  warnings: string[]
+): RecipientGroupFields {
+  const listed = data.recipients ?? [];
+  if (!Array.isArray(listed) && typeof listed !== "string") {
+    throw invalid(`${where}recipients must be a list of addresses.`);
+  }
+  const recipients = (Array.isArray(listed) ? listed : [listed]).flatMap((entry) => extractEmails(String(entry)));
+
+  const recipientsFile = readString(data, "recipients_file", where);
+  if (recipientsFile) {
+    for (const contact of readRecipientsFile(path.resolve(baseDir, recipientsFile), warnings)) {
+      recipients.push(contact.email);
+      contactDetails[contact.email.toLowerCase()] = contact;
+    }
+  }
+
+  return {
+    ...createRecipientGroup(recipients.join("\n")),
+    name: readString(data, "name", where),
+    audienceType: readString(data, "audience_type", where),
+    language: readString(data, "language", where),
+    tone: readString(data, "tone", where),
+  };
+}
+
+/**
+ * Reads the holiday card image. Unlike the form, the CLI doesn't resize
+ * images, so the file must already be small enough.
+ */
+function readCard(file: string): PayloadAttachment {
+  const contentType = CARD_CONTENT_TYPES[path.extname(file).toLowerCase()];
+  if (!contentType || !ATTACHMENT_CONTENT_TYPES.includes(contentType)) {
+    throw invalid(`${file}: the card must be a JPEG, PNG or WebP image.`);
+  }
+
+  let data: Buffer;
+  try {
+    data = fs.readFileSync(file);
+  } catch (error) {
+    throw invalid(`Can't read ${file}: ${(error as NodeJS.ErrnoException).code ?? (error as Error).message}`);
+  }
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    throw invalid(`${file} is ${Math.ceil(data.length / 1024)} KB; the card can be at most ${MAX_ATTACHMENT_BYTES / 1024} KB.`);
+  }
+  return { filename: path.basename(file), content_type: contentType, data: data.toString("base64") };
+}
+
+/**
+ * Reads a campaign file. Throws a CliError (EXIT_INVALID) when the file
+ * can't be read or doesn't have the expected shape; the values themselves
+ * are checked by validateCampaign.
+ */
+export function loadCampaign(file: string): Campaign {
+  let data: unknown;
+  try {
+    data = YAML.parse(readText(file));
+  } catch (error) {
+    if (error instanceof CliError) throw error;
+    throw invalid(`${file} isn't valid YAML or JSON: ${(error as Error).message}`);
+  }
+  if (!isRecord(data)) {
+    throw invalid(`${file} must contain the campaign's settings (holiday_name, sender_name, groups…).`);
+  }
+
+  const baseDir = path.dirname(path.resolve(file));
+  const contactDetails: Record<string, ImportedContact> = {};
+  const warnings: string[] = [];
+
+  let groups: RecipientGroupFields[];
+  if (data.groups !== undefined) {
+    if (data.recipients !== undefined || data.recipients_file !== undefined) {
+      throw invalid("Use either groups or top-level recipients, not both.");
+    }
+    if (!Array.isArray(data.groups) || !data.groups.every(isRecord)) {
+      throw invalid("groups must be a list of groups.");
+    }
+    groups = data.groups.map((group, index) =>
+      readGroup(group, `groups[${index}].`, baseDir, contactDetails, warnings)
+    );
+  } else {
+    groups = [readGroup(data, "", baseDir, contactDetails, warnings)];
+  }
+
+  const card = readString(data, "card", "");
+  return {
+    fields: {
+      holidayName: readString(data, "holiday_name", ""),
+      senderName: readString(data, "sender_name", ""),
+      audienceType: readString(data, "audience_type", "") || "business",
+      language: readString(data, "language", "") || "en",
+      tone: readString(data, "tone", ""),
+      groups,
+      // Accept "2026-11-08 09:00" as well as the datetime-local format
+      sendAt: readString(data, "send_at", "").replace(" ", "T"),
+      timezone: readString(data, "timezone", "") || getBrowserTimeZone(),
+      note: readString(data, "note", ""),
+    },
+    context: {
+      contactDetails,
+      attachment: card ? readCard(path.resolve(baseDir, card)) : null,
+    },
+    webhookUrl: readString(data, "webhook_url", "") || undefined,
+    warnings,
+  };
+}
+
+/**
+ * Reads the addresses that must not be emailed from a CSV file with an
+ * email column (such as an export of the Suppressions tab).
+ */
+export function loadSuppressions(file: string): Set<string> {
+  const table = parseContactFile(file, readText(file));
+  const mapping = guessColumnMapping(table);
+  if (mapping.email === null) {
+    throw invalid(`${file} has no email column.`);
+  }
+  return new Set(
+    mapContacts(table, mapping)
+      .filter((contact) => contact.valid)
+      .map((contact) => contact.email.toLowerCase())
+  );
+}
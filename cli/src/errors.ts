@@ -0,0 +1,34 @@
+/**
+ * Exit codes and errors of holiday-send.
+ *
+ * Scripts and cron jobs can tell failures apart by exit code, and retry
+ * only the ones worth retrying (EXIT_UNAVAILABLE).
+ */
+
+/** Sent, or valid with --dry-run. */
+export const EXIT_OK = 0;
+
+/** The webhook rejected the campaign; sending it again won't help. */
+export const EXIT_REJECTED = 1;
+
+/** Bad command-line arguments, or no webhook URL. */
+export const EXIT_USAGE = 2;
+
+/** The campaign file (or a file it refers to) is unreadable or invalid. */
+export const EXIT_INVALID = 3;
+
+/** The webhook couldn't be reached or failed temporarily; try again later. */
+export const EXIT_UNAVAILABLE = 4;
+
+/** Anything else (a bug); the stack trace is printed. */
+export const EXIT_INTERNAL = 5;
+
+/**
+ * An error that ends the run with a specific exit code.
+ */
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+    this.name = "CliError";
+  }
+}
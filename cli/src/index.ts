@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+/**
+ * holiday-send: validates a campaign file and sends it to the holiday
+ * email webhook, for campaigns run by scripts and cron jobs.
+ *
+ *   holiday-send campaign.yaml --dry-run
+ *   holiday-send campaign.yaml --webhook https://example.com/webhook/holiday --json
+ *
+ * Validation and payload building are the form's (frontend/src/lib/campaign.ts),
+ * so a campaign sent from here reaches the webhook exactly as if it had
+ * been entered in the browser. See USAGE in args.ts for the options and
+ * exit codes.
+ */
+
+import { WebhookPayload } from "../../shared/schema";
+import { buildCampaignPayload, describeDelivery, validateCampaign } from "../../frontend/src/lib/campaign";
+import { cleanGroupRecipients } from "../../frontend/src/lib/validation";
+import { Options, USAGE, parseOptions } from "./args";
+import { Campaign, loadCampaign, loadSuppressions } from "./campaignFile";
+import {
+  CliError,
+  EXIT_INTERNAL,
+  EXIT_INVALID,
+  EXIT_OK,
+  EXIT_REJECTED,
+  EXIT_UNAVAILABLE,
+  EXIT_USAGE,
+} from "./errors";
+import { sendPayload } from "./send";
+
+/** Form field names as written in campaign files. */
+const FILE_FIELD_NAMES: Record<string, string> = {
+  holidayName: "holiday_name",
+  senderName: "sender_name",
+  sendAt: "send_at",
+  timezone: "timezone",
+};
+
+/**
+ * Renames validation error keys to campaign file fields, e.g.
+ * "groups.1.recipients" → "groups[1].recipients".
+ */
+function toFileErrors(errors: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(errors).map(([key, message]) => [
+      FILE_FIELD_NAMES[key] ?? key.replace(/^groups\.(\d+)\./, "groups[$1]."),
+      message,
+    ])
+  );
+}
+
+/**
+ * Describes a payload's groups, one line per group.
+ */
+function describeGroups(payload: WebhookPayload): string[] {
+  return payload.groups.map(
+    (group, index) =>
+      `  ${group.name ?? `Group ${index + 1}`}: ${group.recipients.length} (${group.audience_type}, ${group.language}, ${group.tone})`
+  );
+}
+
+/**
+ * The payload as printed by a text dry run, without the card's image data.
+ */
+function printablePayload(payload: WebhookPayload): WebhookPayload {
+  return payload.attachment
+    ? { ...payload, attachment: { ...payload.attachment, data: `<${payload.attachment.data.length} base64 characters>` } }
+    : payload;
+}
+
+/**
+ * Ends the run with a failure: a message (and field errors) on stderr, or
+ * a JSON document with --json.
+ */
+function fail(options: Pick<Options, "json">, error: CliError, details: Record<string, unknown> = {}): number {
+  if (options.json) {
+    console.log(JSON.stringify({ ok: false, exit_code: error.exitCode, error: error.message, ...details }, null, 2));
+  } else {
+    console.error(`error: ${error.message}`);
+    const fieldErrors = details.field_errors as Record<string, string> | undefined;
+    Object.entries(fieldErrors ?? {}).forEach(([field, message]) => console.error(`  ${field}: ${message}`));
+  }
+  return error.exitCode;
+}
+
+async function run(options: Options): Promise<number> {
+  const suppressed = options.suppressionsFile ? loadSuppressions(options.suppressionsFile) : new Set<string>();
+  const campaign: Campaign = loadCampaign(options.campaignFile);
+  const context = { ...campaign.context, suppressed };
+
+  const webhookUrl = options.webhookUrl ?? campaign.webhookUrl ?? process.env.HOLIDAY_WEBHOOK_URL;
+  if (!webhookUrl && !options.dryRun) {
+    return fail(
+      options,
+      new CliError("No webhook URL: pass --webhook, set webhook_url in the campaign or HOLIDAY_WEBHOOK_URL.", EXIT_USAGE)
+    );
+  }
+
+  const validation = validateCampaign(campaign.fields, context);
+  if (!validation.valid) {
+    return fail(options, new CliError(`${options.campaignFile} has invalid fields.`, EXIT_INVALID), {
+      field_errors: toFileErrors(validation.errors),
+    });
+  }
+
+  const payload = buildCampaignPayload(campaign.fields, context, "send");
+  const recipientCount = payload.groups.reduce((sum, group) => sum + group.recipients.length, 0);
+  const skipped = cleanGroupRecipients(campaign.fields.groups).filter((email) => suppressed.has(email.toLowerCase()));
+  const summary = {
+    recipients: recipientCount,
+    suppressed: skipped,
+    warnings: campaign.warnings,
+    delivery: describeDelivery(payload),
+  };
+
+  if (!options.json) {
+    console.log(
+      `${payload.holiday_name} from ${payload.sender_name}: ${recipientCount} recipient(s) in ${payload.groups.length} group(s)`
+    );
+    describeGroups(payload).forEach((line) => console.log(line));
+    if (skipped.length > 0) console.log(`Skipping ${skipped.length} suppressed address(es).`);
+    campaign.warnings.forEach((warning) => console.warn(`warning: ${warning}`));
+    console.log(summary.delivery);
+  }
+
+  if (options.dryRun) {
+    if (options.json) {
+      console.log(JSON.stringify({ ok: true, dry_run: true, ...summary, payload }, null, 2));
+    } else {
+      console.log(JSON.stringify(printablePayload(payload), null, 2));
+      console.log("Dry run: nothing was sent.");
+    }
+    return EXIT_OK;
+  }
+
+  const outcome = await sendPayload(webhookUrl!, payload, {
+    header: options.header,
+    idempotencyKey: options.idempotencyKey,
+  });
+
+  if (!outcome.ok) {
+    return fail(
+      options,
+      new CliError(outcome.error.message, outcome.transient ? EXIT_UNAVAILABLE : EXIT_REJECTED),
+      {
+        status: outcome.status,
+        code: outcome.error.code,
+        ...(outcome.error.field_errors && { field_errors: outcome.error.field_errors }),
+        idempotency_key: outcome.idempotencyKey,
+      }
+    );
+  }
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          ok: true,
+          dry_run: false,
+          ...summary,
+          status: outcome.status,
+          idempotency_key: outcome.idempotencyKey,
+          response: outcome.response,
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    const job = outcome.response?.job_id !== undefined ? `, job ${outcome.response.job_id}` : "";
+    console.log(`Accepted by ${webhookUrl} (HTTP ${outcome.status}${job}).`);
+  }
+  return EXIT_OK;
+}
+
+async function main(): Promise<number> {
+  let options: Options;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`error: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    return await run(options);
+  } catch (error) {
+    if (error instanceof CliError) return fail(options, error);
+    throw error;
+  }
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = EXIT_INTERNAL;
+  }
+);
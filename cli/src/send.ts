@@ -0,0 +1,100 @@
+/**
+ * Posting a campaign to the webhook.
+ *
+ * Unlike the browser, the CLI doesn't retry or queue: it reports the
+ * outcome once and leaves retrying transient failures to the calling
+ * script or cron job (see EXIT_UNAVAILABLE).
+ */
+
+import { randomUUID } from "crypto";
+import { ErrorResponse, SendResponse, WebhookPayload, parseErrorResponse } from "../../shared/schema";
+import { CliError, EXIT_UNAVAILABLE } from "./errors";
+
+/** Header carrying the idempotency key, as sent by the frontend. */
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+/** Statuses worth trying again later (the frontend retries the same ones). */
+const TRANSIENT_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+/** How long to wait for the webhook; Render free services can take a while to wake up. */
+const TIMEOUT_MS = 90_000;
+
+export interface SendOptions {
+  /** Extra header, e.g. Authorization for the proxy */
+  header?: { name: string; value: string };
+  /** Defaults to a random key */
+  idempotencyKey?: string;
+}
+
+/**
+ * What the webhook answered.
+ */
+export type SendOutcome =
+  | { ok: true; status: number; idempotencyKey: string; response: SendResponse | null }
+  | {
+      ok: false;
+      status: number;
+      idempotencyKey: string;
+      error: ErrorResponse["error"];
+      /** Whether trying again later may succeed */
+      transient: boolean;
+    };
+
+/**
+ * POSTs a payload to the webhook. Throws a CliError (EXIT_UNAVAILABLE)
+ * when the webhook can't be reached or doesn't answer in time.
+ */
+export async function sendPayload(
+  webhookUrl: string,
+  payload: WebhookPayload,
+  { header, idempotencyKey = randomUUID() }: SendOptions = {}
+): Promise<SendOutcome> {
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...(header && { [header.name]: header.value }),
+        [IDEMPOTENCY_HEADER]: idempotencyKey,
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    text = await response.text();
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+    throw new CliError(
+      timedOut ? `${webhookUrl} didn't answer within ${TIMEOUT_MS / 1000} seconds.` : `Can't reach ${webhookUrl}.`,
+      EXIT_UNAVAILABLE
+    );
+  }
+
+  let body: unknown = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Not JSON; an empty or plain-text 2xx body is still a success
+  }
+
+  if (response.ok) {
+    return {
+      ok: true,
+      status: response.status,
+      idempotencyKey,
+      response: typeof body === "object" && body !== null ? (body as SendResponse) : null,
+    };
+  }
+  return {
+    ok: false,
+    status: response.status,
+    idempotencyKey,
+    error: parseErrorResponse(body) ?? {
+      code: "http_error",
+      message: `The webhook answered with HTTP ${response.status}${text && !body ? `: ${text.slice(0, 200)}` : "."}`,
+    },
+    transient: TRANSIENT_STATUSES.has(response.status),
+  };
+}
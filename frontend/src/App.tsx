@@ -1,13 +1,87 @@
+import { useEffect, useMemo, useState } from 'react';
 import { Form } from './components/Form';
 import { Alert } from './components/Alert';
-import { WEBHOOK_URL, isWebhookUrlUnconfigured, getBackendLabel } from './config';
+import { History } from './components/History';
+import { OutboxStatus } from './components/OutboxStatus';
+import { BackendSettings } from './components/BackendSettings';
+import { SuppressionList } from './components/SuppressionList';
+import { ContactBook } from './components/ContactBook';
+import { BackendHealth } from './components/BackendHealth';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { Trans, useLocale } from './components/Trans';
+import { CampaignRecord } from './lib/history';
+import {
+  ProfileSettings,
+  getActiveProfile,
+  getSendingLimits,
+  loadProfileSettings,
+  saveProfileSettings,
+} from './lib/profiles';
+import { Capabilities, fetchCapabilities, loadCachedCapabilities, withoutFeatures } from './lib/capabilities';
+import { getProfileAdapter } from './lib/adapters';
+import { MessageKey, formatDate, t } from './lib/i18n';
+import { isWebhookUrlUnconfigured, getBackendLabel } from './config';
+
+/**
+ * Top-level views of the app.
+ */
+type View = 'compose' | 'contacts' | 'history' | 'suppressions' | 'settings';
+
+const TAB_LABELS: Record<View, MessageKey> = {
+  compose: 'app.tab.compose',
+  contacts: 'app.tab.contacts',
+  history: 'app.tab.history',
+  suppressions: 'app.tab.suppressions',
+  settings: 'app.tab.settings',
+};
 
 /**
  * Main application component.
- * Renders a centered card with the holiday email orchestrator form.
+ * Renders a centered card with the holiday email orchestrator form,
+ * the contact book, the campaign history, the suppression list and the
+ * backend settings.
  */
 function App() {
-  const showConfigWarning = isWebhookUrlUnconfigured();
+  // Re-render the whole tree when the UI language changes
+  useLocale();
+  const [view, setView] = useState<View>('compose');
+  const [profileSettings, setProfileSettings] = useState<ProfileSettings>(loadProfileSettings);
+  const activeProfile = getActiveProfile(profileSettings);
+  const adapter = getProfileAdapter(activeProfile);
+  const showConfigWarning = isWebhookUrlUnconfigured(activeProfile.webhookUrl);
+  const [duplicateFrom, setDuplicateFrom] = useState<CampaignRecord | undefined>();
+  // Changing the key remounts the form so it picks up a duplicated campaign
+  const [formKey, setFormKey] = useState(0);
+
+  // Cached capabilities until the backend answers (see lib/capabilities.ts)
+  const [capabilities, setCapabilities] = useState<Capabilities>(() => loadCachedCapabilities(activeProfile));
+  const authHeaderValue = activeProfile.authHeader?.value;
+
+  // Refetched when the backend or its credentials change, not on every profile edit
+  useEffect(() => {
+    let cancelled = false;
+    setCapabilities(loadCachedCapabilities(activeProfile));
+    fetchCapabilities(activeProfile).then((result) => {
+      if (!cancelled) setCapabilities(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProfile.webhookUrl, activeProfile.capabilitiesUrl, activeProfile.adapter, authHeaderValue]);
+
+  // Features the delivery adapter can't carry are off whatever the backend says
+  const supported = useMemo(() => withoutFeatures(capabilities, adapter.unsupported), [capabilities, adapter]);
+
+  const handleDuplicate = (record: CampaignRecord) => {
+    setDuplicateFrom(record);
+    setFormKey((key) => key + 1);
+    setView('compose');
+  };
+
+  const handleProfileSettingsChange = (settings: ProfileSettings) => {
+    saveProfileSettings(settings);
+    setProfileSettings(settings);
+  };
 
   return (
     <div className="min-h-screen bg-slate-900 py-8 px-4">
@@ -18,47 +92,111 @@ function App() {
           <div className="mb-4">
             <Alert
               type="error"
-              message="⚠️ WEBHOOK_URL is not configured. Set the VITE_WEBHOOK_URL environment variable or create a .env.local file."
+              message={t('app.configWarning')}
             />
           </div>
         )}
 
+        {/* Offline outbox */}
+        <div className="mb-4 empty:hidden">
+          <OutboxStatus />
+        </div>
+
         {/* Main card */}
         <div className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 p-8">
           {/* Header */}
           <header className="text-center mb-8">
+            <div className="flex justify-end -mt-4 mb-2">
+              <LanguageSwitcher />
+            </div>
             <h1 className="text-3xl font-bold text-slate-100 mb-2">
-              🎄 Holiday Email Orchestrator
+              {t('app.title')}
             </h1>
             <p className="text-slate-400 text-sm">
-              Send personalized AI-generated holiday emails to your contacts using 
-              <span className="text-blue-400"> Toolhouse</span> + 
-              <span className="text-orange-400"> n8n</span>.
+              <Trans
+                id="app.subtitle"
+                values={{
+                  toolhouse: <span className="text-blue-400">Toolhouse</span>,
+                  n8n: <span className="text-orange-400">n8n</span>,
+                }}
+              />
             </p>
           </header>
 
-          {/* Form component */}
-          <Form webhookUrl={WEBHOOK_URL} />
+          {/* View tabs */}
+          <nav className="flex gap-2 mb-6 border-b border-slate-700" role="tablist">
+            {(Object.keys(TAB_LABELS) as View[]).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                role="tab"
+                aria-selected={view === tab}
+                onClick={() => setView(tab)}
+                className={`px-4 py-2 -mb-px border-b-2 text-sm transition-colors ${
+                  view === tab
+                    ? 'border-blue-500 text-slate-100'
+                    : 'border-transparent text-slate-400 hover:text-slate-300'
+                }`}
+              >
+                {t(TAB_LABELS[tab])}
+              </button>
+            ))}
+          </nav>
+
+          {/* Form stays mounted so switching tabs keeps unsent work */}
+          <div hidden={view !== 'compose'}>
+            <Form
+              key={formKey}
+              webhookUrl={activeProfile.webhookUrl}
+              limits={getSendingLimits(activeProfile)}
+              testEmail={activeProfile.testEmail}
+              capabilities={supported}
+              noteRequired={adapter.requiresNote}
+              duplicateFrom={duplicateFrom}
+            />
+          </div>
+          {view === 'contacts' && <ContactBook capabilities={supported} />}
+          {view === 'history' && <History onDuplicate={handleDuplicate} />}
+          {view === 'suppressions' && <SuppressionList profile={activeProfile} />}
+          {view === 'settings' && (
+            <BackendSettings settings={profileSettings} onChange={handleProfileSettingsChange} />
+          )}
 
           {/* Developer section */}
           <footer className="mt-8 pt-6 border-t border-slate-700">
             <div className="text-xs text-slate-500 space-y-1">
-              <p className="font-semibold text-slate-400">Developer Info</p>
+              <p className="font-semibold text-slate-400">{t('app.devInfo')}</p>
               <p>
-                <span className="text-slate-400">Backend: </span>
-                <span className="text-blue-400 font-medium">{getBackendLabel()}</span>
+                <span className="text-slate-400">{t('app.backend')} </span>
+                <span className="text-blue-400 font-medium">{getBackendLabel(activeProfile.webhookUrl)}</span>
+                <span className="text-slate-400"> · {activeProfile.name} · {t(adapter.labelKey)}</span>
               </p>
               <p>
-                <span className="text-slate-400">Webhook URL: </span>
-                <code className={`bg-slate-900 px-2 py-0.5 rounded break-all ${
+                <span className="text-slate-400">{t('app.webhookUrl')} </span>
+                <code dir="ltr" className={`bg-slate-900 px-2 py-0.5 rounded break-all ${
                   showConfigWarning ? 'text-amber-400' : 'text-slate-300'
                 }`}>
-                  {WEBHOOK_URL}
+                  {activeProfile.webhookUrl}
                 </code>
               </p>
+              <p>
+                <span className="text-slate-400">{t('app.capabilities')} </span>
+                <span className={capabilities.source === 'backend' ? 'text-slate-300' : 'text-amber-400'}>
+                  {capabilities.source === 'backend' && t('app.capabilitiesBackend')}
+                  {capabilities.source === 'cache' &&
+                    t('app.capabilitiesCache', { date: formatDate(new Date(capabilities.fetchedAt!)) })}
+                  {capabilities.source === 'fallback' && t('app.capabilitiesFallback')}
+                </span>
+              </p>
+              <BackendHealth profiles={profileSettings.profiles} activeId={profileSettings.activeId} />
               <p className="text-slate-500">
-                💡 Set <code className="text-slate-400">VITE_WEBHOOK_URL</code> in{' '}
-                <code className="text-slate-400">.env.local</code> (local) or Vercel/Render settings (production).
+                <Trans
+                  id="app.tip"
+                  values={{
+                    env: <code className="text-slate-400">VITE_WEBHOOK_URL</code>,
+                    file: <code className="text-slate-400">.env.local</code>,
+                  }}
+                />
               </p>
             </div>
           </footer>
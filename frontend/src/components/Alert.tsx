@@ -1,3 +1,5 @@
+import { t } from '../lib/i18n';
+
 /**
  * Props for the Alert component.
  */
@@ -50,7 +52,7 @@ export function Alert({ type, message, onDismiss }: AlertProps) {
         <button
           onClick={onDismiss}
           className="flex-shrink-0 text-current opacity-60 hover:opacity-100 transition-opacity"
-          aria-label="Dismiss"
+          aria-label={t('common.dismiss')}
         >
           ✕
         </button>
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HealthResult, checkHealth } from '../lib/health';
+import { BackendProfile } from '../lib/profiles';
+import { t } from '../lib/i18n';
+
+/** How often the footer re-checks every profile. */
+const HEALTH_POLL_INTERVAL_MS = 60000;
+
+/** Delay before checking changed profiles, so editing doesn't ping on every keystroke. */
+const HEALTH_DEBOUNCE_MS = 1000;
+
+/**
+ * Dot colors for each health status.
+ */
+const DOT_STYLES: Record<HealthResult['status'] | 'checking', string> = {
+  up: 'bg-green-400',
+  waking: 'bg-amber-400 animate-pulse',
+  error: 'bg-red-400',
+  down: 'bg-red-500',
+  unknown: 'bg-slate-500',
+  checking: 'bg-slate-500 animate-pulse',
+};
+
+/**
+ * Returns a short description of a health check result.
+ */
+function describeHealth(result: HealthResult): string {
+  switch (result.status) {
+    case 'up':
+      return [
+        t('health.latency', { ms: result.latencyMs }),
+        result.coldStart && t('health.coldStart'),
+        result.opaque && t('health.opaque'),
+      ]
+        .filter(Boolean)
+        .join(' · ');
+    case 'waking':
+      return t('health.waking', { status: String(result.httpStatus) });
+    case 'error':
+      return t('health.httpError', { status: String(result.httpStatus) });
+    case 'down':
+      return result.message;
+    case 'unknown':
+      return t('health.noUrl');
+  }
+}
+
+/**
+ * Props for the HealthBadge component.
+ */
+interface HealthBadgeProps {
+  /** Latest result, or null while the check is running */
+  result: HealthResult | null;
+}
+
+/**
+ * Status dot with the latency or problem reported by a health check.
+ */
+export function HealthBadge({ result }: HealthBadgeProps) {
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <span
+        className={`inline-block w-2 h-2 rounded-full ${DOT_STYLES[result?.status ?? 'checking']}`}
+        aria-hidden="true"
+      />
+      <span>{result ? describeHealth(result) : t('health.checking')}</span>
+    </span>
+  );
+}
+
+/**
+ * Props for the BackendHealth component.
+ */
+interface BackendHealthProps {
+  /** Profiles to check */
+  profiles: BackendProfile[];
+  /** Id of the profile in use, highlighted in the list */
+  activeId: string;
+}
+
+/**
+ * Live health of every backend profile, re-checked every minute and
+ * whenever the profiles change.
+ */
+export function BackendHealth({ profiles, activeId }: BackendHealthProps) {
+  const [results, setResults] = useState<Record<string, HealthResult | null>>({});
+
+  const checkAll = useCallback(() => {
+    // Keep showing the previous results until the new ones arrive
+    setResults((prev) => Object.fromEntries(profiles.map((p) => [p.id, prev[p.id] ?? null])));
+    for (const profile of profiles) {
+      checkHealth(profile).then((result) =>
+        setResults((prev) => (profile.id in prev ? { ...prev, [profile.id]: result } : prev))
+      );
+    }
+  }, [profiles]);
+
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval> | undefined;
+    const timeout = setTimeout(() => {
+      checkAll();
+      interval = setInterval(checkAll, HEALTH_POLL_INTERVAL_MS);
+    }, HEALTH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [checkAll]);
+
+  return (
+    <div className="space-y-1">
+      <p className="flex items-center gap-2">
+        <span className="text-slate-400">{t('health.title')}</span>
+        <button type="button" onClick={checkAll} className="text-blue-400 hover:text-blue-300">
+          {t('health.checkNow')}
+        </button>
+      </p>
+      <ul className="space-y-0.5 ps-2">
+        {profiles.map((profile) => (
+          <li key={profile.id} className={profile.id === activeId ? 'text-slate-300' : undefined}>
+            <span className="font-medium">{profile.name}</span>
+            {profile.id === activeId && <span className="text-blue-400"> {t('health.active')}</span>}
+            {': '}
+            <HealthBadge result={results[profile.id] ?? null} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState } from 'react';
+import { inputStyles, selectStyles } from './Field';
+import { HealthBadge } from './BackendHealth';
+import { ProxySignIn } from './ProxySignIn';
+import { HealthResult, checkHealth } from '../lib/health';
+import {
+  BackendProfile,
+  ProfileSettings,
+  createProfileId,
+  DEFAULT_BATCH_DELAY_SECONDS,
+  DEFAULT_BATCH_SIZE,
+  getCapabilitiesUrl,
+  getHealthUrl,
+  getSuppressionsUrl,
+} from '../lib/profiles';
+import {
+  ADAPTER_IDS,
+  AdapterId,
+  DEFAULT_BODY_TEMPLATE,
+  DEFAULT_RELAY_SUBJECT,
+  TEMPLATE_FIELDS,
+  getAdapter,
+  getProfileAdapter,
+  validateBodyTemplate,
+} from '../lib/adapters';
+import { getSentToday } from '../lib/quota';
+import { isValidEmail } from '../lib/validation';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the BackendSettings component.
+ */
+interface BackendSettingsProps {
+  /** Saved profiles and the active one */
+  settings: ProfileSettings;
+  /** Called with the updated settings after every change */
+  onChange: (settings: ProfileSettings) => void;
+}
+
+/**
+ * Reads a number input, treating an empty or invalid value as unset.
+ */
+function parseNumber(value: string): number | undefined {
+  const number = Number(value);
+  return value.trim() && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Returns an error message when a URL isn't an absolute http(s) URL.
+ */
+function validateUrl(url: string, required: boolean): string | undefined {
+  if (!url.trim()) return required ? t('settings.urlRequired') : undefined;
+  try {
+    const { protocol } = new URL(url.trim());
+    return protocol === 'http:' || protocol === 'https:' ? undefined : t('settings.urlProtocol');
+  } catch {
+    return t('settings.urlInvalid');
+  }
+}
+
+/**
+ * Settings view for the backend profiles: each profile has a name, a
+ * webhook URL, a delivery adapter (with its body template or email
+ * subject), optional health, suppressions and capabilities URLs and an
+ * optional auth header. Changes are saved as they're typed; the active
+ * profile is used for new submissions.
+ */
+export function BackendSettings({ settings, onChange }: BackendSettingsProps) {
+  const [testResults, setTestResults] = useState<Record<string, HealthResult | null>>({});
+
+  const updateProfile = (id: string, changes: Partial<BackendProfile>) => {
+    onChange({
+      ...settings,
+      profiles: settings.profiles.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+    });
+    setTestResults(({ [id]: _stale, ...rest }) => rest);
+  };
+
+  const addProfile = () => {
+    const profile: BackendProfile = {
+      id: createProfileId(),
+      name: t('settings.newProfile', { count: settings.profiles.length + 1 }),
+      webhookUrl: '',
+    };
+    onChange({ ...settings, profiles: [...settings.profiles, profile] });
+  };
+
+  const deleteProfile = (id: string) => {
+    const profiles = settings.profiles.filter((p) => p.id !== id);
+    onChange({ profiles, activeId: settings.activeId === id ? profiles[0].id : settings.activeId });
+  };
+
+  const testProfile = async (profile: BackendProfile) => {
+    setTestResults((prev) => ({ ...prev, [profile.id]: null }));
+    const result = await checkHealth(profile);
+    setTestResults((prev) => (profile.id in prev ? { ...prev, [profile.id]: result } : prev));
+  };
+
+  return (
+    <section className="space-y-4">
+      <p className="text-sm text-slate-400">
+        {t('settings.intro')}
+      </p>
+
+      <ul className="space-y-3">
+        {settings.profiles.map((profile) => {
+          const isActive = profile.id === settings.activeId;
+          const webhookError = validateUrl(profile.webhookUrl, true);
+          const healthError = validateUrl(profile.healthUrl ?? '', false);
+          const suppressionsError = validateUrl(profile.suppressionsUrl ?? '', false);
+          const capabilitiesError = validateUrl(profile.capabilitiesUrl ?? '', false);
+          const testEmailError =
+            profile.testEmail && !isValidEmail(profile.testEmail) ? t('settings.testEmailInvalid') : undefined;
+          const adapter = getProfileAdapter(profile);
+          const bodyTemplateError =
+            adapter.id === 'generic' && profile.bodyTemplate ? validateBodyTemplate(profile.bodyTemplate) : undefined;
+          const fieldId = (name: string) => `profile-${profile.id}-${name}`;
+
+          return (
+            <li
+              key={profile.id}
+              className={`border rounded-lg p-4 space-y-3 ${
+                isActive ? 'border-blue-500' : 'border-slate-700'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  type="radio"
+                  name="active-profile"
+                  checked={isActive}
+                  onChange={() => onChange({ ...settings, activeId: profile.id })}
+                  disabled={!!webhookError}
+                  aria-label={t('settings.use', { name: profile.name })}
+                  className="accent-blue-500"
+                />
+                <input
+                  type="text"
+                  value={profile.name}
+                  onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                  className={inputStyles + ' py-1 font-medium'}
+                  aria-label={t('settings.profileName')}
+                  dir="auto"
+                />
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('webhook')} className="block text-xs text-slate-400">
+                  {t('settings.webhookUrl')}
+                </label>
+                <input
+                  id={fieldId('webhook')}
+                  type="url"
+                  value={profile.webhookUrl}
+                  onChange={(e) => updateProfile(profile.id, { webhookUrl: e.target.value.trim() })}
+                  placeholder="https://your-n8n.example.com/webhook/holiday"
+                  dir="ltr"
+                  className={inputStyles + ' py-1 text-sm'}
+                />
+                {webhookError && <p className="text-red-400 text-xs">{webhookError}</p>}
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('adapter')} className="block text-xs text-slate-400">
+                  {t('settings.adapter')}
+                </label>
+                <select
+                  id={fieldId('adapter')}
+                  value={adapter.id}
+                  onChange={(e) => updateProfile(profile.id, { adapter: e.target.value as AdapterId })}
+                  className={selectStyles + ' py-1 text-sm'}
+                >
+                  {ADAPTER_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {t(getAdapter(id).labelKey)}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500">{t(adapter.descriptionKey)}</p>
+              </div>
+
+              {adapter.id === 'generic' && (
+                <div className="space-y-1">
+                  <label htmlFor={fieldId('body-template')} className="block text-xs text-slate-400">
+                    {t('settings.bodyTemplate')} <span className="text-slate-500">{t('settings.optional')}</span>
+                  </label>
+                  <textarea
+                    id={fieldId('body-template')}
+                    value={profile.bodyTemplate ?? ''}
+                    onChange={(e) => updateProfile(profile.id, { bodyTemplate: e.target.value || undefined })}
+                    placeholder={DEFAULT_BODY_TEMPLATE}
+                    rows={8}
+                    dir="ltr"
+                    spellCheck={false}
+                    className={inputStyles + ' py-1 text-sm font-mono resize-y'}
+                  />
+                  {bodyTemplateError ? (
+                    <p className="text-red-400 text-xs">{bodyTemplateError}</p>
+                  ) : (
+                    <p className="text-xs text-slate-500">
+                      {t('settings.bodyTemplateHint', {
+                        fields: TEMPLATE_FIELDS.map((name) => `{{${name}}}`).join(' '),
+                      })}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {adapter.id === 'smtp_relay' && (
+                <div className="space-y-1">
+                  <label htmlFor={fieldId('relay-subject')} className="block text-xs text-slate-400">
+                    {t('settings.relaySubject')} <span className="text-slate-500">{t('settings.optional')}</span>
+                  </label>
+                  <input
+                    id={fieldId('relay-subject')}
+                    type="text"
+                    value={profile.relaySubject ?? ''}
+                    onChange={(e) => updateProfile(profile.id, { relaySubject: e.target.value || undefined })}
+                    placeholder={DEFAULT_RELAY_SUBJECT}
+                    dir="auto"
+                    className={inputStyles + ' py-1 text-sm'}
+                  />
+                  <p className="text-xs text-slate-500">{t('settings.relaySubjectHint')}</p>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('health')} className="block text-xs text-slate-400">
+                  {t('settings.healthUrl')} <span className="text-slate-500">{t('settings.optional')}</span>
+                </label>
+                <input
+                  id={fieldId('health')}
+                  type="url"
+                  value={profile.healthUrl ?? ''}
+                  onChange={(e) =>
+                    updateProfile(profile.id, { healthUrl: e.target.value.trim() || undefined })
+                  }
+                  placeholder={getHealthUrl(profile) ?? t('settings.healthUrlDefault')}
+                  dir="ltr"
+                  className={inputStyles + ' py-1 text-sm'}
+                />
+                {healthError && <p className="text-red-400 text-xs">{healthError}</p>}
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('suppressions')} className="block text-xs text-slate-400">
+                  {t('settings.suppressionsUrl')} <span className="text-slate-500">{t('settings.optional')}</span>
+                </label>
+                <input
+                  id={fieldId('suppressions')}
+                  type="url"
+                  value={profile.suppressionsUrl ?? ''}
+                  onChange={(e) =>
+                    updateProfile(profile.id, { suppressionsUrl: e.target.value.trim() || undefined })
+                  }
+                  placeholder={getSuppressionsUrl(profile) ?? ''}
+                  dir="ltr"
+                  className={inputStyles + ' py-1 text-sm'}
+                />
+                {suppressionsError && <p className="text-red-400 text-xs">{suppressionsError}</p>}
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('capabilities')} className="block text-xs text-slate-400">
+                  {t('settings.capabilitiesUrl')} <span className="text-slate-500">{t('settings.optional')}</span>
+                </label>
+                <input
+                  id={fieldId('capabilities')}
+                  type="url"
+                  value={profile.capabilitiesUrl ?? ''}
+                  onChange={(e) =>
+                    updateProfile(profile.id, { capabilitiesUrl: e.target.value.trim() || undefined })
+                  }
+                  placeholder={getCapabilitiesUrl(profile) ?? ''}
+                  dir="ltr"
+                  className={inputStyles + ' py-1 text-sm'}
+                />
+                {capabilitiesError && <p className="text-red-400 text-xs">{capabilitiesError}</p>}
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor={fieldId('test-email')} className="block text-xs text-slate-400">
+                  {t('settings.testEmail')} <span className="text-slate-500">{t('settings.optional')}</span>
+                </label>
+                <input
+                  id={fieldId('test-email')}
+                  type="email"
+                  value={profile.testEmail ?? ''}
+                  onChange={(e) => updateProfile(profile.id, { testEmail: e.target.value.trim() || undefined })}
+                  placeholder="me@example.com"
+                  dir="ltr"
+                  className={inputStyles + ' py-1 text-sm'}
+                />
+                {testEmailError ? (
+                  <p className="text-red-400 text-xs">{testEmailError}</p>
+                ) : (
+                  <p className="text-xs text-slate-500">{t('settings.testEmailHint')}</p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <span className="block text-xs text-slate-400">
+                  {t('settings.authHeader')} <span className="text-slate-500">{t('settings.optional')}</span>
+                </span>
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="text"
+                    value={profile.authHeader?.name ?? ''}
+                    onChange={(e) =>
+                      updateProfile(profile.id, {
+                        authHeader: { name: e.target.value, value: profile.authHeader?.value ?? '' },
+                      })
+                    }
+                    placeholder={adapter.authHeaderName}
+                    aria-label={t('settings.authHeaderName')}
+                    dir="ltr"
+                    className={inputStyles + ' py-1 text-sm'}
+                  />
+                  <input
+                    type="password"
+                    value={profile.authHeader?.value ?? ''}
+                    onChange={(e) =>
+                      updateProfile(profile.id, {
+                        authHeader: { name: profile.authHeader?.name ?? '', value: e.target.value },
+                      })
+                    }
+                    placeholder="Bearer …"
+                    aria-label={t('settings.authHeaderValue')}
+                    dir="ltr"
+                    autoComplete="off"
+                    className={inputStyles + ' py-1 text-sm col-span-2'}
+                  />
+                </div>
+                <p className="text-xs text-slate-500">
+                  {t('settings.authHeaderStorage')}
+                </p>
+              </div>
+
+              <fieldset className="space-y-1">
+                <legend className="block text-xs text-slate-400">{t('settings.sendingLimits')}</legend>
+                <div className="grid grid-cols-3 gap-2">
+                  <label className="space-y-1 text-xs text-slate-500">
+                    <span className="block">{t('settings.batchSize')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={profile.batchSize ?? ''}
+                      onChange={(e) => updateProfile(profile.id, { batchSize: parseNumber(e.target.value) })}
+                      placeholder={String(DEFAULT_BATCH_SIZE)}
+                      className={inputStyles + ' py-1 text-sm'}
+                    />
+                  </label>
+                  <label className="space-y-1 text-xs text-slate-500">
+                    <span className="block">{t('settings.batchDelay')}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={profile.batchDelaySeconds ?? ''}
+                      onChange={(e) => updateProfile(profile.id, { batchDelaySeconds: parseNumber(e.target.value) })}
+                      placeholder={String(DEFAULT_BATCH_DELAY_SECONDS)}
+                      className={inputStyles + ' py-1 text-sm'}
+                    />
+                  </label>
+                  <label className="space-y-1 text-xs text-slate-500">
+                    <span className="block">{t('settings.dailyQuota')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={profile.dailyQuota ?? ''}
+                      onChange={(e) => updateProfile(profile.id, { dailyQuota: parseNumber(e.target.value) })}
+                      placeholder={t('settings.dailyQuotaNone')}
+                      className={inputStyles + ' py-1 text-sm'}
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-slate-500">
+                  {t('settings.sentToday', { count: getSentToday(profile.webhookUrl) })}
+                </p>
+              </fieldset>
+
+              {/* The proxy only forwards n8n payloads */}
+              {!webhookError && adapter.id === 'n8n' && (
+                <ProxySignIn profile={profile} onChange={(changes) => updateProfile(profile.id, changes)} />
+              )}
+
+              <div className="flex items-center gap-4 text-xs pt-1">
+                <button
+                  type="button"
+                  onClick={() => testProfile(profile)}
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  {t('settings.test')}
+                </button>
+                {profile.id in testResults && (
+                  <span className="text-slate-400">
+                    <HealthBadge result={testResults[profile.id]} />
+                  </span>
+                )}
+                {settings.profiles.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => deleteProfile(profile.id)}
+                    className="text-slate-500 hover:text-red-400 ms-auto"
+                  >
+                    {t('common.delete')}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button type="button" onClick={addProfile} className="text-sm text-blue-400 hover:text-blue-300">
+        {t('settings.add')}
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { Alert } from './Alert';
+import { Batch, BatchStatus, countBatchRecipients, needsSending } from '../lib/batches';
+import { listPayloadRecipients } from '../../../shared/schema';
+import { MessageKey, formatNumber, t } from '../lib/i18n';
+
+/**
+ * Props for the BatchProgress component.
+ */
+interface BatchProgressProps {
+  batches: Batch[];
+  /** Summary of what was submitted (e.g. the delivery schedule) */
+  message: string;
+  /** Whether batches are still being sent */
+  running: boolean;
+  /** Whether the run is paused (it stops after the current batch) */
+  paused?: boolean;
+  /** When the next batch starts, while waiting between batches (epoch ms) */
+  nextAt?: number;
+  /** Set when the user stopped the run before every batch was sent */
+  stopped?: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  /** Stops sending; batches not sent yet can be retried */
+  onStop: () => void;
+  /** Sends the failed and unsent batches again */
+  onRetry: () => void;
+  /** Closes the panel once the run is over */
+  onDismiss: () => void;
+}
+
+/**
+ * Label and badge styles for each batch status.
+ */
+const STATUS_DISPLAY: Record<BatchStatus, { labelKey: MessageKey; className: string }> = {
+  pending: { labelKey: 'batches.status.pending', className: 'bg-slate-700 border-slate-600 text-slate-300' },
+  sending: { labelKey: 'batches.status.sending', className: 'bg-blue-900/50 border-blue-700 text-blue-200' },
+  sent: { labelKey: 'batches.status.sent', className: 'bg-green-900/50 border-green-700 text-green-200' },
+  queued: { labelKey: 'batches.status.queued', className: 'bg-amber-900/50 border-amber-700 text-amber-200' },
+  failed: { labelKey: 'batches.status.failed', className: 'bg-red-900/50 border-red-700 text-red-200' },
+};
+
+/**
+ * Returns the first and last recipient of a batch, e.g. "ann@x.com … zoe@y.com".
+ */
+function describeRange(batch: Batch): string {
+  const recipients = listPayloadRecipients(batch.payload);
+  const first = recipients[0]?.email ?? '';
+  const last = recipients[recipients.length - 1]?.email ?? '';
+  return recipients.length > 1 ? `${first} … ${last}` : first;
+}
+
+/**
+ * Progress panel for a campaign sent in batches: overall progress, the
+ * status of each batch, pause/resume while sending and, once the run is
+ * over, exactly which batches still need to be sent.
+ */
+export function BatchProgress({
+  batches,
+  message,
+  running,
+  paused,
+  nextAt,
+  stopped,
+  onPause,
+  onResume,
+  onStop,
+  onRetry,
+  onDismiss,
+}: BatchProgressProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!nextAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [nextAt]);
+
+  const total = batches.reduce((sum, batch) => sum + countBatchRecipients(batch), 0);
+  const done = batches
+    .filter((batch) => batch.status === 'sent' || batch.status === 'queued')
+    .reduce((sum, batch) => sum + countBatchRecipients(batch), 0);
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+  const leftover = batches.filter(needsSending);
+  const leftoverNumbers = leftover.map((batch) => formatNumber(batch.index + 1)).join(', ');
+
+  return (
+    <section className="space-y-3 border border-slate-700 rounded-lg p-4" aria-live="polite">
+      <header className="flex items-baseline justify-between gap-3">
+        <h2 className="text-lg font-semibold text-slate-100">
+          {t('batches.title', { count: batches.length })}
+        </h2>
+        {!running && (
+          <button type="button" onClick={onDismiss} className="text-xs text-slate-400 hover:text-slate-200">
+            {t('job.close')}
+          </button>
+        )}
+      </header>
+
+      <p className="text-sm text-slate-300">{message}</p>
+
+      {!running &&
+        (leftover.length === 0 ? (
+          <Alert type="success" message={t('batches.allSent', { count: batches.length })} />
+        ) : (
+          <Alert
+            type="error"
+            message={t(stopped ? 'batches.stoppedLeftover' : 'batches.leftover', {
+              count: leftover.length,
+              batches: leftoverNumbers,
+            })}
+          />
+        ))}
+
+      {/* Overall progress */}
+      <div>
+        <div className="flex justify-between text-xs text-slate-400 mb-1">
+          <span>
+            {!running
+              ? t('job.finished')
+              : paused
+                ? t('batches.paused')
+                : nextAt
+                  ? t('batches.nextIn', { seconds: Math.max(0, Math.ceil((nextAt - now) / 1000)) })
+                  : t('job.working')}
+          </span>
+          <span>
+            {formatNumber(done)} / {formatNumber(total)}
+          </span>
+        </div>
+        <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+
+      {/* Per-batch status */}
+      <ul className="max-h-64 overflow-y-auto divide-y divide-slate-700 text-sm">
+        {batches.map((batch) => (
+          <li key={batch.index} className="flex items-start justify-between gap-3 py-1.5">
+            <div className="min-w-0">
+              <p className="text-slate-200">
+                {t('batches.batch', { number: batch.index + 1, count: countBatchRecipients(batch) })}
+                {batch.jobId && <span className="text-xs text-slate-500"> · {t('batches.job', { jobId: batch.jobId })}</span>}
+              </p>
+              <p className="text-xs text-slate-500 break-all" dir="ltr">
+                {describeRange(batch)}
+              </p>
+              {batch.error && <p className="text-xs text-red-300">{batch.error}</p>}
+            </div>
+            <span
+              className={`${STATUS_DISPLAY[batch.status].className} border rounded-full px-2 py-0.5 text-xs flex-shrink-0`}
+            >
+              {t(STATUS_DISPLAY[batch.status].labelKey)}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-4 text-sm">
+        {running ? (
+          <>
+            <button
+              type="button"
+              onClick={paused ? onResume : onPause}
+              className="text-blue-400 hover:text-blue-300"
+            >
+              {paused ? t('batches.resume') : t('batches.pause')}
+            </button>
+            <button type="button" onClick={onStop} className="text-slate-400 hover:text-red-400 ms-auto">
+              {t('batches.stop')}
+            </button>
+          </>
+        ) : (
+          leftover.length > 0 && (
+            <button type="button" onClick={onRetry} className="text-amber-400 hover:text-amber-300">
+              {t('batches.retry', { count: leftover.length })}
+            </button>
+          )
+        )}
+      </div>
+    </section>
+  );
+}
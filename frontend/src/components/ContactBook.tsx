@@ -0,0 +1,381 @@
+import { useEffect, useState } from 'react';
+import { Alert } from './Alert';
+import { ContactEditor } from './ContactEditor';
+import { ContactImport } from './ContactImport';
+import { inputStyles, selectStyles } from './Field';
+import {
+  Contact,
+  ContactBulkEdit,
+  applyBulkEdit,
+  deleteContacts,
+  findDuplicates,
+  getContactName,
+  importContacts,
+  listContacts,
+  listTags,
+  matchesContactSearch,
+  parseTags,
+  saveContacts,
+  saveMergedContacts,
+  subscribeContacts,
+} from '../lib/contacts';
+import { ImportedContact } from '../lib/contactImport';
+import { Capabilities, describeAudience, getAudienceLabel } from '../lib/capabilities';
+import { getLanguageName, t } from '../lib/i18n';
+
+/**
+ * Props for the ContactBook component.
+ */
+interface ContactBookProps {
+  /** Languages and audiences the backend supports */
+  capabilities: Capabilities;
+}
+
+/**
+ * Contact book view: saved contacts with search, tag filters, adding,
+ * editing and importing, bulk edits of the selected contacts and merging
+ * of contacts that share an address.
+ */
+export function ContactBook({ capabilities }: ContactBookProps) {
+  const [contacts, setContacts] = useState<Contact[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(() => new Set());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [bulkEdit, setBulkEdit] = useState<{ language: string; audienceType: string; addTags: string; removeTag: string }>(
+    { language: '', audienceType: '', addTags: '', removeTag: '' }
+  );
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      listContacts()
+        .then((loaded) => {
+          setContacts(loaded);
+          // Forget selected contacts that were deleted or merged away
+          const ids = new Set(loaded.map((contact) => contact.id));
+          setSelected((prev) => new Set([...prev].filter((id) => ids.has(id))));
+        })
+        .catch(() => {
+          setContacts([]);
+          setLoadError(t('contacts.unavailable'));
+        });
+    };
+    load();
+    return subscribeContacts(load);
+  }, []);
+
+  /**
+   * Runs a contact book change, reporting a storage failure.
+   */
+  const save = async (change: Promise<unknown>, success?: string) => {
+    try {
+      await change;
+      setMessage(success ? { type: 'success', text: success } : null);
+    } catch {
+      setMessage({ type: 'error', text: t('contacts.unavailable') });
+    }
+  };
+
+  const handleImport = async (imported: ImportedContact[]) => {
+    try {
+      const { added, updated } = await importContacts(imported);
+      setMessage({
+        type: 'success',
+        text: [
+          t('contacts.imported', { count: added }),
+          updated > 0 ? t('contacts.importUpdated', { count: updated }) : '',
+        ].join(' '),
+      });
+    } catch {
+      setMessage({ type: 'error', text: t('contacts.unavailable') });
+    }
+  };
+
+  if (contacts === null) {
+    return <p className="text-sm text-slate-400 text-center py-8">{t('contacts.loading')}</p>;
+  }
+
+  const tags = listTags(contacts);
+  const duplicates = findDuplicates(contacts);
+  const visible = contacts.filter(
+    (contact) => matchesContactSearch(contact, search) && (!tagFilter || contact.tags.includes(tagFilter))
+  );
+  const selectedContacts = contacts.filter((contact) => selected.has(contact.id!));
+  const allVisibleSelected = visible.length > 0 && visible.every((contact) => selected.has(contact.id!));
+
+  const toggle = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      visible.forEach((contact) => (allVisibleSelected ? next.delete(contact.id!) : next.add(contact.id!)));
+      return next;
+    });
+  };
+
+  const applyBulk = () => {
+    const edit: ContactBulkEdit = {
+      ...(bulkEdit.language && { language: bulkEdit.language === '-' ? '' : bulkEdit.language }),
+      ...(bulkEdit.audienceType && { audienceType: bulkEdit.audienceType === '-' ? '' : bulkEdit.audienceType }),
+      addTags: parseTags(bulkEdit.addTags),
+      removeTags: bulkEdit.removeTag ? [bulkEdit.removeTag] : [],
+    };
+    save(
+      saveContacts(selectedContacts.map((contact) => applyBulkEdit(contact, edit))),
+      t('contacts.bulkUpdated', { count: selectedContacts.length })
+    );
+    setBulkEdit({ language: '', audienceType: '', addTags: '', removeTag: '' });
+  };
+
+  const buttonStyles = 'text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50 disabled:cursor-not-allowed';
+  const small = ' py-1 text-xs';
+  const hasBulkEdit = Boolean(bulkEdit.language || bulkEdit.audienceType || bulkEdit.addTags.trim() || bulkEdit.removeTag);
+
+  return (
+    <section className="space-y-4">
+      {loadError && <Alert type="error" message={loadError} />}
+
+      <p className="text-sm text-slate-400">{t('contacts.intro')}</p>
+
+      <ContactEditor capabilities={capabilities} onSave={(contact) => save(saveContacts([contact]))} />
+      <ContactImport onImport={handleImport} />
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+
+      {/* Contacts sharing an address */}
+      {duplicates.length > 0 && (
+        <div className="border border-amber-700/60 bg-amber-900/20 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-amber-300">{t('contacts.duplicates', { count: duplicates.length })}</p>
+            <button
+              type="button"
+              onClick={() =>
+                save(
+                  duplicates.reduce<Promise<void>>(
+                    (previous, group) => previous.then(() => saveMergedContacts(group)),
+                    Promise.resolve()
+                  )
+                )
+              }
+              className="text-xs text-amber-300 hover:text-amber-100"
+            >
+              {t('contacts.mergeAll')}
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {duplicates.map((group) => (
+              <li key={group[0].email} className="flex items-center justify-between gap-2 text-xs text-slate-300">
+                <span dir="ltr" className="truncate">
+                  {group[0].email}{' '}
+                  <span className="text-slate-500">
+                    ({group.map((contact) => getContactName(contact) || '—').join(' / ')})
+                  </span>
+                </span>
+                <button type="button" onClick={() => save(saveMergedContacts(group))} className={buttonStyles}>
+                  {t('contacts.merge', { count: group.length })}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {contacts.length > 0 && (
+        <div className="space-y-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('contacts.search', { count: contacts.length })}
+            aria-label={t('contacts.search', { count: contacts.length })}
+            className={inputStyles + ' py-1.5 text-sm'}
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label={t('contacts.tags')}>
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  aria-pressed={tagFilter === tag}
+                  onClick={() => setTagFilter(tagFilter === tag ? '' : tag)}
+                  className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    tagFilter === tag
+                      ? 'border-blue-500 bg-blue-900/40 text-blue-200'
+                      : 'border-slate-600 text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Bulk edit of the selected contacts */}
+      {selectedContacts.length > 0 && (
+        <div className="border border-slate-700 rounded-lg p-3 space-y-2 bg-slate-900/40">
+          <p className="text-xs text-slate-300">{t('contacts.selected', { count: selectedContacts.length })}</p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <select
+              value={bulkEdit.language}
+              onChange={(e) => setBulkEdit((prev) => ({ ...prev, language: e.target.value }))}
+              aria-label={t('form.language.label')}
+              className={selectStyles + small}
+            >
+              <option value="">{t('contacts.bulkLanguage')}</option>
+              <option value="-">{t('contacts.languageDefault')}</option>
+              {capabilities.languages.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {getLanguageName(option.value)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={bulkEdit.audienceType}
+              onChange={(e) => setBulkEdit((prev) => ({ ...prev, audienceType: e.target.value }))}
+              aria-label={t('form.audienceType.label')}
+              className={selectStyles + small}
+            >
+              <option value="">{t('contacts.bulkAudience')}</option>
+              <option value="-">{t('contacts.audienceDefault')}</option>
+              {capabilities.audiences.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {getAudienceLabel(option)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={bulkEdit.addTags}
+              onChange={(e) => setBulkEdit((prev) => ({ ...prev, addTags: e.target.value }))}
+              placeholder={t('contacts.bulkAddTags')}
+              aria-label={t('contacts.bulkAddTags')}
+              dir="auto"
+              className={inputStyles + small}
+            />
+            <select
+              value={bulkEdit.removeTag}
+              onChange={(e) => setBulkEdit((prev) => ({ ...prev, removeTag: e.target.value }))}
+              aria-label={t('contacts.bulkRemoveTag')}
+              className={selectStyles + small}
+            >
+              <option value="">{t('contacts.bulkRemoveTag')}</option>
+              {listTags(selectedContacts).map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() =>
+                save(
+                  deleteContacts(selectedContacts.map((contact) => contact.id!)),
+                  t('contacts.deleted', { count: selectedContacts.length })
+                )
+              }
+              className="text-xs text-slate-400 hover:text-red-400"
+            >
+              {t('contacts.deleteSelected')}
+            </button>
+            <button
+              type="button"
+              onClick={applyBulk}
+              disabled={!hasBulkEdit}
+              className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('contacts.bulkApply', { count: selectedContacts.length })}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">
+          {contacts.length === 0 ? t('contacts.empty') : t('contacts.noMatch')}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 px-3 text-xs text-slate-400">
+            <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} />
+            {t('contacts.selectAll', { count: visible.length })}
+          </label>
+          <ul className="divide-y divide-slate-700 border border-slate-700 rounded-lg">
+            {visible.map((contact) =>
+              editingId === contact.id ? (
+                <li key={contact.id} className="p-2">
+                  <ContactEditor
+                    contact={contact}
+                    capabilities={capabilities}
+                    onSave={(edited) => {
+                      save(saveContacts([edited]));
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </li>
+              ) : (
+                <li key={contact.id} className="flex items-start gap-3 px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(contact.id!)}
+                    onChange={() => toggle(contact.id!)}
+                    aria-label={contact.email}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-200 truncate">
+                      {getContactName(contact) && <span dir="auto">{getContactName(contact)} · </span>}
+                      <span dir="ltr">{contact.email}</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {[
+                        contact.company,
+                        contact.language && getLanguageName(contact.language),
+                        contact.audienceType && describeAudience(capabilities, contact.audienceType),
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                      {contact.tags.map((tag) => (
+                        <span key={tag} className="ms-2 text-slate-400">
+                          #{tag}
+                        </span>
+                      ))}
+                    </p>
+                  </div>
+                  <button type="button" onClick={() => setEditingId(contact.id!)} className={buttonStyles}>
+                    {t('contacts.edit')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => save(deleteContacts([contact.id!]))}
+                    className="text-xs text-slate-500 hover:text-red-400"
+                  >
+                    {t('common.delete')}
+                  </button>
+                </li>
+              )
+            )}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
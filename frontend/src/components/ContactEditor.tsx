@@ -0,0 +1,143 @@
+import { useState, FormEvent } from 'react';
+import { inputStyles, selectStyles } from './Field';
+import { Contact, createContact, parseTags } from '../lib/contacts';
+import { isValidEmail } from '../lib/validation';
+import { Capabilities, getAudienceLabel } from '../lib/capabilities';
+import { getLanguageName, t } from '../lib/i18n';
+
+/**
+ * Props for the ContactEditor component.
+ */
+interface ContactEditorProps {
+  /** Contact being edited; a new contact when omitted */
+  contact?: Contact;
+  /** Languages and audiences the backend supports */
+  capabilities: Capabilities;
+  /** Called with the edited contact once it passes validation */
+  onSave: (contact: Contact) => void;
+  /** Shows a cancel button that calls this */
+  onCancel?: () => void;
+}
+
+/**
+ * Form for adding a contact to the contact book or editing one: address,
+ * name, company, preferred language and audience, and comma-separated tags.
+ */
+export function ContactEditor({ contact, capabilities, onSave, onCancel }: ContactEditorProps) {
+  const [draft, setDraft] = useState<Contact>(() => contact ?? createContact());
+  const [tags, setTags] = useState(() => draft.tags.join(', '));
+  const [emailError, setEmailError] = useState('');
+
+  const update = (changes: Partial<Contact>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(draft.email)) {
+      setEmailError(t('contacts.invalidEmail'));
+      return;
+    }
+    onSave({ ...draft, tags: parseTags(tags) });
+    if (!contact) {
+      setDraft(createContact());
+      setTags('');
+    }
+  };
+
+  const small = ' py-1.5 text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-slate-700 rounded-lg p-3 space-y-2" noValidate>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          type="email"
+          value={draft.email}
+          onChange={(e) => {
+            update({ email: e.target.value });
+            setEmailError('');
+          }}
+          placeholder={t('contacts.email')}
+          aria-label={t('contacts.email')}
+          dir="ltr"
+          className={inputStyles + small}
+        />
+        <input
+          type="text"
+          value={draft.company}
+          onChange={(e) => update({ company: e.target.value })}
+          placeholder={t('import.field.company')}
+          aria-label={t('import.field.company')}
+          dir="auto"
+          className={inputStyles + small}
+        />
+        <input
+          type="text"
+          value={draft.firstName}
+          onChange={(e) => update({ firstName: e.target.value })}
+          placeholder={t('import.field.firstName')}
+          aria-label={t('import.field.firstName')}
+          dir="auto"
+          className={inputStyles + small}
+        />
+        <input
+          type="text"
+          value={draft.lastName}
+          onChange={(e) => update({ lastName: e.target.value })}
+          placeholder={t('import.field.lastName')}
+          aria-label={t('import.field.lastName')}
+          dir="auto"
+          className={inputStyles + small}
+        />
+        <select
+          value={draft.language}
+          onChange={(e) => update({ language: e.target.value })}
+          aria-label={t('form.language.label')}
+          className={selectStyles + small}
+        >
+          <option value="">{t('contacts.languageDefault')}</option>
+          {capabilities.languages.map((option) => (
+            <option key={option.value} value={option.value}>
+              {getLanguageName(option.value)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={draft.audienceType}
+          onChange={(e) => update({ audienceType: e.target.value })}
+          aria-label={t('form.audienceType.label')}
+          className={selectStyles + small}
+        >
+          <option value="">{t('contacts.audienceDefault')}</option>
+          {capabilities.audiences.map((option) => (
+            <option key={option.value} value={option.value}>
+              {getAudienceLabel(option)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder={t('contacts.tagsPlaceholder')}
+          aria-label={t('contacts.tags')}
+          dir="auto"
+          className={inputStyles + small}
+        />
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-sm text-slate-300 hover:text-slate-100">
+            {t('common.cancel')}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!draft.email.trim()}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {contact ? t('contacts.save') : t('contacts.add')}
+        </button>
+      </div>
+      {emailError && <p className="text-red-400 text-xs">{emailError}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState, ChangeEvent, DragEvent } from 'react';
+import { selectStyles } from './Field';
+import {
+  CONTACT_FIELDS,
+  ColumnMapping,
+  ContactField,
+  ContactTable,
+  ImportedContact,
+  getCustomColumns,
+  guessColumnMapping,
+  mapContacts,
+  parseContactFile,
+} from '../lib/contactImport';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the ContactImport component.
+ */
+interface ContactImportProps {
+  /** Called with the valid contacts once the user confirms the import */
+  onImport: (contacts: ImportedContact[]) => void;
+  /** Disables the drop zone and buttons (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/** Maximum number of rows rendered in the preview table. */
+const PREVIEW_ROW_LIMIT = 50;
+
+/**
+ * Contact import panel for the Recipients field.
+ * Accepts a CSV, TSV or vCard file (picked or dropped), lets the user map
+ * columns onto contact fields in a preview table, and flags rows whose
+ * email fails validation before anything is added to the form.
+ */
+export function ContactImport({ onImport, disabled }: ContactImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ContactTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [error, setError] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+
+  /**
+   * Reads and parses the selected file, then guesses a column mapping.
+   */
+  const loadFile = async (file: File) => {
+    setError('');
+    try {
+      const text = await file.text();
+      const parsed = parseContactFile(file.name, text);
+      if (parsed.rows.length === 0) {
+        setError(t('import.noContacts', { file: file.name }));
+        return;
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed));
+    } catch {
+      setError(t('import.readError', { file: file.name }));
+    }
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(file);
+    // Allow picking the same file again after cancelling
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    const file = e.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  /**
+   * Clears the loaded file and returns to the drop zone.
+   */
+  const reset = () => {
+    setFileName('');
+    setTable(null);
+    setMapping(null);
+  };
+
+  const updateMapping = (field: ContactField, value: string) => {
+    setMapping((prev) => prev && { ...prev, [field]: value === '' ? null : Number(value) });
+  };
+
+  // Drop zone when no file is loaded
+  if (!table || !mapping) {
+    return (
+      <div className="space-y-1">
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`
+            flex items-center justify-center gap-2
+            px-3 py-2
+            border border-dashed rounded-lg
+            text-xs text-slate-400
+            transition-colors
+            ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-slate-500 hover:text-slate-300'}
+            ${isDragging ? 'border-blue-500 text-blue-300' : 'border-slate-600'}
+          `}
+        >
+          {t('import.dropZone')}
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.vcf,.vcard,text/csv,text/tab-separated-values,text/vcard"
+            onChange={handleFileChange}
+            className="sr-only"
+            disabled={disabled}
+          />
+        </label>
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+      </div>
+    );
+  }
+
+  const contacts = mapContacts(table, mapping);
+  const customColumns = getCustomColumns(table, mapping);
+  const validContacts = contacts.filter((contact) => contact.valid);
+  const invalidCount = contacts.length - validContacts.length;
+
+  return (
+    <div className="border border-slate-600 rounded-lg p-3 space-y-3 bg-slate-900/40">
+      {/* File summary */}
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-300 font-medium truncate">📄 {fileName}</span>
+        <span className="text-slate-400">
+          {t('import.rows', { count: contacts.length })}
+        </span>
+      </div>
+
+      {/* Column mapping */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {CONTACT_FIELDS.map(({ field, labelKey }) => (
+          <label key={field} className="space-y-1">
+            <span className="block text-xs text-slate-400">
+              {t(labelKey)}
+              {field === 'email' && <span className="text-red-400 ms-1">*</span>}
+            </span>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => updateMapping(field, e.target.value)}
+              className={selectStyles + ' text-xs py-1'}
+              disabled={disabled}
+            >
+              <option value="">{t('import.notMapped')}</option>
+              {table.headers.map((header, index) => (
+                <option key={index} value={index}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {customColumns.length > 0 && (
+        <p className="text-xs text-slate-500">
+          {t('import.customColumns', { fields: customColumns.map(({ name }) => `{{${name}}}`).join(', ') })}
+        </p>
+      )}
+
+      {/* Preview table */}
+      <div className="max-h-56 overflow-auto rounded border border-slate-700">
+        <table className="w-full text-xs text-start">
+          <thead className="bg-slate-800 text-slate-400 sticky top-0">
+            <tr>
+              <th className="px-2 py-1 font-medium">#</th>
+              {CONTACT_FIELDS.map(({ field, labelKey }) => (
+                <th key={field} className="px-2 py-1 font-medium">
+                  {t(labelKey)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {contacts.slice(0, PREVIEW_ROW_LIMIT).map((contact) => (
+              <tr
+                key={contact.row}
+                className={`border-t border-slate-700 ${
+                  contact.valid ? 'text-slate-300' : 'text-red-300 bg-red-900/20'
+                }`}
+              >
+                <td className="px-2 py-1 text-slate-500">{contact.row}</td>
+                <td className="px-2 py-1 break-all">
+                  {contact.email || <span className="italic text-slate-500">{t('import.empty')}</span>}
+                  {!contact.valid && (
+                    <span className="ms-2 px-1 rounded bg-red-900/60 text-red-200">
+                      {t('import.invalidEmail')}
+                    </span>
+                  )}
+                </td>
+                <td className="px-2 py-1">{contact.firstName}</td>
+                <td className="px-2 py-1">{contact.lastName}</td>
+                <td className="px-2 py-1">{contact.company}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {contacts.length > PREVIEW_ROW_LIMIT && (
+        <p className="text-xs text-slate-500">
+          {t('import.showingFirst', { limit: PREVIEW_ROW_LIMIT, count: contacts.length })}
+        </p>
+      )}
+
+      {/* Invalid rows summary */}
+      {invalidCount > 0 && (
+        <p className="text-xs text-amber-400">
+          {t('import.invalidRows', { count: invalidCount })}
+        </p>
+      )}
+
+      {/* Actions */}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={reset}
+          className="px-3 py-1 text-xs text-slate-300 hover:text-slate-100 transition-colors"
+          disabled={disabled}
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            onImport(validContacts);
+            reset();
+          }}
+          disabled={disabled || validContacts.length === 0}
+          className="px-3 py-1 text-xs font-semibold rounded bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('import.add', { count: validContacts.length })}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from 'react';
+import { inputStyles } from './Field';
+import {
+  Contact,
+  getContactName,
+  listContacts,
+  listTags,
+  matchesContactSearch,
+  subscribeContacts,
+} from '../lib/contacts';
+import { Capabilities, describeAudience } from '../lib/capabilities';
+import { getLanguageName, t } from '../lib/i18n';
+
+/**
+ * Props for the ContactPicker component.
+ */
+interface ContactPickerProps {
+  /** Lowercased addresses already in the form, shown as added */
+  listed: Set<string>;
+  /** Labels of the audiences the backend supports */
+  capabilities: Capabilities;
+  /** Called with the picked contacts when the user confirms */
+  onPick: (contacts: Contact[]) => void;
+  /** Disables the button that opens the dialog (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/**
+ * "Pick from contacts" button and dialog for the form. Contacts are picked
+ * one by one or a tag at a time ("clients", "family"); contacts already in
+ * the form can't be picked again.
+ */
+export function ContactPicker({ listed, capabilities, onPick, disabled }: ContactPickerProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [contacts, setContacts] = useState<Contact[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [picked, setPicked] = useState<Set<number>>(() => new Set());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const load = () => {
+      listContacts()
+        .then(setContacts)
+        .catch(() => setContacts([]));
+    };
+    load();
+    return subscribeContacts(load);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen) dialogRef.current?.showModal();
+    else dialogRef.current?.close();
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setSearch('');
+    setPicked(new Set());
+  };
+
+  const available = (contacts ?? []).filter((contact) => !listed.has(contact.email));
+  const visible = (contacts ?? []).filter((contact) => matchesContactSearch(contact, search));
+
+  const toggle = (id: number) => {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Picks every available contact with a tag, or unpicks them all when
+   * they already are.
+   */
+  const toggleTag = (tag: string) => {
+    const ids = available.filter((contact) => contact.tags.includes(tag)).map((contact) => contact.id!);
+    const allPicked = ids.every((id) => picked.has(id));
+    setPicked((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (allPicked ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const isTagPicked = (tag: string) => {
+    const tagged = available.filter((contact) => contact.tags.includes(tag));
+    return tagged.length > 0 && tagged.every((contact) => picked.has(contact.id!));
+  };
+
+  const confirm = () => {
+    onPick(available.filter((contact) => picked.has(contact.id!)));
+    close();
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t('contacts.pick')}
+      </button>
+
+      <dialog
+        ref={dialogRef}
+        onCancel={close}
+        aria-labelledby="contact-picker-title"
+        className="w-full max-w-lg rounded-xl border border-slate-700 bg-slate-800 p-0 text-slate-100 backdrop:bg-slate-950/70"
+      >
+        {isOpen && (
+          <div className="p-5 space-y-3">
+            <h2 id="contact-picker-title" className="text-lg font-semibold">
+              {t('contacts.pickTitle')}
+            </h2>
+
+            {contacts === null ? (
+              <p className="text-sm text-slate-400 py-6 text-center">{t('contacts.loading')}</p>
+            ) : contacts.length === 0 ? (
+              <p className="text-sm text-slate-400 py-6 text-center">{t('contacts.pickEmpty')}</p>
+            ) : (
+              <>
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder={t('contacts.search', { count: contacts.length })}
+                  aria-label={t('contacts.search', { count: contacts.length })}
+                  className={inputStyles + ' py-1.5 text-sm'}
+                  autoFocus
+                />
+
+                {listTags(contacts).length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1" role="group" aria-label={t('contacts.pickByTag')}>
+                    <span className="text-xs text-slate-400 me-1">{t('contacts.pickByTag')}</span>
+                    {listTags(contacts).map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        aria-pressed={isTagPicked(tag)}
+                        onClick={() => toggleTag(tag)}
+                        className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                          isTagPicked(tag)
+                            ? 'border-blue-500 bg-blue-900/40 text-blue-200'
+                            : 'border-slate-600 text-slate-400 hover:text-slate-200'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <ul className="max-h-72 overflow-auto divide-y divide-slate-700 border border-slate-700 rounded-lg">
+                  {visible.map((contact) => {
+                    const isListed = listed.has(contact.email);
+                    return (
+                      <li key={contact.id}>
+                        <label
+                          className={`flex items-start gap-3 px-3 py-2 ${isListed ? 'opacity-50' : 'cursor-pointer'}`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isListed || picked.has(contact.id!)}
+                            onChange={() => toggle(contact.id!)}
+                            disabled={isListed}
+                            className="mt-1"
+                          />
+                          <span className="flex-1 min-w-0">
+                            <span className="block text-sm text-slate-200 truncate">
+                              {getContactName(contact) && <span dir="auto">{getContactName(contact)} · </span>}
+                              <span dir="ltr">{contact.email}</span>
+                            </span>
+                            <span className="block text-xs text-slate-500">
+                              {[
+                                contact.language && getLanguageName(contact.language),
+                                contact.audienceType && describeAudience(capabilities, contact.audienceType),
+                                ...contact.tags.map((tag) => `#${tag}`),
+                                isListed && t('contacts.alreadyAdded'),
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </span>
+                          </span>
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {visible.length === 0 && <p className="text-sm text-slate-400 text-center">{t('contacts.noMatch')}</p>}
+                <p className="text-xs text-slate-500">{t('contacts.pickHint')}</p>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={close} className="px-3 py-1 text-sm text-slate-300 hover:text-slate-100">
+                {t('common.cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={confirm}
+                disabled={picked.size === 0}
+                className="px-3 py-1 text-sm font-semibold rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('contacts.pickAdd', { count: picked.size })}
+              </button>
+            </div>
+          </div>
+        )}
+      </dialog>
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+import { inputStyles } from './Field';
+import { Alert } from './Alert';
+import { ReviewDraft } from '../lib/drafts';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the DraftReview component.
+ */
+interface DraftReviewProps {
+  /** Drafts returned by the preview request */
+  drafts: ReviewDraft[];
+  /** Total number of recipients in the campaign (drafts may be a sample) */
+  recipientCount: number;
+  /** Error from the last send or regenerate attempt, if any */
+  error?: string;
+  /** Whether the approved drafts are currently being sent */
+  sending: boolean;
+  /** Updates the subject, body or approval of a single draft */
+  onChange: (id: string, changes: Partial<Pick<ReviewDraft, 'subject' | 'body' | 'approved'>>) => void;
+  /** Asks the backend to generate a new version of a single draft */
+  onRegenerate: (id: string) => void;
+  /** Sends the approved drafts */
+  onSend: () => void;
+  /** Why the drafts can't be sent yet (e.g. a test send is missing), if they can't */
+  blockedReason?: string;
+  /** Discards the drafts and returns to the form */
+  onCancel: () => void;
+}
+
+/**
+ * Review panel for the preview-before-send flow.
+ * Shows each generated email with an editable subject and body, lets the
+ * user approve, exclude or regenerate single drafts, and confirms the send.
+ */
+export function DraftReview({
+  drafts,
+  recipientCount,
+  error,
+  sending,
+  onChange,
+  onRegenerate,
+  onSend,
+  blockedReason,
+  onCancel,
+}: DraftReviewProps) {
+  const approvedCount = drafts.filter((draft) => draft.approved).length;
+  const excludedCount = drafts.length - approvedCount;
+  const isSample = drafts.length < recipientCount;
+  const busy = sending || drafts.some((draft) => draft.regenerating);
+
+  return (
+    <section className="space-y-4">
+      <header className="flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold text-slate-100">{t('drafts.title')}</h2>
+        <span className="text-xs text-slate-400">
+          {isSample
+            ? t('drafts.sample', { sample: drafts.length, count: recipientCount })
+            : t('drafts.count', { count: drafts.length })}
+        </span>
+      </header>
+
+      {error && <Alert type="error" message={error} />}
+
+      {drafts.map((draft) => (
+        <article
+          key={draft.id}
+          className={`border rounded-lg p-4 space-y-3 transition-opacity ${
+            draft.approved ? 'border-slate-600 bg-slate-900/40' : 'border-slate-700 opacity-60'
+          }`}
+        >
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-300 font-medium break-all">
+              {t('drafts.to', { recipient: draft.recipient })}
+              {draft.edited && <span className="ms-2 text-blue-400">{t('drafts.edited')}</span>}
+            </span>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <button
+                type="button"
+                onClick={() => onRegenerate(draft.id)}
+                className="text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={busy}
+              >
+                {draft.regenerating ? t('drafts.regenerating') : t('drafts.regenerate')}
+              </button>
+              <label className="flex items-center gap-1 text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.approved}
+                  onChange={(e) => onChange(draft.id, { approved: e.target.checked })}
+                  disabled={busy}
+                />
+                {t('drafts.approve')}
+              </label>
+            </div>
+          </div>
+
+          <input
+            type="text"
+            value={draft.subject}
+            onChange={(e) => onChange(draft.id, { subject: e.target.value })}
+            className={inputStyles + ' font-medium'}
+            aria-label={t('drafts.subjectFor', { recipient: draft.recipient })}
+            dir="auto"
+            disabled={busy || !draft.approved}
+          />
+          <textarea
+            value={draft.body}
+            onChange={(e) => onChange(draft.id, { body: e.target.value })}
+            rows={6}
+            className={inputStyles + ' resize-y text-sm'}
+            aria-label={t('drafts.bodyFor', { recipient: draft.recipient })}
+            dir="auto"
+            disabled={busy || !draft.approved}
+          />
+        </article>
+      ))}
+
+      {/* Summary of what will happen on send */}
+      <p className="text-xs text-slate-400">
+        {t('drafts.summaryApproved', { count: approvedCount })}
+        {excludedCount > 0 && ` ${t('drafts.summaryExcluded', { count: excludedCount })}`}
+        {isSample && ` ${t('drafts.summaryRemaining', { count: recipientCount - drafts.length })}`}
+      </p>
+
+      {blockedReason && <p className="text-xs text-amber-300">{blockedReason}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={sending}
+          className="flex-1 py-3 px-4 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('drafts.back')}
+        </button>
+        <button
+          type="button"
+          onClick={onSend}
+          disabled={busy || approvedCount === 0 || Boolean(blockedReason)}
+          className="flex-1 py-3 px-4 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {sending ? t('common.sending') : t('drafts.send', { count: approvedCount })}
+        </button>
+      </div>
+    </section>
+  );
+}
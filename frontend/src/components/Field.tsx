@@ -28,7 +28,7 @@ export function Field({ label, name, required, error, children }: FieldProps) {
         className="block text-sm font-medium text-slate-300"
       >
         {label}
-        {required && <span className="text-red-400 ml-1">*</span>}
+        {required && <span className="text-red-400 ms-1">*</span>}
       </label>
       {children}
       {error && (
@@ -62,6 +62,7 @@ export const selectStyles = `
   bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20fill%3D%22none%22%20viewBox%3D%220%200%2020%2020%22%3E%3Cpath%20stroke%3D%22%236b7280%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%20stroke-width%3D%221.5%22%20d%3D%22m6%208%204%204%204-4%22%2F%3E%3C%2Fsvg%3E')]
   bg-[length:1.5rem_1.5rem]
   bg-[right_0.5rem_center]
+  rtl:bg-[left_0.5rem_center]
   bg-no-repeat
-  pr-10
+  pe-10
 `.trim();
@@ -1,8 +1,64 @@
-import { useState, FormEvent } from 'react';
+import { useEffect, useMemo, useReducer, useRef, useState, FormEvent } from 'react';
 import { Field, inputStyles, selectStyles } from './Field';
 import { Alert } from './Alert';
-import { validateForm, FormFields } from '../lib/validation';
-import { LANGUAGE_OPTIONS, AUDIENCE_OPTIONS } from '../config';
+import { RecipientGroupEditor } from './RecipientGroupEditor';
+import { TemplateManager } from './TemplateManager';
+import { ImagePicker } from './ImagePicker';
+import { DraftReview } from './DraftReview';
+import { RecipientTimezones } from './RecipientTimezones';
+import { HolidayAutocomplete } from './HolidayAutocomplete';
+import { UpcomingHolidays } from './UpcomingHolidays';
+import { JobProgress } from './JobProgress';
+import { RetryCountdown } from './RetryCountdown';
+import { BatchProgress } from './BatchProgress';
+import { NoteEditor } from './NoteEditor';
+import { ContactPicker } from './ContactPicker';
+import { ResultsPanel } from './ResultsPanel';
+import { SendingLimitsNotice } from './SendingLimitsNotice';
+import { TestSendButton, TestSendStatus } from './TestSend';
+import { isValidEmail, extractEmails, cleanGroupRecipients, FormFields } from '../lib/validation';
+import { RecipientGroupFields, createRecipientGroup, getFormGroupIndexes } from '../lib/groups';
+import { CampaignTemplate } from '../lib/templates';
+import { ImportedContact } from '../lib/contactImport';
+import { Contact, addContactsToGroups, toImportedContact } from '../lib/contacts';
+import { ReviewDraft, parseDraftsResponse, toReviewDrafts } from '../lib/drafts';
+import { getBrowserTimeZone, listTimeZones } from '../lib/schedule';
+import { Holiday } from '../lib/holidays';
+import {
+  getNetworkErrorMessage,
+  PayloadAttachment,
+  WebhookMode,
+  WebhookPayload,
+  describeHttpError,
+  postPayload,
+  readHttpError,
+  toFormErrors,
+} from '../lib/webhook';
+import { listPayloadRecipients } from '../../../shared/schema';
+import {
+  CampaignContext,
+  buildCampaignPayload,
+  describeDelivery,
+  getCustomMergeFields,
+  getRecipientMergeValues,
+  validateCampaign,
+} from '../lib/campaign';
+import { CampaignRecord } from '../lib/history';
+import { deliverCampaign } from '../lib/delivery';
+import { Batch, BatchGate, createBatchGate, runBatches, splitIntoBatches } from '../lib/batches';
+import { getTestFingerprint, sendTest } from '../lib/testSend';
+import { SendingLimits } from '../lib/profiles';
+import { JobSnapshot, createPendingSnapshot, isJobFinished, parseJobReference, trackJob } from '../lib/jobs';
+import {
+  filterSuppressed,
+  loadSuppressedEmails,
+  subscribeSuppressions,
+  suppressBouncedRecipients,
+} from '../lib/suppressions';
+import { initialSubmissionState, submissionReducer } from '../lib/submission';
+import { keepRecipients, parseSendResults } from '../lib/results';
+import { Capabilities, LanguageOption, applyFeatures, getAudienceLabel } from '../lib/capabilities';
+import { getLanguageName, t } from '../lib/i18n';
 
 /**
  * Props for the Form component.
@@ -10,54 +66,140 @@ import { LANGUAGE_OPTIONS, AUDIENCE_OPTIONS } from '../config';
 interface FormProps {
   /** The webhook URL to send the form data to */
   webhookUrl: string;
+  /** Batch size, pacing and daily quota of the backend */
+  limits: SendingLimits;
+  /** Address test sends go to; while set, the campaign can only be sent once tested */
+  testEmail?: string;
+  /** Languages, audiences, tones and features the backend supports */
+  capabilities: Capabilities;
+  /** Whether the delivery adapter needs a personal note (see lib/adapters.ts) */
+  noteRequired?: boolean;
+  /** A past campaign to pre-fill the form with ("duplicate into form") */
+  duplicateFrom?: CampaignRecord;
 }
 
+/** id of the <datalist> offering timezone suggestions. */
+const TIMEZONE_LIST_ID = 'timezone-options';
+
+/** id of the <datalist> offering the backend's suggested tones. */
+const TONE_LIST_ID = 'tone-options';
+
 /**
- * Submission state for tracking the async operation.
+ * Returns empty form fields, scheduled in the browser's timezone by default.
  */
-type SubmissionState =
-  | { status: 'idle' }
-  | { status: 'submitting' }
-  | { status: 'success'; message: string }
-  | { status: 'error'; message: string };
+function createInitialFields(): FormFields {
+  return {
+    holidayName: '',
+    tone: '',
+    audienceType: 'business',
+    language: 'en',
+    senderName: '',
+    groups: [createRecipientGroup()],
+    sendAt: '',
+    timezone: getBrowserTimeZone(),
+    note: '',
+  };
+}
 
 /**
- * The payload structure expected by the n8n webhook.
+ * Restores imported contact details from a past payload's recipient_details.
  */
-interface WebhookPayload {
-  holiday_name: string;
-  tone: string;
-  sender_name: string;
-  audience_type: string;
-  language: string;
-  recipients: string;
+function contactDetailsFromPayload(payload?: WebhookPayload): Record<string, ImportedContact> {
+  const details: Record<string, ImportedContact> = {};
+  payload?.recipient_details?.forEach((detail, index) => {
+    details[detail.email.toLowerCase()] = {
+      email: detail.email,
+      firstName: detail.first_name ?? '',
+      lastName: detail.last_name ?? '',
+      company: detail.company ?? '',
+      fields: detail.fields ?? {},
+      row: index + 1,
+      valid: true,
+    };
+  });
+  return details;
+}
+
+/**
+ * Names an email language in the UI language, followed by its own name
+ * when they differ (e.g. "Hindi · हिन्दी").
+ */
+function describeLanguage(option: LanguageOption): string {
+  const name = getLanguageName(option.value);
+  return name === option.label ? name : `${name} · ${option.label}`;
 }
 
 /**
  * Main form component for the Holiday Email Orchestrator.
  * Manages form state, validation, and submission to the webhook.
  */
-export function Form({ webhookUrl }: FormProps) {
+export function Form({ webhookUrl, limits, testEmail, capabilities, noteRequired, duplicateFrom }: FormProps) {
+  // Test sends need a valid address (the settings flag invalid ones)
+  const testAddress = testEmail && isValidEmail(testEmail) ? testEmail : '';
+
   // Form field state
-  const [fields, setFields] = useState<FormFields>({
-    holidayName: '',
-    tone: '',
-    audienceType: 'business',
-    language: 'en',
-    senderName: '',
-    recipients: '',
-  });
+  const [fields, setFields] = useState<FormFields>(() => ({
+    ...createInitialFields(),
+    ...duplicateFrom?.fields,
+  }));
+  const { features } = capabilities;
+
+  // Drop the values of features the backend turned off (e.g. a duplicated campaign's schedule)
+  useEffect(() => {
+    setFields((prev) => applyFeatures(prev, features));
+  }, [features]);
 
   // Validation errors state
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  // Submission state (idle, submitting, success, error)
-  const [submission, setSubmission] = useState<SubmissionState>({ status: 'idle' });
+  // Submission state machine (see lib/submission.ts for the flows)
+  const [submission, dispatch] = useReducer(submissionReducer, initialSubmissionState);
+
+  // Aborts the in-flight submission (and its pending retries)
+  const submitControllerRef = useRef<AbortController | null>(null);
+
+  // The batch run in progress, and the form values its batches were built from
+  const batchRunRef = useRef<{ controller: AbortController; gate: BatchGate } | null>(null);
+  const batchFieldsRef = useRef<FormFields>(fields);
+
+  // The last campaign delivered, for putting its failed recipients back into the form
+  const [sentCampaign, setSentCampaign] = useState<{ fields: FormFields; payload: WebhookPayload } | null>(null);
+
+  // Content fingerprint of the last successful test send (see lib/testSend.ts)
+  const [testedFingerprint, setTestedFingerprint] = useState<string | null>(null);
+
+  // Details of imported contacts, keyed by lowercased email
+  const [contactDetails, setContactDetails] = useState<Record<string, ImportedContact>>(() =>
+    contactDetailsFromPayload(duplicateFrom?.payload)
+  );
+
+  // Holiday card attached to every email, already resized and encoded
+  const [cardImage, setCardImage] = useState<PayloadAttachment | null>(
+    () => duplicateFrom?.payload.attachment ?? null
+  );
+
+  // Addresses on the suppression list (lowercased), left out of every payload
+  const [suppressed, setSuppressed] = useState<Set<string>>(() => new Set());
+
+  // Whether the user picked a language themselves (holiday suggestions won't override it)
+  const [languageTouched, setLanguageTouched] = useState(false);
+  // Holiday whose suggested language was applied, for the hint below the select
+  const [languageHolidayName, setLanguageHolidayName] = useState('');
+
+  // Per-recipient timezones for scheduled delivery, keyed by lowercased email
+  const [usePerRecipientTimezones, setUsePerRecipientTimezones] = useState(
+    () => (duplicateFrom?.payload.recipient_schedule?.length ?? 0) > 0
+  );
+  const [recipientTimezones, setRecipientTimezones] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (duplicateFrom?.payload.recipient_schedule ?? []).map(({ email, timezone }) => [email.toLowerCase(), timezone])
+    )
+  );
 
   /**
    * Updates a single form field value.
    */
-  const updateField = (name: keyof FormFields, value: string) => {
+  const updateField = (name: Exclude<keyof FormFields, 'groups'>, value: string) => {
     setFields((prev) => ({ ...prev, [name]: value }));
     // Clear the error for this field when user starts typing
     if (errors[name]) {
@@ -70,87 +212,649 @@ export function Form({ webhookUrl }: FormProps) {
   };
 
   /**
-   * Handles form submission.
+   * Fills in a holiday picked from the calendar and, unless the user already
+   * chose a language, switches to the holiday's suggested language.
    */
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
+  const selectHoliday = (holiday: Holiday) => {
+    updateField('holidayName', holiday.name);
 
-    // Validate the form
-    const validation = validateForm(fields);
-    if (!validation.valid) {
-      setErrors(validation.errors);
-      return;
+    const option = capabilities.languages.find((o) => o.value === holiday.language);
+    if (option && !languageTouched && fields.language !== option.value) {
+      updateField('language', option.value);
+      setLanguageHolidayName(holiday.name);
+    } else {
+      setLanguageHolidayName('');
     }
+  };
 
-    // Clear any previous errors and set submitting state
+  /**
+   * Pre-fills the form with a saved template. The template's language
+   * counts as chosen, so holiday suggestions won't override it.
+   */
+  const applyTemplate = (template: CampaignTemplate) => {
+    setFields({ ...createInitialFields(), ...template.fields });
     setErrors({});
-    setSubmission({ status: 'submitting' });
-
-    // Build the payload for the webhook
-    const payload: WebhookPayload = {
-      holiday_name: fields.holidayName.trim(),
-      tone: fields.tone.trim() || 'warm', // Default to 'warm' if not specified
-      sender_name: fields.senderName.trim(),
-      audience_type: fields.audienceType,
-      language: fields.language,
-      recipients: fields.recipients, // Send raw string; backend handles splitting
-    };
+    setLanguageTouched(true);
+    setLanguageHolidayName('');
+  };
 
+  /**
+   * Applies changes to one recipient group and clears the errors of the
+   * changed fields.
+   */
+  const updateGroup = (index: number, changes: Partial<RecipientGroupFields>) => {
+    setFields((prev) => ({
+      ...prev,
+      groups: prev.groups.map((group, i) => (i === index ? { ...group, ...changes } : group)),
+    }));
+    const keys = Object.keys(changes).map((field) => `groups.${index}.${field}`);
+    if (keys.some((key) => errors[key])) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        keys.forEach((key) => delete newErrors[key]);
+        return newErrors;
+      });
+    }
+  };
+
+  /**
+   * Adds an empty recipient group that uses the campaign defaults.
+   */
+  const addGroup = () => {
+    setFields((prev) => ({ ...prev, groups: [...prev.groups, createRecipientGroup()] }));
+  };
+
+  /**
+   * Removes a recipient group. A lone remaining group goes back to the
+   * campaign defaults, since its overrides are no longer shown.
+   */
+  const removeGroup = (index: number) => {
+    setFields((prev) => {
+      const groups = prev.groups.filter((_, i) => i !== index);
+      return {
+        ...prev,
+        groups:
+          groups.length === 1
+            ? [{ ...groups[0], name: '', audienceType: '', language: '', tone: '' }]
+            : groups,
+      };
+    });
+    // Group errors are keyed by position, which just changed
+    setErrors((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith('groups.')))
+    );
+  };
+
+  /**
+   * Returns the errors of one group, keyed by group field.
+   */
+  const getGroupErrors = (index: number): Record<string, string> => {
+    const prefix = `groups.${index}.`;
+    return Object.fromEntries(
+      Object.entries(errors)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, message]) => [key.slice(prefix.length), message])
+    );
+  };
+
+  /**
+   * Appends imported contacts to a group's recipients, skipping addresses
+   * that are already listed, and remembers their name/company details.
+   */
+  const handleImport = (index: number, contacts: ImportedContact[]) => {
+    const group = fields.groups[index];
+    const existing = new Set(extractEmails(group.recipients).map((email) => email.toLowerCase()));
+    const added: string[] = [];
+
+    for (const contact of contacts) {
+      const key = contact.email.toLowerCase();
+      if (!existing.has(key)) {
+        existing.add(key);
+        added.push(contact.email);
+      }
+    }
+
+    if (added.length > 0) {
+      const current = group.recipients.trimEnd();
+      updateGroup(index, { recipients: (current ? current + '\n' : '') + added.join('\n') });
+    }
+
+    setContactDetails((prev) => {
+      const next = { ...prev };
+      for (const contact of contacts) {
+        next[contact.email.toLowerCase()] = contact;
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Adds contacts picked from the contact book to the groups matching
+   * their language and audience (see addContactsToGroups), with their
+   * name, company and custom field details.
+   */
+  const handlePickContacts = (contacts: Contact[]) => {
+    const next = addContactsToGroups(fields, contacts);
+    // A language taken from the contacts counts as chosen
+    if (next.language !== fields.language) setLanguageTouched(true);
+    setFields(next);
+    setErrors((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => !/^groups\.\d+\.recipients$/.test(key)))
+    );
+
+    setContactDetails((prev) => {
+      const details = { ...prev };
+      contacts.forEach((contact, index) => {
+        if (contact.firstName || contact.lastName || contact.company || Object.keys(contact.fields ?? {}).length > 0) {
+          details[contact.email] = toImportedContact(contact, index + 1);
+        }
+      });
+      return details;
+    });
+  };
+
+  /**
+   * Returns what goes into the payload besides the form fields.
+   */
+  const getCampaignContext = (): CampaignContext => ({
+    contactDetails,
+    suppressed,
+    attachment: features.attachments ? cardImage : null,
+    recipientTimezones: usePerRecipientTimezones ? recipientTimezones : {},
+    capabilities,
+    noteRequired,
+  });
+
+  /**
+   * Validates the form and shows field errors.
+   * Returns true when the form can be submitted.
+   */
+  const validate = (): boolean => {
+    const validation = validateCampaign(fields, getCampaignContext());
+    setErrors(validation.errors);
+    return validation.valid;
+  };
+
+  /**
+   * Builds the webhook payload from the current field values (see
+   * buildCampaignPayload). Pass `subset` to target some recipients only.
+   */
+  const buildPayload = (mode: WebhookMode, subset?: string[]): WebhookPayload =>
+    buildCampaignPayload(fields, getCampaignContext(), mode, subset);
+
+  /**
+   * Clears all fields and imported contact details after a successful send.
+   */
+  const resetForm = () => {
+    setFields(createInitialFields());
+    setLanguageTouched(false);
+    setLanguageHolidayName('');
+    setContactDetails({});
+    setCardImage(null);
+    setUsePerRecipientTimezones(false);
+    setRecipientTimezones({});
+  };
+
+  /**
+   * Sets or clears the timezone override for a single recipient.
+   */
+  const updateRecipientTimezone = (email: string, timeZone: string) => {
+    setRecipientTimezones((prev) => {
+      const next = { ...prev };
+      if (timeZone.trim()) {
+        next[email.toLowerCase()] = timeZone.trim();
+      } else {
+        delete next[email.toLowerCase()];
+      }
+      return next;
+    });
+    if (errors.recipientTimezones) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.recipientTimezones;
+        return newErrors;
+      });
+    }
+  };
+
+  /**
+   * Handles a non-2xx response to `payload`: shows server-side field errors
+   * next to the matching fields and returns the message for the alert.
+   */
+  const handleHttpError = async (response: Response, payload: WebhookPayload): Promise<string> => {
+    const error = await readHttpError(response);
+    const fieldErrors = toFormErrors(error.fieldErrors, getFormGroupIndexes(fields, payload));
+    if (Object.keys(fieldErrors).length > 0) {
+      setErrors(fieldErrors);
+    }
+    return error.message;
+  };
+
+  /**
+   * Handles a 2xx response: follows the job if the webhook returned one,
+   * otherwise reports the request as accepted, with the per-recipient
+   * results when the webhook returned them.
+   */
+  const handleAccepted = async (response: Response, payload: WebhookPayload, message: string) => {
+    const body = await response.json().catch(() => null);
+    const ref = parseJobReference(body, webhookUrl);
+    if (ref) {
+      const job = createPendingSnapshot(ref.jobId, payload.groups.flatMap((group) => group.recipients));
+      dispatch({ type: 'job_started', message, ref, job });
+    } else {
+      const results = parseSendResults(body) ?? [];
+      // Bounced addresses won't be emailed again
+      suppressBouncedRecipients(results).catch(() => undefined);
+      dispatch({ type: 'accepted', message, results: results.length > 0 ? results : undefined });
+    }
+  };
+
+  /**
+   * Submits one batch and describes its outcome. Never rejects.
+   */
+  const sendBatch = async (
+    batch: Batch,
+    count: number,
+    signal: AbortSignal
+  ): Promise<Pick<Batch, 'status' | 'error' | 'jobId' | 'results'>> => {
+    try {
+      const result = await deliverCampaign(webhookUrl, batchFieldsRef.current, batch.payload, {
+        signal,
+        idempotencyKey: batch.idempotencyKey,
+        batch: { index: batch.index, count },
+        onRetry: (retry) => dispatch({ type: 'retry_scheduled', retry }),
+      });
+      if (result.status === 'queued') return { status: 'queued' };
+      if (!result.response.ok) return { status: 'failed', error: await describeHttpError(result.response) };
+
+      const body = await result.response.json().catch(() => null);
+      const results = parseSendResults(body) ?? undefined;
+      if (results) suppressBouncedRecipients(results).catch(() => undefined);
+      return { status: 'sent', jobId: parseJobReference(body, webhookUrl)?.jobId, results };
+    } catch {
+      return { status: 'failed', error: signal.aborted ? t('form.cancelled') : getNetworkErrorMessage() };
+    }
+  };
+
+  /**
+   * Sends the batches that still need sending, one after another with the
+   * backend's pacing. The form is cleared once every batch got through.
+   */
+  const sendBatches = async (batches: Batch[], message: string) => {
+    const controller = new AbortController();
+    const gate = createBatchGate();
+    batchRunRef.current = { controller, gate };
+    dispatch({ type: 'batches_started', message, batches });
+
+    const outcomes = batches.map((batch) => batch.status);
+    let stopped = false;
     try {
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      await runBatches(batches, {
+        delayMs: limits.batchDelaySeconds * 1000,
+        gate,
+        signal: controller.signal,
+        send: (batch, signal) => sendBatch(batch, batches.length, signal),
+        onUpdate: (index, changes) => {
+          if (changes.status) outcomes[index] = changes.status;
+          dispatch({ type: 'batch_updated', index, changes });
         },
-        body: JSON.stringify(payload),
+        onWait: (nextAt) => dispatch({ type: 'batch_waiting', nextAt }),
       });
+    } catch {
+      // Stopped by the user (or the form went away)
+      stopped = true;
+    } finally {
+      batchRunRef.current = null;
+    }
+
+    dispatch({ type: 'batches_finished', stopped });
+    if (outcomes.every((status) => status === 'sent' || status === 'queued')) {
+      resetForm();
+    }
+  };
+
+  /**
+   * Pauses or resumes the batch run; a paused run stops after the current batch.
+   */
+  const pauseBatches = (paused: boolean) => {
+    const run = batchRunRef.current;
+    if (!run) return;
+    if (paused) {
+      run.gate.pause();
+    } else {
+      run.gate.resume();
+    }
+    dispatch({ type: 'batches_paused', paused });
+  };
 
-      if (response.ok) {
+  /**
+   * Sends the failed batches, and those left unsent, of the last batch run again.
+   */
+  const retryBatches = async () => {
+    if (submission.status !== 'batched') return;
+    await sendBatches(submission.batches, submission.message);
+  };
+
+  /**
+   * Delivers a send or send_drafts payload, retrying transient failures
+   * (with a countdown) and queueing it in the outbox while offline.
+   * Campaigns larger than the backend's batch size are sent in batches.
+   */
+  const deliver = async (payload: WebhookPayload, successMessage: string) => {
+    setSentCampaign({ fields, payload });
+
+    if (listPayloadRecipients(payload).length > limits.batchSize) {
+      batchFieldsRef.current = fields;
+      await sendBatches(splitIntoBatches(payload, limits.batchSize), successMessage);
+      return;
+    }
+
+    const controller = new AbortController();
+    submitControllerRef.current = controller;
+
+    try {
+      const result = await deliverCampaign(webhookUrl, fields, payload, {
+        signal: controller.signal,
+        onRetry: (retry) => dispatch({ type: 'retry_scheduled', retry }),
+      });
+
+      if (result.status === 'queued') {
+        dispatch({ type: 'accepted', message: t('form.queued') });
+        resetForm();
+      } else if (result.response.ok) {
         // Success!
-        setSubmission({
-          status: 'success',
-          message: 'Request accepted! Emails will be generated and sent.',
-        });
-        // Reset the form
-        setFields({
-          holidayName: '',
-          tone: '',
-          audienceType: 'business',
-          language: 'en',
-          senderName: '',
-          recipients: '',
-        });
+        await handleAccepted(result.response, payload, successMessage);
+        resetForm();
       } else {
         // HTTP error (non-2xx status)
-        let errorDetail = '';
-        try {
-          const errorBody = await response.text();
-          errorDetail = errorBody ? `: ${errorBody}` : '';
-        } catch {
-          // Ignore if we can't read the body
-        }
-        setSubmission({
-          status: 'error',
-          message: `Server error (HTTP ${response.status})${errorDetail}`,
-        });
+        dispatch({ type: 'failed', message: await handleHttpError(result.response, payload) });
       }
+    } catch {
+      // Network error (after all retries) or cancelled by the user
+      dispatch({
+        type: 'failed',
+        message: controller.signal.aborted ? t('form.cancelled') : getNetworkErrorMessage(),
+      });
+    } finally {
+      submitControllerRef.current = null;
+    }
+  };
+
+  /**
+   * Puts recipients of the last campaign (e.g. the failed ones) back into
+   * the form with the campaign's settings, details, card and timezones,
+   * so they can be fixed and sent again.
+   */
+  const copyRecipientsToForm = (emails: string[]) => {
+    if (!sentCampaign) return;
+    const { payload } = sentCampaign;
+    const schedule = payload.recipient_schedule ?? [];
+
+    setFields(keepRecipients(sentCampaign.fields, emails));
+    setErrors({});
+    setLanguageTouched(true);
+    setLanguageHolidayName('');
+    setContactDetails(contactDetailsFromPayload(payload));
+    setCardImage(payload.attachment ?? null);
+    setUsePerRecipientTimezones(schedule.length > 0);
+    setRecipientTimezones(Object.fromEntries(schedule.map(({ email, timezone }) => [email.toLowerCase(), timezone])));
+  };
+
+  /**
+   * Appends how many suppressed recipients were left out to a success message.
+   */
+  const withSkippedCount = (message: string): string => {
+    const { skipped } = filterSuppressed(cleanGroupRecipients(fields.groups), suppressed);
+    return skipped.length > 0 ? `${message} ${t('suppressions.skipped', { count: skipped.length })}` : message;
+  };
+
+  /**
+   * Handles form submission.
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    // Validate the form
+    if (!validate() || needsTest) {
+      return;
+    }
+
+    dispatch({ type: 'submit' });
+
+    const payload = buildPayload('send');
+    await deliver(payload, withSkippedCount(t('form.accepted', { delivery: describeDelivery(payload) })));
+  };
+
+  /**
+   * Sends the campaign to the test address only, so the sender sees what
+   * recipients will receive. The form is kept for the real send.
+   */
+  const handleTestSend = async () => {
+    if (!testAddress || !validate()) {
+      return;
+    }
+
+    dispatch({ type: 'test' });
+
+    const payload = buildPayload('send');
+    const controller = new AbortController();
+    submitControllerRef.current = controller;
+
+    try {
+      await sendTest(webhookUrl, payload, testAddress, controller.signal);
+      setTestedFingerprint(getTestFingerprint(payload, testAddress));
+      dispatch({
+        type: 'accepted',
+        message: t('test.sent', { email: testAddress, count: payload.groups.length }),
+      });
+    } catch (error) {
+      dispatch({
+        type: 'failed',
+        message: error instanceof TypeError ? getNetworkErrorMessage() : (error as Error).message,
+      });
+    } finally {
+      submitControllerRef.current = null;
+    }
+  };
+
+  /**
+   * Requests drafts in preview mode and switches to the review step.
+   */
+  const handlePreview = async () => {
+    if (!validate()) {
+      return;
+    }
+
+    dispatch({ type: 'preview' });
+
+    try {
+      const payload = buildPayload('preview');
+      const response = await postPayload(webhookUrl, payload);
+      if (!response.ok) {
+        dispatch({ type: 'failed', message: await handleHttpError(response, payload) });
+        return;
+      }
+
+      const drafts = parseDraftsResponse(await response.json().catch(() => null));
+      dispatch({ type: 'drafts_loaded', drafts: toReviewDrafts(drafts) });
     } catch (error) {
-      // Network error or fetch failed
-      setSubmission({
-        status: 'error',
-        message: 'Unable to reach the automation server. Is n8n running?',
+      dispatch({
+        type: 'failed',
+        message: error instanceof TypeError ? getNetworkErrorMessage() : (error as Error).message,
       });
     }
   };
 
+  /**
+   * Applies a change to the drafts while in the review step.
+   */
+  const updateDrafts = (
+    update: (drafts: ReviewDraft[]) => ReviewDraft[],
+    error?: string
+  ) => {
+    dispatch({ type: 'drafts_changed', update, error });
+  };
+
+  /**
+   * Edits or approves/excludes a single draft.
+   */
+  const changeDraft = (
+    id: string,
+    changes: Partial<Pick<ReviewDraft, 'subject' | 'body' | 'approved'>>
+  ) => {
+    const edited = 'subject' in changes || 'body' in changes;
+    updateDrafts((drafts) =>
+      drafts.map((draft) =>
+        draft.id === id ? { ...draft, ...changes, edited: draft.edited || edited } : draft
+      )
+    );
+  };
+
+  /**
+   * Requests a new version of a single draft by previewing just its recipient.
+   */
+  const regenerateDraft = async (id: string) => {
+    if (submission.status !== 'reviewing') return;
+    const target = submission.drafts.find((draft) => draft.id === id);
+    if (!target) return;
+
+    const markRegenerating = (regenerating: boolean) => (drafts: ReviewDraft[]) =>
+      drafts.map((draft) => (draft.id === id ? { ...draft, regenerating } : draft));
+
+    updateDrafts(markRegenerating(true));
+
+    try {
+      const response = await postPayload(webhookUrl, buildPayload('preview', [target.recipient]));
+      if (!response.ok) {
+        updateDrafts(markRegenerating(false), await describeHttpError(response));
+        return;
+      }
+
+      const [draft] = parseDraftsResponse(await response.json().catch(() => null));
+      if (!draft) {
+        throw new Error(t('form.noDraftForRecipient'));
+      }
+      updateDrafts((drafts) =>
+        drafts.map((current) =>
+          current.id === id
+            ? { ...current, subject: draft.subject, body: draft.body, edited: false, regenerating: false }
+            : current
+        )
+      );
+    } catch (error) {
+      updateDrafts(
+        markRegenerating(false),
+        error instanceof TypeError ? getNetworkErrorMessage() : (error as Error).message
+      );
+    }
+  };
+
+  /**
+   * Sends the approved drafts. Recipients whose draft was excluded are
+   * skipped; recipients outside the preview sample are still included.
+   */
+  const sendApprovedDrafts = async () => {
+    // Approved drafts are a real delivery too: the test-send lock applies
+    if (submission.status !== 'reviewing' || needsTest) return;
+    const { drafts } = submission;
+
+    const excluded = new Set(
+      drafts.filter((draft) => !draft.approved).map((draft) => draft.recipient.toLowerCase())
+    );
+    const recipients = filterSuppressed(cleanGroupRecipients(fields.groups), suppressed).allowed.filter(
+      (email) => !excluded.has(email.toLowerCase())
+    );
+
+    const payload = buildPayload('send_drafts', recipients);
+    payload.drafts = drafts
+      .filter((draft) => draft.approved)
+      .map(({ recipient, subject, body }) => ({ recipient, subject, body }));
+
+    dispatch({ type: 'send_drafts' });
+
+    await deliver(
+      payload,
+      withSkippedCount(t('form.draftsAccepted', { count: recipients.length, delivery: describeDelivery(payload) }))
+    );
+  };
+
   /**
    * Dismisses the current alert/notification.
    */
   const dismissAlert = () => {
-    setSubmission({ status: 'idle' });
+    dispatch({ type: 'dismiss' });
   };
 
-  const isSubmitting = submission.status === 'submitting';
+  // Stop retrying (and sending batches) when the form goes away
+  useEffect(
+    () => () => {
+      submitControllerRef.current?.abort();
+      batchRunRef.current?.controller.abort();
+    },
+    []
+  );
+
+  // Keep the suppression list current (it can change in another tab of the app)
+  useEffect(() => {
+    const load = () => {
+      loadSuppressedEmails()
+        .then(setSuppressed)
+        .catch(() => undefined); // No IndexedDB: nothing is suppressed
+    };
+    load();
+    return subscribeSuppressions(load);
+  }, []);
+
+  // Follow the job while tracking; leaving the tracking state stops it
+  const trackedJob = submission.status === 'tracking' ? submission.ref : null;
+  useEffect(() => {
+    if (!trackedJob) return;
+
+    const controller = new AbortController();
+    const onUpdate = (job: JobSnapshot) => {
+      dispatch({ type: 'job_updated', job });
+      // Bounced addresses won't be emailed again
+      if (isJobFinished(job)) suppressBouncedRecipients(job.recipients).catch(() => undefined);
+    };
+    trackJob(trackedJob, onUpdate, controller.signal).catch(
+      (error: Error) => {
+        if (!controller.signal.aborted) {
+          dispatch({ type: 'tracking_failed', message: error.message });
+        }
+      }
+    );
+    return () => controller.abort();
+  }, [trackedJob]);
+
+  const isSubmitting = submission.status === 'submitting' || submission.status === 'previewing';
+  const isReviewing = submission.status === 'reviewing' || submission.status === 'sending_drafts';
+  const isTracking = submission.status === 'tracking';
+  const isBatching = submission.status === 'batching';
+  const isTesting = submission.status === 'testing';
+  // Fields are locked while a request is in flight, drafts are being
+  // reviewed, a job is being followed or batches are being sent
+  const isLocked = isSubmitting || isReviewing || isTracking || isBatching || isTesting;
+  const { allowed: recipients, skipped: skippedRecipients } = useMemo(
+    () => filterSuppressed(cleanGroupRecipients(fields.groups), suppressed),
+    [fields.groups, suppressed]
+  );
+  // Rebuilt only when its inputs change rather than on every render
+  const testFingerprint = useMemo(
+    () => getTestFingerprint(buildPayload('send'), testAddress),
+    // buildPayload reads these through getCampaignContext
+    [fields, contactDetails, suppressed, features.attachments, cardImage, usePerRecipientTimezones, recipientTimezones, testAddress]
+  );
+  // Whether the current content was sent to the test address yet
+  const isTested = testedFingerprint === testFingerprint;
+  // With a test address, the campaign can only be sent once tested
+  const needsTest = Boolean(testAddress) && !isTested;
+  // Per-recipient results the webhook reported for the last send (or its batches)
+  const sentResults =
+    submission.status === 'success'
+      ? (submission.results ?? [])
+      : submission.status === 'batched'
+        ? submission.batches.flatMap((batch) => batch.results ?? [])
+        : [];
 
   return (
     <form onSubmit={handleSubmit} className="space-y-5">
@@ -169,29 +873,62 @@ export function Form({ webhookUrl }: FormProps) {
           onDismiss={dismissAlert}
         />
       )}
+      {(submission.status === 'batching' || submission.status === 'batched') && (
+        <BatchProgress
+          batches={submission.batches}
+          message={submission.message}
+          running={submission.status === 'batching'}
+          paused={submission.status === 'batching' && submission.paused}
+          nextAt={submission.status === 'batching' ? submission.nextAt : undefined}
+          stopped={submission.status === 'batched' && submission.stopped}
+          onPause={() => pauseBatches(true)}
+          onResume={() => pauseBatches(false)}
+          onStop={() => batchRunRef.current?.controller.abort()}
+          onRetry={retryBatches}
+          onDismiss={dismissAlert}
+        />
+      )}
+      {(submission.status === 'tracking' || submission.status === 'completed') && (
+        <JobProgress
+          job={submission.job}
+          message={submission.message}
+          trackingError={submission.status === 'completed' ? submission.trackingError : undefined}
+          onDismiss={dismissAlert}
+        />
+      )}
+      {sentResults.length > 0 && (
+        <ResultsPanel
+          results={sentResults}
+          holidayName={sentCampaign?.fields.holidayName ?? ''}
+          senderName={sentCampaign?.fields.senderName ?? ''}
+          onCopyFailed={copyRecipientsToForm}
+          onDismiss={dismissAlert}
+        />
+      )}
+
+      {/* Saved templates */}
+      <TemplateManager fields={fields} capabilities={capabilities} onApply={applyTemplate} disabled={isLocked} />
 
       {/* Holiday Name */}
       <Field
-        label="Holiday Name"
+        label={t('form.holidayName.label')}
         name="holidayName"
         required
         error={errors.holidayName}
       >
-        <input
-          type="text"
-          id="holidayName"
+        <HolidayAutocomplete
           name="holidayName"
           value={fields.holidayName}
-          onChange={(e) => updateField('holidayName', e.target.value)}
-          placeholder="e.g., Diwali, Christmas, New Year"
-          className={inputStyles}
-          disabled={isSubmitting}
+          onChange={(value) => updateField('holidayName', value)}
+          onSelect={selectHoliday}
+          disabled={isLocked}
         />
+        <UpcomingHolidays onSelect={selectHoliday} disabled={isLocked} />
       </Field>
 
       {/* Tone */}
       <Field
-        label="Tone"
+        label={t('form.tone.label')}
         name="tone"
         error={errors.tone}
       >
@@ -201,17 +938,24 @@ export function Form({ webhookUrl }: FormProps) {
           name="tone"
           value={fields.tone}
           onChange={(e) => updateField('tone', e.target.value)}
-          placeholder="warm, formal, playful…"
+          list={TONE_LIST_ID}
+          dir="auto"
+          placeholder={t('form.tone.placeholder')}
           className={inputStyles}
-          disabled={isSubmitting}
+          disabled={isLocked}
         />
+        <datalist id={TONE_LIST_ID}>
+          {capabilities.tones.map((tone) => (
+            <option key={tone} value={tone} />
+          ))}
+        </datalist>
       </Field>
 
       {/* Two-column layout for Audience Type and Language */}
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         {/* Audience Type */}
         <Field
-          label="Audience Type"
+          label={t('form.audienceType.label')}
           name="audienceType"
           error={errors.audienceType}
         >
@@ -221,11 +965,11 @@ export function Form({ webhookUrl }: FormProps) {
             value={fields.audienceType}
             onChange={(e) => updateField('audienceType', e.target.value)}
             className={selectStyles}
-            disabled={isSubmitting}
+            disabled={isLocked}
           >
-            {AUDIENCE_OPTIONS.map((option) => (
+            {capabilities.audiences.map((option) => (
               <option key={option.value} value={option.value}>
-                {option.label}
+                {getAudienceLabel(option)}
               </option>
             ))}
           </select>
@@ -233,7 +977,7 @@ export function Form({ webhookUrl }: FormProps) {
 
         {/* Language */}
         <Field
-          label="Language"
+          label={t('form.language.label')}
           name="language"
           error={errors.language}
         >
@@ -241,22 +985,31 @@ export function Form({ webhookUrl }: FormProps) {
             id="language"
             name="language"
             value={fields.language}
-            onChange={(e) => updateField('language', e.target.value)}
+            onChange={(e) => {
+              updateField('language', e.target.value);
+              setLanguageTouched(true);
+              setLanguageHolidayName('');
+            }}
             className={selectStyles}
-            disabled={isSubmitting}
+            disabled={isLocked}
           >
-            {LANGUAGE_OPTIONS.map((option) => (
+            {capabilities.languages.map((option) => (
               <option key={option.value} value={option.value}>
-                {option.label}
+                {describeLanguage(option)}
               </option>
             ))}
           </select>
+          {languageHolidayName && (
+            <p className="text-blue-400 text-xs mt-1">
+              {t('form.languageHint', { language: getLanguageName(fields.language), holiday: languageHolidayName })}
+            </p>
+          )}
         </Field>
       </div>
 
       {/* Sender Name */}
       <Field
-        label="Sender Name"
+        label={t('form.senderName.label')}
         name="senderName"
         required
         error={errors.senderName}
@@ -267,76 +1020,280 @@ export function Form({ webhookUrl }: FormProps) {
           name="senderName"
           value={fields.senderName}
           onChange={(e) => updateField('senderName', e.target.value)}
-          placeholder="Your name (will sign the emails)"
+          dir="auto"
+          placeholder={t('form.senderName.placeholder')}
           className={inputStyles}
-          disabled={isSubmitting}
+          disabled={isLocked}
         />
       </Field>
 
-      {/* Recipients */}
-      <Field
-        label="Recipients"
-        name="recipients"
-        required
-        error={errors.recipients}
-      >
-        <textarea
-          id="recipients"
-          name="recipients"
-          value={fields.recipients}
-          onChange={(e) => updateField('recipients', e.target.value)}
-          placeholder="Enter email addresses (comma or newline separated)"
-          rows={4}
-          className={inputStyles + ' resize-y'}
-          disabled={isSubmitting}
-        />
-      </Field>
+      {/* Holiday card */}
+      {features.attachments && (
+        <Field
+          label={t('image.label')}
+          name="attachment"
+          error={errors.attachment}
+        >
+          <ImagePicker
+            id="attachment"
+            value={cardImage}
+            onChange={(image) => {
+              setCardImage(image);
+              setErrors(({ attachment: _cleared, ...rest }) => rest);
+            }}
+            onError={(message) => setErrors((prev) => ({ ...prev, attachment: message }))}
+            disabled={isLocked}
+          />
+        </Field>
+      )}
 
-      {/* Submit Button */}
-      <button
-        type="submit"
-        disabled={isSubmitting}
-        className={`
-          w-full py-3 px-4
-          bg-blue-600 hover:bg-blue-500
-          text-white font-semibold
-          rounded-lg
-          transition-colors
-          disabled:opacity-50 disabled:cursor-not-allowed
-          flex items-center justify-center gap-2
-        `}
-      >
-        {isSubmitting ? (
-          <>
-            {/* Simple spinner */}
-            <svg
-              className="animate-spin h-5 w-5"
-              xmlns="http://www.w3.org/2000/svg"
-              fill="none"
-              viewBox="0 0 24 24"
+      {/* Recipient groups */}
+      <div className="space-y-4">
+        {fields.groups.map((group, index) => (
+          <RecipientGroupEditor
+            key={group.id}
+            group={group}
+            index={index}
+            multiple={fields.groups.length > 1}
+            defaults={fields}
+            capabilities={capabilities}
+            toneListId={TONE_LIST_ID}
+            errors={getGroupErrors(index)}
+            onChange={(changes) => updateGroup(index, changes)}
+            onImport={(contacts) => handleImport(index, contacts)}
+            onRemove={() => removeGroup(index)}
+            disabled={isLocked}
+          />
+        ))}
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <button
+            type="button"
+            onClick={addGroup}
+            disabled={isLocked}
+            className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('groups.add')}
+          </button>
+          <ContactPicker
+            listed={new Set(cleanGroupRecipients(fields.groups).map((email) => email.toLowerCase()))}
+            capabilities={capabilities}
+            onPick={handlePickContacts}
+            disabled={isLocked}
+          />
+          <p className="text-xs text-slate-500">
+            {fields.groups.length > 1 ? t('groups.defaultsHint') : t('groups.addHint')}
+          </p>
+          {skippedRecipients.length > 0 && (
+            <p className="text-xs text-amber-400">
+              {t('suppressions.willSkip', { count: skippedRecipients.length })}{' '}
+              <span dir="ltr">{skippedRecipients.join(', ')}</span>
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Personal note */}
+      {features.note && (
+        <Field
+          label={t('note.label')}
+          name="note"
+          required={noteRequired}
+          error={errors.note}
+        >
+          <NoteEditor
+            id="note"
+            value={fields.note}
+            onChange={(note) => updateField('note', note)}
+            recipients={recipients}
+            getValues={(email) => getRecipientMergeValues(email, contactDetails)}
+            customFields={getCustomMergeFields(fields, contactDetails)}
+            disabled={isLocked}
+          />
+        </Field>
+      )}
+
+      {/* Delivery schedule */}
+      {features.scheduling && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Field
+              label={t('form.sendAt.label')}
+              name="sendAt"
+              error={errors.sendAt}
             >
-              <circle
-                className="opacity-25"
-                cx="12"
-                cy="12"
-                r="10"
-                stroke="currentColor"
-                strokeWidth="4"
+              <input
+                type="datetime-local"
+                id="sendAt"
+                name="sendAt"
+                value={fields.sendAt}
+                onChange={(e) => updateField('sendAt', e.target.value)}
+                className={inputStyles + ' [color-scheme:dark]'}
+                disabled={isLocked}
               />
-              <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+            </Field>
+
+            <Field
+              label={t('form.timezone.label')}
+              name="timezone"
+              error={errors.timezone}
+            >
+              <input
+                type="text"
+                id="timezone"
+                name="timezone"
+                list={TIMEZONE_LIST_ID}
+                value={fields.timezone}
+                onChange={(e) => updateField('timezone', e.target.value)}
+                dir="ltr"
+                placeholder={t('form.timezone.placeholder')}
+                className={inputStyles}
+                disabled={isLocked}
               />
-            </svg>
-            Sending…
-          </>
-        ) : (
-          <>
-            🚀 Generate & Send Emails
-          </>
+            </Field>
+          </div>
+          <datalist id={TIMEZONE_LIST_ID}>
+            {listTimeZones().map((zone) => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+          {fields.sendAt ? (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={usePerRecipientTimezones}
+                  onChange={(e) => setUsePerRecipientTimezones(e.target.checked)}
+                  disabled={isLocked}
+                />
+                {t('form.perRecipientTimezones')}
+              </label>
+              {usePerRecipientTimezones && (
+                <RecipientTimezones
+                  recipients={recipients}
+                  timezones={recipientTimezones}
+                  defaultTimeZone={fields.timezone}
+                  listId={TIMEZONE_LIST_ID}
+                  onChange={updateRecipientTimezone}
+                  disabled={isLocked}
+                />
+              )}
+              {errors.recipientTimezones && (
+                <p className="text-red-400 text-xs">{errors.recipientTimezones}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500 -mt-3">{t('form.sendNowHint')}</p>
+          )}
+        </>
+      )}
+
+      {(submission.status === 'submitting' ||
+        submission.status === 'sending_drafts' ||
+        submission.status === 'batching') &&
+        submission.retry && (
+          <RetryCountdown
+            retry={submission.retry}
+            onCancel={() => (batchRunRef.current?.controller ?? submitControllerRef.current)?.abort()}
+          />
         )}
-      </button>
+
+      {/* Batching, daily quota and test send */}
+      {!isLocked && (
+        <>
+          <SendingLimitsNotice recipientCount={recipients.length} webhookUrl={webhookUrl} limits={limits} />
+          <TestSendStatus testAddress={testAddress} tested={isTested} />
+        </>
+      )}
+
+      {isReviewing ? (
+        /* Review step of the preview flow */
+        <DraftReview
+          drafts={submission.drafts}
+          recipientCount={recipients.length}
+          error={submission.status === 'reviewing' ? submission.error : undefined}
+          sending={submission.status === 'sending_drafts'}
+          onChange={changeDraft}
+          onRegenerate={regenerateDraft}
+          onSend={sendApprovedDrafts}
+          blockedReason={needsTest ? t('test.requiredDrafts', { email: testAddress }) : undefined}
+          onCancel={dismissAlert}
+        />
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-3">
+          {/* Preview Button */}
+          {features.preview && (
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={isLocked}
+              className={`
+                py-3 px-4
+                border border-slate-600 hover:bg-slate-700
+                text-slate-200 font-semibold
+                rounded-lg
+                transition-colors
+                disabled:opacity-50 disabled:cursor-not-allowed
+              `}
+            >
+              {t('form.preview')}
+            </button>
+          )}
+
+          {/* Test Send Button */}
+          <TestSendButton
+            testAddress={testAddress}
+            sending={isTesting}
+            disabled={isLocked}
+            onSend={handleTestSend}
+          />
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            disabled={isLocked || needsTest}
+            className={`
+              flex-1 py-3 px-4
+              bg-blue-600 hover:bg-blue-500
+              text-white font-semibold
+              rounded-lg
+              transition-colors
+              disabled:opacity-50 disabled:cursor-not-allowed
+              flex items-center justify-center gap-2
+            `}
+          >
+            {isSubmitting ? (
+              <>
+                {/* Simple spinner */}
+                <svg
+                  className="animate-spin h-5 w-5"
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  />
+                </svg>
+                {submission.status === 'previewing' ? t('form.generatingDrafts') : t('common.sending')}
+              </>
+            ) : (
+              <>
+                {fields.sendAt ? t('form.schedule') : t('form.send')}
+              </>
+            )}
+          </button>
+        </div>
+      )}
     </form>
   );
 }
@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Alert } from './Alert';
+import { selectStyles } from './Field';
+import {
+  CampaignRecord,
+  CampaignStatus,
+  deleteCampaign,
+  listCampaigns,
+  retryCampaign,
+} from '../lib/history';
+import { listPayloadRecipients } from '../../../shared/schema';
+import { MessageKey, formatDate, t } from '../lib/i18n';
+
+/**
+ * Props for the History component.
+ */
+interface HistoryProps {
+  /** Opens the form pre-filled with a past campaign */
+  onDuplicate: (record: CampaignRecord) => void;
+}
+
+/**
+ * Badge styles for each campaign status.
+ */
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  success: 'bg-green-900/50 border-green-700 text-green-200',
+  failed: 'bg-red-900/50 border-red-700 text-red-200',
+  pending: 'bg-slate-700 border-slate-600 text-slate-300',
+  queued: 'bg-amber-900/50 border-amber-700 text-amber-200',
+};
+
+/**
+ * Message keys of the label for each campaign status.
+ */
+const STATUS_LABELS: Record<CampaignStatus, MessageKey> = {
+  success: 'history.status.success',
+  failed: 'history.status.failed',
+  pending: 'history.status.pending',
+  queued: 'history.status.queued',
+};
+
+/**
+ * Message keys of the labels for the payload mode of a campaign.
+ */
+const MODE_LABELS: Record<string, MessageKey> = {
+  send: 'history.mode.send',
+  send_drafts: 'history.mode.send_drafts',
+};
+
+/**
+ * History view listing past campaigns stored in IndexedDB.
+ * Campaigns can be filtered by holiday and status, duplicated into the
+ * form, retried (when failed) or deleted.
+ */
+export function History({ onDuplicate }: HistoryProps) {
+  const [records, setRecords] = useState<CampaignRecord[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [holidayFilter, setHolidayFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<CampaignStatus | ''>('');
+  const [retryingId, setRetryingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    listCampaigns()
+      .then(setRecords)
+      .catch(() => {
+        setRecords([]);
+        setLoadError(t('history.unavailable'));
+      });
+  }, []);
+
+  /**
+   * Re-posts a failed campaign and replaces it in the list with the result.
+   */
+  const handleRetry = async (record: CampaignRecord) => {
+    setRetryingId(record.id!);
+    try {
+      const updated = await retryCampaign(record);
+      setRecords((prev) => prev && prev.map((r) => (r.id === updated.id ? updated : r)));
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleDelete = async (record: CampaignRecord) => {
+    await deleteCampaign(record.id!);
+    setRecords((prev) => prev && prev.filter((r) => r.id !== record.id));
+  };
+
+  if (records === null) {
+    return <p className="text-sm text-slate-400 text-center py-8">{t('history.loading')}</p>;
+  }
+
+  const holidays = Array.from(new Set(records.map((r) => r.payload.holiday_name))).sort();
+  const visible = records.filter(
+    (r) =>
+      (!holidayFilter || r.payload.holiday_name === holidayFilter) &&
+      (!statusFilter || r.status === statusFilter)
+  );
+
+  return (
+    <section className="space-y-4">
+      {loadError && <Alert type="error" message={loadError} />}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <select
+          value={holidayFilter}
+          onChange={(e) => setHolidayFilter(e.target.value)}
+          className={selectStyles}
+          aria-label={t('history.filterHoliday')}
+        >
+          <option value="">{t('history.allHolidays')}</option>
+          {holidays.map((holiday) => (
+            <option key={holiday} value={holiday}>
+              {holiday}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as CampaignStatus | '')}
+          className={selectStyles}
+          aria-label={t('history.filterStatus')}
+        >
+          <option value="">{t('history.allStatuses')}</option>
+          {(Object.keys(STATUS_LABELS) as CampaignStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {t(STATUS_LABELS[status])}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">
+          {records.length === 0 ? t('history.empty') : t('history.noMatch')}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map((record) => {
+            const recipientCount = listPayloadRecipients(record.payload).length;
+            const isRetrying = retryingId === record.id;
+            return (
+              <li key={record.id} className="border border-slate-700 rounded-lg p-4 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-slate-100 font-semibold">{record.payload.holiday_name}</p>
+                    <p className="text-xs text-slate-400">
+                      {formatDate(new Date(record.createdAt), { dateStyle: 'medium', timeStyle: 'short' })} ·{' '}
+                      {t('history.recipients', { count: recipientCount })} ·{' '}
+                      {MODE_LABELS[record.payload.mode] ? t(MODE_LABELS[record.payload.mode]) : record.payload.mode}
+                      {record.attempts > 1 && ` · ${t('history.attempts', { count: record.attempts })}`}
+                      {record.batch &&
+                        ` · ${t('history.batch', { number: record.batch.index + 1, count: record.batch.count })}`}
+                    </p>
+                  </div>
+                  <span className={`${STATUS_STYLES[record.status]} border rounded-full px-2 py-0.5 text-xs flex-shrink-0`}>
+                    {t(STATUS_LABELS[record.status])}
+                    {record.httpStatus !== undefined && ` · HTTP ${record.httpStatus}`}
+                  </span>
+                </div>
+
+                <p className="text-xs text-slate-500 break-all">
+                  <span className="text-slate-400">{t('history.backend')} </span>
+                  <span dir="ltr">{record.webhookUrl}</span>
+                </p>
+                {record.status === 'failed' && record.error && (
+                  <p className="text-xs text-red-300 break-words">{record.error}</p>
+                )}
+
+                <div className="flex gap-4 text-xs pt-1">
+                  <button
+                    type="button"
+                    onClick={() => onDuplicate(record)}
+                    className="text-blue-400 hover:text-blue-300"
+                  >
+                    {t('history.duplicate')}
+                  </button>
+                  {record.status === 'failed' && (
+                    <button
+                      type="button"
+                      onClick={() => handleRetry(record)}
+                      className="text-amber-400 hover:text-amber-300 disabled:opacity-50"
+                      disabled={isRetrying}
+                    >
+                      {isRetrying ? t('history.retrying') : t('history.retry')}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(record)}
+                    className="text-slate-500 hover:text-red-400 ms-auto"
+                  >
+                    {t('common.delete')}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
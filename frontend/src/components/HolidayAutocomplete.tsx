@@ -0,0 +1,129 @@
+import { useState, KeyboardEvent } from 'react';
+import { inputStyles } from './Field';
+import {
+  Holiday,
+  findHoliday,
+  formatHolidayDate,
+  getTraditionLabel,
+  nextOccurrence,
+  searchHolidays,
+} from '../lib/holidays';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the HolidayAutocomplete component.
+ */
+interface HolidayAutocompleteProps {
+  /** id/name of the input, matching the surrounding Field */
+  name: string;
+  /** Current input value */
+  value: string;
+  /** Called on every keystroke with the raw value */
+  onChange: (value: string) => void;
+  /** Called when a holiday from the calendar is picked */
+  onSelect: (holiday: Holiday) => void;
+  /** Disables the input (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/**
+ * Holiday Name input with suggestions from the bundled holiday calendar.
+ * Matches names, aliases and close misspellings, and supports keyboard
+ * navigation (↑/↓ to move, Enter to pick, Escape to close).
+ */
+export function HolidayAutocomplete({ name, value, onChange, onSelect, disabled }: HolidayAutocompleteProps) {
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = searchHolidays(value);
+  // Hide the list once the value exactly matches the only suggestion
+  const exactMatch = findHoliday(value);
+  const showList =
+    open && suggestions.length > 0 && !(suggestions.length === 1 && exactMatch?.id === suggestions[0].id);
+  const listId = `${name}-suggestions`;
+
+  const pick = (holiday: Holiday) => {
+    onChange(holiday.name);
+    onSelect(holiday);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!showList) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        id={name}
+        name={name}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActiveIndex(0);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay closing so a click on a suggestion still registers
+        onBlur={() => setTimeout(() => setOpen(false), 100)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('form.holidayName.placeholder')}
+        dir="auto"
+        className={inputStyles}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        disabled={disabled}
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-slate-800 border border-slate-600 rounded-lg shadow-xl overflow-hidden"
+        >
+          {suggestions.map((holiday, index) => {
+            const next = nextOccurrence(holiday);
+            return (
+              <li
+                key={holiday.id}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(holiday);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-3 py-2 cursor-pointer flex items-baseline justify-between gap-3 ${
+                  index === activeIndex ? 'bg-slate-700' : ''
+                }`}
+              >
+                <span className="text-sm text-slate-100">
+                  {holiday.name}
+                  <span className="ms-2 text-xs text-slate-500">{getTraditionLabel(holiday.tradition)}</span>
+                </span>
+                {next && <span className="text-xs text-slate-400 flex-shrink-0">{formatHolidayDate(next)}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
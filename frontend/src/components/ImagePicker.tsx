@@ -0,0 +1,117 @@
+import { useState, ChangeEvent, DragEvent } from 'react';
+import { PayloadAttachment } from '../lib/webhook';
+import { formatFileSize, processCardImage, toDataUrl } from '../lib/image';
+import { ATTACHMENT_CONTENT_TYPES, getBase64Size } from '../../../shared/schema';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the ImagePicker component.
+ */
+interface ImagePickerProps {
+  /** id of the file input, for the Field label */
+  id: string;
+  /** The processed image, or null when none is picked */
+  value: PayloadAttachment | null;
+  /** Called with the processed image, or null when it's removed */
+  onChange: (image: PayloadAttachment | null) => void;
+  /** Called with a user-facing message when a file is rejected */
+  onError: (message: string) => void;
+  /** Disables the drop zone and buttons (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/**
+ * Holiday card picker: a drop zone that accepts a JPEG, PNG or WebP image,
+ * resizes and compresses it in the browser, and shows a preview with its
+ * final size. Rejected files are reported through `onError`.
+ */
+export function ImagePicker({ id, value, onChange, onError, disabled }: ImagePickerProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const loadFile = async (file: File) => {
+    setIsProcessing(true);
+    try {
+      onChange(await processCardImage(file));
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(file);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    const file = e.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center gap-3 border border-slate-600 rounded-lg p-2 bg-slate-900/40">
+        <img
+          src={toDataUrl(value)}
+          alt={t('image.previewAlt')}
+          className="h-20 w-28 object-cover rounded border border-slate-700"
+        />
+        <div className="flex-1 min-w-0 text-xs">
+          <p dir="ltr" className="text-slate-300 font-medium truncate text-start">{value.filename}</p>
+          <p className="text-slate-500">
+            {t('image.details', {
+              width: value.width ?? '?',
+              height: value.height ?? '?',
+              size: formatFileSize(getBase64Size(value.data)),
+            })}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('image.remove')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <label
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`
+        flex items-center justify-center gap-2
+        px-3 py-4
+        border border-dashed rounded-lg
+        text-xs text-slate-400
+        transition-colors
+        ${disabled || isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-slate-500 hover:text-slate-300'}
+        ${isDragging ? 'border-blue-500 text-blue-300' : 'border-slate-600'}
+      `}
+    >
+      {isProcessing ? t('image.processing') : t('image.dropZone')}
+      <input
+        type="file"
+        id={id}
+        accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+        onChange={handleFileChange}
+        className="sr-only"
+        disabled={disabled || isProcessing}
+      />
+    </label>
+  );
+}
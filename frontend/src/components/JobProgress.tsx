@@ -0,0 +1,131 @@
+import { Alert } from './Alert';
+import {
+  JobSnapshot,
+  RecipientDeliveryStatus,
+  countRecipientStatuses,
+  isJobFinished,
+  isRecipientFinished,
+} from '../lib/jobs';
+import { MessageKey, formatNumber, t } from '../lib/i18n';
+
+/**
+ * Props for the JobProgress component.
+ */
+interface JobProgressProps {
+  /** Latest known state of the job */
+  job: JobSnapshot;
+  /** Summary of what was accepted (e.g. the delivery schedule) */
+  message: string;
+  /** Set when following the job failed before it finished */
+  trackingError?: string;
+  /** Stops following the job / closes the panel */
+  onDismiss: () => void;
+}
+
+/**
+ * Label and badge styles for each recipient delivery status (also used
+ * by the results panel).
+ */
+export const RECIPIENT_STATUS_DISPLAY: Record<RecipientDeliveryStatus, { labelKey: MessageKey; className: string }> = {
+  pending: { labelKey: 'job.status.pending', className: 'bg-slate-700 border-slate-600 text-slate-300' },
+  generated: { labelKey: 'job.status.generated', className: 'bg-blue-900/50 border-blue-700 text-blue-200' },
+  sent: { labelKey: 'job.status.sent', className: 'bg-green-900/50 border-green-700 text-green-200' },
+  bounced: { labelKey: 'job.status.bounced', className: 'bg-amber-900/50 border-amber-700 text-amber-200' },
+  failed: { labelKey: 'job.status.failed', className: 'bg-red-900/50 border-red-700 text-red-200' },
+};
+
+/**
+ * Live progress panel for an asynchronous job, showing overall progress
+ * and the delivery status of each recipient.
+ */
+export function JobProgress({ job, message, trackingError, onDismiss }: JobProgressProps) {
+  const counts = countRecipientStatuses(job);
+  const total = job.recipients.length;
+  const finishedCount = job.recipients.filter(isRecipientFinished).length;
+  const percent = total > 0 ? Math.round((finishedCount / total) * 100) : 0;
+  const finished = isJobFinished(job);
+  const problems = counts.failed + counts.bounced;
+
+  return (
+    <section className="space-y-3 border border-slate-700 rounded-lg p-4" aria-live="polite">
+      <header className="flex items-baseline justify-between gap-3">
+        <h2 className="text-lg font-semibold text-slate-100">{t('job.title')}</h2>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-xs text-slate-400 hover:text-slate-200"
+        >
+          {finished || trackingError ? t('job.close') : t('job.stopWatching')}
+        </button>
+      </header>
+
+      <p className="text-sm text-slate-300">{message}</p>
+
+      {job.status === 'failed' && (
+        <Alert type="error" message={job.error ?? t('job.failed')} />
+      )}
+      {job.status === 'completed' && (
+        <Alert
+          type={problems > 0 ? 'error' : 'success'}
+          message={
+            problems > 0
+              ? t('job.finishedWithProblems', { sent: counts.sent, problems })
+              : t('job.allSent', { count: counts.sent })
+          }
+        />
+      )}
+      {trackingError && (
+        <Alert
+          type="error"
+          message={t('job.trackingStopped', { jobId: job.jobId, error: trackingError })}
+        />
+      )}
+
+      {/* Overall progress */}
+      <div>
+        <div className="flex justify-between text-xs text-slate-400 mb-1">
+          <span>
+            {finished ? t('job.finished') : job.status === 'queued' ? t('job.queued') : t('job.working')}
+          </span>
+          <span>
+            {formatNumber(finishedCount)} / {formatNumber(total)}
+          </span>
+        </div>
+        <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-500 transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Counts per status */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(RECIPIENT_STATUS_DISPLAY) as RecipientDeliveryStatus[])
+          .filter((status) => counts[status] > 0)
+          .map((status) => (
+            <span key={status} className={`${RECIPIENT_STATUS_DISPLAY[status].className} border rounded-full px-2 py-0.5`}>
+              {t(RECIPIENT_STATUS_DISPLAY[status].labelKey)}: {formatNumber(counts[status])}
+            </span>
+          ))}
+      </div>
+
+      {/* Per-recipient status */}
+      <ul className="max-h-64 overflow-y-auto divide-y divide-slate-700 text-sm">
+        {job.recipients.map((recipient) => (
+          <li key={recipient.email} className="flex items-start justify-between gap-3 py-1.5">
+            <div className="min-w-0">
+              <p className="text-slate-200 break-all" dir="ltr">{recipient.email}</p>
+              {recipient.error && <p className="text-xs text-red-300">{recipient.error}</p>}
+            </div>
+            <span
+              className={`${RECIPIENT_STATUS_DISPLAY[recipient.status].className} border rounded-full px-2 py-0.5 text-xs flex-shrink-0`}
+            >
+              {t(RECIPIENT_STATUS_DISPLAY[recipient.status].labelKey)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,26 @@
+import { Locale, UI_LOCALES, setLocale, t } from '../lib/i18n';
+import { useLocale } from './Trans';
+
+/**
+ * Select for the interface language. The choice is remembered in this
+ * browser; it doesn't change the language of the generated emails.
+ */
+export function LanguageSwitcher() {
+  const locale = useLocale();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t('app.uiLanguage')}
+      title={t('app.uiLanguage')}
+      className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 cursor-pointer hover:border-slate-500"
+    >
+      {UI_LOCALES.map((option) => (
+        <option key={option.value} value={option.value} lang={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
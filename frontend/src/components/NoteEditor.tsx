@@ -0,0 +1,147 @@
+import { useRef, useState } from 'react';
+import { inputStyles, selectStyles } from './Field';
+import { MAX_NOTE_LENGTH } from '../../../shared/schema';
+import { STANDARD_MERGE_FIELDS, parseNote } from '../../../shared/note';
+import { validateNote } from '../lib/validation';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the NoteEditor component.
+ */
+interface NoteEditorProps {
+  id: string;
+  value: string;
+  onChange: (note: string) => void;
+  /** Recipients the note can be previewed for, in form order */
+  recipients: string[];
+  /** Returns a recipient's merge field values (see getRecipientMergeValues) */
+  getValues: (email: string) => Record<string, string>;
+  /** Merge fields of the imported contacts besides the standard ones */
+  customFields: string[];
+  /** Disables editing (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/** Maximum number of recipients offered as preview samples. */
+const SAMPLE_LIMIT = 100;
+
+/**
+ * Personal note editor: the note with `{{field}}` placeholders, buttons
+ * that insert the available merge fields, live checks of the placeholders
+ * and a preview rendered for a sample recipient.
+ */
+export function NoteEditor({ id, value, onChange, recipients, getValues, customFields, disabled }: NoteEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [sample, setSample] = useState('');
+
+  const parsed = parseNote(value);
+  const problem = value.trim() ? validateNote(value, customFields) : undefined;
+  const sampleEmail = recipients.includes(sample) ? sample : recipients[0];
+  const sampleValues = sampleEmail ? getValues(sampleEmail) : {};
+
+  // Recipients who have no value for a field the note uses
+  const missing = parsed.fields
+    .map((name) => ({ name, count: recipients.filter((email) => !getValues(email)[name]).length }))
+    .filter(({ count }) => count > 0);
+
+  /**
+   * Inserts a placeholder at the cursor (or replaces the selection).
+   */
+  const insertField = (name: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const placeholder = `{{${name}}}`;
+    onChange(value.slice(0, start) + placeholder + value.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        ref={textareaRef}
+        id={id}
+        name={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        dir="auto"
+        rows={3}
+        placeholder={t('note.placeholder')}
+        className={inputStyles + ' resize-y'}
+        disabled={disabled}
+      />
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-slate-400 me-1">{t('note.insertField')}</span>
+        {[...STANDARD_MERGE_FIELDS, ...customFields].map((name) => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => insertField(name)}
+            disabled={disabled}
+            dir="ltr"
+            className="px-2 py-0.5 rounded border border-slate-600 text-xs text-slate-300 hover:border-slate-400 disabled:opacity-50"
+          >
+            {`{{${name}}}`}
+          </button>
+        ))}
+        <span className={`ms-auto text-xs ${value.length > MAX_NOTE_LENGTH ? 'text-red-400' : 'text-slate-500'}`}>
+          {value.length}/{MAX_NOTE_LENGTH}
+        </span>
+      </div>
+
+      {problem && <p className="text-amber-400 text-xs">{problem}</p>}
+
+      {value.trim() && !problem && (
+        <div className="border border-slate-700 rounded-lg p-3 space-y-2 bg-slate-900/40">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-medium text-slate-300">{t('note.preview')}</span>
+            {recipients.length > 1 && (
+              <select
+                value={sampleEmail}
+                onChange={(e) => setSample(e.target.value)}
+                aria-label={t('note.sample')}
+                dir="ltr"
+                className={selectStyles + ' py-1 text-xs w-auto max-w-[60%]'}
+              >
+                {recipients.slice(0, SAMPLE_LIMIT).map((email) => (
+                  <option key={email} value={email}>
+                    {email}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <p dir="auto" className="text-sm text-slate-200 whitespace-pre-wrap">
+            {parsed.segments.map((segment, index) =>
+              segment.type === 'text' ? (
+                segment.text
+              ) : sampleValues[segment.name] ? (
+                <mark key={index} className="bg-blue-900/50 text-blue-100 rounded px-0.5">
+                  {sampleValues[segment.name]}
+                </mark>
+              ) : (
+                <mark
+                  key={index}
+                  title={t('note.emptyValue')}
+                  className="bg-amber-900/50 text-amber-200 rounded px-0.5"
+                >
+                  {`{{${segment.name}}}`}
+                </mark>
+              )
+            )}
+          </p>
+          {recipients.length === 0 && <p className="text-xs text-slate-500">{t('note.noRecipients')}</p>}
+          {missing.map(({ name, count }) => (
+            <p key={name} className="text-xs text-amber-400">
+              {t('note.missing', { count, field: `{{${name}}}` })}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
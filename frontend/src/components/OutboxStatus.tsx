@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { flushOutbox, listOutbox, startOutboxSync, subscribeOutbox } from '../lib/outbox';
+import { t } from '../lib/i18n';
+
+/**
+ * Banner showing the browser's connection state and the number of
+ * submissions waiting in the offline outbox. Also keeps the outbox
+ * syncing: queued submissions are sent on load and when back online.
+ */
+export function OutboxStatus() {
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [flushing, setFlushing] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      listOutbox()
+        .then((entries) => setQueuedCount(entries.length))
+        .catch(() => setQueuedCount(0));
+    };
+    const updateOnline = () => setOnline(navigator.onLine);
+
+    refresh();
+    const unsubscribe = subscribeOutbox(refresh);
+    const stopSync = startOutboxSync();
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+
+    return () => {
+      unsubscribe();
+      stopSync();
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const sendNow = async () => {
+    setFlushing(true);
+    try {
+      await flushOutbox();
+    } finally {
+      setFlushing(false);
+    }
+  };
+
+  if (online && queuedCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-slate-800 border-slate-600 text-slate-300 text-sm">
+      <span>
+        {online
+          ? t('outbox.waiting', { count: queuedCount })
+          : `${t('outbox.offline')} ${
+              queuedCount > 0 ? t('outbox.waitingOffline', { count: queuedCount }) : t('outbox.willWait')
+            }`}
+      </span>
+      {online && queuedCount > 0 && (
+        <button
+          type="button"
+          onClick={sendNow}
+          disabled={flushing}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 flex-shrink-0"
+        >
+          {flushing ? t('common.sending') : t('outbox.sendNow')}
+        </button>
+      )}
+    </div>
+  );
+}
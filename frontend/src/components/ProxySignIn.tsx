@@ -0,0 +1,97 @@
+import { FormEvent, useState } from 'react';
+import { inputStyles } from './Field';
+import { isSignedIn, signIn, signOut } from '../lib/auth';
+import { BackendProfile } from '../lib/profiles';
+import { formatDate, t } from '../lib/i18n';
+import { Trans } from './Trans';
+
+/**
+ * Props for the ProxySignIn component.
+ */
+interface ProxySignInProps {
+  /** Profile pointing at the proxy */
+  profile: BackendProfile;
+  /** Called with the profile changes after signing in or out */
+  onChange: (changes: Partial<BackendProfile>) => void;
+}
+
+/**
+ * Sign-in for a profile that points at the authenticated proxy. Shows the
+ * signed-in user and expiry, or a username/password form.
+ */
+export function ProxySignIn({ profile, onChange }: ProxySignInProps) {
+  const [username, setUsername] = useState(profile.session?.username ?? '');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSigningIn(true);
+    setError('');
+    try {
+      onChange(await signIn(profile, { username: username.trim(), password }));
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  if (profile.session && isSignedIn(profile)) {
+    return (
+      <p className="text-xs text-slate-400">
+        <Trans
+          id="signIn.signedIn"
+          values={{
+            username: <span className="text-slate-200">{profile.session.username}</span>,
+            expires: formatDate(new Date(profile.session.expiresAt), { dateStyle: 'medium', timeStyle: 'short' }),
+          }}
+        />{' '}
+        <button type="button" onClick={() => onChange(signOut())} className="text-blue-400 hover:text-blue-300">
+          {t('signIn.signOut')}
+        </button>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <span className="block text-xs text-slate-400">
+        {t('signIn.title')} <span className="text-slate-500">{t('signIn.onlyProxy')}</span>
+      </span>
+      {profile.session && (
+        <p className="text-xs text-amber-300">{t('signIn.expired')}</p>
+      )}
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder={t('signIn.username')}
+          aria-label={t('signIn.usernameLabel')}
+          autoComplete="username"
+          className={inputStyles + ' py-1 text-sm'}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={t('signIn.password')}
+          aria-label={t('signIn.passwordLabel')}
+          autoComplete="current-password"
+          className={inputStyles + ' py-1 text-sm'}
+        />
+        <button
+          type="submit"
+          disabled={isSigningIn || !username.trim() || !password}
+          className="px-3 py-1 text-sm font-semibold rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSigningIn ? t('signIn.submitting') : t('signIn.submit')}
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, KeyboardEvent } from 'react';
+import { RecipientDiagnostic } from '../lib/validation';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the RecipientChips component.
+ */
+interface RecipientChipsProps {
+  /** Per-address diagnostics from `analyzeRecipients` */
+  diagnostics: RecipientDiagnostic[];
+  /** Replaces the address at the given index with a new value */
+  onReplace: (index: number, address: string) => void;
+  /** Removes the address at the given index */
+  onRemove: (index: number) => void;
+  /** Removes every duplicate address at once */
+  onRemoveDuplicates: () => void;
+  /** Disables editing (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/**
+ * Returns the Tailwind classes for a chip based on its diagnostic.
+ * Invalid addresses are red, duplicates are dimmed, and typos or role
+ * accounts are amber warnings.
+ */
+function chipStyles(diagnostic: RecipientDiagnostic): string {
+  if (!diagnostic.valid) {
+    return 'bg-red-900/40 border-red-700 text-red-200';
+  }
+  if (diagnostic.duplicate) {
+    return 'bg-slate-800 border-slate-700 text-slate-500';
+  }
+  if (diagnostic.suggestion || diagnostic.roleAccount) {
+    return 'bg-amber-900/30 border-amber-700 text-amber-200';
+  }
+  return 'bg-slate-700 border-slate-600 text-slate-200';
+}
+
+/**
+ * Chip list showing the diagnostic for every address in the Recipients
+ * field. Each chip can be edited in place, removed, or corrected with a
+ * one-click domain suggestion.
+ */
+export function RecipientChips({
+  diagnostics,
+  onReplace,
+  onRemove,
+  onRemoveDuplicates,
+  disabled,
+}: RecipientChipsProps) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const validCount = diagnostics.filter((d) => d.valid && !d.duplicate).length;
+  const invalidCount = diagnostics.filter((d) => !d.valid).length;
+  const duplicateCount = diagnostics.filter((d) => d.duplicate).length;
+  const warningCount = diagnostics.filter(
+    (d) => d.valid && !d.duplicate && (d.suggestion || d.roleAccount)
+  ).length;
+
+  const startEditing = (diagnostic: RecipientDiagnostic) => {
+    setEditingIndex(diagnostic.index);
+    setEditValue(diagnostic.address);
+  };
+
+  const commitEdit = () => {
+    if (editingIndex === null) return;
+    const value = editValue.trim();
+    if (value) {
+      onReplace(editingIndex, value);
+    } else {
+      onRemove(editingIndex);
+    }
+    setEditingIndex(null);
+  };
+
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      setEditingIndex(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Summary */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+        <span className="text-slate-300">
+          {t('chips.willBeSent', { count: validCount })}
+        </span>
+        {invalidCount > 0 && <span className="text-red-400">{t('chips.invalidCount', { count: invalidCount })}</span>}
+        {warningCount > 0 && <span className="text-amber-400">{t('chips.toReview', { count: warningCount })}</span>}
+        {duplicateCount > 0 && (
+          <span className="text-slate-500">
+            {t('chips.duplicateCount', { count: duplicateCount })}
+            <button
+              type="button"
+              onClick={onRemoveDuplicates}
+              className="ms-2 text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              disabled={disabled}
+            >
+              {t('chips.removeDuplicates')}
+            </button>
+          </span>
+        )}
+      </div>
+
+      {/* Chips */}
+      <ul className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+        {diagnostics.map((diagnostic) => (
+          <li
+            key={diagnostic.index}
+            className={`${chipStyles(diagnostic)} border rounded-full ps-3 pe-1 py-0.5 text-xs flex items-center gap-1 max-w-full`}
+          >
+            {editingIndex === diagnostic.index ? (
+              <input
+                type="email"
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                onBlur={commitEdit}
+                className="bg-transparent outline-none text-slate-100 min-w-[12rem]"
+                aria-label={t('chips.edit')}
+                dir="ltr"
+                autoFocus
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => startEditing(diagnostic)}
+                className="break-all text-start"
+                title={t('chips.clickToEdit')}
+                dir="ltr"
+                disabled={disabled}
+              >
+                {diagnostic.address}
+              </button>
+            )}
+
+            {/* Diagnostic badges */}
+            {!diagnostic.valid && <span className="font-semibold">{t('chips.invalid')}</span>}
+            {diagnostic.duplicate && <span>{t('chips.duplicate')}</span>}
+            {diagnostic.roleAccount && diagnostic.valid && !diagnostic.duplicate && (
+              <span title={t('chips.roleAccountHint')}>{t('chips.roleAccount')}</span>
+            )}
+            {diagnostic.suggestion && (
+              <button
+                type="button"
+                onClick={() => onReplace(diagnostic.index, diagnostic.suggestion!)}
+                className="underline decoration-dotted hover:text-amber-100"
+                disabled={disabled}
+              >
+                {t('chips.didYouMean', { suggestion: diagnostic.suggestion })}
+              </button>
+            )}
+
+            <button
+              type="button"
+              onClick={() => onRemove(diagnostic.index)}
+              className="ms-1 w-5 h-5 rounded-full opacity-60 hover:opacity-100 hover:bg-black/20 transition-opacity"
+              aria-label={t('chips.remove', { address: diagnostic.address })}
+              disabled={disabled}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { Field, inputStyles, selectStyles } from './Field';
+import { ContactImport } from './ContactImport';
+import { RecipientChips } from './RecipientChips';
+import { RecipientGroupFields, getGroupLabel } from '../lib/groups';
+import { ImportedContact } from '../lib/contactImport';
+import { analyzeRecipients, extractEmails } from '../lib/validation';
+import { Capabilities, describeAudience, getAudienceLabel } from '../lib/capabilities';
+import { getLanguageName, t } from '../lib/i18n';
+
+/**
+ * Props for the RecipientGroupEditor component.
+ */
+interface RecipientGroupEditorProps {
+  group: RecipientGroupFields;
+  /** Position of the group in the campaign */
+  index: number;
+  /** Whether the campaign has several groups; a lone group only shows its recipients */
+  multiple: boolean;
+  /** Campaign audience, language and tone, used by empty overrides */
+  defaults: { audienceType: string; language: string; tone: string };
+  /** Languages, audiences and tones the backend supports */
+  capabilities: Capabilities;
+  /** id of the <datalist> with the suggested tones */
+  toneListId: string;
+  /** Validation errors for this group, keyed by group field */
+  errors: Record<string, string>;
+  /** Applies changes to the group */
+  onChange: (changes: Partial<RecipientGroupFields>) => void;
+  /** Adds imported contacts to the group */
+  onImport: (contacts: ImportedContact[]) => void;
+  /** Removes the group from the campaign */
+  onRemove: () => void;
+  /** Disables editing (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/**
+ * Editor for one recipient group: its recipients with their diagnostics
+ * and, when the campaign has several groups, a name and overrides for the
+ * audience, language and tone.
+ */
+export function RecipientGroupEditor({
+  group,
+  index,
+  multiple,
+  defaults,
+  capabilities,
+  toneListId,
+  errors,
+  onChange,
+  onImport,
+  onRemove,
+  disabled,
+}: RecipientGroupEditorProps) {
+  const fieldId = (field: keyof RecipientGroupFields) => `group-${group.id}-${field}`;
+  const diagnostics = analyzeRecipients(group.recipients);
+
+  /**
+   * Rewrites the recipients from a list of addresses, one per line.
+   */
+  const setRecipientList = (addresses: string[]) => {
+    onChange({ recipients: addresses.join('\n') });
+  };
+
+  const replaceRecipient = (position: number, address: string) => {
+    const addresses = extractEmails(group.recipients);
+    addresses[position] = address;
+    setRecipientList(addresses);
+  };
+
+  const recipientsField = (
+    <Field
+      label={t('form.recipients.label')}
+      name={fieldId('recipients')}
+      required
+      error={errors.recipients}
+    >
+      <textarea
+        id={fieldId('recipients')}
+        name={fieldId('recipients')}
+        value={group.recipients}
+        onChange={(e) => onChange({ recipients: e.target.value })}
+        dir="ltr"
+        placeholder={t('form.recipients.placeholder')}
+        rows={4}
+        className={inputStyles + ' resize-y'}
+        disabled={disabled}
+      />
+      <RecipientChips
+        diagnostics={diagnostics}
+        onReplace={replaceRecipient}
+        onRemove={(position) => setRecipientList(extractEmails(group.recipients).filter((_, i) => i !== position))}
+        onRemoveDuplicates={() =>
+          setRecipientList(diagnostics.filter((d) => !d.duplicate).map((d) => d.address))
+        }
+        disabled={disabled}
+      />
+      <ContactImport onImport={onImport} disabled={disabled} />
+    </Field>
+  );
+
+  if (!multiple) {
+    return recipientsField;
+  }
+
+  return (
+    <fieldset className="border border-slate-700 rounded-lg p-4 space-y-4">
+      <legend className="px-1 text-sm font-semibold text-slate-200">{getGroupLabel(group, index)}</legend>
+
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <Field label={t('groups.name.label')} name={fieldId('name')} error={errors.name}>
+            <input
+              type="text"
+              id={fieldId('name')}
+              name={fieldId('name')}
+              value={group.name}
+              onChange={(e) => onChange({ name: e.target.value })}
+              dir="auto"
+              placeholder={t('groups.name.placeholder')}
+              className={inputStyles}
+              disabled={disabled}
+            />
+          </Field>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="py-2 px-3 text-sm text-slate-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('groups.remove')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Field label={t('form.audienceType.label')} name={fieldId('audienceType')} error={errors.audienceType}>
+          <select
+            id={fieldId('audienceType')}
+            name={fieldId('audienceType')}
+            value={group.audienceType}
+            onChange={(e) => onChange({ audienceType: e.target.value })}
+            className={selectStyles}
+            disabled={disabled}
+          >
+            <option value="">
+              {t('groups.campaignDefault', {
+                value: describeAudience(capabilities, defaults.audienceType),
+              })}
+            </option>
+            {capabilities.audiences.map((option) => (
+              <option key={option.value} value={option.value}>
+                {getAudienceLabel(option)}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        <Field label={t('form.language.label')} name={fieldId('language')} error={errors.language}>
+          <select
+            id={fieldId('language')}
+            name={fieldId('language')}
+            value={group.language}
+            onChange={(e) => onChange({ language: e.target.value })}
+            className={selectStyles}
+            disabled={disabled}
+          >
+            <option value="">{t('groups.campaignDefault', { value: getLanguageName(defaults.language) })}</option>
+            {capabilities.languages.map((option) => (
+              <option key={option.value} value={option.value}>
+                {getLanguageName(option.value)}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        <Field label={t('form.tone.label')} name={fieldId('tone')} error={errors.tone}>
+          <input
+            type="text"
+            id={fieldId('tone')}
+            name={fieldId('tone')}
+            value={group.tone}
+            onChange={(e) => onChange({ tone: e.target.value })}
+            list={toneListId}
+            dir="auto"
+            placeholder={t('groups.campaignDefault', { value: defaults.tone.trim() || 'warm' })}
+            className={inputStyles}
+            disabled={disabled}
+          />
+        </Field>
+      </div>
+
+      {recipientsField}
+    </fieldset>
+  );
+}
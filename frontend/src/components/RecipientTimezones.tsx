@@ -0,0 +1,61 @@
+import { inputStyles } from './Field';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the RecipientTimezones component.
+ */
+interface RecipientTimezonesProps {
+  /** Cleaned recipient addresses */
+  recipients: string[];
+  /** Per-recipient timezone overrides, keyed by lowercased email */
+  timezones: Record<string, string>;
+  /** Campaign timezone used for recipients without an override */
+  defaultTimeZone: string;
+  /** id of the <datalist> with timezone suggestions */
+  listId: string;
+  /** Sets (or clears, with an empty string) a recipient's timezone */
+  onChange: (email: string, timeZone: string) => void;
+  /** Disables the inputs (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/**
+ * Per-recipient timezone editor for scheduled delivery.
+ * Each recipient receives the email at the scheduled wall-clock time in
+ * their own timezone; blank entries use the campaign timezone.
+ */
+export function RecipientTimezones({
+  recipients,
+  timezones,
+  defaultTimeZone,
+  listId,
+  onChange,
+  disabled,
+}: RecipientTimezonesProps) {
+  if (recipients.length === 0) {
+    return (
+      <p className="text-xs text-slate-500">{t('recipientTimezones.empty')}</p>
+    );
+  }
+
+  return (
+    <ul className="max-h-56 overflow-y-auto space-y-2 border border-slate-700 rounded-lg p-3">
+      {recipients.map((email) => (
+        <li key={email} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+          <span className="text-xs text-slate-300 break-all" dir="ltr">{email}</span>
+          <input
+            type="text"
+            list={listId}
+            value={timezones[email.toLowerCase()] ?? ''}
+            onChange={(e) => onChange(email, e.target.value)}
+            placeholder={defaultTimeZone}
+            className={inputStyles + ' text-xs py-1'}
+            aria-label={t('recipientTimezones.label', { email })}
+            dir="ltr"
+            disabled={disabled}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Alert } from './Alert';
+import { inputStyles, selectStyles } from './Field';
+import { RECIPIENT_STATUS_DISPLAY } from './JobProgress';
+import {
+  ResultFilter,
+  SendResult,
+  countResults,
+  exportResultsCsv,
+  exportResultsJson,
+  filterResults,
+  isProblemResult,
+} from '../lib/results';
+import { RecipientDeliveryStatus } from '../lib/jobs';
+import { downloadFile } from '../lib/download';
+import { formatNumber, t } from '../lib/i18n';
+
+/**
+ * Props for the ResultsPanel component.
+ */
+interface ResultsPanelProps {
+  /** Per-recipient results reported by the webhook */
+  results: SendResult[];
+  /** Holiday and sender of the campaign, for the JSON report */
+  holidayName: string;
+  senderName: string;
+  /** Puts the failed addresses back into the form (bounced ones are suppressed instead) */
+  onCopyFailed: (emails: string[]) => void;
+  /** Closes the panel */
+  onDismiss: () => void;
+}
+
+/** File names used when exporting the results. */
+const CSV_FILE_NAME = 'holiday-email-results.csv';
+const JSON_FILE_NAME = 'holiday-email-results.json';
+
+/**
+ * Results of a send as reported by the webhook: a table of recipients with
+ * their status, generated subject and error, filtered by status or search,
+ * with CSV/JSON export and a way to send the failed recipients again.
+ */
+export function ResultsPanel({ results, holidayName, senderName, onCopyFailed, onDismiss }: ResultsPanelProps) {
+  const [filter, setFilter] = useState<ResultFilter>('all');
+  const [search, setSearch] = useState('');
+  const [copied, setCopied] = useState(0);
+
+  const counts = countResults(results);
+  const failed = results.filter((result) => result.status === 'failed').map((result) => result.email);
+  const hasProblems = results.some(isProblemResult);
+  const visible = filterResults(results, filter, search);
+  const statuses = (Object.keys(RECIPIENT_STATUS_DISPLAY) as RecipientDeliveryStatus[]).filter(
+    (status) => counts[status]
+  );
+
+  const copyFailed = () => {
+    onCopyFailed(failed);
+    setCopied(failed.length);
+  };
+
+  return (
+    <section className="space-y-3 border border-slate-700 rounded-lg p-4" aria-labelledby="results-title">
+      <header className="flex items-baseline justify-between gap-3">
+        <h2 id="results-title" className="text-lg font-semibold text-slate-100">
+          {t('results.title')}
+        </h2>
+        <button type="button" onClick={onDismiss} className="text-xs text-slate-400 hover:text-slate-200">
+          {t('results.close')}
+        </button>
+      </header>
+
+      {/* Counts per status */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        {statuses.map((status) => (
+          <span key={status} className={`${RECIPIENT_STATUS_DISPLAY[status].className} border rounded-full px-2 py-0.5`}>
+            {t(RECIPIENT_STATUS_DISPLAY[status].labelKey)}: {formatNumber(counts[status] ?? 0)}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as ResultFilter)}
+          aria-label={t('results.filter')}
+          className={selectStyles + ' py-1.5 text-sm w-auto'}
+        >
+          <option value="all">{t('results.filterAll')}</option>
+          {hasProblems && <option value="problems">{t('results.filterProblems')}</option>}
+          {statuses.map((status) => (
+            <option key={status} value={status}>
+              {t(RECIPIENT_STATUS_DISPLAY[status].labelKey)}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('results.search')}
+          aria-label={t('results.search')}
+          className={inputStyles + ' py-1.5 text-sm flex-1 min-w-[10rem]'}
+        />
+      </div>
+
+      <div className="max-h-72 overflow-auto border border-slate-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-800 text-xs text-slate-400">
+            <tr>
+              <th className="px-3 py-2 font-medium text-start">{t('results.email')}</th>
+              <th className="px-3 py-2 font-medium text-start">{t('results.status')}</th>
+              <th className="px-3 py-2 font-medium text-start">{t('results.subject')}</th>
+              <th className="px-3 py-2 font-medium text-start">{t('results.error')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700">
+            {visible.map((result, index) => (
+              <tr key={`${result.email}-${index}`} className="align-top">
+                <td className="px-3 py-1.5 text-slate-200 break-all" dir="ltr">
+                  {result.email}
+                </td>
+                <td className="px-3 py-1.5">
+                  <span
+                    className={`${RECIPIENT_STATUS_DISPLAY[result.status].className} border rounded-full px-2 py-0.5 text-xs whitespace-nowrap`}
+                  >
+                    {t(RECIPIENT_STATUS_DISPLAY[result.status].labelKey)}
+                  </span>
+                </td>
+                <td className="px-3 py-1.5 text-slate-300" dir="auto">
+                  {result.subject}
+                </td>
+                <td className="px-3 py-1.5 text-xs text-red-300">{result.error}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visible.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t('results.noMatch')}</p>}
+      </div>
+
+      {copied > 0 && <Alert type="success" message={t('results.copied', { count: copied })} />}
+
+      <div className="flex flex-wrap items-center gap-3">
+        {failed.length > 0 && (
+          <button
+            type="button"
+            onClick={copyFailed}
+            className="px-3 py-1 text-sm font-semibold rounded bg-blue-600 hover:bg-blue-500 text-white"
+          >
+            {t('results.copyFailed', { count: failed.length })}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => downloadFile(CSV_FILE_NAME, exportResultsCsv(results), 'text/csv')}
+          className="text-sm text-blue-400 hover:text-blue-300"
+        >
+          {t('results.exportCsv')}
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            downloadFile(JSON_FILE_NAME, exportResultsJson(results, { holidayName, senderName }), 'application/json')
+          }
+          className="text-sm text-blue-400 hover:text-blue-300"
+        >
+          {t('results.exportJson')}
+        </button>
+      </div>
+    </section>
+  );
+}
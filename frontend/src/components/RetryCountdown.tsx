@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { RetryInfo } from '../lib/retry';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the RetryCountdown component.
+ */
+interface RetryCountdownProps {
+  /** The upcoming retry */
+  retry: RetryInfo;
+  /** Stops retrying */
+  onCancel: () => void;
+}
+
+/**
+ * Notice shown while a failed submission waits to be retried, with a
+ * live countdown to the next attempt.
+ */
+export function RetryCountdown({ retry, onCancel }: RetryCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const seconds = Math.max(0, Math.ceil((retry.retryAt - now) / 1000));
+
+  return (
+    <div
+      className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-amber-900/30 border-amber-700 text-amber-200 text-sm"
+      role="status"
+    >
+      <span>
+        {t('retry.notice', {
+          reason: retry.reason,
+          when: seconds > 0 ? t('retry.in', { seconds }) : t('retry.now'),
+          attempt: retry.attempt,
+          max: retry.maxAttempts,
+        })}
+      </span>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="text-xs text-amber-300 hover:text-amber-100 flex-shrink-0"
+      >
+        {t('common.cancel')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { countBatches } from '../lib/batches';
+import { getQuotaExcess, getSentToday } from '../lib/quota';
+import { SendingLimits } from '../lib/profiles';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the SendingLimitsNotice component.
+ */
+interface SendingLimitsNoticeProps {
+  /** Recipients the campaign goes to, suppressed addresses aside */
+  recipientCount: number;
+  /** Webhook URL whose sends today count towards the quota */
+  webhookUrl: string;
+  /** Batch size, pacing and daily quota of the backend */
+  limits: SendingLimits;
+}
+
+/**
+ * Notes below the form on how a campaign will be split into batches, and
+ * a warning when it would go over the backend's daily quota.
+ */
+export function SendingLimitsNotice({ recipientCount, webhookUrl, limits }: SendingLimitsNoticeProps) {
+  const batchCount = countBatches(recipientCount, limits.batchSize);
+  const quotaExcess = getQuotaExcess(webhookUrl, recipientCount, limits.dailyQuota);
+
+  return (
+    <>
+      {batchCount > 1 && (
+        <p className="text-xs text-slate-400">
+          {t('batches.hint', {
+            count: batchCount,
+            size: limits.batchSize,
+            seconds: limits.batchDelaySeconds,
+          })}
+        </p>
+      )}
+      {quotaExcess > 0 && (
+        <p className="p-3 rounded-lg border bg-amber-900/30 border-amber-700 text-amber-200 text-sm" role="status">
+          {t('quota.warning', {
+            count: recipientCount,
+            sent: getSentToday(webhookUrl),
+            quota: limits.dailyQuota,
+            excess: quotaExcess,
+          })}
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState, ChangeEvent, FormEvent } from 'react';
+import { Alert } from './Alert';
+import { inputStyles, selectStyles } from './Field';
+import {
+  SUPPRESSION_REASONS,
+  Suppression,
+  SuppressionReason,
+  addSuppressions,
+  exportSuppressionsCsv,
+  listSuppressions,
+  parseSuppressionsCsv,
+  removeSuppression,
+  subscribeSuppressions,
+  syncSuppressions,
+} from '../lib/suppressions';
+import { BackendProfile, getSuppressionsUrl } from '../lib/profiles';
+import { downloadFile } from '../lib/download';
+import { isValidEmail } from '../lib/validation';
+import { MessageKey, formatDate, t } from '../lib/i18n';
+
+/**
+ * Props for the SuppressionList component.
+ */
+interface SuppressionListProps {
+  /** Backend whose bounces and unsubscribes "Sync" fetches */
+  profile: BackendProfile;
+}
+
+/**
+ * Message keys of the label for each suppression reason.
+ */
+const REASON_LABELS: Record<SuppressionReason, MessageKey> = {
+  unsubscribed: 'suppressions.reason.unsubscribed',
+  bounced: 'suppressions.reason.bounced',
+  complained: 'suppressions.reason.complained',
+  manual: 'suppressions.reason.manual',
+};
+
+/** File name used when exporting the list. */
+const EXPORT_FILE_NAME = 'holiday-email-suppressions.csv';
+
+/**
+ * Suppression list view: addresses that are never emailed, with their
+ * reason and note. Addresses can be added by hand, imported from or
+ * exported to CSV, synced from the active backend's bounce and unsubscribe
+ * reports, and removed again.
+ */
+export function SuppressionList({ profile }: SuppressionListProps) {
+  const [suppressions, setSuppressions] = useState<Suppression[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [search, setSearch] = useState('');
+  const [email, setEmail] = useState('');
+  const [reason, setReason] = useState<SuppressionReason>('manual');
+  const [note, setNote] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      listSuppressions()
+        .then(setSuppressions)
+        .catch(() => {
+          setSuppressions([]);
+          setLoadError(t('suppressions.unavailable'));
+        });
+    };
+    load();
+    return subscribeSuppressions(load);
+  }, []);
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(email)) {
+      setEmailError(t('suppressions.invalidEmail'));
+      return;
+    }
+    try {
+      await addSuppressions([{ email, reason, note: note.trim(), addedAt: new Date().toISOString() }]);
+    } catch {
+      setMessage({ type: 'error', text: t('suppressions.unavailable') });
+      return;
+    }
+    setEmail('');
+    setNote('');
+    setMessage(null);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    const { suppressions: imported, skipped } = parseSuppressionsCsv(await file.text().catch(() => ''));
+    try {
+      await addSuppressions(imported);
+    } catch {
+      setMessage({ type: 'error', text: t('suppressions.unavailable') });
+      return;
+    }
+    setMessage({
+      type: imported.length > 0 ? 'success' : 'error',
+      text: [
+        t('suppressions.imported', { count: imported.length }),
+        skipped > 0 ? t('suppressions.importSkipped', { count: skipped }) : '',
+      ].join(' '),
+    });
+  };
+
+  const handleSync = async () => {
+    const url = getSuppressionsUrl(profile);
+    if (!url) {
+      setMessage({ type: 'error', text: t('suppressions.syncNoUrl') });
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const count = await syncSuppressions(url);
+      setMessage({ type: 'success', text: t('suppressions.synced', { count, name: profile.name }) });
+    } catch (error) {
+      setMessage({ type: 'error', text: (error as Error).message });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  if (suppressions === null) {
+    return <p className="text-sm text-slate-400 text-center py-8">{t('suppressions.loading')}</p>;
+  }
+
+  const query = search.trim().toLowerCase();
+  const visible = suppressions.filter(
+    (entry) => !query || entry.email.includes(query) || entry.note.toLowerCase().includes(query)
+  );
+  const buttonStyles = 'text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <section className="space-y-4">
+      {loadError && <Alert type="error" message={loadError} />}
+
+      <p className="text-sm text-slate-400">{t('suppressions.intro')}</p>
+
+      {/* Add an address by hand */}
+      <form onSubmit={handleAdd} className="border border-slate-700 rounded-lg p-3 space-y-2" noValidate>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => {
+              setEmail(e.target.value);
+              setEmailError('');
+            }}
+            placeholder={t('suppressions.email')}
+            aria-label={t('suppressions.email')}
+            dir="ltr"
+            className={inputStyles + ' py-1.5 text-sm sm:col-span-2'}
+          />
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as SuppressionReason)}
+            aria-label={t('suppressions.reason')}
+            className={selectStyles + ' py-1.5 text-sm'}
+          >
+            {SUPPRESSION_REASONS.map((option) => (
+              <option key={option} value={option}>
+                {t(REASON_LABELS[option])}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('suppressions.notePlaceholder')}
+            aria-label={t('suppressions.note')}
+            dir="auto"
+            className={inputStyles + ' py-1.5 text-sm'}
+          />
+          <button
+            type="submit"
+            disabled={!email.trim()}
+            className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('suppressions.add')}
+          </button>
+        </div>
+        {emailError && <p className="text-red-400 text-xs">{emailError}</p>}
+      </form>
+
+      {/* Import, export and sync */}
+      <div className="flex flex-wrap items-center gap-4">
+        <button type="button" onClick={handleSync} disabled={isSyncing} className={buttonStyles}>
+          {isSyncing ? t('suppressions.syncing') : t('suppressions.sync', { name: profile.name })}
+        </button>
+        <label className={buttonStyles + ' cursor-pointer'}>
+          {t('suppressions.import')}
+          <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleImport} className="sr-only" />
+        </label>
+        <button
+          type="button"
+          onClick={() => downloadFile(EXPORT_FILE_NAME, exportSuppressionsCsv(suppressions), 'text/csv')}
+          disabled={suppressions.length === 0}
+          className={buttonStyles}
+        >
+          {t('suppressions.export')}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+
+      {suppressions.length > 0 && (
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('suppressions.search', { count: suppressions.length })}
+          aria-label={t('suppressions.search', { count: suppressions.length })}
+          className={inputStyles + ' py-1.5 text-sm'}
+        />
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">
+          {suppressions.length === 0 ? t('suppressions.empty') : t('suppressions.noMatch')}
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-700 border border-slate-700 rounded-lg">
+          {visible.map((entry) => (
+            <li key={entry.email} className="flex items-start gap-3 px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p dir="ltr" className="text-sm text-slate-200 truncate text-start">{entry.email}</p>
+                <p className="text-xs text-slate-500">
+                  {t(REASON_LABELS[entry.reason])} ·{' '}
+                  {formatDate(new Date(entry.addedAt), { dateStyle: 'medium' })}
+                  {entry.note && (
+                    <>
+                      {' · '}
+                      <span dir="auto">{entry.note}</span>
+                    </>
+                  )}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => removeSuppression(entry.email)}
+                className="text-xs text-slate-500 hover:text-red-400"
+              >
+                {t('suppressions.remove')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
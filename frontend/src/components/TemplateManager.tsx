@@ -0,0 +1,234 @@
+import { useState, ChangeEvent } from 'react';
+import { inputStyles, selectStyles } from './Field';
+import {
+  CampaignTemplate,
+  createTemplate,
+  exportTemplates,
+  loadTemplates,
+  parseTemplateFile,
+  saveTemplates,
+  upsertTemplate,
+} from '../lib/templates';
+import { downloadFile } from '../lib/download';
+import { FormFields } from '../lib/validation';
+import { Capabilities, describeAudience } from '../lib/capabilities';
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the TemplateManager component.
+ */
+interface TemplateManagerProps {
+  /** Current form values, saved by "Save as template" */
+  fields: FormFields;
+  /** Labels of the audiences the backend supports, for suggested names */
+  capabilities: Capabilities;
+  /** Pre-fills the form with a template */
+  onApply: (template: CampaignTemplate) => void;
+  /** Disables the controls (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/** File name used when exporting templates. */
+const EXPORT_FILE_NAME = 'holiday-email-templates.json';
+
+/**
+ * Suggests a template name from the form, e.g. "Diwali – Business – en".
+ */
+function suggestName(fields: FormFields, capabilities: Capabilities): string {
+  return [fields.holidayName.trim(), describeAudience(capabilities, fields.audienceType), fields.language]
+    .filter(Boolean)
+    .join(' – ');
+}
+
+/**
+ * Template bar above the form: pick a saved template to pre-fill the form,
+ * save the current values as a template, and rename, delete, export or
+ * import templates. Templates are saved in this browser as they change.
+ */
+export function TemplateManager({ fields, capabilities, onApply, disabled }: TemplateManagerProps) {
+  const [templates, setTemplates] = useState<CampaignTemplate[]>(loadTemplates);
+  const [appliedId, setAppliedId] = useState('');
+  const [panel, setPanel] = useState<'none' | 'save' | 'manage'>('none');
+  const [saveName, setSaveName] = useState('');
+  const [saveInstructions, setSaveInstructions] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const update = (next: CampaignTemplate[]) => {
+    saveTemplates(next);
+    setTemplates(next);
+  };
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find((item) => item.id === id);
+    setAppliedId(id);
+    setMessage(null);
+    if (template) onApply(template);
+  };
+
+  const openSave = () => {
+    const applied = templates.find((item) => item.id === appliedId);
+    setSaveName(applied?.name ?? suggestName(fields, capabilities));
+    setSaveInstructions(applied?.instructions ?? '');
+    setMessage(null);
+    setPanel(panel === 'save' ? 'none' : 'save');
+  };
+
+  const handleSave = () => {
+    if (!saveName.trim()) return;
+    const template = createTemplate(saveName, fields, saveInstructions);
+    const replaced = templates.some((item) => item.name.toLowerCase() === template.name.toLowerCase());
+    const next = upsertTemplate(templates, template);
+    update(next);
+    setAppliedId(next.find((item) => item.name === template.name)?.id ?? '');
+    setPanel('none');
+    setMessage({
+      type: 'success',
+      text: t(replaced ? 'templates.updated' : 'templates.saved', { name: template.name }),
+    });
+  };
+
+  const renameTemplate = (id: string, name: string) => {
+    update(templates.map((item) => (item.id === id ? { ...item, name, updatedAt: new Date().toISOString() } : item)));
+  };
+
+  const deleteTemplate = (id: string) => {
+    update(templates.filter((item) => item.id !== id));
+    if (appliedId === id) setAppliedId('');
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    const imported = parseTemplateFile(await file.text().catch(() => ''));
+    if (!imported) {
+      setMessage({ type: 'error', text: t('templates.invalidFile', { file: file.name }) });
+      return;
+    }
+    update(imported.reduce(upsertTemplate, templates));
+    setMessage({ type: 'success', text: t('templates.imported', { count: imported.length }) });
+  };
+
+  const applied = templates.find((item) => item.id === appliedId);
+  const buttonStyles =
+    'text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="border border-slate-700 rounded-lg p-3 space-y-3 bg-slate-900/40">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={applied ? appliedId : ''}
+          onChange={(e) => applyTemplate(e.target.value)}
+          aria-label={t('templates.label')}
+          className={selectStyles + ' flex-1 min-w-[12rem] text-sm py-1.5'}
+          disabled={disabled || templates.length === 0}
+        >
+          <option value="">{templates.length > 0 ? t('templates.choose') : t('templates.none')}</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={openSave} disabled={disabled} className={buttonStyles}>
+          {t('templates.save')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setPanel(panel === 'manage' ? 'none' : 'manage')}
+          className={buttonStyles}
+        >
+          {t('templates.manage')}
+        </button>
+      </div>
+
+      {applied?.instructions && (
+        <p dir="auto" className="text-xs text-amber-200 whitespace-pre-line">
+          📝 {applied.instructions}
+        </p>
+      )}
+
+      {panel === 'save' && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            aria-label={t('templates.name')}
+            placeholder={t('templates.name')}
+            dir="auto"
+            className={inputStyles + ' text-sm py-1.5'}
+          />
+          <textarea
+            value={saveInstructions}
+            onChange={(e) => setSaveInstructions(e.target.value)}
+            aria-label={t('templates.instructions')}
+            placeholder={t('templates.instructionsPlaceholder')}
+            dir="auto"
+            rows={2}
+            className={inputStyles + ' text-sm resize-y'}
+          />
+          <div className="flex justify-end gap-3 text-xs">
+            <button type="button" onClick={() => setPanel('none')} className="text-slate-400 hover:text-slate-200">
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!saveName.trim()}
+              className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('templates.saveConfirm')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {panel === 'manage' && (
+        <div className="space-y-2">
+          {templates.length === 0 && <p className="text-xs text-slate-500">{t('templates.empty')}</p>}
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center gap-3">
+              <input
+                type="text"
+                value={template.name}
+                onChange={(e) => renameTemplate(template.id, e.target.value)}
+                onBlur={() => !template.name.trim() && renameTemplate(template.id, t('templates.untitled'))}
+                aria-label={t('templates.name')}
+                dir="auto"
+                className={inputStyles + ' text-sm py-1'}
+              />
+              <button
+                type="button"
+                onClick={() => deleteTemplate(template.id)}
+                className="text-xs text-slate-500 hover:text-red-400"
+              >
+                {t('common.delete')}
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-3 pt-1">
+            <button
+              type="button"
+              onClick={() => downloadFile(EXPORT_FILE_NAME, exportTemplates(templates), 'application/json')}
+              disabled={templates.length === 0}
+              className={buttonStyles}
+            >
+              {t('templates.export')}
+            </button>
+            <label className={buttonStyles + ' cursor-pointer'}>
+              {t('templates.import')}
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="sr-only" />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
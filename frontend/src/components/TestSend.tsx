@@ -0,0 +1,62 @@
+import { t } from '../lib/i18n';
+
+/**
+ * Props for the TestSendStatus component.
+ */
+interface TestSendStatusProps {
+  /** Address test sends go to; empty when the backend has none */
+  testAddress: string;
+  /** Whether the current content was sent to the test address */
+  tested: boolean;
+}
+
+/**
+ * Line below the form saying whether the campaign still needs a test send.
+ */
+export function TestSendStatus({ testAddress, tested }: TestSendStatusProps) {
+  if (tested) {
+    return <p className="text-xs text-green-400">{t('test.upToDate', { email: testAddress })}</p>;
+  }
+  if (testAddress) {
+    return <p className="text-xs text-amber-300">{t('test.required', { email: testAddress })}</p>;
+  }
+  return <p className="text-xs text-slate-500">{t('test.noAddress')}</p>;
+}
+
+/**
+ * Props for the TestSendButton component.
+ */
+interface TestSendButtonProps {
+  /** Address test sends go to; empty when the backend has none */
+  testAddress: string;
+  /** Whether a test send is in flight */
+  sending: boolean;
+  /** Whether the form is locked by another request */
+  disabled: boolean;
+  /** Sends the campaign to the test address */
+  onSend: () => void;
+}
+
+/**
+ * "Send test" button next to the form's submit button.
+ */
+export function TestSendButton({ testAddress, sending, disabled, onSend }: TestSendButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onSend}
+      disabled={disabled || !testAddress}
+      title={testAddress ? t('test.sendTo', { email: testAddress }) : t('test.noAddress')}
+      className={`
+        py-3 px-4
+        border border-slate-600 hover:bg-slate-700
+        text-slate-200 font-semibold
+        rounded-lg
+        transition-colors
+        disabled:opacity-50 disabled:cursor-not-allowed
+      `}
+    >
+      {sending ? t('test.sending') : t('test.send')}
+    </button>
+  );
+}
@@ -0,0 +1,37 @@
+import { Fragment, ReactNode, useSyncExternalStore } from 'react';
+import { Locale, MessageKey, getLocale, splitMessage, subscribeLocale } from '../lib/i18n';
+
+/**
+ * Returns the current UI locale and re-renders the component when it
+ * changes.
+ */
+export function useLocale(): Locale {
+  return useSyncExternalStore(subscribeLocale, getLocale);
+}
+
+/**
+ * Props for the Trans component.
+ */
+interface TransProps {
+  /** Message key */
+  id: MessageKey;
+  /** Elements (or text) to put in the message's placeholders */
+  values: Record<string, ReactNode>;
+  /** Selects the plural form */
+  count?: number;
+}
+
+/**
+ * Renders a translated message whose placeholders hold markup, e.g. a
+ * highlighted name or a code span, so translators can move them around.
+ */
+export function Trans({ id, values, count }: TransProps) {
+  useLocale();
+  return (
+    <>
+      {splitMessage(id, values, count).map((part, i) => (
+        <Fragment key={i}>{part}</Fragment>
+      ))}
+    </>
+  );
+}
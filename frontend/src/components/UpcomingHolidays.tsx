@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Holiday, REGION_CODES, getRegionLabel, getUpcomingHolidays } from '../lib/holidays';
+import { formatDate, t } from '../lib/i18n';
+
+/**
+ * Props for the UpcomingHolidays component.
+ */
+interface UpcomingHolidaysProps {
+  /** Called when the user picks one of the upcoming holidays */
+  onSelect: (holiday: Holiday) => void;
+  /** Number of days ahead to look (defaults to 30) */
+  days?: number;
+  /** Disables the chips (e.g. while submitting) */
+  disabled?: boolean;
+}
+
+/**
+ * Compact picker listing holidays coming up in the next few weeks,
+ * optionally filtered by region.
+ */
+export function UpcomingHolidays({ onSelect, days = 30, disabled }: UpcomingHolidaysProps) {
+  const [region, setRegion] = useState('');
+  const upcoming = getUpcomingHolidays(days, region || undefined);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-slate-400">{t('holidays.upcoming', { count: days })}</span>
+        <select
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+          className="bg-transparent text-slate-400 hover:text-slate-300 cursor-pointer focus:outline-none"
+          aria-label={t('holidays.filterRegion')}
+          disabled={disabled}
+        >
+          <option value="" className="bg-slate-800">{t('holidays.allRegions')}</option>
+          {REGION_CODES.map((code) => (
+            <option key={code} value={code} className="bg-slate-800">
+              {getRegionLabel(code)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {upcoming.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('holidays.none')}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {upcoming.map(({ holiday, date }) => (
+            <button
+              key={holiday.id}
+              type="button"
+              onClick={() => onSelect(holiday)}
+              className="px-2 py-0.5 rounded-full border border-slate-600 text-xs text-slate-300 hover:border-blue-500 hover:text-blue-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={disabled}
+            >
+              {holiday.name}
+              <span className="ms-1 text-slate-500">
+                {formatDate(date, { timeZone: 'UTC', month: 'short', day: 'numeric' })}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
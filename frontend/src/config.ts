@@ -18,8 +18,14 @@
  * FALLBACK:
  * If VITE_WEBHOOK_URL is not set, it defaults to a placeholder URL.
  * The app will show a warning banner if the URL contains "REPLACE_ME".
+ *
+ * RUNTIME PROFILES:
+ * WEBHOOK_URL only seeds the "Default" backend profile. More backends can
+ * be added and switched at runtime in the Settings tab (see lib/profiles.ts).
  */
 
+import { t } from './lib/i18n';
+
 // ============================================================
 // Webhook URL - loaded from environment variable
 // ============================================================
@@ -27,21 +33,22 @@ export const WEBHOOK_URL: string =
   import.meta.env.VITE_WEBHOOK_URL || "http://localhost:5678/webhook/REPLACE_ME";
 
 /**
- * Helper to check if the webhook URL is properly configured.
+ * Helper to check if a webhook URL is properly configured.
  * Returns true if the URL still contains the placeholder text.
  */
-export const isWebhookUrlUnconfigured = (): boolean => {
-  return WEBHOOK_URL.includes("REPLACE_ME");
+export const isWebhookUrlUnconfigured = (url: string = WEBHOOK_URL): boolean => {
+  return url.includes("REPLACE_ME");
 };
 
 /**
- * Detects the backend type based on the webhook URL.
+ * Detects the backend type based on a webhook URL: where it is hosted, or
+ * the automation service behind it.
  * Useful for displaying environment info in the developer section.
  */
-export type BackendType = 'local' | 'render' | 'vercel' | 'ngrok' | 'other';
+export type BackendType = 'local' | 'render' | 'vercel' | 'ngrok' | 'make' | 'zapier' | 'other';
 
-export const getBackendType = (): BackendType => {
-  const url = WEBHOOK_URL.toLowerCase();
+export const getBackendType = (webhookUrl: string = WEBHOOK_URL): BackendType => {
+  const url = webhookUrl.toLowerCase();
   
   if (url.includes('localhost') || url.includes('127.0.0.1')) {
     return 'local';
@@ -55,32 +62,57 @@ export const getBackendType = (): BackendType => {
   if (url.includes('ngrok')) {
     return 'ngrok';
   }
+  if (url.includes('.make.com') || url.includes('.integromat.com')) {
+    return 'make';
+  }
+  if (url.includes('hooks.zapier.com')) {
+    return 'zapier';
+  }
   return 'other';
 };
 
 /**
- * Returns a human-readable label for the current backend type.
+ * Returns a human-readable label for a webhook URL's backend type.
  */
-export const getBackendLabel = (): string => {
-  const type = getBackendType();
+export const getBackendLabel = (webhookUrl: string = WEBHOOK_URL): string => {
+  const type = getBackendType(webhookUrl);
   const labels: Record<BackendType, string> = {
-    local: '🖥️ Local',
-    render: '🚀 Render',
-    vercel: '▲ Vercel',
-    ngrok: '🔗 ngrok',
-    other: '🌐 Remote',
+    local: t('backend.local'),
+    render: t('backend.render'),
+    vercel: t('backend.vercel'),
+    ngrok: t('backend.ngrok'),
+    make: t('backend.make'),
+    zapier: t('backend.zapier'),
+    other: t('backend.other'),
   };
   return labels[type];
 };
 
-// Language options available in the form
+// The options below are the built-in capabilities, used when the backend
+// doesn't publish its own (see lib/capabilities.ts).
+
+// Email languages available in the form. `label` is the language's own
+// name; the form shows it next to the name in the UI language.
 export const LANGUAGE_OPTIONS = [
   { value: "en", label: "English" },
-  { value: "hi", label: "Hindi" },
+  { value: "hi", label: "हिन्दी" },
+  { value: "ar", label: "العربية" },
+  { value: "bn", label: "বাংলা" },
+  { value: "ta", label: "தமிழ்" },
+  { value: "ur", label: "اردو" },
+  { value: "es", label: "Español" },
+  { value: "fr", label: "Français" },
+  { value: "de", label: "Deutsch" },
+  { value: "pt", label: "Português" },
+  { value: "zh", label: "中文" },
+  { value: "ja", label: "日本語" },
 ] as const;
 
 // Audience type options
 export const AUDIENCE_OPTIONS = [
-  { value: "business", label: "Business" },
-  { value: "personal", label: "Personal" },
+  { value: "business", labelKey: "audience.business" },
+  { value: "personal", labelKey: "audience.personal" },
 ] as const;
+
+// Tones suggested in the form; any other tone can be typed
+export const TONE_SUGGESTIONS = ["warm", "formal", "playful", "heartfelt"] as const;
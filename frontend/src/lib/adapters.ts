@@ -0,0 +1,375 @@
+/**
+ * Delivery adapters for the Holiday Email Orchestrator.
+ *
+ * The form always builds the webhook payload of shared/schema.ts. A
+ * profile's adapter turns it into the request its backend expects, names
+ * the header the backend's credentials go in, and reads the backend's
+ * answer back into the contract's responses, so the rest of the app
+ * doesn't need to know what it's talking to:
+ *
+ * - n8n: the payload as-is (also the mock backend and the proxy)
+ * - catch_hook: Make and Zapier catch hooks, with one flat entry per
+ *   recipient that no-code steps can iterate over
+ * - generic: any JSON endpoint, with the body built from a template
+ * - smtp_relay: a self-hosted relay that sends ready-made messages; the
+ *   personal note is the email
+ */
+
+import {
+  CapabilityFeature,
+  RecipientDetail,
+  SendResponse,
+  SendResult,
+  TEST_SUBJECT_PREFIX,
+  WebhookPayload,
+  listPayloadRecipients,
+  parseSendResults,
+} from "../../../shared/schema";
+import { getMergeValues, renderNote } from "../../../shared/note";
+import { getBackendType } from "../config";
+import { MessageKey, t } from "./i18n";
+import type { BackendProfile } from "./profiles";
+
+/**
+ * Kinds of backend a profile can deliver to.
+ */
+export type AdapterId = "n8n" | "catch_hook" | "generic" | "smtp_relay";
+
+export const ADAPTER_IDS: readonly AdapterId[] = ["n8n", "catch_hook", "generic", "smtp_relay"];
+
+/**
+ * Profile settings used by some adapters.
+ */
+export type AdapterSettings = Pick<BackendProfile, "bodyTemplate" | "relaySubject">;
+
+/**
+ * What an adapter sends for a payload.
+ */
+export interface AdapterRequest {
+  body: unknown;
+  /** Headers besides Content-Type and the profile's auth header */
+  headers: Record<string, string>;
+}
+
+/**
+ * Turns payloads into requests for one kind of backend and reads its answers.
+ */
+export interface DeliveryAdapter {
+  id: AdapterId;
+  labelKey: MessageKey;
+  descriptionKey: MessageKey;
+  /** Header the profile's credentials go in when it only sets a value */
+  authHeaderName: string;
+  /** Form features the backend can't do, whatever its capabilities say */
+  unsupported: CapabilityFeature[];
+  /** Whether campaigns need a personal note (because it is the email) */
+  requiresNote: boolean;
+  /**
+   * Builds the request for a payload. Throws an Error with a user-facing
+   * message when the profile's settings can't produce one.
+   */
+  buildRequest(payload: WebhookPayload, idempotencyKey: string | undefined, settings: AdapterSettings): AdapterRequest;
+  /**
+   * Turns the body of a 2xx response (null when empty or not JSON) into
+   * a contract response (SendResponse, PreviewResponse or a job); unset
+   * keeps the response as it is.
+   */
+  readResponse?(body: unknown, payload: WebhookPayload): unknown;
+}
+
+/** Request header carrying the idempotency key of a submission. */
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+/**
+ * Returns the headers carrying an idempotency key, if there is one.
+ */
+function idempotencyHeaders(idempotencyKey: string | undefined): Record<string, string> {
+  return idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : {};
+}
+
+/** Subject of SMTP relay emails when the profile doesn't set one. */
+export const DEFAULT_RELAY_SUBJECT = "Happy {{holiday_name}}!";
+
+/** Body template of the generic adapter when the profile doesn't set one. */
+export const DEFAULT_BODY_TEMPLATE = `{
+  "holiday": "{{holiday_name}}",
+  "sender": "{{sender_name}}",
+  "recipients": "{{recipients}}",
+  "note": "{{note}}"
+}`;
+
+/**
+ * Values a generic body template can use besides the payload's own
+ * top-level fields.
+ */
+const TEMPLATE_EXTRA_FIELDS = ["recipients", "recipient_count", "idempotency_key", "payload"];
+
+/** Fields of every payload, for checking templates without one. */
+const TEMPLATE_PAYLOAD_FIELDS = [
+  "schema_version",
+  "mode",
+  "holiday_name",
+  "sender_name",
+  "groups",
+  "recipient_details",
+  "send_at",
+  "timezone",
+  "recipient_schedule",
+  "drafts",
+  "attachment",
+  "note",
+  "test",
+];
+
+/** Names a generic body template can use, e.g. `{{holiday_name}}`. */
+export const TEMPLATE_FIELDS: readonly string[] = [...TEMPLATE_PAYLOAD_FIELDS, ...TEMPLATE_EXTRA_FIELDS];
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const WHOLE_TEMPLATE_PLACEHOLDER = /^\{\{\s*([a-z_]+)\s*\}\}$/;
+
+/**
+ * Returns the details and merge values of each recipient of a payload.
+ */
+function listRecipients(payload: WebhookPayload) {
+  const details = new Map<string, RecipientDetail>(
+    (payload.recipient_details ?? []).map((detail) => [detail.email.toLowerCase(), detail])
+  );
+  return listPayloadRecipients(payload).map(({ email, group }) => {
+    const detail = details.get(email.toLowerCase());
+    return { email, group, detail, mergeValues: getMergeValues(email, detail) };
+  });
+}
+
+/**
+ * Returns the draft a payload carries for a recipient, if any.
+ */
+function findDraft(payload: WebhookPayload, email: string) {
+  return payload.drafts?.find((draft) => draft.recipient.toLowerCase() === email.toLowerCase());
+}
+
+/**
+ * Answer for backends that only acknowledge a request.
+ */
+function acknowledge(payload: WebhookPayload): SendResponse {
+  return { ok: true, accepted: listPayloadRecipients(payload).length };
+}
+
+const n8nAdapter: DeliveryAdapter = {
+  id: "n8n",
+  labelKey: "adapters.n8n",
+  descriptionKey: "adapters.n8nDescription",
+  authHeaderName: "Authorization",
+  unsupported: [],
+  requiresNote: false,
+  buildRequest: (payload, idempotencyKey) => ({
+    body: payload,
+    headers: idempotencyHeaders(idempotencyKey),
+  }),
+};
+
+const catchHookAdapter: DeliveryAdapter = {
+  id: "catch_hook",
+  labelKey: "adapters.catchHook",
+  descriptionKey: "adapters.catchHookDescription",
+  // Make's API key header; Zapier hooks carry their secret in the URL
+  authHeaderName: "x-make-apikey",
+  unsupported: ["preview"],
+  requiresNote: false,
+
+  buildRequest(payload, idempotencyKey) {
+    const { groups, recipient_details, recipient_schedule, drafts, ...campaign } = payload;
+    const recipients = listRecipients(payload).map(({ email, group, detail }) => {
+      const draft = findDraft(payload, email);
+      const sendAt = recipient_schedule?.find((entry) => entry.email.toLowerCase() === email.toLowerCase());
+      return {
+        email,
+        ...(group.name && { group: group.name }),
+        audience_type: group.audience_type,
+        language: group.language,
+        tone: group.tone,
+        first_name: detail?.first_name ?? "",
+        last_name: detail?.last_name ?? "",
+        company: detail?.company ?? "",
+        ...(detail?.fields && { fields: detail.fields }),
+        ...(sendAt && { send_at: sendAt.send_at, timezone: sendAt.timezone }),
+        ...(draft && { subject: draft.subject, body: draft.body }),
+      };
+    });
+
+    // The key goes in the body, where scenario and Zap steps can map it
+    return {
+      body: {
+        ...campaign,
+        ...(idempotencyKey && { idempotency_key: idempotencyKey }),
+        recipient_count: recipients.length,
+        recipients,
+      },
+      headers: {},
+    };
+  },
+
+  // Make answers "Accepted" and Zapier a request id: neither says more
+  readResponse: (_body, payload) => acknowledge(payload),
+};
+
+/**
+ * Returns the values a generic body template can use for a payload.
+ */
+function getTemplateValues(payload: WebhookPayload, idempotencyKey?: string): Record<string, unknown> {
+  const recipients = listPayloadRecipients(payload).map(({ email }) => email);
+  return {
+    ...payload,
+    recipients,
+    recipient_count: recipients.length,
+    idempotency_key: idempotencyKey ?? null,
+    payload,
+  };
+}
+
+/**
+ * Fills in a parsed template: a string that is a single placeholder
+ * becomes the value itself (keeping arrays and objects), and placeholders
+ * inside longer strings become text. Missing values become null or "".
+ */
+function fillTemplate(node: unknown, values: Record<string, unknown>): unknown {
+  if (typeof node === "string") {
+    const whole = node.match(WHOLE_TEMPLATE_PLACEHOLDER);
+    if (whole) return values[whole[1]] ?? null;
+    return node.replace(TEMPLATE_PLACEHOLDER, (_match, name: string) => {
+      const value = values[name];
+      if (value === undefined || value === null) return "";
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    });
+  }
+  if (Array.isArray(node)) return node.map((item) => fillTemplate(item, values));
+  if (node && typeof node === "object") {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, fillTemplate(value, values)]));
+  }
+  return node;
+}
+
+/**
+ * Checks a generic body template: it must be JSON and only use known
+ * placeholders. Returns the error message, if any.
+ */
+export function validateBodyTemplate(template: string): string | undefined {
+  try {
+    JSON.parse(template);
+  } catch (error) {
+    return t("adapters.templateInvalid", { error: error instanceof Error ? error.message : String(error) });
+  }
+  const unknown = [...template.matchAll(TEMPLATE_PLACEHOLDER)]
+    .map((match) => match[1])
+    .filter((name) => !TEMPLATE_FIELDS.includes(name));
+  return unknown.length > 0
+    ? t("adapters.templateUnknownFields", { fields: [...new Set(unknown)].map((name) => `{{${name}}}`).join(" ") })
+    : undefined;
+}
+
+const genericAdapter: DeliveryAdapter = {
+  id: "generic",
+  labelKey: "adapters.generic",
+  descriptionKey: "adapters.genericDescription",
+  authHeaderName: "Authorization",
+  unsupported: ["preview"],
+  requiresNote: false,
+
+  buildRequest(payload, idempotencyKey, settings) {
+    const template = settings.bodyTemplate?.trim() || DEFAULT_BODY_TEMPLATE;
+    const error = validateBodyTemplate(template);
+    if (error) throw new Error(error);
+
+    return {
+      body: fillTemplate(JSON.parse(template), getTemplateValues(payload, idempotencyKey)),
+      headers: idempotencyHeaders(idempotencyKey),
+    };
+  },
+
+  // Endpoints that answer in the contract's format keep their results or job
+  readResponse: (body, payload) => (body && typeof body === "object" ? body : acknowledge(payload)),
+};
+
+/**
+ * Reads a relay's answer: the contract's results, or the `accepted` and
+ * `rejected` address lists of nodemailer-style relays.
+ */
+function readRelayResults(body: unknown): SendResult[] | null {
+  const results = parseSendResults(body);
+  if (results || !body || typeof body !== "object") return results;
+
+  const { accepted, rejected } = body as { accepted?: unknown; rejected?: unknown };
+  const addresses = (list: unknown) =>
+    Array.isArray(list) ? list.filter((email): email is string => typeof email === "string") : [];
+  const relayed: SendResult[] = [
+    ...addresses(accepted).map((email) => ({ email, status: "sent" as const })),
+    ...addresses(rejected).map((email) => ({ email, status: "failed" as const, error: t("adapters.relayRejected") })),
+  ];
+  return relayed.length > 0 ? relayed : null;
+}
+
+const smtpRelayAdapter: DeliveryAdapter = {
+  id: "smtp_relay",
+  labelKey: "adapters.smtpRelay",
+  descriptionKey: "adapters.smtpRelayDescription",
+  authHeaderName: "Authorization",
+  unsupported: ["preview", "scheduling"],
+  requiresNote: true,
+
+  buildRequest(payload, idempotencyKey, settings) {
+    const subject = settings.relaySubject?.trim() || DEFAULT_RELAY_SUBJECT;
+    const campaignValues = { holiday_name: payload.holiday_name, sender_name: payload.sender_name };
+    const { attachment } = payload;
+
+    const messages = listRecipients(payload).map(({ email, mergeValues }) => {
+      const values = { ...mergeValues, ...campaignValues };
+      const draft = findDraft(payload, email);
+      const content = draft ?? {
+        subject: renderNote(subject, values),
+        body: `${renderNote(payload.note?.trim() ?? "", values)}\n\n${payload.sender_name}`,
+      };
+      return {
+        to: email,
+        from_name: payload.sender_name,
+        subject: payload.test ? TEST_SUBJECT_PREFIX + content.subject : content.subject,
+        text: content.body,
+        ...(attachment && {
+          attachments: [{ filename: attachment.filename, content_type: attachment.content_type, content: attachment.data }],
+        }),
+      };
+    });
+
+    return {
+      body: { messages },
+      headers: idempotencyHeaders(idempotencyKey),
+    };
+  },
+
+  readResponse(body, payload) {
+    const results = readRelayResults(body);
+    return results ? { ok: true, accepted: results.length, results } : acknowledge(payload);
+  },
+};
+
+const ADAPTERS: Record<AdapterId, DeliveryAdapter> = {
+  n8n: n8nAdapter,
+  catch_hook: catchHookAdapter,
+  generic: genericAdapter,
+  smtp_relay: smtpRelayAdapter,
+};
+
+/**
+ * Returns an adapter by id.
+ */
+export function getAdapter(id: AdapterId): DeliveryAdapter {
+  return ADAPTERS[id];
+}
+
+/**
+ * Returns a profile's adapter. Profiles that never picked one use the
+ * catch hook adapter for Make and Zapier URLs, and n8n otherwise.
+ */
+export function getProfileAdapter(profile: Pick<BackendProfile, "adapter" | "webhookUrl">): DeliveryAdapter {
+  if (profile.adapter && ADAPTERS[profile.adapter]) return ADAPTERS[profile.adapter];
+  const type = getBackendType(profile.webhookUrl);
+  return type === "make" || type === "zapier" ? catchHookAdapter : n8nAdapter;
+}
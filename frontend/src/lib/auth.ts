@@ -0,0 +1,76 @@
+/**
+ * Sign-in to the proxy (see proxy/) for a backend profile.
+ *
+ * The proxy keeps the real webhook URL and signing secret on the server
+ * and only accepts requests from signed-in users. Signing in exchanges a
+ * username and password for a token that is stored as the profile's
+ * Authorization header, so every request to the proxy carries it.
+ */
+
+import { LoginRequest, LoginResponse } from "../../../shared/schema";
+import { t } from "./i18n";
+import { BackendProfile } from "./profiles";
+import { getNetworkErrorMessage, readHttpError } from "./webhook";
+
+/**
+ * Returns the proxy's login URL for a profile (on the webhook's origin).
+ */
+export function getLoginUrl(profile: BackendProfile): string | null {
+  try {
+    return new URL("/auth/login", profile.webhookUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns whether the profile has a proxy session that hasn't expired.
+ */
+export function isSignedIn(profile: BackendProfile): boolean {
+  return !!profile.session && Date.parse(profile.session.expiresAt) > Date.now();
+}
+
+/**
+ * Signs in to a profile's proxy. Resolves with the profile changes that
+ * store the session; rejects with a user-facing message.
+ */
+export async function signIn(
+  profile: BackendProfile,
+  credentials: LoginRequest
+): Promise<Pick<BackendProfile, "authHeader" | "session">> {
+  const url = getLoginUrl(profile);
+  if (!url) throw new Error(t("signIn.errorNoUrl"));
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify(credentials),
+    });
+  } catch {
+    throw new Error(getNetworkErrorMessage());
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404
+        ? t("signIn.errorNotFound")
+        : (await readHttpError(response)).message
+    );
+  }
+
+  const body = (await response.json().catch(() => null)) as LoginResponse | null;
+  if (!body?.token) throw new Error(t("signIn.errorUnexpected"));
+  return {
+    authHeader: { name: "Authorization", value: `${body.token_type} ${body.token}` },
+    session: { username: body.username, expiresAt: body.expires_at },
+  };
+}
+
+/**
+ * Returns the profile changes that forget a proxy session.
+ */
+export function signOut(): Pick<BackendProfile, "authHeader" | "session"> {
+  return { authHeader: undefined, session: undefined };
+}
@@ -0,0 +1,208 @@
+/**
+ * Batched sending for large recipient lists.
+ *
+ * A campaign with more recipients than the backend's batch size is split
+ * into batches that are submitted one after another, with a pause between
+ * them, so no single request is large enough to time out (e.g. on Render)
+ * and sending is spread out for the mail provider. Each batch is its own
+ * submission with its own idempotency key and history record, so failed
+ * batches can be retried on their own.
+ */
+
+import { SendResult, listPayloadRecipients } from "../../../shared/schema";
+import { sleep } from "./retry";
+import { WebhookPayload, createIdempotencyKey } from "./webhook";
+
+/**
+ * Delivery state of a batch:
+ * - pending: not submitted yet (or stopped before it was)
+ * - sending: being submitted, including automatic retries
+ * - sent: the webhook accepted it
+ * - queued: the browser was offline; it waits in the outbox
+ * - failed: the webhook rejected it or couldn't be reached
+ */
+export type BatchStatus = "pending" | "sending" | "sent" | "queued" | "failed";
+
+/**
+ * One batch of a campaign.
+ */
+export interface Batch {
+  /** Position in the campaign, starting at 0 */
+  index: number;
+  /** The campaign payload narrowed down to this batch's recipients */
+  payload: WebhookPayload;
+  /** Reused when the batch is retried, so the backend can spot duplicates */
+  idempotencyKey: string;
+  status: BatchStatus;
+  /** Why the last attempt failed */
+  error?: string;
+  /** Job returned by the webhook, when it returned one */
+  jobId?: string;
+  /** Per-recipient results returned by the webhook, when it returned them */
+  results?: SendResult[];
+}
+
+/**
+ * Narrows a payload down to some of its recipients, keeping only the
+ * groups, details, schedules and drafts that concern them.
+ */
+function narrowPayload(payload: WebhookPayload, recipients: string[]): WebhookPayload {
+  const included = new Set(recipients.map((email) => email.toLowerCase()));
+  const concerns = (email: string) => included.has(email.toLowerCase());
+
+  const { recipient_details, recipient_schedule, drafts, ...rest } = payload;
+  const narrowed: WebhookPayload = {
+    ...rest,
+    groups: payload.groups
+      .map((group) => ({ ...group, recipients: group.recipients.filter(concerns) }))
+      .filter((group) => group.recipients.length > 0),
+  };
+
+  const details = recipient_details?.filter((detail) => concerns(detail.email));
+  if (details?.length) narrowed.recipient_details = details;
+  const schedule = recipient_schedule?.filter((entry) => concerns(entry.email));
+  if (schedule?.length) narrowed.recipient_schedule = schedule;
+  // A send_drafts batch keeps its drafts array even when none of them
+  // concern it (its recipients then get generated emails)
+  if (drafts) narrowed.drafts = drafts.filter((draft) => concerns(draft.recipient));
+
+  return narrowed;
+}
+
+/**
+ * Returns how many batches a campaign of `recipientCount` is split into.
+ */
+export function countBatches(recipientCount: number, batchSize: number): number {
+  return Math.max(1, Math.ceil(recipientCount / batchSize));
+}
+
+/**
+ * Splits a payload into batches of at most `batchSize` recipients, in
+ * recipient order (so a group may span two batches).
+ */
+export function splitIntoBatches(payload: WebhookPayload, batchSize: number): Batch[] {
+  const recipients = listPayloadRecipients(payload).map(({ email }) => email);
+  const batches: Batch[] = [];
+
+  for (let start = 0; start < recipients.length; start += batchSize) {
+    batches.push({
+      index: batches.length,
+      payload: narrowPayload(payload, recipients.slice(start, start + batchSize)),
+      idempotencyKey: createIdempotencyKey(),
+      status: "pending",
+    });
+  }
+  return batches;
+}
+
+/**
+ * Returns the number of recipients in a batch.
+ */
+export function countBatchRecipients(batch: Batch): number {
+  return listPayloadRecipients(batch.payload).length;
+}
+
+/**
+ * Whether a batch still has to be (re)submitted.
+ */
+export function needsSending(batch: Batch): boolean {
+  return batch.status === "pending" || batch.status === "failed";
+}
+
+/**
+ * Pauses a batch run between batches. The batch being submitted when the
+ * run is paused still completes.
+ */
+export interface BatchGate {
+  pause(): void;
+  resume(): void;
+  isPaused(): boolean;
+  /** Resolves once the run isn't paused; rejects with an AbortError when `signal` aborts */
+  wait(signal: AbortSignal): Promise<void>;
+}
+
+/**
+ * Creates a gate that lets batches through until it's paused.
+ */
+export function createBatchGate(): BatchGate {
+  let paused = false;
+  const waiting = new Set<() => void>();
+
+  return {
+    pause() {
+      paused = true;
+    },
+
+    resume() {
+      paused = false;
+      waiting.forEach((release) => release());
+      waiting.clear();
+    },
+
+    isPaused: () => paused,
+
+    wait(signal) {
+      if (signal.aborted) return Promise.reject(new DOMException("Batches stopped", "AbortError"));
+      if (!paused) return Promise.resolve();
+
+      return new Promise((resolve, reject) => {
+        const release = () => {
+          signal.removeEventListener("abort", abort);
+          resolve();
+        };
+        const abort = () => {
+          waiting.delete(release);
+          reject(new DOMException("Batches stopped", "AbortError"));
+        };
+        waiting.add(release);
+        signal.addEventListener("abort", abort, { once: true });
+      });
+    },
+  };
+}
+
+/**
+ * Options for running batches.
+ */
+export interface BatchRunOptions {
+  /** Pause between two batches */
+  delayMs: number;
+  gate: BatchGate;
+  /** Stops the run (after the current batch, whose request is aborted too) */
+  signal: AbortSignal;
+  /** Submits one batch and resolves with its outcome; must not reject */
+  send: (batch: Batch, signal: AbortSignal) => Promise<Pick<Batch, "status" | "error" | "jobId" | "results">>;
+  /** Called whenever a batch changes */
+  onUpdate: (index: number, changes: Partial<Batch>) => void;
+  /** Called with when the next batch starts (epoch ms), or null once it starts */
+  onWait: (nextAt: number | null) => void;
+}
+
+/**
+ * Submits the batches that still need sending, in order, pacing them and
+ * honouring pauses. Resolves when every batch was attempted; rejects with
+ * an AbortError when stopped, leaving the remaining batches pending.
+ */
+export async function runBatches(
+  batches: Batch[],
+  { delayMs, gate, signal, send, onUpdate, onWait }: BatchRunOptions
+): Promise<void> {
+  let first = true;
+
+  for (const batch of batches.filter(needsSending)) {
+    if (!first && delayMs > 0) {
+      onWait(Date.now() + delayMs);
+      try {
+        await sleep(delayMs, signal);
+      } finally {
+        onWait(null);
+      }
+    }
+    await gate.wait(signal);
+    first = false;
+
+    onUpdate(batch.index, { status: "sending", error: undefined });
+    onUpdate(batch.index, await send(batch, signal));
+    if (signal.aborted) throw new DOMException("Batches stopped", "AbortError");
+  }
+}
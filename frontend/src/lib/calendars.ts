@@ -0,0 +1,278 @@
+/**
+ * Calendar computations for the holiday dataset.
+ *
+ * All functions return dates as JavaScript Dates at UTC midnight, so a
+ * "date" here is a calendar day rather than an instant. Lunar and lunisolar
+ * calendars are computed arithmetically (no lookup tables), which makes
+ * them work for any year at the cost of occasionally being a day off from
+ * dates set by local moon sighting or religious authorities.
+ */
+
+/** Milliseconds in one day. */
+const DAY_MS = 86_400_000;
+
+/** Julian Day of the Unix epoch (1970-01-01T00:00Z). */
+const UNIX_EPOCH_JD = 2440587.5;
+
+/**
+ * Returns a Date at UTC midnight for the given calendar day (month is 1-based).
+ */
+export function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Adds a number of days to a UTC-midnight date.
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Returns the calendar day (at UTC midnight) of an instant as observed
+ * at a fixed UTC offset, e.g. +5.5 for India or +8 for China.
+ */
+export function dateAtOffset(instant: Date, offsetHours: number): Date {
+  const shifted = new Date(instant.getTime() + offsetHours * 3_600_000);
+  return utcDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * Returns the n-th given weekday of a month (weekday 0 = Sunday).
+ * Use n = -1 for the last one, e.g. the last Monday of May.
+ */
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = utcDate(year, month, 1);
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return addDays(first, offset + (n - 1) * 7);
+  }
+
+  const last = utcDate(year, month + 1, 0);
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return addDays(last, -offset);
+}
+
+/**
+ * Western (Gregorian) Easter Sunday, using the anonymous Gregorian algorithm.
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+}
+
+/**
+ * Converts a Julian calendar date to the Gregorian calendar.
+ */
+function julianToGregorian(year: number, month: number, day: number): Date {
+  // Julian Day Number of a Julian calendar date
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  const jdn = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+  return julianDayToDate(jdn - 0.5);
+}
+
+/**
+ * Orthodox Easter Sunday: the Julian computus, expressed as a Gregorian date.
+ */
+export function orthodoxEasterSunday(year: number): Date {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  return julianToGregorian(year, month, day);
+}
+
+/**
+ * Converts a Julian Day (which starts at noon) to a Date instant.
+ */
+function julianDayToDate(jd: number): Date {
+  return new Date(Math.round((jd - UNIX_EPOCH_JD) * DAY_MS));
+}
+
+/** Converts degrees to radians. */
+const rad = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Instant of the k-th new moon (integer k) or full moon (k + 0.5) counted
+ * from the new moon of 2000-01-06, following Meeus, "Astronomical
+ * Algorithms", chapter 49. Planetary corrections are omitted, which keeps
+ * the error within a couple of minutes.
+ */
+function moonPhaseInstant(k: number): Date {
+  const T = k / 1236.85;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+
+  const M = rad(2.5534 + 29.1053567 * k - 0.0000014 * T * T - 0.00000011 * T ** 3);
+  const Mp = rad(201.5643 + 385.81693528 * k + 0.0107582 * T * T + 0.00001238 * T ** 3 - 0.000000058 * T ** 4);
+  const F = rad(160.7108 + 390.67050284 * k - 0.0016118 * T * T - 0.00000227 * T ** 3 + 0.000000011 * T ** 4);
+  const Omega = rad(124.7746 - 1.56375588 * k + 0.0020672 * T * T + 0.00000215 * T ** 3);
+
+  let jde =
+    2451550.09766 + 29.530588861 * k + 0.00015437 * T * T - 0.00000015 * T ** 3 + 0.00000000073 * T ** 4;
+
+  const isFullMoon = k % 1 !== 0;
+  jde +=
+    (isFullMoon ? -0.40614 : -0.4072) * Math.sin(Mp) +
+    (isFullMoon ? 0.17302 : 0.17241) * E * Math.sin(M) +
+    (isFullMoon ? 0.01614 : 0.01608) * Math.sin(2 * Mp) +
+    (isFullMoon ? 0.01043 : 0.01039) * Math.sin(2 * F) +
+    (isFullMoon ? 0.00734 : 0.00739) * E * Math.sin(Mp - M) -
+    (isFullMoon ? 0.00515 : 0.00514) * E * Math.sin(Mp + M) +
+    (isFullMoon ? 0.00209 : 0.00208) * E * E * Math.sin(2 * M) -
+    0.00111 * Math.sin(Mp - 2 * F) -
+    0.00057 * Math.sin(Mp + 2 * F) +
+    0.00056 * E * Math.sin(2 * Mp + M) -
+    0.00042 * Math.sin(3 * Mp) +
+    0.00042 * E * Math.sin(M + 2 * F) +
+    0.00038 * E * Math.sin(M - 2 * F) -
+    0.00024 * E * Math.sin(2 * Mp - M) -
+    0.00017 * Math.sin(Omega) -
+    0.00007 * Math.sin(Mp + 2 * M) +
+    0.00004 * Math.sin(2 * Mp - 2 * F) +
+    0.00004 * Math.sin(3 * M) +
+    0.00003 * Math.sin(Mp + M - 2 * F) +
+    0.00003 * Math.sin(2 * Mp + 2 * F) -
+    0.00003 * Math.sin(Mp + M + 2 * F) +
+    0.00003 * Math.sin(Mp - M + 2 * F) -
+    0.00002 * Math.sin(Mp - M - 2 * F) -
+    0.00002 * Math.sin(3 * Mp + M) +
+    0.00002 * Math.sin(4 * Mp);
+
+  return julianDayToDate(jde);
+}
+
+/**
+ * Lists the new moons (or full moons) whose instants fall within a year,
+ * padded by a month on either side so callers can search across year ends.
+ */
+function moonPhasesAround(year: number, phase: "new" | "full"): Date[] {
+  const first = Math.floor((year - 2000) * 12.3685) - 2;
+  const offset = phase === "full" ? 0.5 : 0;
+  return Array.from({ length: 17 }, (_, i) => moonPhaseInstant(first + i + offset));
+}
+
+/**
+ * Finds a new or full moon whose calendar day at the given UTC offset falls
+ * within [start, end] (inclusive UTC-midnight dates). Returns the first one
+ * by default, or the last one with `which: "last"`, or null if there is none.
+ */
+export function findMoonPhase(
+  phase: "new" | "full",
+  start: Date,
+  end: Date,
+  offsetHours: number,
+  which: "first" | "last" = "first"
+): Date | null {
+  const matches = moonPhasesAround(start.getUTCFullYear(), phase).filter((instant) => {
+    const day = dateAtOffset(instant, offsetHours);
+    return day >= start && day <= end;
+  });
+  return (which === "first" ? matches[0] : matches[matches.length - 1]) ?? null;
+}
+
+/**
+ * Returns the first new or full moon strictly after the given instant.
+ */
+export function nextMoonPhase(phase: "new" | "full", after: Date): Date {
+  return moonPhasesAround(after.getUTCFullYear(), phase).find((instant) => instant > after)!;
+}
+
+/** Julian Day of 1 Muharram AH 1 in the tabular Islamic calendar. */
+const ISLAMIC_EPOCH_JD = 1948439.5;
+
+/**
+ * Converts a date in the tabular (arithmetic) Islamic calendar to the
+ * Gregorian calendar. Observed dates depend on moon sighting and may be
+ * a day later.
+ */
+export function islamicToGregorian(year: number, month: number, day: number): Date {
+  const jd =
+    day +
+    Math.ceil(29.5 * (month - 1)) +
+    (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) +
+    ISLAMIC_EPOCH_JD -
+    1;
+  return julianDayToDate(jd);
+}
+
+/**
+ * Finds the Gregorian date of an Islamic calendar day within a Gregorian
+ * year. Islamic years are ~11 days shorter, so a date can occur twice in
+ * one Gregorian year; the first occurrence is returned.
+ */
+export function islamicDateInYear(year: number, month: number, day: number): Date | null {
+  // AH year roughly corresponding to the start of the Gregorian year
+  const approxHijri = Math.floor((year - 622) * (33 / 32));
+  for (let hijri = approxHijri - 1; hijri <= approxHijri + 2; hijri++) {
+    const date = islamicToGregorian(hijri, month, day);
+    if (date.getUTCFullYear() === year) {
+      return date;
+    }
+  }
+  return null;
+}
+
+/** Fixed day number (R.D.) of the Hebrew calendar epoch, per Reingold & Dershowitz. */
+const HEBREW_EPOCH_RD = -1373427;
+
+/** Fixed day number (R.D.) of 2001-01-01, used to convert fixed days to Dates. */
+const RD_2001_01_01 = 730486;
+
+/**
+ * Days from the Hebrew epoch to the molad of Tishrei of the given year,
+ * including the rule that delays Rosh Hashanah off Sunday, Wednesday and Friday.
+ */
+function hebrewElapsedDays(year: number): number {
+  const monthsElapsed = Math.floor((235 * year - 234) / 19);
+  const partsElapsed = 12084 + 13753 * monthsElapsed;
+  const days = 29 * monthsElapsed + Math.floor(partsElapsed / 25920);
+  return (3 * (days + 1)) % 7 < 3 ? days + 1 : days;
+}
+
+/**
+ * Extra delay keeping Hebrew year lengths within their allowed values.
+ */
+function hebrewYearLengthCorrection(year: number): number {
+  const ny0 = hebrewElapsedDays(year - 1);
+  const ny1 = hebrewElapsedDays(year);
+  const ny2 = hebrewElapsedDays(year + 1);
+  if (ny2 - ny1 === 356) return 2;
+  if (ny1 - ny0 === 382) return 1;
+  return 0;
+}
+
+/**
+ * Rosh Hashanah (1 Tishrei) of the given Hebrew year, as a Gregorian date.
+ * The holiday begins at sundown on the previous evening.
+ */
+export function hebrewNewYear(hebrewYear: number): Date {
+  const fixed = HEBREW_EPOCH_RD + hebrewElapsedDays(hebrewYear) + hebrewYearLengthCorrection(hebrewYear);
+  return addDays(utcDate(2001, 1, 1), fixed - RD_2001_01_01);
+}
+
+/**
+ * Number of days in the given Hebrew year (353–355 or 383–385).
+ */
+export function hebrewYearLength(hebrewYear: number): number {
+  const days = (hebrewNewYear(hebrewYear + 1).getTime() - hebrewNewYear(hebrewYear).getTime()) / DAY_MS;
+  return Math.round(days);
+}
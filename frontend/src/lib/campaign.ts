@@ -0,0 +1,195 @@
+/**
+ * Campaign payloads for the Holiday Email Orchestrator.
+ *
+ * Turns form values, plus the imported contact details, suppression list,
+ * holiday card and per-recipient timezones that go with them, into the
+ * webhook payload. Free of React and browser APIs, so the form and the
+ * command-line sender (see cli/) validate and build campaigns the same way.
+ */
+
+import {
+  PayloadAttachment,
+  RecipientDetail,
+  RecipientGroup,
+  SCHEMA_VERSION,
+  WebhookMode,
+  WebhookPayload,
+} from "../../../shared/schema";
+import { getMergeValues } from "../../../shared/note";
+import { ImportedContact } from "./contactImport";
+import { t } from "./i18n";
+import { formatInTimeZone, zonedTimeToUtc } from "./schedule";
+import { FormFields, ValidationResult, cleanGroupRecipients, cleanRecipients, validateForm } from "./validation";
+
+/**
+ * Everything besides the form fields that goes into a campaign's payload.
+ */
+export interface CampaignContext {
+  /** Details of imported contacts, keyed by lowercased email */
+  contactDetails?: Record<string, ImportedContact>;
+  /** Lowercased addresses on the suppression list, which are left out */
+  suppressed?: Set<string>;
+  /** Holiday card image for every email */
+  attachment?: PayloadAttachment | null;
+  /** Per-recipient IANA timezones for scheduled campaigns, keyed by lowercased email */
+  recipientTimezones?: Record<string, string>;
+  /** What the backend supports (see lib/capabilities.ts); unset accepts any language, audience and size */
+  capabilities?: { languages: { value: string }[]; audiences: { value: string }[]; maxRecipients: number | null };
+  /** Whether the delivery adapter needs a personal note (see lib/adapters.ts) */
+  noteRequired?: boolean;
+}
+
+/**
+ * Returns the merge fields the campaign's imported contacts have besides
+ * the standard ones (their other columns, e.g. "project"), sorted.
+ */
+export function getCustomMergeFields(fields: FormFields, contactDetails: Record<string, ImportedContact> = {}): string[] {
+  const names = cleanGroupRecipients(fields.groups).flatMap((email) =>
+    Object.keys(contactDetails[email.toLowerCase()]?.fields ?? {})
+  );
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Validates a campaign's fields against its context (suppressed addresses,
+ * per-recipient timezones, the merge fields of the imported contacts and
+ * the backend's capabilities).
+ */
+export function validateCampaign(fields: FormFields, context: CampaignContext = {}): ValidationResult {
+  const { capabilities } = context;
+  return validateForm(fields, {
+    recipientTimezones: context.recipientTimezones ?? {},
+    suppressedEmails: context.suppressed,
+    customMergeFields: getCustomMergeFields(fields, context.contactDetails),
+    languages: capabilities?.languages.map((option) => option.value),
+    audiences: capabilities?.audiences.map((option) => option.value),
+    maxRecipients: capabilities?.maxRecipients,
+    noteRequired: context.noteRequired,
+  });
+}
+
+/**
+ * Builds the recipient details for imported contacts that are still
+ * present in the cleaned recipient list and have at least one extra detail.
+ */
+function buildRecipientDetails(
+  recipients: string[],
+  contactDetails: Record<string, ImportedContact>
+): RecipientDetail[] {
+  const details: RecipientDetail[] = [];
+
+  for (const email of recipients) {
+    const contact = contactDetails[email.toLowerCase()];
+    if (!contact) continue;
+
+    const hasFields = Object.keys(contact.fields).length > 0;
+    if (contact.firstName || contact.lastName || contact.company || hasFields) {
+      details.push({
+        email,
+        ...(contact.firstName && { first_name: contact.firstName }),
+        ...(contact.lastName && { last_name: contact.lastName }),
+        ...(contact.company && { company: contact.company }),
+        ...(hasFields && { fields: contact.fields }),
+      });
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Returns a recipient's merge field values as a backend will see them in
+ * the payload, e.g. for previewing the note.
+ */
+export function getRecipientMergeValues(
+  email: string,
+  contactDetails: Record<string, ImportedContact> = {}
+): Record<string, string> {
+  return getMergeValues(email, buildRecipientDetails([email], contactDetails)[0]);
+}
+
+/**
+ * Builds the webhook payload from a campaign's field values, with each
+ * group's overrides resolved against the campaign defaults.
+ * Pass `subset` to target some recipients only (e.g. when regenerating
+ * one draft). Suppressed addresses are left out, and groups left without
+ * recipients are dropped. Expects validated fields.
+ */
+export function buildCampaignPayload(
+  fields: FormFields,
+  context: CampaignContext,
+  mode: WebhookMode,
+  subset?: string[]
+): WebhookPayload {
+  const { contactDetails = {}, suppressed, attachment, recipientTimezones = {} } = context;
+  const included = subset && new Set(subset.map((email) => email.toLowerCase()));
+  const groups: RecipientGroup[] = fields.groups
+    .map((group) => ({
+      ...(group.name.trim() && { name: group.name.trim() }),
+      audience_type: group.audienceType || fields.audienceType,
+      language: group.language || fields.language,
+      tone: group.tone.trim() || fields.tone.trim() || "warm", // Default to 'warm' if not specified
+      // Only valid, deduplicated addresses are sent
+      recipients: cleanRecipients(group.recipients).filter(
+        (email) => !suppressed?.has(email.toLowerCase()) && (!included || included.has(email.toLowerCase()))
+      ),
+    }))
+    .filter((group) => group.recipients.length > 0);
+  const recipients = groups.flatMap((group) => group.recipients);
+
+  const payload: WebhookPayload = {
+    schema_version: SCHEMA_VERSION,
+    mode,
+    holiday_name: fields.holidayName.trim(),
+    sender_name: fields.senderName.trim(),
+    groups,
+  };
+
+  // Only include recipient details when contacts were imported
+  const recipientDetails = buildRecipientDetails(recipients, contactDetails);
+  if (recipientDetails.length > 0) {
+    payload.recipient_details = recipientDetails;
+  }
+
+  if (attachment) {
+    payload.attachment = attachment;
+  }
+
+  if (fields.note.trim()) {
+    payload.note = fields.note.trim();
+  }
+
+  // Scheduled delivery (validated beforehand, so the conversions succeed)
+  const sendAt = fields.sendAt && zonedTimeToUtc(fields.sendAt, fields.timezone);
+  if (sendAt) {
+    payload.send_at = sendAt.toISOString();
+    payload.timezone = fields.timezone;
+
+    const recipientSchedule = recipients.flatMap((email) => {
+      const timezone = recipientTimezones[email.toLowerCase()];
+      const localSendAt = timezone && timezone !== fields.timezone && zonedTimeToUtc(fields.sendAt, timezone);
+      return localSendAt ? [{ email, timezone, send_at: localSendAt.toISOString() }] : [];
+    });
+    if (recipientSchedule.length > 0) {
+      payload.recipient_schedule = recipientSchedule;
+    }
+  }
+
+  return payload;
+}
+
+/**
+ * Describes when an accepted payload will be delivered, e.g. for a
+ * success message.
+ */
+export function describeDelivery(payload: WebhookPayload): string {
+  if (!payload.send_at || !payload.timezone) {
+    return t("delivery.immediate");
+  }
+
+  const when = formatInTimeZone(new Date(payload.send_at), payload.timezone);
+  const localCount = payload.recipient_schedule?.length ?? 0;
+  return localCount > 0
+    ? t("delivery.scheduledLocal", { when, count: localCount })
+    : t("delivery.scheduled", { when });
+}
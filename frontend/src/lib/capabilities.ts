@@ -0,0 +1,212 @@
+/**
+ * Backend capabilities for the Holiday Email Orchestrator.
+ *
+ * A backend can publish what it supports at its capabilities URL (by
+ * default the webhook URL followed by `/capabilities`, for n8n):
+ *
+ *   { "languages": [{ "code": "es", "label": "Español" }],
+ *     "audiences": [{ "value": "family", "label": "Family" }],
+ *     "tones": ["warm", "formal"], "max_recipients": 500,
+ *     "features": { "scheduling": false } }
+ *
+ * The form builds its language and audience selects, tone suggestions and
+ * checks from it, and hides the features the backend turned off. The last
+ * capabilities of each backend are kept in localStorage and used (however
+ * old) while it can't be reached; backends that publish none get the
+ * built-in options from config.ts.
+ */
+
+import { CAPABILITY_FEATURES, CapabilityFeature, parseCapabilitiesResponse } from "../../../shared/schema";
+import { AUDIENCE_OPTIONS, LANGUAGE_OPTIONS, TONE_SUGGESTIONS } from "../config";
+import { MessageKey, t } from "./i18n";
+import { BackendProfile, getAuthHeaders, getCapabilitiesUrl } from "./profiles";
+import { FormFields } from "./validation";
+
+export type { CapabilityFeature } from "../../../shared/schema";
+
+/** Capabilities requests give up after this long. */
+const CAPABILITIES_TIMEOUT_MS = 10000;
+
+const STORAGE_KEY = "holiday-email-orchestrator.capabilities";
+
+/**
+ * An email language: its code and its own name.
+ */
+export interface LanguageOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * An audience type. Built-in audiences have a translated label; others
+ * show the backend's label.
+ */
+export interface AudienceOption {
+  value: string;
+  label: string;
+  labelKey?: MessageKey;
+}
+
+/**
+ * What the form offers and checks for the active backend.
+ */
+export interface Capabilities {
+  languages: LanguageOption[];
+  audiences: AudienceOption[];
+  tones: string[];
+  /** Most recipients a campaign may have; null when the backend sets no limit */
+  maxRecipients: number | null;
+  features: Record<CapabilityFeature, boolean>;
+  /**
+   * Where they come from: the backend, the cache of its last answer, or
+   * the built-in options
+   */
+  source: "backend" | "cache" | "fallback";
+  /** When the backend returned them (ISO 8601), unless built in */
+  fetchedAt?: string;
+}
+
+/**
+ * Capabilities used when the backend publishes none.
+ */
+export const FALLBACK_CAPABILITIES: Capabilities = {
+  languages: LANGUAGE_OPTIONS.map(({ value, label }) => ({ value, label })),
+  audiences: AUDIENCE_OPTIONS.map(({ value, labelKey }) => ({ value, label: value, labelKey })),
+  tones: [...TONE_SUGGESTIONS],
+  maxRecipients: null,
+  features: { preview: true, attachments: true, scheduling: true, note: true },
+  source: "fallback",
+};
+
+/**
+ * A backend's last capabilities response, as cached.
+ */
+interface CachedCapabilities {
+  response: unknown;
+  fetchedAt: string;
+}
+
+/**
+ * Returns an audience's label in the UI language.
+ */
+export function getAudienceLabel(option: AudienceOption): string {
+  return option.labelKey ? t(option.labelKey) : option.label;
+}
+
+/**
+ * Returns the label of an audience type, or the value itself when the
+ * backend doesn't offer it.
+ */
+export function describeAudience(capabilities: Capabilities, value: string): string {
+  const option = capabilities.audiences.find((o) => o.value === value);
+  return option ? getAudienceLabel(option) : value;
+}
+
+/**
+ * Turns a capabilities response into capabilities, or returns null when
+ * it isn't one. Built-in audiences keep their translated labels.
+ */
+function toCapabilities(response: unknown, source: Capabilities["source"], fetchedAt: string): Capabilities | null {
+  const parsed = parseCapabilitiesResponse(response);
+  if (!parsed) return null;
+
+  const features = { ...FALLBACK_CAPABILITIES.features };
+  CAPABILITY_FEATURES.forEach((feature) => {
+    features[feature] = parsed.features?.[feature] ?? true;
+  });
+
+  return {
+    languages: parsed.languages.map(({ code, label }) => ({ value: code, label })),
+    audiences: parsed.audiences.map(({ value, label }) => ({
+      value,
+      label,
+      labelKey: FALLBACK_CAPABILITIES.audiences.find((option) => option.value === value)?.labelKey,
+    })),
+    tones: parsed.tones ?? FALLBACK_CAPABILITIES.tones,
+    maxRecipients: parsed.max_recipients ?? null,
+    features,
+    source,
+    fetchedAt,
+  };
+}
+
+function loadCache(): Record<string, CachedCapabilities> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Returns the capabilities a backend last returned, or the built-in ones
+ * when it never returned any.
+ */
+export function loadCachedCapabilities(profile: BackendProfile): Capabilities {
+  const url = getCapabilitiesUrl(profile);
+  const cached = url ? loadCache()[url] : undefined;
+  return (cached && toCapabilities(cached.response, "cache", cached.fetchedAt)) || FALLBACK_CAPABILITIES;
+}
+
+/**
+ * Fetches a backend's capabilities and caches them. Falls back to the
+ * cached ones when the backend can't be reached or answers with an error,
+ * and to the built-in ones when nothing is cached. Never rejects.
+ */
+export async function fetchCapabilities(profile: BackendProfile): Promise<Capabilities> {
+  const url = getCapabilitiesUrl(profile);
+  if (!url) return FALLBACK_CAPABILITIES;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CAPABILITIES_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "application/json", ...getAuthHeaders(profile.webhookUrl) },
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    if (!response.ok) return loadCachedCapabilities(profile);
+
+    const body: unknown = await response.json().catch(() => null);
+    const fetchedAt = new Date().toISOString();
+    const capabilities = toCapabilities(body, "backend", fetchedAt);
+    if (!capabilities) return loadCachedCapabilities(profile);
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadCache(), [url]: { response: body, fetchedAt } }));
+    } catch {
+      // The next visit asks the backend again
+    }
+    return capabilities;
+  } catch {
+    return loadCachedCapabilities(profile);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Clears the values of features the backend turned off (a scheduled time,
+ * a personal note), e.g. on a campaign duplicated from another backend.
+ * Returns `fields` itself when there is nothing to clear.
+ */
+export function applyFeatures(fields: FormFields, features: Capabilities["features"]): FormFields {
+  const sendAt = features.scheduling ? fields.sendAt : "";
+  const note = features.note ? fields.note : "";
+  return sendAt === fields.sendAt && note === fields.note ? fields : { ...fields, sendAt, note };
+}
+
+/**
+ * Turns off the features a delivery adapter can't carry (see
+ * lib/adapters.ts), whatever the backend publishes. Returns
+ * `capabilities` itself when none of them is on.
+ */
+export function withoutFeatures(capabilities: Capabilities, unsupported: CapabilityFeature[]): Capabilities {
+  if (unsupported.every((feature) => !capabilities.features[feature])) return capabilities;
+  const features = { ...capabilities.features };
+  unsupported.forEach((feature) => {
+    features[feature] = false;
+  });
+  return { ...capabilities, features };
+}
@@ -0,0 +1,329 @@
+/**
+ * Contact import utilities for the Holiday Email Orchestrator.
+ * Parses CSV, TSV and vCard (.vcf) files into a table of rows that can be
+ * mapped onto contact fields and merged into the recipient list.
+ */
+
+import { STANDARD_MERGE_FIELDS, toMergeFieldName } from "../../../shared/note";
+import type { MessageKey } from "./i18n";
+import { isValidEmail } from "./validation";
+
+/**
+ * Contact fields a file column can be mapped onto.
+ */
+export type ContactField = "email" | "firstName" | "lastName" | "company";
+
+/**
+ * Contact fields with the message key of their label, in display order.
+ */
+export const CONTACT_FIELDS: { field: ContactField; labelKey: MessageKey }[] = [
+  { field: "email", labelKey: "import.field.email" },
+  { field: "firstName", labelKey: "import.field.firstName" },
+  { field: "lastName", labelKey: "import.field.lastName" },
+  { field: "company", labelKey: "import.field.company" },
+];
+
+/**
+ * A parsed file: one header per column and the raw cell values of each row.
+ */
+export interface ContactTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Maps each contact field to a column index, or null when not mapped.
+ */
+export type ColumnMapping = Record<ContactField, number | null>;
+
+/**
+ * A single contact produced by applying a column mapping to a table row.
+ */
+export interface ImportedContact {
+  email: string;
+  firstName: string;
+  lastName: string;
+  company: string;
+  /** Values of the other columns, keyed by merge field name (e.g. "project") */
+  fields: Record<string, string>;
+  /** 1-based row number in the source file (excluding the header) */
+  row: number;
+  /** Whether the email passes `isValidEmail` */
+  valid: boolean;
+}
+
+/**
+ * Picks the most likely delimiter for a delimited text file by counting
+ * candidates on the first line. Tabs win for TSV, semicolons for
+ * European-locale spreadsheet exports, commas otherwise.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const candidates = ["\t", ";", ","];
+  let best = ",";
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parses delimited text (CSV/TSV) into rows of cells.
+ * Supports double-quoted cells containing delimiters, newlines and
+ * escaped quotes ("") as described in RFC 4180.
+ */
+export function parseDelimitedRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      // Treat \r\n as a single line break
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // Flush the last row if the file doesn't end with a newline
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows
+    .map((cells) => cells.map((value) => value.trim()))
+    .filter((cells) => cells.some((value) => value.length > 0));
+}
+
+/**
+ * Parses a CSV or TSV file into a contact table.
+ * The first row is treated as a header unless it already contains an email
+ * address, in which case generic "Column N" headers are generated.
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): ContactTable {
+  const rows = parseDelimitedRows(text.replace(/^\uFEFF/, ""), delimiter);
+  if (rows.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const pad = (cells: string[]) =>
+    cells.concat(Array<string>(width - cells.length).fill(""));
+
+  const hasHeader = !rows[0].some(isValidEmail);
+  const headers = hasHeader
+    ? pad(rows[0]).map((header, index) => header || `Column ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+
+  return {
+    headers,
+    rows: (hasHeader ? rows.slice(1) : rows).map(pad),
+  };
+}
+
+/**
+ * Unescapes a vCard property value (\, \; \n and \\).
+ */
+function unescapeVCardValue(value: string): string {
+  return value.replace(/\\([,;nN\\])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+}
+
+/**
+ * Splits a structured vCard value (e.g. N or ORG) on unescaped semicolons.
+ */
+function splitVCardComponents(value: string): string[] {
+  return value.split(/(?<!\\);/).map((part) => unescapeVCardValue(part).trim());
+}
+
+/** Column headers used for tables produced from vCard files. */
+const VCARD_HEADERS = ["Email", "First name", "Last name", "Company", "Full name"];
+
+/**
+ * Parses a vCard (.vcf) file into a contact table.
+ * Each EMAIL property becomes its own row, so a card with a work and a home
+ * address yields two contacts sharing the same name and company.
+ */
+export function parseVCard(text: string): ContactTable {
+  // Unfold continuation lines (lines starting with a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const rows: string[][] = [];
+
+  let inCard = false;
+  let emails: string[] = [];
+  let firstName = "";
+  let lastName = "";
+  let company = "";
+  let fullName = "";
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    // Property names may carry a group prefix (item1.EMAIL) and parameters (EMAIL;TYPE=work)
+    const name = line.slice(0, separator).split(";")[0].split(".").pop()!.toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "BEGIN" && value.trim().toUpperCase() === "VCARD") {
+      inCard = true;
+      emails = [];
+      firstName = lastName = company = fullName = "";
+    } else if (!inCard) {
+      continue;
+    } else if (name === "END") {
+      inCard = false;
+      for (const email of emails.length > 0 ? emails : [""]) {
+        rows.push([email, firstName, lastName, company, fullName]);
+      }
+    } else if (name === "EMAIL") {
+      const email = unescapeVCardValue(value).trim();
+      if (email) emails.push(email);
+    } else if (name === "N") {
+      [lastName = "", firstName = ""] = splitVCardComponents(value);
+    } else if (name === "FN") {
+      fullName = unescapeVCardValue(value).trim();
+    } else if (name === "ORG") {
+      company = splitVCardComponents(value)[0] ?? "";
+    }
+  }
+
+  return { headers: VCARD_HEADERS, rows };
+}
+
+/**
+ * Parses an uploaded contact file based on its extension.
+ * `.vcf`/`.vcard` files are parsed as vCards, `.tsv` as tab-separated,
+ * everything else as delimited text with an auto-detected delimiter.
+ */
+export function parseContactFile(fileName: string, text: string): ContactTable {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "vcf" || extension === "vcard" || /^BEGIN:VCARD/im.test(text)) {
+    return parseVCard(text);
+  }
+  if (extension === "tsv") {
+    return parseDelimited(text, "\t");
+  }
+  return parseDelimited(text);
+}
+
+/**
+ * Header patterns used to guess the column for each contact field.
+ */
+const HEADER_PATTERNS: Record<ContactField, RegExp> = {
+  email: /e-?mail/i,
+  firstName: /^(first|given|fore)[\s_-]*name$|^first$/i,
+  lastName: /^(last|family|sur)[\s_-]*name$|^surname$|^last$/i,
+  company: /company|organi[sz]ation|^org$|employer/i,
+};
+
+/**
+ * Guesses a column mapping from the table headers, falling back to the
+ * first column whose values look like email addresses for the email field.
+ */
+export function guessColumnMapping(table: ContactTable): ColumnMapping {
+  const mapping: ColumnMapping = {
+    email: null,
+    firstName: null,
+    lastName: null,
+    company: null,
+  };
+
+  for (const { field } of CONTACT_FIELDS) {
+    const index = table.headers.findIndex((header) => HEADER_PATTERNS[field].test(header.trim()));
+    mapping[field] = index === -1 ? null : index;
+  }
+
+  if (mapping.email === null) {
+    const index = table.headers.findIndex((_, column) =>
+      table.rows.some((row) => isValidEmail(row[column] ?? ""))
+    );
+    mapping.email = index === -1 ? null : index;
+  }
+
+  return mapping;
+}
+
+/**
+ * Returns the columns that aren't mapped onto a contact field, with their
+ * merge field names (see toMergeFieldName). Columns whose header doesn't
+ * give a usable, unique name are left out.
+ */
+export function getCustomColumns(table: ContactTable, mapping: ColumnMapping): { column: number; name: string }[] {
+  const mapped = new Set(Object.values(mapping));
+  const names = new Set(STANDARD_MERGE_FIELDS);
+  const columns: { column: number; name: string }[] = [];
+
+  table.headers.forEach((header, column) => {
+    const name = toMergeFieldName(header);
+    if (mapped.has(column) || !name || names.has(name)) return;
+    names.add(name);
+    columns.push({ column, name });
+  });
+  return columns;
+}
+
+/**
+ * Applies a column mapping to every row of the table; the other columns
+ * become the contact's custom fields.
+ * Rows without a valid email are kept and flagged so the UI can show them.
+ */
+export function mapContacts(table: ContactTable, mapping: ColumnMapping): ImportedContact[] {
+  const cell = (row: string[], column: number | null) =>
+    column === null ? "" : (row[column] ?? "").trim();
+  const customColumns = getCustomColumns(table, mapping);
+
+  return table.rows.map((row, index) => {
+    const email = cell(row, mapping.email);
+    return {
+      email,
+      firstName: cell(row, mapping.firstName),
+      lastName: cell(row, mapping.lastName),
+      company: cell(row, mapping.company),
+      fields: Object.fromEntries(
+        customColumns.map(({ column, name }) => [name, cell(row, column)]).filter(([, value]) => value)
+      ),
+      row: index + 1,
+      valid: isValidEmail(email),
+    };
+  });
+}
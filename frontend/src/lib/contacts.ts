@@ -0,0 +1,317 @@
+/**
+ * Contact book for the Holiday Email Orchestrator.
+ *
+ * Contacts are stored locally in IndexedDB with their name, company,
+ * preferred email language and audience, and free-form tags ("clients",
+ * "family"), so recipients don't have to be typed again every season.
+ * The form picks contacts one by one or by tag and files them into the
+ * recipient group matching their language and audience.
+ */
+
+import { CONTACTS_STORE, withStore } from "./db";
+import { ImportedContact } from "./contactImport";
+import { createRecipientGroup } from "./groups";
+import { FormFields, cleanGroupRecipients, isValidEmail } from "./validation";
+
+/**
+ * An entry of the contact book.
+ */
+export interface Contact {
+  /** Auto-incremented key, assigned when the contact is added */
+  id?: number;
+  /** Lowercased address */
+  email: string;
+  firstName: string;
+  lastName: string;
+  company: string;
+  /** Email language code (see lib/capabilities.ts); empty uses the campaign's */
+  language: string;
+  /** Audience type (see lib/capabilities.ts); empty uses the campaign's */
+  audienceType: string;
+  /** Lowercased tags, e.g. ["clients"] */
+  tags: string[];
+  /** Other columns of the file the contact was imported from, as note merge fields (missing on older contacts) */
+  fields?: Record<string, string>;
+  /** When the contact last changed (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * Changes applied to every selected contact by a bulk edit. Unset
+ * language and audience are left alone.
+ */
+export interface ContactBulkEdit {
+  language?: string;
+  audienceType?: string;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+const listeners = new Set<() => void>();
+
+/**
+ * Notifies subscribers that the contact book changed.
+ */
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls `listener` whenever contacts are added, changed or deleted.
+ * Returns an unsubscribe function.
+ */
+export function subscribeContacts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Splits comma-separated tags, lowercased and without duplicates.
+ */
+export function parseTags(text: string): string[] {
+  return normalizeTags(text.split(","));
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Returns a contact's full name, or an empty string when it has none.
+ */
+export function getContactName(contact: Contact): string {
+  return [contact.firstName, contact.lastName].filter(Boolean).join(" ");
+}
+
+/**
+ * Returns a new contact with only an address.
+ */
+export function createContact(email = ""): Contact {
+  return {
+    email,
+    firstName: "",
+    lastName: "",
+    company: "",
+    language: "",
+    audienceType: "",
+    tags: [],
+    fields: {},
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Brings a contact to its stored shape: trimmed values, lowercased address
+ * and tags, and a fresh `updatedAt`.
+ */
+function normalizeContact(contact: Contact): Contact {
+  return {
+    ...contact,
+    email: contact.email.trim().toLowerCase(),
+    firstName: contact.firstName.trim(),
+    lastName: contact.lastName.trim(),
+    company: contact.company.trim(),
+    tags: normalizeTags(contact.tags),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns every contact, sorted by name (then address).
+ */
+export async function listContacts(): Promise<Contact[]> {
+  const contacts = await withStore<Contact[]>(CONTACTS_STORE, "readonly", (store) => store.getAll());
+  const sortKey = (contact: Contact) => (getContactName(contact) || contact.email).toLowerCase();
+  return contacts.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+}
+
+/**
+ * Adds or updates contacts (those with an `id` are updated). Contacts with
+ * an invalid address are ignored.
+ */
+export async function saveContacts(contacts: Contact[]): Promise<void> {
+  const valid = contacts.map(normalizeContact).filter((contact) => isValidEmail(contact.email));
+  if (valid.length === 0) return;
+
+  await withStore(CONTACTS_STORE, "readwrite", (store) => valid.map((contact) => store.put(contact)).pop()!);
+  notify();
+}
+
+/**
+ * Deletes contacts by id.
+ */
+export async function deleteContacts(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  await withStore(CONTACTS_STORE, "readwrite", (store) => ids.map((id) => store.delete(id)).pop()!);
+  notify();
+}
+
+/**
+ * Adds contacts imported from a file, with the file's other columns as
+ * custom fields. Addresses already in the book get the file's name,
+ * company and columns (where the file has them) instead of a second entry.
+ * Resolves with the number of contacts added and updated.
+ */
+export async function importContacts(imported: ImportedContact[]): Promise<{ added: number; updated: number }> {
+  const existing = new Map((await listContacts()).map((contact) => [contact.email, contact]));
+  const changed = new Map<string, Contact>();
+  let added = 0;
+
+  for (const entry of imported) {
+    const email = entry.email.trim().toLowerCase();
+    const contact = changed.get(email) ?? existing.get(email);
+    if (!contact) added += 1;
+    changed.set(email, {
+      ...(contact ?? createContact(email)),
+      firstName: entry.firstName || contact?.firstName || "",
+      lastName: entry.lastName || contact?.lastName || "",
+      company: entry.company || contact?.company || "",
+      fields: { ...contact?.fields, ...entry.fields },
+    });
+  }
+
+  await saveContacts([...changed.values()]);
+  return { added, updated: changed.size - added };
+}
+
+/**
+ * Whether a contact's address, name, company or tags contain the query.
+ */
+export function matchesContactSearch(contact: Contact, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return (
+    !needle ||
+    [contact.email, getContactName(contact), contact.company, ...contact.tags].some((value) =>
+      value.toLowerCase().includes(needle)
+    )
+  );
+}
+
+/**
+ * Returns the tags used by the contacts, sorted.
+ */
+export function listTags(contacts: Contact[]): string[] {
+  return [...new Set(contacts.flatMap((contact) => contact.tags))].sort();
+}
+
+/**
+ * Applies a bulk edit to one contact.
+ */
+export function applyBulkEdit(contact: Contact, edit: ContactBulkEdit): Contact {
+  const removed = new Set(normalizeTags(edit.removeTags ?? []));
+  return {
+    ...contact,
+    language: edit.language ?? contact.language,
+    audienceType: edit.audienceType ?? contact.audienceType,
+    tags: normalizeTags([...contact.tags, ...(edit.addTags ?? [])]).filter((tag) => !removed.has(tag)),
+  };
+}
+
+/**
+ * Returns the contacts that share an address with another contact,
+ * grouped by address.
+ */
+export function findDuplicates(contacts: Contact[]): Contact[][] {
+  const byEmail = new Map<string, Contact[]>();
+  contacts.forEach((contact) => byEmail.set(contact.email, [...(byEmail.get(contact.email) ?? []), contact]));
+  return [...byEmail.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Combines duplicate contacts into the oldest one: each detail comes from
+ * the most recently updated contact that has it, and tags and custom
+ * fields are combined.
+ */
+export function mergeContacts(duplicates: Contact[]): Contact {
+  const newestFirst = [...duplicates].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const pick = (field: "firstName" | "lastName" | "company" | "language" | "audienceType") =>
+    newestFirst.find((contact) => contact[field])?.[field] ?? "";
+  const oldest = duplicates.reduce((a, b) => ((b.id ?? Infinity) < (a.id ?? Infinity) ? b : a));
+
+  return {
+    ...oldest,
+    firstName: pick("firstName"),
+    lastName: pick("lastName"),
+    company: pick("company"),
+    language: pick("language"),
+    audienceType: pick("audienceType"),
+    tags: normalizeTags(duplicates.flatMap((contact) => contact.tags)),
+    fields: Object.assign({}, ...[...newestFirst].reverse().map((contact) => contact.fields)),
+  };
+}
+
+/**
+ * Replaces duplicate contacts with their merge (see mergeContacts).
+ */
+export async function saveMergedContacts(duplicates: Contact[]): Promise<void> {
+  const merged = normalizeContact(mergeContacts(duplicates));
+  const removed = duplicates.filter((contact) => contact.id !== merged.id);
+
+  await withStore(CONTACTS_STORE, "readwrite", (store) => {
+    removed.forEach((contact) => store.delete(contact.id!));
+    return store.put(merged);
+  });
+  notify();
+}
+
+/**
+ * Returns the contact's details in the shape of an imported contact, for
+ * the payload's recipient details.
+ */
+export function toImportedContact(contact: Contact, row: number): ImportedContact {
+  const { email, firstName, lastName, company, fields = {} } = contact;
+  return { email, firstName, lastName, company, fields, row, valid: true };
+}
+
+/**
+ * Adds contacts to the form's recipients. Each contact goes into the first
+ * group whose audience and language match the contact's (empty ones
+ * falling back to the campaign's); an empty group is reused, or a group
+ * added, for contacts that match none. Addresses already listed are
+ * skipped.
+ */
+export function addContactsToGroups(fields: FormFields, contacts: Contact[]): FormFields {
+  const groups = fields.groups.map((group) => ({ ...group }));
+  const listed = new Set(cleanGroupRecipients(groups).map((email) => email.toLowerCase()));
+  const resolve = (value: string, fallback: string) => (value && value !== fallback ? value : "");
+
+  for (const contact of contacts) {
+    if (listed.has(contact.email)) continue;
+    listed.add(contact.email);
+
+    const audienceType = resolve(contact.audienceType, fields.audienceType);
+    const language = resolve(contact.language, fields.language);
+    let group = groups.find(
+      (candidate) =>
+        resolve(candidate.audienceType, fields.audienceType) === audienceType &&
+        resolve(candidate.language, fields.language) === language
+    );
+    if (!group) {
+      group = groups.find((candidate) => !candidate.recipients.trim());
+      if (!group) {
+        group = createRecipientGroup();
+        groups.push(group);
+      }
+      group.audienceType = audienceType;
+      group.language = language;
+    }
+
+    const current = group.recipients.trimEnd();
+    group.recipients = (current ? current + "\n" : "") + contact.email;
+  }
+
+  // A lone group's overrides aren't shown, so they become the campaign's
+  if (groups.length === 1 && (groups[0].audienceType || groups[0].language)) {
+    const [group] = groups;
+    return {
+      ...fields,
+      audienceType: group.audienceType || fields.audienceType,
+      language: group.language || fields.language,
+      groups: [{ ...group, audienceType: "", language: "" }],
+    };
+  }
+  return { ...fields, groups };
+}
@@ -0,0 +1,103 @@
+/**
+ * IndexedDB access for the Holiday Email Orchestrator.
+ * Opens the app's local database and wraps IDBRequests in promises.
+ */
+
+/** Name of the app's IndexedDB database. */
+const DB_NAME = "holiday-email-orchestrator";
+
+/** Current schema version; bump it and extend `upgrade` when adding stores. */
+const DB_VERSION = 4;
+
+/** Object store holding campaign history records. */
+export const CAMPAIGNS_STORE = "campaigns";
+
+/** Object store holding submissions waiting to be sent while offline. */
+export const OUTBOX_STORE = "outbox";
+
+/** Object store holding addresses that must not be emailed, keyed by lowercased email. */
+export const SUPPRESSIONS_STORE = "suppressions";
+
+/** Object store holding the address book, with an index on the (lowercased) email. */
+export const CONTACTS_STORE = "contacts";
+
+/**
+ * Creates or migrates object stores. Each `if` block handles one version
+ * step so existing databases are upgraded incrementally.
+ */
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const campaigns = db.createObjectStore(CAMPAIGNS_STORE, { keyPath: "id", autoIncrement: true });
+    campaigns.createIndex("createdAt", "createdAt");
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(SUPPRESSIONS_STORE, { keyPath: "email" });
+  }
+  if (oldVersion < 4) {
+    const contacts = db.createObjectStore(CONTACTS_STORE, { keyPath: "id", autoIncrement: true });
+    contacts.createIndex("email", "email");
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (once) and returns the app database.
+ * Rejects when IndexedDB is unavailable, e.g. in some private browsing modes.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Resolves with the result of an IDBRequest.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a callback against an object store inside a transaction and
+ * resolves with the callback's request result once the transaction commits.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = requestToPromise(run(transaction.objectStore(storeName)));
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  // Awaited together so a failed request (which also aborts the
+  // transaction) doesn't leave a rejection nobody listens to
+  const [value] = await Promise.all([result, done]);
+  return value;
+}
@@ -0,0 +1,83 @@
+/**
+ * Campaign delivery: ties together the history, automatic retries, the
+ * offline outbox and the daily sent count for send and send_drafts
+ * submissions.
+ */
+
+import { listPayloadRecipients } from "../../../shared/schema";
+import { CampaignRecord, addCampaign, recordOutcome } from "./history";
+import { addToOutbox } from "./outbox";
+import { recordSent } from "./quota";
+import { RetryOptions, isOffline, postWithRetry } from "./retry";
+import { FormFields } from "./validation";
+import { WebhookPayload, createIdempotencyKey } from "./webhook";
+
+/**
+ * Outcome of a delivery attempt:
+ * - sent: the webhook answered (check `response.ok`)
+ * - queued: the browser is offline; the submission waits in the outbox
+ */
+export type DeliveryResult = { status: "sent"; response: Response } | { status: "queued" };
+
+export interface DeliveryOptions extends RetryOptions {
+  /** Batch this submission is, when the campaign is sent in batches */
+  batch?: CampaignRecord["batch"];
+}
+
+/**
+ * Submits a campaign: records it in the history, posts it with an
+ * idempotency key and automatic retries, and queues it in the outbox when
+ * the browser is offline. The history is best-effort (IndexedDB may be
+ * disabled, e.g. in private browsing) and never blocks the submission.
+ * Accepted and queued recipients count towards today's sent count.
+ * Pass the idempotency key of an earlier attempt to retry it.
+ * Rejects like `fetch` when the server can't be reached while online,
+ * or with an AbortError when `signal` aborts.
+ */
+export async function deliverCampaign(
+  webhookUrl: string,
+  fields: FormFields,
+  payload: WebhookPayload,
+  { batch, ...options }: DeliveryOptions = {}
+): Promise<DeliveryResult> {
+  const idempotencyKey = options.idempotencyKey ?? createIdempotencyKey();
+  const campaignId = await addCampaign(webhookUrl, fields, payload, idempotencyKey, batch).catch(() => null);
+  const countSent = () => recordSent(webhookUrl, listPayloadRecipients(payload).length);
+
+  let queued = false;
+
+  /**
+   * Queues the submission; returns false when the outbox isn't available.
+   */
+  const queue = async (): Promise<boolean> => {
+    try {
+      await addToOutbox({ webhookUrl, payload, idempotencyKey, campaignId });
+      queued = true;
+      countSent();
+    } catch {
+      // Fall through to sending (or failing) as usual
+    }
+    return queued;
+  };
+
+  if (isOffline() && (await queue())) {
+    return { status: "queued" };
+  }
+
+  let response: Response | null = null;
+  try {
+    response = await postWithRetry(webhookUrl, payload, { ...options, idempotencyKey });
+    if (response.ok) countSent();
+    return { status: "sent", response };
+  } catch (error) {
+    // The connection dropped because the browser went offline: queue it
+    if (error instanceof TypeError && isOffline() && (await queue())) {
+      return { status: "queued" };
+    }
+    throw error;
+  } finally {
+    if (campaignId !== null && !queued) {
+      await recordOutcome(campaignId, response).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * File downloads for the Holiday Email Orchestrator.
+ */
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break.
+ */
+function toCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes rows (the first one usually being the headers) as CSV.
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Offers the browser a text file to download.
+ */
+export function downloadFile(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
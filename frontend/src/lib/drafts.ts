@@ -0,0 +1,79 @@
+/**
+ * Draft utilities for the preview-before-send flow.
+ *
+ * In preview mode the webhook generates emails without sending them and
+ * responds with a list of drafts (PreviewResponse in shared/schema.ts):
+ *
+ *   { "drafts": [{ "id": "1", "recipient": "alice@example.com",
+ *                  "subject": "Happy Diwali!", "body": "Dear Alice, ..." }] }
+ *
+ * The backend may return a draft for every recipient or only for a sample.
+ * Approved (and possibly edited) drafts are then sent back with
+ * `mode: "send_drafts"` so they go out exactly as reviewed.
+ */
+
+import { t } from "./i18n";
+
+/**
+ * A generated email returned by the webhook in preview mode.
+ */
+export interface Draft {
+  /** Identifier assigned by the backend (falls back to the list position) */
+  id: string;
+  /** Recipient email address the draft was generated for */
+  recipient: string;
+  /** Generated subject line */
+  subject: string;
+  /** Generated plain-text body */
+  body: string;
+}
+
+/**
+ * A draft as tracked in the review UI.
+ */
+export interface ReviewDraft extends Draft {
+  /** Whether the draft will be sent when the user confirms */
+  approved: boolean;
+  /** Whether the user changed the subject or body */
+  edited: boolean;
+  /** Whether a regenerate request for this draft is in flight */
+  regenerating: boolean;
+}
+
+/**
+ * Parses a preview response body into drafts.
+ * Throws an Error with a user-facing message when the body doesn't match
+ * the expected `{ drafts: [...] }` shape.
+ */
+export function parseDraftsResponse(body: unknown): Draft[] {
+  const drafts = (body as { drafts?: unknown } | null)?.drafts;
+  if (!Array.isArray(drafts)) {
+    throw new Error(t("drafts.errorNone"));
+  }
+
+  return drafts.map((item, index) => {
+    const draft = item as Partial<Record<keyof Draft, unknown>>;
+    if (typeof draft.recipient !== "string" || typeof draft.body !== "string") {
+      throw new Error(t("drafts.errorIncomplete", { index: index + 1 }));
+    }
+    return {
+      id: typeof draft.id === "string" || typeof draft.id === "number" ? String(draft.id) : String(index + 1),
+      recipient: draft.recipient,
+      subject: typeof draft.subject === "string" ? draft.subject : "",
+      body: draft.body,
+    };
+  });
+}
+
+/**
+ * Wraps freshly generated drafts for review. Drafts start out approved so
+ * the common case is a single confirmation click.
+ */
+export function toReviewDrafts(drafts: Draft[]): ReviewDraft[] {
+  return drafts.map((draft) => ({
+    ...draft,
+    approved: true,
+    edited: false,
+    regenerating: false,
+  }));
+}
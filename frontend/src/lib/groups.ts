@@ -0,0 +1,85 @@
+/**
+ * Recipient groups for the Holiday Email Orchestrator.
+ * A campaign has one or more groups of recipients; each group can
+ * override the campaign's audience, language and tone, e.g. business
+ * clients in English and family in Hindi.
+ */
+
+import { WebhookPayload } from "../../../shared/schema";
+import { t } from "./i18n";
+import { FormFields, cleanRecipients } from "./validation";
+
+/**
+ * Form values for one recipient group. Empty overrides fall back to the
+ * campaign's audience, language and tone.
+ */
+export interface RecipientGroupFields {
+  /** Identifies the group while editing; not sent to the webhook */
+  id: string;
+  /** Optional label, e.g. "Clients" */
+  name: string;
+  /** Raw recipients text (comma or newline separated) */
+  recipients: string;
+  audienceType: string;
+  language: string;
+  tone: string;
+}
+
+/**
+ * Form fields saved before recipient groups existed, with a single
+ * recipients field.
+ */
+type LegacyFormFields = Omit<FormFields, "groups" | "note"> & { recipients: string };
+
+/**
+ * Form fields saved before the personal note existed.
+ */
+type NoteLessFormFields = Omit<FormFields, "note">;
+
+/**
+ * Returns an empty group that uses the campaign defaults.
+ */
+export function createRecipientGroup(recipients = ""): RecipientGroupFields {
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    name: "",
+    recipients,
+    audienceType: "",
+    language: "",
+    tone: "",
+  };
+}
+
+/**
+ * Returns the label shown for a group: its name, or "Group 2" when unnamed.
+ */
+export function getGroupLabel(group: RecipientGroupFields, index: number): string {
+  return group.name.trim() || t("groups.defaultName", { number: index + 1 });
+}
+
+/**
+ * Returns the form group each group of a payload was built from. Groups
+ * left without recipients (e.g. when regenerating one draft) aren't sent,
+ * so the indexes can differ; an address is only ever in one group, so the
+ * first recipient tells which.
+ */
+export function getFormGroupIndexes(fields: FormFields, payload: WebhookPayload): number[] {
+  const formIndexOf = new Map<string, number>();
+  fields.groups.forEach((group, index) => {
+    cleanRecipients(group.recipients).forEach((email) => formIndexOf.set(email.toLowerCase(), index));
+  });
+  return payload.groups.map((group, index) => formIndexOf.get(group.recipients[0]?.toLowerCase() ?? "") ?? index);
+}
+
+/**
+ * Converts form fields stored before recipient groups existed (e.g. in the
+ * campaign history) to a single group, and gives fields stored before the
+ * personal note existed an empty note. Current fields are returned unchanged.
+ */
+export function upgradeFormFields(fields: FormFields | NoteLessFormFields | LegacyFormFields): FormFields {
+  const note = "note" in fields ? fields.note : "";
+  if ("groups" in fields) return { ...fields, note };
+
+  const { recipients, ...rest } = fields;
+  return { ...rest, note, groups: [createRecipientGroup(recipients)] };
+}
@@ -0,0 +1,94 @@
+/**
+ * Backend health checks.
+ *
+ * Pings a profile's health endpoint (n8n serves `/healthz`) and reports
+ * whether the backend is up and how long it took to answer. Free hosting
+ * tiers (e.g. Render) put idle services to sleep: the first request then
+ * either answers slowly (a cold start) or with a 502/503/504 while the
+ * service wakes up.
+ */
+
+import { t } from "./i18n";
+import { BackendProfile, getAuthHeaders, getHealthUrl } from "./profiles";
+
+/** Answers slower than this are reported as a cold start. */
+export const COLD_START_THRESHOLD_MS = 3000;
+
+/** Health checks give up after this long. */
+const HEALTH_TIMEOUT_MS = 30000;
+
+/** Statuses hosting platforms return while an idle service spins up. */
+const WAKING_STATUSES = [502, 503, 504];
+
+/**
+ * Result of a health check:
+ * - up: the backend answered; `coldStart` when it answered slowly and
+ *   `opaque` when CORS hid the response status (reachable, but unverified)
+ * - waking: the platform answered for the backend, which is still starting
+ * - error: the backend answered with another error status
+ * - down: the backend couldn't be reached (or didn't answer in time)
+ * - unknown: the profile has no usable health URL
+ */
+export type HealthResult =
+  | { status: "up"; latencyMs: number; coldStart: boolean; opaque: boolean }
+  | { status: "waking"; latencyMs: number; httpStatus: number }
+  | { status: "error"; latencyMs: number; httpStatus: number }
+  | { status: "down"; message: string }
+  | { status: "unknown" };
+
+/**
+ * Pings a profile's health endpoint. Never rejects.
+ */
+export async function checkHealth(profile: BackendProfile): Promise<HealthResult> {
+  const url = getHealthUrl(profile);
+  if (!url) return { status: "unknown" };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+
+  const ping = async (mode: RequestMode) => {
+    const startedAt = performance.now();
+    const response = await fetch(url, {
+      mode,
+      cache: "no-store",
+      headers: mode === "cors" ? getAuthHeaders(url) : undefined,
+      signal: controller.signal,
+    });
+    return { response, latencyMs: Math.round(performance.now() - startedAt) };
+  };
+
+  try {
+    let result: { response: Response; latencyMs: number };
+    try {
+      result = await ping("cors");
+    } catch (error) {
+      // A TypeError is also what a CORS rejection looks like: retry without
+      // CORS to tell an unreachable backend from one that just doesn't send
+      // CORS headers on its health endpoint
+      if (!(error instanceof TypeError)) throw error;
+      result = await ping("no-cors");
+    }
+
+    const { response, latencyMs } = result;
+    if (response.type === "opaque" || response.ok) {
+      return {
+        status: "up",
+        latencyMs,
+        coldStart: latencyMs > COLD_START_THRESHOLD_MS,
+        opaque: response.type === "opaque",
+      };
+    }
+    if (WAKING_STATUSES.includes(response.status)) {
+      return { status: "waking", latencyMs, httpStatus: response.status };
+    }
+    return { status: "error", latencyMs, httpStatus: response.status };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === "AbortError";
+    return {
+      status: "down",
+      message: timedOut ? t("health.timeout", { seconds: HEALTH_TIMEOUT_MS / 1000 }) : t("health.unreachable"),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Campaign history for the Holiday Email Orchestrator.
+ * Every submission is stored locally in IndexedDB with its payload and
+ * outcome, so past campaigns can be reviewed, duplicated or retried.
+ */
+
+import { upgradePayload } from "../../../shared/schema";
+import { CAMPAIGNS_STORE, withStore } from "./db";
+import { upgradeFormFields } from "./groups";
+import { FormFields } from "./validation";
+import {
+  getNetworkErrorMessage,
+  WebhookPayload,
+  createIdempotencyKey,
+  describeHttpError,
+  postPayload,
+} from "./webhook";
+
+/**
+ * Outcome of a campaign submission.
+ * - pending: the request was sent but hasn't completed (or the tab closed)
+ * - queued: waiting in the outbox until the browser is back online
+ * - success: the webhook accepted the request (2xx)
+ * - failed: the webhook returned an error or couldn't be reached
+ */
+export type CampaignStatus = "pending" | "queued" | "success" | "failed";
+
+/**
+ * A submission saved to the local history store.
+ */
+export interface CampaignRecord {
+  /** Auto-incremented key, assigned when the record is added */
+  id?: number;
+  /** When the campaign was first submitted (ISO 8601) */
+  createdAt: string;
+  /** When the record last changed, e.g. after a retry (ISO 8601) */
+  updatedAt: string;
+  /** Webhook URL the campaign was sent to */
+  webhookUrl: string;
+  /** Form values at submission time, used to duplicate the campaign */
+  fields: FormFields;
+  /** Exact payload that was posted */
+  payload: WebhookPayload;
+  /** Idempotency key sent with every attempt (missing on older records) */
+  idempotencyKey?: string;
+  status: CampaignStatus;
+  /** HTTP status of the last attempt, if a response was received */
+  httpStatus?: number;
+  /** Error message of the last failed attempt */
+  error?: string;
+  /** Number of times the payload has been posted */
+  attempts: number;
+  /** Position of this submission when the campaign was sent in batches (0-based index) */
+  batch?: { index: number; count: number };
+}
+
+/**
+ * Brings a record saved before recipient groups existed to the current
+ * shape, so the history can count and duplicate it.
+ */
+function upgradeRecord(record: CampaignRecord): CampaignRecord {
+  return { ...record, fields: upgradeFormFields(record.fields), payload: upgradePayload(record.payload) };
+}
+
+/**
+ * Saves a new campaign as pending and returns its id.
+ */
+export async function addCampaign(
+  webhookUrl: string,
+  fields: FormFields,
+  payload: WebhookPayload,
+  idempotencyKey: string,
+  batch?: CampaignRecord["batch"]
+): Promise<number> {
+  const now = new Date().toISOString();
+  const record: CampaignRecord = {
+    createdAt: now,
+    updatedAt: now,
+    webhookUrl,
+    fields,
+    payload,
+    idempotencyKey,
+    status: "pending",
+    attempts: 1,
+    ...(batch && { batch }),
+  };
+  const key = await withStore(CAMPAIGNS_STORE, "readwrite", (store) => store.add(record));
+  return key as number;
+}
+
+/**
+ * Returns a stored campaign by id.
+ */
+export async function getCampaign(id: number): Promise<CampaignRecord | undefined> {
+  const record = await withStore<CampaignRecord | undefined>(CAMPAIGNS_STORE, "readonly", (store) => store.get(id));
+  return record && upgradeRecord(record);
+}
+
+/**
+ * Applies changes to a stored campaign. Does nothing if it no longer exists.
+ */
+export async function updateCampaign(id: number, changes: Partial<CampaignRecord>): Promise<void> {
+  const existing = await getCampaign(id);
+  if (!existing) return;
+
+  await withStore(CAMPAIGNS_STORE, "readwrite", (store) =>
+    store.put({ ...existing, ...changes, id, updatedAt: new Date().toISOString() })
+  );
+}
+
+/**
+ * Returns all stored campaigns, newest first.
+ */
+export async function listCampaigns(): Promise<CampaignRecord[]> {
+  const records = await withStore<CampaignRecord[]>(CAMPAIGNS_STORE, "readonly", (store) =>
+    store.index("createdAt").getAll()
+  );
+  return records.reverse().map(upgradeRecord);
+}
+
+/**
+ * Deletes a campaign from the history.
+ */
+export async function deleteCampaign(id: number): Promise<void> {
+  await withStore(CAMPAIGNS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Records the outcome of posting a campaign's payload.
+ * Pass the response, or null when the request failed at the network level.
+ */
+export async function recordOutcome(id: number, response: Response | null): Promise<void> {
+  if (response?.ok) {
+    await updateCampaign(id, { status: "success", httpStatus: response.status, error: undefined });
+  } else if (response) {
+    // Read the error from a clone so the caller can still consume the body
+    const error = await describeHttpError(response.clone());
+    await updateCampaign(id, { status: "failed", httpStatus: response.status, error });
+  } else {
+    await updateCampaign(id, { status: "failed", httpStatus: undefined, error: getNetworkErrorMessage() });
+  }
+}
+
+/**
+ * Posts a stored campaign's payload again to its original webhook and
+ * records the new outcome. Returns the updated record.
+ * The original idempotency key is reused, so the backend can ignore the
+ * retry if the first attempt did reach it.
+ */
+export async function retryCampaign(record: CampaignRecord): Promise<CampaignRecord> {
+  const id = record.id!;
+  const idempotencyKey = record.idempotencyKey ?? createIdempotencyKey();
+  await updateCampaign(id, { status: "pending", attempts: record.attempts + 1, idempotencyKey });
+
+  let response: Response | null = null;
+  try {
+    response = await postPayload(record.webhookUrl, record.payload, { idempotencyKey });
+  } catch {
+    // Network error: recorded as failed below
+  }
+  await recordOutcome(id, response);
+
+  return (await getCampaign(id)) ?? record;
+}
@@ -0,0 +1,536 @@
+/**
+ * Bundled, offline holiday calendar for the Holiday Email Orchestrator.
+ *
+ * Covers Christian, Hindu, Islamic, Jewish, Chinese and secular/national
+ * holidays. Fixed-date holidays are stored as month/day; movable, lunar and
+ * lunisolar holidays are computed for any year (see `calendars.ts`).
+ * Computed dates are approximate: observances that depend on moon sighting
+ * or local religious authorities may differ by a day.
+ */
+
+import {
+  addDays,
+  dateAtOffset,
+  easterSunday,
+  findMoonPhase,
+  hebrewNewYear,
+  hebrewYearLength,
+  islamicDateInYear,
+  nextMoonPhase,
+  nthWeekdayOfMonth,
+  orthodoxEasterSunday,
+  utcDate,
+} from "./calendars";
+import { formatDate, getRegionName, t } from "./i18n";
+import { editDistance } from "./validation";
+
+/**
+ * Religious or cultural tradition a holiday belongs to.
+ */
+export type HolidayTradition = "christian" | "hindu" | "islamic" | "jewish" | "chinese" | "secular";
+
+/**
+ * Returns the human-readable label for a tradition, in the UI language.
+ */
+export function getTraditionLabel(tradition: HolidayTradition): string {
+  return t(`tradition.${tradition}`);
+}
+
+/**
+ * Regions holidays are grouped by: ISO country codes, plus "global"
+ * (widely observed) and "MENA".
+ */
+export const REGION_CODES = ["global", "US", "CA", "GB", "AU", "IN", "CN", "IL", "MENA"] as const;
+
+/**
+ * Returns the human-readable label for a region code, in the UI language.
+ */
+export function getRegionLabel(code: string): string {
+  if (code === "global") return t("region.global");
+  if (code === "MENA") return t("region.MENA");
+  return getRegionName(code);
+}
+
+/**
+ * A holiday in the bundled calendar.
+ */
+export interface Holiday {
+  /** Stable identifier */
+  id: string;
+  /** Display name, also used as the `holiday_name` value */
+  name: string;
+  /** Other common names and spellings matched by the autocomplete */
+  aliases: string[];
+  tradition: HolidayTradition;
+  /** Region codes from `REGION_CODES` */
+  regions: string[];
+  /** Suggested email language code for greetings, if there's a clear default */
+  language?: string;
+  /** Returns the holiday's date (UTC midnight) in the given year, or null if none */
+  date: (year: number) => Date | null;
+}
+
+/** UTC offset used for Indian lunisolar dates (IST). */
+const IST_OFFSET = 5.5;
+
+/** UTC offset used for Chinese lunisolar dates (China Standard Time). */
+const CHINA_OFFSET = 8;
+
+/** Evening time (in hours after local midnight) used to place a tithi. */
+const EVENING_HOURS = 18.5;
+
+/**
+ * Returns a fixed month/day date function.
+ */
+const fixed = (month: number, day: number) => (year: number) => utcDate(year, month, day);
+
+/**
+ * Returns the day whose evening (in IST) falls within the tithi that ends
+ * at the given new or full moon instant. Diwali's Lakshmi Puja and Holika
+ * Dahan are observed on that evening.
+ */
+function eveningBeforeMoonPhase(instant: Date): Date {
+  const day = dateAtOffset(instant, IST_OFFSET);
+  const evening = day.getTime() + (EVENING_HOURS - IST_OFFSET) * 3_600_000;
+  return evening < instant.getTime() ? day : addDays(day, -1);
+}
+
+/**
+ * Start of the amanta lunar month that begins while the Sun is in the given
+ * sidereal sign. When two new moons fall within the same solar month the
+ * first one starts an intercalary (adhik) month, so the last one is used.
+ * Sign boundaries are approximated by their usual Gregorian dates.
+ */
+function lunarMonthStart(year: number, signStart: [number, number], signEnd: [number, number]): Date | null {
+  return findMoonPhase(
+    "new",
+    utcDate(year, ...signStart),
+    addDays(utcDate(year, ...signEnd), -1),
+    IST_OFFSET,
+    "last"
+  );
+}
+
+/**
+ * Diwali (Lakshmi Puja): the new moon (Amavasya) that starts Kartika, when
+ * the Sun is in Tula (~Oct 17 – Nov 16), observed on the evening falling
+ * within the Amavasya tithi.
+ */
+function diwali(year: number): Date | null {
+  const newMoon = lunarMonthStart(year, [10, 17], [11, 16]);
+  return newMoon && eveningBeforeMoonPhase(newMoon);
+}
+
+/**
+ * Holi (Rangwali Holi): the day after Holika Dahan on the full moon of
+ * Phalguna, the month starting while the Sun is in Kumbha (~Feb 13 – Mar 14).
+ */
+function holi(year: number): Date | null {
+  const newMoon = lunarMonthStart(year, [2, 13], [3, 14]);
+  return newMoon && addDays(eveningBeforeMoonPhase(nextMoonPhase("full", newMoon)), 1);
+}
+
+/**
+ * Raksha Bandhan: the full moon (Purnima) of Shravana, the month starting
+ * while the Sun is in Karka (~Jul 16 – Aug 17).
+ */
+function rakshaBandhan(year: number): Date | null {
+  const newMoon = lunarMonthStart(year, [7, 16], [8, 17]);
+  return newMoon && dateAtOffset(nextMoonPhase("full", newMoon), IST_OFFSET);
+}
+
+/**
+ * Lunar New Year: the new moon (in China) falling between January 21 and February 20.
+ */
+function lunarNewYear(year: number): Date | null {
+  const newMoon = findMoonPhase("new", utcDate(year, 1, 21), utcDate(year, 2, 20), CHINA_OFFSET);
+  return newMoon && dateAtOffset(newMoon, CHINA_OFFSET);
+}
+
+/**
+ * Mid-Autumn Festival: the 15th day of the 8th lunar month, which falls
+ * between September 8 and October 7.
+ */
+function midAutumnFestival(year: number): Date | null {
+  const newMoon = findMoonPhase("new", utcDate(year, 8, 25), utcDate(year, 9, 23), CHINA_OFFSET);
+  return newMoon && addDays(dateAtOffset(newMoon, CHINA_OFFSET), 14);
+}
+
+/**
+ * Hebrew year whose Rosh Hashanah falls in the autumn of the given Gregorian year.
+ */
+const hebrewYearStartingIn = (year: number) => year + 3761;
+
+/**
+ * Passover (15 Nisan), 163 days before the following Rosh Hashanah.
+ */
+function passover(year: number): Date {
+  return addDays(hebrewNewYear(hebrewYearStartingIn(year)), -163);
+}
+
+/**
+ * First day of Hanukkah (25 Kislev). Heshvan has 30 days in "complete"
+ * years (355 or 385 days) and 29 otherwise.
+ */
+function hanukkah(year: number): Date {
+  const hebrewYear = hebrewYearStartingIn(year);
+  const heshvanDays = hebrewYearLength(hebrewYear) % 10 === 5 ? 30 : 29;
+  return addDays(hebrewNewYear(hebrewYear), 30 + heshvanDays + 24);
+}
+
+/**
+ * The bundled holiday dataset.
+ */
+export const HOLIDAYS: Holiday[] = [
+  // Christian
+  {
+    id: "christmas",
+    name: "Christmas",
+    aliases: ["Xmas", "Christmas Day", "Navidad", "Noel"],
+    tradition: "christian",
+    regions: ["global"],
+    date: fixed(12, 25),
+  },
+  {
+    id: "easter",
+    name: "Easter",
+    aliases: ["Easter Sunday", "Resurrection Sunday"],
+    tradition: "christian",
+    regions: ["global"],
+    date: easterSunday,
+  },
+  {
+    id: "good-friday",
+    name: "Good Friday",
+    aliases: [],
+    tradition: "christian",
+    regions: ["global"],
+    date: (year) => addDays(easterSunday(year), -2),
+  },
+  {
+    id: "orthodox-christmas",
+    name: "Orthodox Christmas",
+    aliases: ["Eastern Orthodox Christmas"],
+    tradition: "christian",
+    regions: ["global"],
+    date: fixed(1, 7),
+  },
+  {
+    id: "orthodox-easter",
+    name: "Orthodox Easter",
+    aliases: ["Pascha"],
+    tradition: "christian",
+    regions: ["global"],
+    date: orthodoxEasterSunday,
+  },
+
+  // Hindu
+  {
+    id: "diwali",
+    name: "Diwali",
+    aliases: ["Deepavali", "Divali", "Festival of Lights"],
+    tradition: "hindu",
+    regions: ["IN", "global"],
+    language: "hi",
+    date: diwali,
+  },
+  {
+    id: "holi",
+    name: "Holi",
+    aliases: ["Festival of Colours", "Festival of Colors"],
+    tradition: "hindu",
+    regions: ["IN", "global"],
+    language: "hi",
+    date: holi,
+  },
+  {
+    id: "raksha-bandhan",
+    name: "Raksha Bandhan",
+    aliases: ["Rakhi"],
+    tradition: "hindu",
+    regions: ["IN"],
+    language: "hi",
+    date: rakshaBandhan,
+  },
+  {
+    id: "makar-sankranti",
+    name: "Makar Sankranti",
+    aliases: ["Sankranti", "Pongal", "Lohri"],
+    tradition: "hindu",
+    regions: ["IN"],
+    language: "hi",
+    date: fixed(1, 14),
+  },
+
+  // Islamic
+  {
+    id: "ramadan",
+    name: "Ramadan",
+    aliases: ["Ramzan", "Ramadan Mubarak"],
+    tradition: "islamic",
+    regions: ["MENA", "global"],
+    date: (year) => islamicDateInYear(year, 9, 1),
+  },
+  {
+    id: "eid-al-fitr",
+    name: "Eid al-Fitr",
+    aliases: ["Eid", "Eid ul-Fitr", "Eid Mubarak", "Ramzan Eid"],
+    tradition: "islamic",
+    regions: ["MENA", "IN", "global"],
+    date: (year) => islamicDateInYear(year, 10, 1),
+  },
+  {
+    id: "eid-al-adha",
+    name: "Eid al-Adha",
+    aliases: ["Bakrid", "Eid ul-Adha", "Bakri Eid"],
+    tradition: "islamic",
+    regions: ["MENA", "IN", "global"],
+    date: (year) => islamicDateInYear(year, 12, 10),
+  },
+  {
+    id: "islamic-new-year",
+    name: "Islamic New Year",
+    aliases: ["Hijri New Year", "Muharram"],
+    tradition: "islamic",
+    regions: ["MENA", "global"],
+    date: (year) => islamicDateInYear(year, 1, 1),
+  },
+
+  // Jewish
+  {
+    id: "rosh-hashanah",
+    name: "Rosh Hashanah",
+    aliases: ["Jewish New Year", "Rosh Hashana"],
+    tradition: "jewish",
+    regions: ["IL", "global"],
+    date: (year) => hebrewNewYear(hebrewYearStartingIn(year)),
+  },
+  {
+    id: "yom-kippur",
+    name: "Yom Kippur",
+    aliases: ["Day of Atonement"],
+    tradition: "jewish",
+    regions: ["IL", "global"],
+    date: (year) => addDays(hebrewNewYear(hebrewYearStartingIn(year)), 9),
+  },
+  {
+    id: "hanukkah",
+    name: "Hanukkah",
+    aliases: ["Chanukah", "Hanukah", "Festival of Lights"],
+    tradition: "jewish",
+    regions: ["IL", "global"],
+    date: hanukkah,
+  },
+  {
+    id: "passover",
+    name: "Passover",
+    aliases: ["Pesach"],
+    tradition: "jewish",
+    regions: ["IL", "global"],
+    date: passover,
+  },
+
+  // Chinese
+  {
+    id: "lunar-new-year",
+    name: "Lunar New Year",
+    aliases: ["Chinese New Year", "Spring Festival", "Chunjie"],
+    tradition: "chinese",
+    regions: ["CN", "global"],
+    date: lunarNewYear,
+  },
+  {
+    id: "mid-autumn-festival",
+    name: "Mid-Autumn Festival",
+    aliases: ["Moon Festival", "Mooncake Festival", "Zhongqiu"],
+    tradition: "chinese",
+    regions: ["CN", "global"],
+    date: midAutumnFestival,
+  },
+
+  // Secular / national
+  {
+    id: "new-year",
+    name: "New Year",
+    aliases: ["New Year's Day", "New Years"],
+    tradition: "secular",
+    regions: ["global"],
+    date: fixed(1, 1),
+  },
+  {
+    id: "womens-day",
+    name: "International Women's Day",
+    aliases: ["Women's Day"],
+    tradition: "secular",
+    regions: ["global"],
+    date: fixed(3, 8),
+  },
+  {
+    id: "us-independence-day",
+    name: "Independence Day (US)",
+    aliases: ["Fourth of July", "July 4th"],
+    tradition: "secular",
+    regions: ["US"],
+    date: fixed(7, 4),
+  },
+  {
+    id: "us-thanksgiving",
+    name: "Thanksgiving",
+    aliases: ["Thanksgiving Day"],
+    tradition: "secular",
+    regions: ["US"],
+    date: (year) => nthWeekdayOfMonth(year, 11, 4, 4),
+  },
+  {
+    id: "ca-thanksgiving",
+    name: "Thanksgiving (Canada)",
+    aliases: ["Canadian Thanksgiving"],
+    tradition: "secular",
+    regions: ["CA"],
+    date: (year) => nthWeekdayOfMonth(year, 10, 1, 2),
+  },
+  {
+    id: "canada-day",
+    name: "Canada Day",
+    aliases: [],
+    tradition: "secular",
+    regions: ["CA"],
+    date: fixed(7, 1),
+  },
+  {
+    id: "boxing-day",
+    name: "Boxing Day",
+    aliases: [],
+    tradition: "secular",
+    regions: ["GB", "CA", "AU"],
+    date: fixed(12, 26),
+  },
+  {
+    id: "mothers-day",
+    name: "Mother's Day",
+    aliases: ["Mothers Day"],
+    tradition: "secular",
+    regions: ["US", "CA", "AU", "IN"],
+    date: (year) => nthWeekdayOfMonth(year, 5, 0, 2),
+  },
+  {
+    id: "in-republic-day",
+    name: "Republic Day (India)",
+    aliases: ["Republic Day"],
+    tradition: "secular",
+    regions: ["IN"],
+    language: "hi",
+    date: fixed(1, 26),
+  },
+  {
+    id: "in-independence-day",
+    name: "Independence Day (India)",
+    aliases: ["Swatantrata Diwas"],
+    tradition: "secular",
+    regions: ["IN"],
+    language: "hi",
+    date: fixed(8, 15),
+  },
+];
+
+/**
+ * Returns today's calendar day (at UTC midnight) in the user's local timezone.
+ */
+export function today(): Date {
+  const now = new Date();
+  return utcDate(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+/**
+ * Returns the next date (on or after `from`) a holiday is observed.
+ */
+export function nextOccurrence(holiday: Holiday, from: Date = today()): Date | null {
+  for (let year = from.getUTCFullYear(); year <= from.getUTCFullYear() + 1; year++) {
+    const date = holiday.date(year);
+    if (date && date >= from) {
+      return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * A holiday paired with its next date.
+ */
+export interface UpcomingHoliday {
+  holiday: Holiday;
+  date: Date;
+}
+
+/**
+ * Lists holidays occurring within the next `days` days, soonest first.
+ * Pass a region code to only include holidays observed there.
+ */
+export function getUpcomingHolidays(days = 30, region?: string, from: Date = today()): UpcomingHoliday[] {
+  const until = addDays(from, days);
+
+  return HOLIDAYS.filter((holiday) => !region || holiday.regions.includes(region))
+    .map((holiday) => ({ holiday, date: nextOccurrence(holiday, from) }))
+    .filter((entry): entry is UpcomingHoliday => entry.date !== null && entry.date <= until)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Finds a holiday by its exact name or alias (case-insensitive).
+ */
+export function findHoliday(name: string): Holiday | undefined {
+  const query = name.trim().toLowerCase();
+  return HOLIDAYS.find((holiday) =>
+    [holiday.name, ...holiday.aliases].some((candidate) => candidate.toLowerCase() === query)
+  );
+}
+
+/**
+ * Searches holidays for the autocomplete. Prefix matches rank first, then
+ * substring matches, then close misspellings ("Diwaly" → Diwali).
+ */
+export function searchHolidays(query: string, limit = 8): Holiday[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) {
+    return [];
+  }
+
+  const scored = HOLIDAYS.map((holiday) => {
+    let best = Infinity;
+    for (const candidate of [holiday.name, ...holiday.aliases].map((name) => name.toLowerCase())) {
+      if (candidate.startsWith(normalized)) {
+        best = Math.min(best, 0);
+      } else if (candidate.includes(normalized)) {
+        best = Math.min(best, 1);
+      } else {
+        // Compare against the start of the name so partial input can still match
+        const distance = editDistance(normalized, candidate.slice(0, normalized.length + 1));
+        const maxDistance = normalized.length >= 7 ? 2 : normalized.length >= 4 ? 1 : 0;
+        if (distance <= maxDistance) {
+          best = Math.min(best, 2 + distance);
+        }
+      }
+    }
+    return { holiday, score: best };
+  });
+
+  return scored
+    .filter((entry) => entry.score !== Infinity)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map((entry) => entry.holiday);
+}
+
+/**
+ * Formats a holiday date (UTC midnight) for display in the UI language,
+ * e.g. "Sat, Nov 8, 2026".
+ */
+export function formatHolidayDate(date: Date): string {
+  return formatDate(date, {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
@@ -0,0 +1,215 @@
+/**
+ * UI localization for the Holiday Email Orchestrator.
+ *
+ * Messages live in per-locale catalogs (src/locales/) keyed by flat ids
+ * such as "form.senderName.label". English is the source catalog: its
+ * keys define MessageKey, and the other catalogs must provide every key
+ * (the compiler enforces it).
+ *
+ * MESSAGES:
+ * - `{name}` placeholders are filled from the params; numbers are
+ *   formatted for the locale.
+ * - A message can be an object of plural forms ({ one, few, other, … });
+ *   the form is picked for the `count` param with Intl.PluralRules, so
+ *   languages with more plural categories (e.g. Arabic) are covered.
+ *
+ * The UI locale is independent of the email language (LANGUAGE_OPTIONS).
+ * It is detected from the saved choice, then the browser's languages,
+ * falling back to English. Right-to-left locales set `dir="rtl"` on the
+ * document; components use logical Tailwind classes (ms-/me-, ps-/pe-,
+ * text-start) so the layout mirrors.
+ *
+ * This module has no React dependency so non-UI code (validation,
+ * delivery) can use `t` too; components re-render on locale changes via
+ * `useLocale` (components/Trans.tsx).
+ */
+
+import { en } from "../locales/en";
+import { hi } from "../locales/hi";
+import { ar } from "../locales/ar";
+
+export type Locale = "en" | "hi" | "ar";
+
+/**
+ * A UI locale offered in the language switcher.
+ */
+export interface LocaleOption {
+  value: Locale;
+  /** Name of the language in that language */
+  label: string;
+  dir: "ltr" | "rtl";
+}
+
+export const UI_LOCALES: readonly LocaleOption[] = [
+  { value: "en", label: "English", dir: "ltr" },
+  { value: "hi", label: "हिन्दी", dir: "ltr" },
+  { value: "ar", label: "العربية", dir: "rtl" },
+];
+
+/** Plural forms of a message; `other` is required as the fallback. */
+export type PluralMessage = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+/** A complete catalog for a locale. */
+export type Catalog = Record<MessageKey, Message>;
+
+/** Values for a message's placeholders. */
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Catalog> = { en, hi, ar };
+
+const STORAGE_KEY = "holiday-email-orchestrator.locale";
+
+function isLocale(value: unknown): value is Locale {
+  return UI_LOCALES.some((option) => option.value === value);
+}
+
+/**
+ * Picks the UI locale: the saved choice, else the first supported
+ * browser language (matching on the primary subtag, so "ar-EG" → "ar"),
+ * else English.
+ */
+export function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage unavailable (e.g. outside the browser)
+  }
+
+  const preferred = typeof navigator === "undefined" ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const primary = tag?.split("-")[0].toLowerCase();
+    if (isLocale(primary)) return primary;
+  }
+  return "en";
+}
+
+let current: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+/**
+ * Returns the current UI locale.
+ */
+export function getLocale(): Locale {
+  return current;
+}
+
+/**
+ * Returns the text direction of a locale.
+ */
+export function getDirection(locale: Locale = current): "ltr" | "rtl" {
+  return UI_LOCALES.find((option) => option.value === locale)?.dir ?? "ltr";
+}
+
+/**
+ * Sets `lang` and `dir` on the document for the current locale.
+ */
+export function applyDocumentLocale(): void {
+  if (typeof document === "undefined") return;
+  document.documentElement.lang = current;
+  document.documentElement.dir = getDirection();
+}
+
+/**
+ * Switches the UI locale, remembers the choice and notifies subscribers.
+ */
+export function setLocale(locale: Locale): void {
+  if (locale === current) return;
+  current = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Keep the choice for this session only
+  }
+  applyDocumentLocale();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls `listener` whenever the locale changes. Returns an unsubscribe
+ * function.
+ */
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Formats a number for the current locale.
+ */
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(current, options).format(value);
+}
+
+/**
+ * Formats a date for the current locale.
+ */
+export function formatDate(date: Date, options?: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(current, options).format(date);
+}
+
+/**
+ * Returns the name of a language (e.g. "hi") in the current locale.
+ */
+export function getLanguageName(code: string): string {
+  try {
+    return new Intl.DisplayNames([current], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Returns the name of a region (e.g. "IN") in the current locale.
+ */
+export function getRegionName(code: string): string {
+  try {
+    return new Intl.DisplayNames([current], { type: "region" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Returns the raw message for a key in the current locale, with plural
+ * forms resolved. Falls back to English, then to the key itself.
+ */
+function resolve(key: MessageKey, count: number | undefined): string {
+  const message = CATALOGS[current][key] ?? en[key] ?? key;
+  if (typeof message === "string") return message;
+
+  const category = count === undefined ? "other" : new Intl.PluralRules(current).select(count);
+  return message[category] ?? message.other;
+}
+
+/**
+ * Splits a message into literal text and placeholder values, for callers
+ * that substitute non-string values (e.g. React elements; see Trans).
+ */
+export function splitMessage<T>(key: MessageKey, values: Record<string, T>, count?: number): (string | T)[] {
+  return resolve(key, count)
+    .split(/(\{\w+\})/)
+    .filter(Boolean)
+    .map((part) => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1];
+      return name !== undefined && name in values ? values[name] : part;
+    });
+}
+
+/**
+ * Returns the translated message for a key, with placeholders filled in.
+ * A `count` param selects the plural form.
+ */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const count = typeof params.count === "number" ? params.count : undefined;
+  const values = Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [name, typeof value === "number" ? formatNumber(value) : value])
+  );
+  return splitMessage(key, values, count).join("");
+}
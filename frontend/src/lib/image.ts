@@ -0,0 +1,119 @@
+/**
+ * Holiday card images for the Holiday Email Orchestrator.
+ * Checks a picked file, then resizes and compresses it in the browser
+ * (with a canvas) until it fits the payload's attachment limit, and
+ * encodes it as base64 for the `attachment` field.
+ */
+
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  PayloadAttachment,
+} from "../../../shared/schema";
+import { formatNumber, t } from "./i18n";
+
+/** Largest file accepted before resizing, in bytes. */
+export const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+
+/** Longest side of the card sent with the emails, in pixels. */
+const MAX_DIMENSION = 1200;
+
+/** Smallest longest side the card is shrunk to before giving up. */
+const MIN_DIMENSION = 300;
+
+/** JPEG qualities tried at each size, best first. */
+const QUALITY_STEPS = [0.9, 0.8, 0.7, 0.6];
+
+/**
+ * Formats a size in bytes for display, e.g. "512 kB".
+ */
+export function formatFileSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? formatNumber(bytes / (1024 * 1024), { style: "unit", unit: "megabyte", maximumFractionDigits: 1 })
+    : formatNumber(Math.ceil(bytes / 1024), { style: "unit", unit: "kilobyte" });
+}
+
+/**
+ * Returns the `data:` URL of an attachment, for previews.
+ */
+export function toDataUrl(attachment: PayloadAttachment): string {
+  return `data:${attachment.content_type};base64,${attachment.data}`;
+}
+
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Draws the image at the given size on a white background (for
+ * transparent PNGs) and encodes it as JPEG.
+ */
+function encodeJpeg(image: ImageBitmap, width: number, height: number, quality: number): Promise<Blob | null> {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) return Promise.resolve(null);
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", quality));
+}
+
+/**
+ * Checks a picked image and prepares it as the card attachment. Images
+ * that are small enough are sent as-is; others are scaled down to at most
+ * MAX_DIMENSION pixels and re-encoded as JPEG, shrinking further until they
+ * fit MAX_ATTACHMENT_BYTES.
+ *
+ * Throws an Error with a user-facing message for unsupported, unreadable
+ * or oversized files.
+ */
+export async function processCardImage(file: File): Promise<PayloadAttachment> {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    throw new Error(t("image.unsupportedType", { file: file.name }));
+  }
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw new Error(t("image.tooLarge", { file: file.name, size: formatFileSize(MAX_SOURCE_BYTES) }));
+  }
+
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file);
+  } catch {
+    throw new Error(t("image.unreadable", { file: file.name }));
+  }
+
+  try {
+    const { width, height } = image;
+    if (file.size <= MAX_ATTACHMENT_BYTES && Math.max(width, height) <= MAX_DIMENSION) {
+      return { filename: file.name, content_type: file.type, data: await readAsBase64(file), width, height };
+    }
+
+    const filename = file.name.replace(/\.[^.]*$/, "") + ".jpg";
+    for (
+      let longest = Math.min(MAX_DIMENSION, Math.max(width, height));
+      longest >= MIN_DIMENSION;
+      longest = Math.floor(longest * 0.75)
+    ) {
+      const scale = longest / Math.max(width, height);
+      const size = { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+
+      for (const quality of QUALITY_STEPS) {
+        const blob = await encodeJpeg(image, size.width, size.height, quality);
+        if (blob && blob.size <= MAX_ATTACHMENT_BYTES) {
+          return { filename, content_type: "image/jpeg", data: await readAsBase64(blob), ...size };
+        }
+      }
+    }
+    throw new Error(t("image.cannotCompress", { file: file.name, size: formatFileSize(MAX_ATTACHMENT_BYTES) }));
+  } finally {
+    image.close();
+  }
+}
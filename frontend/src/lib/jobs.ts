@@ -0,0 +1,308 @@
+/**
+ * Asynchronous job tracking for submitted campaigns.
+ *
+ * Generating and sending emails can take a while and fail after the
+ * webhook has already answered, so the webhook may accept a request with
+ * a job reference instead of just a 2xx:
+ *
+ *   { "job_id": "abc123", "status_url": "/jobs/abc123",
+ *     "events_url": "/jobs/abc123/events", "poll_interval_ms": 2000 }
+ *
+ * `status_url` (polled with GET) and `events_url` (Server-Sent Events) may
+ * be absolute or relative to the webhook URL; at least one is required.
+ * Both return the job status:
+ *
+ *   { "job_id": "abc123", "status": "running",
+ *     "recipients": [{ "email": "alice@example.com", "status": "sent" },
+ *                    { "email": "bob@example.com", "status": "failed",
+ *                      "error": "Mailbox unavailable" }] }
+ *
+ * Responses without a job reference are treated as fire-and-forget, as before.
+ * The types are SendResponse and JobStatusResponse in shared/schema.ts.
+ */
+
+import {
+  JOB_STATUSES,
+  JobStatus,
+  RECIPIENT_DELIVERY_STATUSES,
+  RecipientDeliveryStatus,
+  SendResponse,
+} from "../../../shared/schema";
+import { t } from "./i18n";
+import { getAuthHeaders } from "./profiles";
+import { describeHttpError } from "./webhook";
+
+export type { JobStatus, RecipientDeliveryStatus } from "../../../shared/schema";
+
+/** Recipient states that won't change anymore. */
+const FINAL_RECIPIENT_STATUSES: RecipientDeliveryStatus[] = ["sent", "bounced", "failed"];
+
+/** Poll interval used when the webhook doesn't suggest one. */
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/** Consecutive failed status requests tolerated before giving up. */
+const MAX_POLL_FAILURES = 3;
+
+/**
+ * Where to follow a job, parsed from the webhook's accept response.
+ */
+export interface JobReference {
+  jobId: string;
+  /** Absolute URL to poll for the job status */
+  statusUrl?: string;
+  /** Absolute URL of the job's Server-Sent Events stream */
+  eventsUrl?: string;
+  pollIntervalMs: number;
+}
+
+/**
+ * Delivery progress of a single recipient.
+ */
+export interface RecipientProgress {
+  email: string;
+  status: RecipientDeliveryStatus;
+  /** Reason for a bounce or failure, when the backend provides one */
+  error?: string;
+}
+
+/**
+ * A point-in-time view of a job's progress.
+ */
+export interface JobSnapshot {
+  jobId: string;
+  status: JobStatus;
+  recipients: RecipientProgress[];
+  /** Job-level error, e.g. when generation failed for everyone */
+  error?: string;
+}
+
+/**
+ * Resolves a possibly relative URL against the webhook URL.
+ */
+function resolveUrl(url: unknown, webhookUrl: string): string | undefined {
+  if (typeof url !== "string" || !url) return undefined;
+  try {
+    return new URL(url, webhookUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts a job reference from an accept response body.
+ * Returns null when the body has no job id or nowhere to follow it, in
+ * which case the request is treated as fire-and-forget.
+ */
+export function parseJobReference(body: unknown, webhookUrl: string): JobReference | null {
+  const data = body as SendResponse | null;
+  const jobId = data?.job_id;
+  if (typeof jobId !== "string" && typeof jobId !== "number") return null;
+
+  const statusUrl = resolveUrl(data?.status_url, webhookUrl);
+  const eventsUrl = resolveUrl(data?.events_url, webhookUrl);
+  if (!statusUrl && !eventsUrl) return null;
+
+  const interval = data?.poll_interval_ms;
+  return {
+    jobId: String(jobId),
+    statusUrl,
+    eventsUrl,
+    pollIntervalMs: typeof interval === "number" && interval >= 500 ? interval : DEFAULT_POLL_INTERVAL_MS,
+  };
+}
+
+/**
+ * Parses a job status body.
+ * Throws an Error with a user-facing message when it doesn't match the contract.
+ */
+export function parseJobStatus(body: unknown): JobSnapshot {
+  const data = body as Record<string, unknown> | null;
+  const status = data?.status;
+  if (!JOB_STATUSES.includes(status as JobStatus) || !Array.isArray(data?.recipients)) {
+    throw new Error(t("job.errorUnrecognized"));
+  }
+
+  return {
+    jobId: String(data!.job_id ?? ""),
+    status: status as JobStatus,
+    recipients: (data!.recipients as Record<string, unknown>[])
+      .filter((item) => typeof item?.email === "string")
+      .map((item) => ({
+        email: item.email as string,
+        status: RECIPIENT_DELIVERY_STATUSES.includes(item.status as RecipientDeliveryStatus)
+          ? (item.status as RecipientDeliveryStatus)
+          : "pending",
+        error: typeof item.error === "string" ? item.error : undefined,
+      })),
+    error: typeof data!.error === "string" ? data!.error : undefined,
+  };
+}
+
+/**
+ * Returns the initial snapshot of a job before its first status update.
+ */
+export function createPendingSnapshot(jobId: string, recipients: string[]): JobSnapshot {
+  return {
+    jobId,
+    status: "queued",
+    recipients: recipients.map((email) => ({ email, status: "pending" })),
+  };
+}
+
+/**
+ * Whether a job has reached a final status.
+ */
+export function isJobFinished(job: JobSnapshot): boolean {
+  return job.status === "completed" || job.status === "failed";
+}
+
+/**
+ * Whether a recipient's delivery has reached a final state.
+ */
+export function isRecipientFinished(recipient: RecipientProgress): boolean {
+  return FINAL_RECIPIENT_STATUSES.includes(recipient.status);
+}
+
+/**
+ * Counts recipients per delivery status.
+ */
+export function countRecipientStatuses(job: JobSnapshot): Record<RecipientDeliveryStatus, number> {
+  const counts: Record<RecipientDeliveryStatus, number> = {
+    pending: 0,
+    generated: 0,
+    sent: 0,
+    bounced: 0,
+    failed: 0,
+  };
+  job.recipients.forEach((recipient) => {
+    counts[recipient.status] += 1;
+  });
+  return counts;
+}
+
+/**
+ * Resolves after a delay, or rejects as soon as the signal aborts.
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("Tracking stopped", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Follows a job over Server-Sent Events. Each message carries a full job
+ * status. Resolves with the final snapshot; rejects when the stream breaks.
+ */
+function streamJob(
+  eventsUrl: string,
+  onUpdate: (job: JobSnapshot) => void,
+  signal: AbortSignal
+): Promise<JobSnapshot> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(eventsUrl);
+    const close = () => source.close();
+    signal.addEventListener(
+      "abort",
+      () => {
+        close();
+        reject(new DOMException("Tracking stopped", "AbortError"));
+      },
+      { once: true }
+    );
+
+    source.onmessage = (event) => {
+      try {
+        const job = parseJobStatus(JSON.parse(event.data));
+        onUpdate(job);
+        if (isJobFinished(job)) {
+          close();
+          resolve(job);
+        }
+      } catch (error) {
+        close();
+        reject(error);
+      }
+    };
+    source.onerror = () => {
+      close();
+      reject(new Error(t("job.errorStreamLost")));
+    };
+  });
+}
+
+/**
+ * Polls the status URL until the job finishes. A few consecutive failed
+ * requests are tolerated so a brief network hiccup doesn't end tracking.
+ */
+async function pollJob(
+  statusUrl: string,
+  pollIntervalMs: number,
+  onUpdate: (job: JobSnapshot) => void,
+  signal: AbortSignal
+): Promise<JobSnapshot> {
+  let failures = 0;
+
+  for (;;) {
+    try {
+      const response = await fetch(statusUrl, {
+        signal,
+        headers: { Accept: "application/json", ...getAuthHeaders(statusUrl) },
+      });
+      if (!response.ok) {
+        throw new Error(await describeHttpError(response));
+      }
+      const job = parseJobStatus(await response.json().catch(() => null));
+      failures = 0;
+      onUpdate(job);
+      if (isJobFinished(job)) return job;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      failures += 1;
+      if (failures >= MAX_POLL_FAILURES) {
+        throw error instanceof TypeError
+          ? new Error(t("job.errorUnreachable"))
+          : error;
+      }
+    }
+
+    await wait(pollIntervalMs, signal);
+  }
+}
+
+/**
+ * Follows a job until it finishes, calling `onUpdate` with each snapshot.
+ * Prefers the SSE stream and falls back to polling if the stream is
+ * unavailable or breaks. Backends that need an auth header are always
+ * polled, since EventSource can't send custom headers. Rejects with an AbortError when `signal` aborts.
+ */
+export async function trackJob(
+  job: JobReference,
+  onUpdate: (job: JobSnapshot) => void,
+  signal: AbortSignal
+): Promise<JobSnapshot> {
+  // Status bodies may omit the job id; snapshots always carry it
+  const update = (snapshot: JobSnapshot) => onUpdate({ ...snapshot, jobId: job.jobId });
+
+  const needsAuth = (url: string) => Object.keys(getAuthHeaders(url)).length > 0;
+  if (job.eventsUrl && typeof EventSource !== "undefined" && !needsAuth(job.eventsUrl)) {
+    try {
+      return await streamJob(job.eventsUrl, update, signal);
+    } catch (error) {
+      if (signal.aborted || !job.statusUrl) throw error;
+      // Fall back to polling below
+    }
+  }
+
+  if (!job.statusUrl) {
+    throw new Error(t("job.errorUnsupported"));
+  }
+  return pollJob(job.statusUrl, job.pollIntervalMs, update, signal);
+}
@@ -0,0 +1,126 @@
+/**
+ * Offline outbox for the Holiday Email Orchestrator.
+ *
+ * Submissions made while the browser is offline are stored in IndexedDB
+ * and delivered automatically once it's back online (or on the next page
+ * load). Each entry keeps its idempotency key, so a submission that was
+ * half-sent before the connection dropped isn't delivered twice.
+ */
+
+import { OUTBOX_STORE, withStore } from "./db";
+import { recordOutcome, updateCampaign } from "./history";
+import { isOffline, postWithRetry } from "./retry";
+import { WebhookPayload } from "./webhook";
+
+/**
+ * A submission waiting to be sent.
+ */
+export interface OutboxEntry {
+  /** Auto-incremented key, assigned when the entry is added */
+  id?: number;
+  /** When the submission was queued (ISO 8601) */
+  createdAt: string;
+  webhookUrl: string;
+  payload: WebhookPayload;
+  idempotencyKey: string;
+  /** Matching campaign history record, if history is available */
+  campaignId: number | null;
+}
+
+const listeners = new Set<() => void>();
+
+/**
+ * Notifies subscribers that the outbox changed.
+ */
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls `listener` whenever entries are added or delivered.
+ * Returns an unsubscribe function.
+ */
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Queues a submission and marks its campaign as queued.
+ */
+export async function addToOutbox(entry: Omit<OutboxEntry, "id" | "createdAt">): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) =>
+    store.add({ ...entry, createdAt: new Date().toISOString() })
+  );
+  if (entry.campaignId !== null) {
+    await updateCampaign(entry.campaignId, { status: "queued" }).catch(() => undefined);
+  }
+  notify();
+}
+
+/**
+ * Returns the queued submissions, oldest first.
+ */
+export function listOutbox(): Promise<OutboxEntry[]> {
+  return withStore<OutboxEntry[]>(OUTBOX_STORE, "readonly", (store) => store.getAll());
+}
+
+async function removeFromOutbox(id: number): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+}
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Sends queued submissions in order, stopping at the first one that
+ * can't reach the server. Entries that got any response (even an error)
+ * are removed and their outcome recorded in the history.
+ * Resolves with the number of entries delivered. Concurrent calls share
+ * the same run.
+ */
+export function flushOutbox(): Promise<number> {
+  if (!flushing) {
+    flushing = (async () => {
+      let delivered = 0;
+      for (const entry of await listOutbox()) {
+        if (isOffline()) break;
+
+        let response: Response;
+        try {
+          response = await postWithRetry(entry.webhookUrl, entry.payload, {
+            idempotencyKey: entry.idempotencyKey,
+          });
+        } catch {
+          // Still unreachable: keep this and later entries for the next flush
+          break;
+        }
+
+        await removeFromOutbox(entry.id!);
+        if (entry.campaignId !== null) {
+          await recordOutcome(entry.campaignId, response).catch(() => undefined);
+        }
+        delivered += 1;
+        notify();
+      }
+      return delivered;
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Flushes the outbox now and whenever the browser comes back online.
+ * Returns a function that stops listening.
+ */
+export function startOutboxSync(): () => void {
+  const flush = () => {
+    flushOutbox().catch(() => undefined);
+  };
+  flush();
+  window.addEventListener("online", flush);
+  return () => window.removeEventListener("online", flush);
+}
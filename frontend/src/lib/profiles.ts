@@ -0,0 +1,231 @@
+/**
+ * Backend profiles for the Holiday Email Orchestrator.
+ *
+ * A profile is a named backend (local n8n, an ngrok tunnel, Render, the
+ * mock backend, a Make scenario…) with its webhook URL, the delivery
+ * adapter that speaks its format, an optional auth header and the
+ * URLs used for health checks, suppression reports and capabilities,
+ * plus the sending limits and test address of the mail account behind it.
+ * Profiles are saved in localStorage so the backend can be switched at
+ * runtime without rebuilding. On first use a "Default" profile is created from
+ * VITE_WEBHOOK_URL.
+ */
+
+import { WEBHOOK_URL } from "../config";
+import { AdapterId, getProfileAdapter } from "./adapters";
+
+/**
+ * A saved backend.
+ */
+export interface BackendProfile {
+  id: string;
+  name: string;
+  webhookUrl: string;
+  /** Format the backend expects (see lib/adapters.ts); unset picks one from the webhook URL */
+  adapter?: AdapterId;
+  /** JSON body template of the generic adapter */
+  bodyTemplate?: string;
+  /** Subject template of the SMTP relay adapter, with merge fields */
+  relaySubject?: string;
+  /** Health check URL; defaults to n8n's `/healthz` on the webhook's origin */
+  healthUrl?: string;
+  /** Bounce and unsubscribe reports; defaults to the webhook URL + `/suppressions` for n8n */
+  suppressionsUrl?: string;
+  /** Supported languages, audiences and features; defaults to the webhook URL + `/capabilities` for n8n */
+  capabilitiesUrl?: string;
+  /**
+   * Header sent with every request to this backend, e.g. Authorization; an
+   * empty name uses the adapter's usual header
+   */
+  authHeader?: { name: string; value: string };
+  /** Proxy login that set `authHeader` (see lib/auth.ts) */
+  session?: { username: string; expiresAt: string };
+  /** Largest number of recipients per request; larger campaigns are sent in batches */
+  batchSize?: number;
+  /** Pause between two batches, in seconds */
+  batchDelaySeconds?: number;
+  /** Recipients the mail account may be sent to per day; unset means no limit */
+  dailyQuota?: number;
+  /** Address test sends go to, usually the sender's own (see lib/testSend.ts) */
+  testEmail?: string;
+}
+
+/**
+ * How a campaign is paced for a backend (see lib/batches.ts and lib/quota.ts).
+ */
+export interface SendingLimits {
+  batchSize: number;
+  batchDelaySeconds: number;
+  /** 0 when there is no daily limit */
+  dailyQuota: number;
+}
+
+/** Batch size used when a profile doesn't set one. */
+export const DEFAULT_BATCH_SIZE = 50;
+
+/** Pause between batches used when a profile doesn't set one, in seconds. */
+export const DEFAULT_BATCH_DELAY_SECONDS = 10;
+
+/**
+ * Saved profiles and which one is in use.
+ */
+export interface ProfileSettings {
+  profiles: BackendProfile[];
+  activeId: string;
+}
+
+const STORAGE_KEY = "holiday-email-orchestrator.profiles";
+
+/**
+ * Returns a new random profile id.
+ */
+export function createProfileId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Returns the settings used before any profile was saved.
+ */
+function defaultSettings(): ProfileSettings {
+  const profile: BackendProfile = { id: "default", name: "Default", webhookUrl: WEBHOOK_URL };
+  return { profiles: [profile], activeId: profile.id };
+}
+
+let cached: ProfileSettings | null = null;
+
+/**
+ * Loads the saved profiles, falling back to the default profile when
+ * nothing (or nothing valid) is stored.
+ */
+export function loadProfileSettings(): ProfileSettings {
+  if (cached) return cached;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as ProfileSettings | null;
+    if (stored && Array.isArray(stored.profiles) && stored.profiles.length > 0) {
+      const activeId = stored.profiles.some((p) => p.id === stored.activeId)
+        ? stored.activeId
+        : stored.profiles[0].id;
+      cached = { profiles: stored.profiles, activeId };
+      return cached;
+    }
+  } catch {
+    // Corrupt or inaccessible storage: use the default
+  }
+
+  cached = defaultSettings();
+  return cached;
+}
+
+/**
+ * Saves the profiles. Storage failures (e.g. quota, disabled storage)
+ * keep the settings for the current session only.
+ */
+export function saveProfileSettings(settings: ProfileSettings): void {
+  cached = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Keep the in-memory copy
+  }
+}
+
+/**
+ * Returns the profile in use.
+ */
+export function getActiveProfile(settings: ProfileSettings = loadProfileSettings()): BackendProfile {
+  return settings.profiles.find((p) => p.id === settings.activeId) ?? settings.profiles[0];
+}
+
+/**
+ * Returns the URL to ping for a profile's health.
+ */
+export function getHealthUrl(profile: BackendProfile): string | null {
+  if (profile.healthUrl?.trim()) return profile.healthUrl.trim();
+  try {
+    return new URL("/healthz", profile.webhookUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns a profile's sending limits, with defaults for unset values.
+ */
+export function getSendingLimits(profile: BackendProfile): SendingLimits {
+  const positive = (value: number | undefined) => (value !== undefined && value > 0 ? value : undefined);
+  return {
+    batchSize: Math.floor(positive(profile.batchSize) ?? DEFAULT_BATCH_SIZE),
+    batchDelaySeconds: profile.batchDelaySeconds !== undefined && profile.batchDelaySeconds >= 0
+      ? profile.batchDelaySeconds
+      : DEFAULT_BATCH_DELAY_SECONDS,
+    dailyQuota: Math.floor(positive(profile.dailyQuota) ?? 0),
+  };
+}
+
+/**
+ * Returns the webhook URL followed by `path`, where n8n-style backends
+ * serve their other endpoints. Other adapters get none: a GET to a catch
+ * hook's sub-path could run its scenario.
+ */
+function getWebhookSubUrl(profile: BackendProfile, path: string): string | null {
+  if (getProfileAdapter(profile).id !== "n8n") return null;
+  try {
+    return new URL(`${profile.webhookUrl.replace(/\/+$/, "")}/${path}`).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the URL a profile's bounces and unsubscribes are fetched from.
+ */
+export function getSuppressionsUrl(profile: BackendProfile): string | null {
+  return profile.suppressionsUrl?.trim() || getWebhookSubUrl(profile, "suppressions");
+}
+
+/**
+ * Returns the URL a profile's capabilities are fetched from (see lib/capabilities.ts).
+ */
+export function getCapabilitiesUrl(profile: BackendProfile): string | null {
+  return profile.capabilitiesUrl?.trim() || getWebhookSubUrl(profile, "capabilities");
+}
+
+/**
+ * Returns the profile a request URL belongs to: the one whose webhook URL
+ * matches exactly, else the first profile on the same origin (e.g. for
+ * job status URLs). Applies to requests made for past campaigns and the
+ * outbox too, as long as the profile still exists.
+ */
+export function findProfile(url: string): BackendProfile | undefined {
+  const { profiles } = loadProfileSettings();
+
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+
+  const sameOrigin = (profile: BackendProfile) => {
+    try {
+      return new URL(profile.webhookUrl).origin === origin;
+    } catch {
+      return false;
+    }
+  };
+  return profiles.find((p) => p.webhookUrl === url) ?? profiles.find(sameOrigin);
+}
+
+/**
+ * Returns the auth headers for a request URL, those of its profile (see
+ * findProfile).
+ */
+export function getAuthHeaders(url: string): Record<string, string> {
+  const profile = findProfile(url);
+  if (!profile?.authHeader) return {};
+
+  const { name, value } = profile.authHeader;
+  const header = name.trim() || (value ? getProfileAdapter(profile).authHeaderName : "");
+  return header ? { [header]: value } : {};
+}
@@ -0,0 +1,65 @@
+/**
+ * Daily sending quota for the Holiday Email Orchestrator.
+ *
+ * Mail providers cap how many emails an account may send per day (e.g.
+ * Gmail), so the number of recipients submitted to each webhook is counted
+ * per calendar day and the form warns before a campaign would go over the
+ * backend's configured quota. Counts are kept in localStorage.
+ */
+
+const STORAGE_KEY = "holiday-email-orchestrator.sentCounts";
+
+/**
+ * Recipients submitted to a webhook on one day.
+ */
+interface DailyCount {
+  /** Local calendar day, as YYYY-MM-DD */
+  day: string;
+  count: number;
+}
+
+/**
+ * Returns today's local calendar day as YYYY-MM-DD.
+ */
+function today(now = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function loadCounts(): Record<string, DailyCount> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Returns how many recipients were submitted to a webhook today.
+ */
+export function getSentToday(webhookUrl: string): number {
+  const entry = loadCounts()[webhookUrl];
+  return entry?.day === today() ? entry.count : 0;
+}
+
+/**
+ * Adds submitted recipients to today's count for a webhook.
+ */
+export function recordSent(webhookUrl: string, count: number): void {
+  const counts = loadCounts();
+  counts[webhookUrl] = { day: today(), count: getSentToday(webhookUrl) + count };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(counts));
+  } catch {
+    // The quota warning is best-effort
+  }
+}
+
+/**
+ * Returns how many recipients would go over `quota` if `count` more were
+ * sent today, or 0 when they fit (or there's no quota).
+ */
+export function getQuotaExcess(webhookUrl: string, count: number, quota: number | undefined): number {
+  if (!quota) return 0;
+  return Math.max(0, getSentToday(webhookUrl) + count - quota);
+}
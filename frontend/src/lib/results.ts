@@ -0,0 +1,126 @@
+/**
+ * Send results for the Holiday Email Orchestrator.
+ *
+ * A webhook can answer a send with the outcome of each recipient:
+ *
+ *   { "ok": true, "results": [
+ *       { "email": "alice@example.com", "status": "sent", "subject": "Happy Diwali!" },
+ *       { "email": "bob@example.com", "status": "failed", "error": "Mailbox unavailable" } ] }
+ *
+ * (or with just the list, as n8n's "Respond to Webhook" node returns it).
+ * The form shows them in a results panel that can be filtered, exported
+ * as a CSV or JSON report, and used to put the failed recipients back
+ * into the form. The types are SendResult in shared/schema.ts.
+ */
+
+import { RecipientDeliveryStatus, SendResult } from "../../../shared/schema";
+import { formatCsv } from "./download";
+import { FormFields, extractEmails } from "./validation";
+
+export type { SendResult } from "../../../shared/schema";
+export { parseSendResults } from "../../../shared/schema";
+
+/** Statuses of recipients whose email didn't get through. */
+const PROBLEM_STATUSES: RecipientDeliveryStatus[] = ["failed", "bounced"];
+
+/** Columns of the CSV report. */
+const CSV_HEADERS = ["email", "status", "subject", "error"];
+
+/**
+ * Which results the panel shows: every result, one status, or the
+ * failed and bounced ones.
+ */
+export type ResultFilter = "all" | "problems" | RecipientDeliveryStatus;
+
+/**
+ * A results report, as exported to JSON.
+ */
+export interface SendReport {
+  holiday_name: string;
+  sender_name: string;
+  /** When the report was exported (ISO 8601) */
+  exported_at: string;
+  results: SendResult[];
+}
+
+/**
+ * Whether a recipient's email failed or bounced.
+ */
+export function isProblemResult(result: SendResult): boolean {
+  return PROBLEM_STATUSES.includes(result.status);
+}
+
+/**
+ * Returns the results matching a filter and a search over the address,
+ * subject and error.
+ */
+export function filterResults(results: SendResult[], filter: ResultFilter, query = ""): SendResult[] {
+  const needle = query.trim().toLowerCase();
+  return results.filter(
+    (result) =>
+      (filter === "all" || (filter === "problems" ? isProblemResult(result) : result.status === filter)) &&
+      (!needle ||
+        [result.email, result.subject ?? "", result.error ?? ""].some((value) => value.toLowerCase().includes(needle)))
+  );
+}
+
+/**
+ * Counts results per status.
+ */
+export function countResults(results: SendResult[]): Partial<Record<RecipientDeliveryStatus, number>> {
+  const counts: Partial<Record<RecipientDeliveryStatus, number>> = {};
+  results.forEach((result) => {
+    counts[result.status] = (counts[result.status] ?? 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Serializes results as CSV with an email, status, subject and error column.
+ */
+export function exportResultsCsv(results: SendResult[]): string {
+  const rows = results.map((result) => [result.email, result.status, result.subject ?? "", result.error ?? ""]);
+  return formatCsv([CSV_HEADERS, ...rows]);
+}
+
+/**
+ * Serializes results as a JSON report with the campaign's holiday and sender.
+ */
+export function exportResultsJson(results: SendResult[], fields: Pick<FormFields, "holidayName" | "senderName">): string {
+  const report: SendReport = {
+    holiday_name: fields.holidayName,
+    sender_name: fields.senderName,
+    exported_at: new Date().toISOString(),
+    results,
+  };
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Narrows the form values of a sent campaign down to some of its
+ * recipients (e.g. the failed ones), keeping each in its group. Groups
+ * left without recipients are dropped, unless none would be left.
+ */
+export function keepRecipients(fields: FormFields, emails: string[]): FormFields {
+  const kept = new Set(emails.map((email) => email.toLowerCase()));
+  const groups = fields.groups.map((group) => ({
+    ...group,
+    recipients: extractEmails(group.recipients)
+      .filter((email) => kept.has(email.toLowerCase()))
+      .join("\n"),
+  }));
+  const remaining = groups.filter((group) => group.recipients);
+  if (remaining.length > 1) {
+    return { ...fields, groups: remaining };
+  }
+
+  // A lone group's overrides aren't shown, so they become the campaign's
+  const [group] = remaining.length > 0 ? remaining : groups;
+  return {
+    ...fields,
+    audienceType: group.audienceType || fields.audienceType,
+    language: group.language || fields.language,
+    tone: group.tone || fields.tone,
+    groups: [{ ...group, audienceType: "", language: "", tone: "" }],
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Automatic retry for webhook submissions.
+ *
+ * Transient failures (network errors, timeouts, rate limits, 502/503/504
+ * while a Render service is waking up) are retried with exponential
+ * backoff. Every attempt carries the same idempotency key, so a request
+ * that reached the backend before the connection dropped isn't processed
+ * twice.
+ */
+
+import { t } from "./i18n";
+import { PostOptions, postPayload, WebhookPayload } from "./webhook";
+
+/** HTTP statuses worth retrying: the request may succeed later. */
+const TRANSIENT_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+/** Total attempts, including the first one. */
+const MAX_ATTEMPTS = 6;
+
+/** Delay before the first retry; doubles on every retry. */
+const BASE_DELAY_MS = 2000;
+
+/** Upper bound for a single delay (also caps Retry-After). */
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Details about an upcoming retry, for showing a countdown.
+ */
+export interface RetryInfo {
+  /** Number of the attempt that will be made next (2 for the first retry) */
+  attempt: number;
+  maxAttempts: number;
+  /** When the next attempt starts (epoch ms) */
+  retryAt: number;
+  /** Why the previous attempt failed */
+  reason: string;
+}
+
+export interface RetryOptions extends PostOptions {
+  /** Called before waiting for each retry */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Whether a response status is worth retrying.
+ */
+export function isTransientStatus(status: number): boolean {
+  return TRANSIENT_STATUSES.has(status);
+}
+
+/**
+ * Whether the browser reports being offline.
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+/**
+ * Returns the delay before a retry: exponential backoff with ±20% jitter,
+ * or the server's Retry-After when it sent one.
+ */
+function retryDelay(attempt: number, response?: Response): number {
+  const retryAfter = response?.headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (ms >= 0) return Math.min(ms, MAX_DELAY_MS);
+  }
+
+  const backoff = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return Math.round(backoff * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Resolves after a delay, or rejects with an AbortError when `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Retry cancelled", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("Retry cancelled", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * POSTs a payload, retrying transient failures with backoff.
+ * Resolves with the first non-transient response (or the last response
+ * once attempts run out). Rejects with the fetch error when the network
+ * keeps failing, immediately if the browser goes offline, and with an
+ * AbortError when `signal` aborts.
+ */
+export async function postWithRetry(
+  webhookUrl: string,
+  payload: WebhookPayload,
+  { onRetry, ...options }: RetryOptions = {}
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    let reason: string;
+
+    try {
+      response = await postPayload(webhookUrl, payload, options);
+      if (!isTransientStatus(response.status) || attempt >= MAX_ATTEMPTS) {
+        return response;
+      }
+      reason = `HTTP ${response.status}`;
+    } catch (error) {
+      // Offline: leave it to the caller (e.g. to queue it in the outbox)
+      if (options.signal?.aborted || attempt >= MAX_ATTEMPTS || isOffline()) {
+        throw error;
+      }
+      reason = t("retry.networkError");
+    }
+
+    const delay = retryDelay(attempt, response);
+    onRetry?.({ attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, retryAt: Date.now() + delay, reason });
+    await sleep(delay, options.signal);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Scheduling utilities for the Holiday Email Orchestrator.
+ * Converts "send at" wall-clock times in an IANA timezone to UTC instants
+ * and formats them for display, using only the built-in Intl APIs.
+ */
+
+import { formatDate } from "./i18n";
+
+/**
+ * A small set of zones used when the browser can't list its supported zones.
+ */
+const FALLBACK_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Paris",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+/**
+ * Returns true when the given string is an IANA timezone the runtime knows.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone.trim()) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the browser's timezone, falling back to UTC.
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * Lists the IANA timezones supported by the runtime, for pickers.
+ */
+export function listTimeZones(): string[] {
+  const intl = Intl as { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf?.("timeZone") ?? FALLBACK_TIME_ZONES;
+}
+
+/**
+ * Returns the offset of a timezone from UTC at the given instant, in ms.
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a `datetime-local` value ("YYYY-MM-DDTHH:mm") in the given
+ * timezone to a UTC Date. Returns null for malformed input.
+ *
+ * Times that fall into a DST gap resolve to the instant just after it;
+ * ambiguous times in a DST overlap resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(localDateTime.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = "0"] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+  // Try the offsets on either side of a possible DST change and keep the
+  // candidates that map back to the requested wall-clock time
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  const candidates = [firstGuess, wallClock - getTimeZoneOffset(firstGuess, timeZone)];
+  const matches = candidates.filter(
+    (instant) => instant + getTimeZoneOffset(instant, timeZone) === wallClock
+  );
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : Math.max(...candidates));
+}
+
+/**
+ * Formats an instant for display in the given timezone and the UI
+ * language, e.g. "Dec 25, 2026, 9:00 AM GMT+5:30".
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  return formatDate(date, {
+    timeZone,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Submission state machine for the form.
+ *
+ * Direct flow:   idle → submitting → success | tracking → completed
+ * Preview flow:  idle → previewing → reviewing → sending_drafts
+ *                → success | tracking → completed
+ * Batched flow:  submitting | sending_drafts → batching → batched
+ *                (→ batching again to retry the batches left over)
+ * Test flow:     idle → testing → success | error (the form is kept)
+ *
+ * While submitting or sending drafts, transient failures are retried
+ * automatically; `retry` describes the next attempt for a countdown.
+ *
+ * A request fails into `error`, except sending approved drafts, which
+ * returns to `reviewing` with the error so the drafts aren't lost.
+ * `tracking` is entered when the webhook answers with a job reference
+ * and follows per-recipient delivery until the job finishes; a webhook
+ * that reports per-recipient results right away leaves them in `success`.
+ * `batching` is entered instead when the campaign is too large for one
+ * request (see lib/batches.ts); it can be paused between batches.
+ *
+ * Events that don't apply to the current state are ignored, so a late
+ * response (e.g. after the user dismissed the review) can't resurrect
+ * a stale state.
+ */
+
+import { Batch } from "./batches";
+import { ReviewDraft } from "./drafts";
+import { JobReference, JobSnapshot, isJobFinished } from "./jobs";
+import { SendResult } from "./results";
+import { RetryInfo } from "./retry";
+
+export type SubmissionState =
+  | { status: "idle" }
+  | { status: "submitting"; retry?: RetryInfo }
+  | { status: "previewing" }
+  | { status: "testing" }
+  | { status: "reviewing"; drafts: ReviewDraft[]; error?: string }
+  | { status: "sending_drafts"; drafts: ReviewDraft[]; retry?: RetryInfo }
+  | { status: "success"; message: string; results?: SendResult[] }
+  | { status: "tracking"; message: string; ref: JobReference; job: JobSnapshot }
+  | { status: "completed"; message: string; job: JobSnapshot; trackingError?: string }
+  | {
+      status: "batching";
+      message: string;
+      batches: Batch[];
+      paused: boolean;
+      /** When the next batch starts, while waiting between batches (epoch ms) */
+      nextAt?: number;
+      retry?: RetryInfo;
+    }
+  | { status: "batched"; message: string; batches: Batch[]; stopped: boolean }
+  | { status: "error"; message: string };
+
+export type SubmissionEvent =
+  /** The user sent the form directly */
+  | { type: "submit" }
+  /** The user asked for drafts */
+  | { type: "preview" }
+  /** The user sent the campaign to their test address */
+  | { type: "test" }
+  /** The preview request returned drafts */
+  | { type: "drafts_loaded"; drafts: ReviewDraft[] }
+  /** Drafts were edited, approved or regenerated during review */
+  | { type: "drafts_changed"; update: (drafts: ReviewDraft[]) => ReviewDraft[]; error?: string }
+  /** The user confirmed the approved drafts */
+  | { type: "send_drafts" }
+  /** A transient failure occurred; the request will be retried */
+  | { type: "retry_scheduled"; retry: RetryInfo }
+  /** The webhook accepted (or the outbox queued) the request without a job to follow */
+  | { type: "accepted"; message: string; results?: SendResult[] }
+  /** The webhook accepted the request and returned a job to follow */
+  | { type: "job_started"; message: string; ref: JobReference; job: JobSnapshot }
+  /** A new job status arrived */
+  | { type: "job_updated"; job: JobSnapshot }
+  /** Following the job failed (the job itself may still be running) */
+  | { type: "tracking_failed"; message: string }
+  /** The campaign is sent in batches (or its leftover batches are retried) */
+  | { type: "batches_started"; message: string; batches: Batch[] }
+  /** A batch started sending or got its outcome */
+  | { type: "batch_updated"; index: number; changes: Partial<Batch> }
+  /** The next batch waits for the pacing delay; null once it starts */
+  | { type: "batch_waiting"; nextAt: number | null }
+  /** The user paused or resumed the batches */
+  | { type: "batches_paused"; paused: boolean }
+  /** Every batch was attempted, or the user stopped the run */
+  | { type: "batches_finished"; stopped: boolean }
+  /** A request failed */
+  | { type: "failed"; message: string }
+  /** The user dismissed the alert, review or progress panel */
+  | { type: "dismiss" };
+
+/** States from which a new request can be started. */
+const READY_STATES: SubmissionState["status"][] = ["idle", "success", "completed", "batched", "error"];
+
+export const initialSubmissionState: SubmissionState = { status: "idle" };
+
+/**
+ * Returns the next state for an event, or the current state when the
+ * event doesn't apply.
+ */
+export function submissionReducer(state: SubmissionState, event: SubmissionEvent): SubmissionState {
+  switch (event.type) {
+    case "submit":
+      return READY_STATES.includes(state.status) ? { status: "submitting" } : state;
+
+    case "preview":
+      return READY_STATES.includes(state.status) ? { status: "previewing" } : state;
+
+    case "test":
+      return READY_STATES.includes(state.status) ? { status: "testing" } : state;
+
+    case "drafts_loaded":
+      return state.status === "previewing" ? { status: "reviewing", drafts: event.drafts } : state;
+
+    case "drafts_changed":
+      return state.status === "reviewing"
+        ? { ...state, drafts: event.update(state.drafts), error: event.error }
+        : state;
+
+    case "send_drafts":
+      return state.status === "reviewing" ? { status: "sending_drafts", drafts: state.drafts } : state;
+
+    case "retry_scheduled":
+      return state.status === "submitting" || state.status === "sending_drafts" || state.status === "batching"
+        ? { ...state, retry: event.retry }
+        : state;
+
+    case "accepted":
+      return state.status === "submitting" || state.status === "sending_drafts" || state.status === "testing"
+        ? { status: "success", message: event.message, results: event.results }
+        : state;
+
+    case "job_started":
+      if (state.status !== "submitting" && state.status !== "sending_drafts") return state;
+      return isJobFinished(event.job)
+        ? { status: "completed", message: event.message, job: event.job }
+        : { status: "tracking", message: event.message, ref: event.ref, job: event.job };
+
+    case "job_updated":
+      if (state.status !== "tracking" || event.job.jobId !== state.ref.jobId) return state;
+      return isJobFinished(event.job)
+        ? { status: "completed", message: state.message, job: event.job }
+        : { ...state, job: event.job };
+
+    case "tracking_failed":
+      return state.status === "tracking"
+        ? { status: "completed", message: state.message, job: state.job, trackingError: event.message }
+        : state;
+
+    case "batches_started":
+      return state.status === "submitting" || state.status === "sending_drafts" || state.status === "batched"
+        ? { status: "batching", message: event.message, batches: event.batches, paused: false }
+        : state;
+
+    case "batch_updated":
+      if (state.status !== "batching") return state;
+      return {
+        ...state,
+        batches: state.batches.map((batch) =>
+          batch.index === event.index ? { ...batch, ...event.changes } : batch
+        ),
+        // A new outcome ends the retries of the previous attempt
+        retry: undefined,
+      };
+
+    case "batch_waiting":
+      return state.status === "batching" ? { ...state, nextAt: event.nextAt ?? undefined } : state;
+
+    case "batches_paused":
+      return state.status === "batching" ? { ...state, paused: event.paused } : state;
+
+    case "batches_finished":
+      return state.status === "batching"
+        ? { status: "batched", message: state.message, batches: state.batches, stopped: event.stopped }
+        : state;
+
+    case "failed":
+      if (state.status === "sending_drafts") {
+        return { status: "reviewing", drafts: state.drafts, error: event.message };
+      }
+      return state.status === "submitting" || state.status === "previewing" || state.status === "testing"
+        ? { status: "error", message: event.message }
+        : state;
+
+    case "dismiss":
+      return state.status === "submitting" ||
+        state.status === "previewing" ||
+        state.status === "testing" ||
+        state.status === "sending_drafts" ||
+        state.status === "batching"
+        ? state
+        : { status: "idle" };
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Suppression list for the Holiday Email Orchestrator.
+ *
+ * Addresses that unsubscribed, bounced or were added by hand are stored
+ * in IndexedDB and left out of every payload, so they're never emailed
+ * again. The list can be edited, imported from and exported to CSV, and
+ * topped up with the bounces and unsubscribes a backend reports (see
+ * SuppressionsResponse in shared/schema.ts).
+ */
+
+import { SUPPRESSION_REASONS, SuppressionReason, parseSuppressionsResponse } from "../../../shared/schema";
+import { parseDelimited } from "./contactImport";
+import { SUPPRESSIONS_STORE, withStore } from "./db";
+import { formatCsv } from "./download";
+import { t } from "./i18n";
+import { RecipientProgress } from "./jobs";
+import { getAuthHeaders } from "./profiles";
+import { isValidEmail } from "./validation";
+import { getNetworkErrorMessage, readHttpError } from "./webhook";
+
+export type { SuppressionReason } from "../../../shared/schema";
+export { SUPPRESSION_REASONS } from "../../../shared/schema";
+
+/**
+ * An address that must not be emailed.
+ */
+export interface Suppression {
+  /** Lowercased address, the key of the store */
+  email: string;
+  reason: SuppressionReason;
+  /** Free-form details, e.g. a bounce message or who asked to be removed */
+  note: string;
+  /** When the address was added or reported (ISO 8601) */
+  addedAt: string;
+}
+
+/** Columns of exported (and expected in imported) CSV files. */
+const CSV_HEADERS = ["email", "reason", "note", "added_at"];
+
+/** Remembers when each suppressions URL was last synced. */
+const SYNC_STORAGE_KEY = "holiday-email-orchestrator.suppressionsSync";
+
+const listeners = new Set<() => void>();
+
+/**
+ * Notifies subscribers that the list changed.
+ */
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls `listener` whenever addresses are added or removed.
+ * Returns an unsubscribe function.
+ */
+export function subscribeSuppressions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Returns the key an address is stored under.
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Returns the suppressed addresses, sorted by address.
+ */
+export function listSuppressions(): Promise<Suppression[]> {
+  return withStore<Suppression[]>(SUPPRESSIONS_STORE, "readonly", (store) => store.getAll());
+}
+
+/**
+ * Returns the suppressed addresses (lowercased) for quick lookups.
+ */
+export async function loadSuppressedEmails(): Promise<Set<string>> {
+  const keys = await withStore(SUPPRESSIONS_STORE, "readonly", (store) => store.getAllKeys());
+  return new Set(keys.map(String));
+}
+
+/**
+ * Adds addresses to the list, replacing the entries of addresses already
+ * on it. Invalid addresses are ignored.
+ */
+export async function addSuppressions(entries: Suppression[]): Promise<void> {
+  const valid = entries.filter((entry) => isValidEmail(entry.email));
+  if (valid.length === 0) return;
+
+  await withStore(SUPPRESSIONS_STORE, "readwrite", (store) =>
+    valid.map((entry) => store.put({ ...entry, email: normalizeEmail(entry.email) })).pop()!
+  );
+  notify();
+}
+
+/**
+ * Removes an address from the list, so it can be emailed again.
+ */
+export async function removeSuppression(email: string): Promise<void> {
+  await withStore(SUPPRESSIONS_STORE, "readwrite", (store) => store.delete(normalizeEmail(email)));
+  notify();
+}
+
+/**
+ * Splits recipients into those that may be emailed and those on the list.
+ */
+export function filterSuppressed(
+  recipients: string[],
+  suppressed: Set<string>
+): { allowed: string[]; skipped: string[] } {
+  const allowed: string[] = [];
+  const skipped: string[] = [];
+  recipients.forEach((email) => (suppressed.has(normalizeEmail(email)) ? skipped : allowed).push(email));
+  return { allowed, skipped };
+}
+
+/**
+ * Adds the bounced recipients of a job (or of a send's results) to the
+ * list, with the bounce message as the note when the backend gave one.
+ */
+export async function suppressBouncedRecipients(recipients: RecipientProgress[]): Promise<void> {
+  const addedAt = new Date().toISOString();
+  await addSuppressions(
+    recipients
+      .filter((recipient) => recipient.status === "bounced")
+      .map((recipient) => ({ email: recipient.email, reason: "bounced", note: recipient.error ?? "", addedAt }))
+  );
+}
+
+/**
+ * Serializes the list as CSV with an email, reason, note and added_at column.
+ */
+export function exportSuppressionsCsv(suppressions: Suppression[]): string {
+  const rows = suppressions.map((entry) => [entry.email, entry.reason, entry.note, entry.addedAt]);
+  return formatCsv([CSV_HEADERS, ...rows]);
+}
+
+/**
+ * Reads addresses from a CSV file: an exported list, or any file with an
+ * email column. Unknown reasons become "manual"; rows without a valid
+ * address are counted as skipped.
+ */
+export function parseSuppressionsCsv(text: string): { suppressions: Suppression[]; skipped: number } {
+  const table = parseDelimited(text);
+  const column = (pattern: RegExp) => table.headers.findIndex((header) => pattern.test(header.trim()));
+
+  let emailColumn = column(/e-?mail/i);
+  if (emailColumn === -1) {
+    emailColumn = table.headers.findIndex((_, index) => table.rows.some((row) => isValidEmail(row[index])));
+  }
+  const reasonColumn = column(/^reason$/i);
+  const noteColumn = column(/^notes?$/i);
+  const addedColumn = column(/^added[\s_-]*at$|^date$/i);
+
+  const now = new Date().toISOString();
+  const suppressions: Suppression[] = [];
+  let skipped = 0;
+
+  table.rows.forEach((row) => {
+    const email = emailColumn === -1 ? "" : row[emailColumn];
+    if (!isValidEmail(email)) {
+      skipped += 1;
+      return;
+    }
+    const reason = row[reasonColumn]?.toLowerCase() as SuppressionReason;
+    const addedAt = Date.parse(row[addedColumn] ?? "");
+    suppressions.push({
+      email: normalizeEmail(email),
+      reason: SUPPRESSION_REASONS.includes(reason) ? reason : "manual",
+      note: row[noteColumn] ?? "",
+      addedAt: Number.isNaN(addedAt) ? now : new Date(addedAt).toISOString(),
+    });
+  });
+
+  return { suppressions, skipped };
+}
+
+function loadSyncTimes(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(SYNC_STORAGE_KEY) ?? "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Fetches the bounces and unsubscribes a backend reported since the last
+ * sync from `url` and adds them to the list. Resolves with the number of
+ * reports received; rejects with a user-facing message.
+ */
+export async function syncSuppressions(url: string): Promise<number> {
+  const syncTimes = loadSyncTimes();
+  const startedAt = new Date().toISOString();
+  const requestUrl = new URL(url);
+  if (syncTimes[url]) requestUrl.searchParams.set("since", syncTimes[url]);
+
+  let response: Response;
+  try {
+    response = await fetch(requestUrl, {
+      headers: { Accept: "application/json", ...getAuthHeaders(url) },
+      cache: "no-store",
+    });
+  } catch {
+    throw new Error(getNetworkErrorMessage());
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404 ? t("suppressions.syncNotFound") : (await readHttpError(response)).message
+    );
+  }
+
+  const reports = parseSuppressionsResponse(await response.json().catch(() => null));
+  if (!reports) throw new Error(t("suppressions.syncUnexpected"));
+
+  await addSuppressions(
+    reports.map((report) => ({
+      email: report.email,
+      reason: report.reason,
+      note: report.note ?? "",
+      addedAt: report.reported_at,
+    }))
+  );
+
+  try {
+    localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify({ ...syncTimes, [url]: startedAt }));
+  } catch {
+    // The next sync fetches everything again, which is harmless
+  }
+  return reports.length;
+}
@@ -0,0 +1,192 @@
+/**
+ * Campaign templates for the Holiday Email Orchestrator.
+ *
+ * A template is a named set of form values ("Diwali – clients – formal")
+ * that pre-fills the form for campaigns sent every year. Templates are
+ * saved in localStorage and can be exported to a JSON file and imported
+ * again, so a team can share a common library.
+ */
+
+import { createRecipientGroup, upgradeFormFields } from "./groups";
+import { FormFields } from "./validation";
+
+/**
+ * A saved template.
+ */
+export interface CampaignTemplate {
+  id: string;
+  name: string;
+  /** Form values to pre-fill; the scheduled time is not saved */
+  fields: FormFields;
+  /** Instructions for whoever uses the template, shown when it's applied */
+  instructions: string;
+  /** When the template was saved or last changed (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * Contents of an exported templates file.
+ */
+interface TemplateFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  templates: CampaignTemplate[];
+}
+
+const STORAGE_KEY = "holiday-email-orchestrator.templates";
+
+/** Identifies exported template files. */
+const FILE_FORMAT = "holiday-email-orchestrator.templates";
+const FILE_VERSION = 1;
+
+/** Form fields that must be text in a stored or imported template. */
+const TEXT_FIELDS = ["holidayName", "tone", "audienceType", "language", "senderName", "timezone"] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns a new random template id.
+ */
+function createTemplateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Reads the form fields of a stored or imported template, or returns null
+ * when they're malformed. Templates saved before recipient groups existed
+ * are upgraded, and every group gets a fresh id.
+ */
+function readTemplateFields(input: unknown): FormFields | null {
+  if (!isRecord(input) || !TEXT_FIELDS.every((field) => typeof input[field] === "string")) {
+    return null;
+  }
+
+  const hasGroups =
+    Array.isArray(input.groups) &&
+    input.groups.every(
+      (group) =>
+        isRecord(group) &&
+        ["name", "recipients", "audienceType", "language", "tone"].every((field) => typeof group[field] === "string")
+    );
+  if (!hasGroups && typeof input.recipients !== "string") {
+    return null;
+  }
+
+  const fields = upgradeFormFields(input as unknown as FormFields);
+  return {
+    ...fields,
+    sendAt: "",
+    note: typeof input.note === "string" ? input.note : "",
+    groups: fields.groups.map((group) => ({ ...group, id: createRecipientGroup().id })),
+  };
+}
+
+/**
+ * Reads one template, or returns null when it's malformed.
+ */
+function readTemplate(input: unknown): CampaignTemplate | null {
+  if (!isRecord(input) || typeof input.name !== "string" || !input.name.trim()) {
+    return null;
+  }
+  const fields = readTemplateFields(input.fields);
+  if (!fields) return null;
+
+  return {
+    id: typeof input.id === "string" && input.id ? input.id : createTemplateId(),
+    name: input.name.trim(),
+    fields,
+    instructions: typeof input.instructions === "string" ? input.instructions : "",
+    updatedAt: typeof input.updatedAt === "string" ? input.updatedAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * Reads a list of templates, skipping malformed ones.
+ */
+function readTemplates(entries: unknown[]): CampaignTemplate[] {
+  return entries.map(readTemplate).filter((template): template is CampaignTemplate => template !== null);
+}
+
+/**
+ * Loads the saved templates, skipping any that are malformed.
+ */
+export function loadTemplates(): CampaignTemplate[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? readTemplates(stored) : [];
+  } catch {
+    // Corrupt or inaccessible storage: start without templates
+    return [];
+  }
+}
+
+/**
+ * Saves the templates. Storage failures (e.g. quota, disabled storage)
+ * keep them for the current session only.
+ */
+export function saveTemplates(templates: CampaignTemplate[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // The caller keeps the in-memory copy
+  }
+}
+
+/**
+ * Creates a template from the current form values. The scheduled time is
+ * left out, since it only applies to one campaign.
+ */
+export function createTemplate(name: string, fields: FormFields, instructions: string): CampaignTemplate {
+  return {
+    id: createTemplateId(),
+    name: name.trim(),
+    fields: { ...fields, sendAt: "" },
+    instructions: instructions.trim(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Adds a template, replacing an existing one with the same name
+ * (case-insensitive).
+ */
+export function upsertTemplate(templates: CampaignTemplate[], template: CampaignTemplate): CampaignTemplate[] {
+  const key = template.name.toLowerCase();
+  const existing = templates.find((other) => other.name.toLowerCase() === key);
+  return existing
+    ? templates.map((other) => (other === existing ? { ...template, id: existing.id } : other))
+    : [...templates, template];
+}
+
+/**
+ * Serializes templates for a JSON file.
+ */
+export function exportTemplates(templates: CampaignTemplate[]): string {
+  const file: TemplateFile = { format: FILE_FORMAT, version: FILE_VERSION, templates };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads the templates of an exported file. A bare array of templates is
+ * accepted too. Returns null when the file isn't a templates file or
+ * contains no valid template; malformed entries are skipped.
+ */
+export function parseTemplateFile(text: string): CampaignTemplate[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : isRecord(data) && data.format === FILE_FORMAT && Array.isArray(data.templates)
+      ? data.templates
+      : null;
+  // Imported templates get new ids so they can't clash with local ones
+  const templates = readTemplates(entries ?? []).map((template) => ({ ...template, id: createTemplateId() }));
+  return templates.length > 0 ? templates : null;
+}
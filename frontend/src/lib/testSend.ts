@@ -0,0 +1,95 @@
+/**
+ * Test sends for the Holiday Email Orchestrator.
+ *
+ * Before a campaign goes out, it can be sent to the sender's own test
+ * address to see exactly what recipients receive. The test payload is the
+ * campaign payload addressed to the test address only and marked with
+ * `test: true`, so the backend prefixes subjects with "[TEST]" (see
+ * TEST_SUBJECT_PREFIX in shared/schema.ts). An address can only be in one
+ * group, so a campaign with several groups is tested with one request per
+ * group.
+ */
+
+import { PayloadAttachment, WebhookPayload, postPayload, readHttpError } from "./webhook";
+
+/**
+ * A version number for each card image seen, in the order first seen. The
+ * form keeps the image it was given until another one is picked, so a new
+ * version means the image changed; the image itself is too large to
+ * serialize into a fingerprint on every change.
+ */
+const attachmentVersions = new WeakMap<PayloadAttachment, number>();
+let lastAttachmentVersion = 0;
+
+function getAttachmentVersion(attachment: PayloadAttachment): number {
+  let version = attachmentVersions.get(attachment);
+  if (version === undefined) {
+    version = ++lastAttachmentVersion;
+    attachmentVersions.set(attachment, version);
+  }
+  return version;
+}
+
+/**
+ * Builds the test payloads for a campaign: one per group, each addressed
+ * to `testEmail` only and sent right away. The details of the group's first
+ * recipient (if any) are reused for the test address, so merge fields such
+ * as the first name are filled in as they would be for a real recipient.
+ */
+export function buildTestPayloads(payload: WebhookPayload, testEmail: string): WebhookPayload[] {
+  // Drafts, schedules and the per-recipient data of other recipients don't apply
+  const { recipient_details, recipient_schedule, drafts, send_at, timezone, ...rest } = payload;
+
+  return payload.groups.map((group) => {
+    const first = group.recipients[0]?.toLowerCase();
+    const details = recipient_details?.find((detail) => detail.email.toLowerCase() === first);
+
+    return {
+      ...rest,
+      mode: "send",
+      test: true,
+      groups: [{ ...group, recipients: [testEmail] }],
+      ...(details && { recipient_details: [{ ...details, email: testEmail }] }),
+    };
+  });
+}
+
+/**
+ * Returns a fingerprint of a test of a payload sent to `testEmail`: the
+ * address and what recipients receive (the holiday, sender, groups'
+ * settings, recipient details, personal note and card image).
+ * Recipients and the schedule don't change the emails' content, so a test
+ * stays valid when only those change; a test sent to another address
+ * doesn't count.
+ */
+export function getTestFingerprint(payload: WebhookPayload, testEmail: string): string {
+  const { attachment } = payload;
+  return JSON.stringify([
+    testEmail.toLowerCase(),
+    payload.holiday_name,
+    payload.sender_name,
+    payload.groups.map(({ recipients, ...settings }) => settings),
+    payload.recipient_details ?? [],
+    payload.note ?? "",
+    attachment ? getAttachmentVersion(attachment) : null,
+  ]);
+}
+
+/**
+ * Sends a campaign to `testEmail`, one request per group. Resolves once
+ * every request was accepted; rejects with a user-facing message (or the
+ * fetch error, e.g. a TypeError when the webhook can't be reached).
+ */
+export async function sendTest(
+  webhookUrl: string,
+  payload: WebhookPayload,
+  testEmail: string,
+  signal?: AbortSignal
+): Promise<void> {
+  for (const testPayload of buildTestPayloads(payload, testEmail)) {
+    const response = await postPayload(webhookUrl, testPayload, { signal });
+    if (!response.ok) {
+      throw new Error((await readHttpError(response)).message);
+    }
+  }
+}
@@ -3,6 +3,12 @@
  * Provides email validation, extraction, and form validation helpers.
  */
 
+import { MAX_NOTE_LENGTH } from "../../../shared/schema";
+import { STANDARD_MERGE_FIELDS, parseNote } from "../../../shared/note";
+import { RecipientGroupFields, getGroupLabel } from "./groups";
+import { t } from "./i18n";
+import { isValidTimeZone, zonedTimeToUtc } from "./schedule";
+
 /**
  * Simple email validation using regex.
  * This is a basic check - not RFC 5322 compliant, but sufficient for most use cases.
@@ -24,8 +30,195 @@ export function extractEmails(raw: string): string[] {
     .filter((email) => email.length > 0); // Remove empty strings
 }
 
+/**
+ * Common mailbox providers, used to spot likely typos in the domain part.
+ */
+const COMMON_DOMAINS = [
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "yahoo.co.in",
+  "yahoo.co.uk",
+  "hotmail.com",
+  "hotmail.co.uk",
+  "outlook.com",
+  "live.com",
+  "msn.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "protonmail.com",
+  "proton.me",
+  "gmx.com",
+  "mail.com",
+  "zoho.com",
+  "yandex.com",
+  "rediffmail.com",
+];
+
+/** Provider names shorter than this are only suggested for typos after the name. */
+const MIN_FUZZY_NAME_LENGTH = 5;
+
+/**
+ * Local parts that belong to role or system accounts rather than people.
+ */
+const ROLE_ACCOUNTS = new Set([
+  "noreply",
+  "no-reply",
+  "no_reply",
+  "donotreply",
+  "do-not-reply",
+  "postmaster",
+  "mailer-daemon",
+  "hostmaster",
+  "webmaster",
+  "abuse",
+  "bounce",
+  "bounces",
+  "root",
+]);
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions), so "gmial" is one edit away from "gmail".
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Splits a domain into its first label and the rest, e.g. "gmail" and "com".
+ */
+function splitDomain(domain: string): [string, string] {
+  const dot = domain.indexOf(".");
+  return dot === -1 ? [domain, ""] : [domain.slice(0, dot), domain.slice(dot + 1)];
+}
+
+/**
+ * Suggests a well-known domain when the given one is a near miss
+ * (e.g. "gmial.com" → "gmail.com", "hotmail.con" → "hotmail.com").
+ * Returns undefined for exact matches and for domains that aren't close.
+ *
+ * Short provider names are only matched exactly, with a typo in the rest
+ * ("aol.con"): one edit turns them into real domains of their own
+ * ("aon.com", "acme.com" and "me.com"). Longer ones also match with a
+ * typo in the name, as long as the first letter is right, which keeps
+ * words like "email.com" from passing for "gmail.com".
+ */
+export function suggestDomain(domain: string): string | undefined {
+  const normalized = domain.trim().toLowerCase();
+  if (!normalized || COMMON_DOMAINS.includes(normalized)) {
+    return undefined;
+  }
+  const [name, rest] = splitDomain(normalized);
+
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of COMMON_DOMAINS) {
+    const [candidateName, candidateRest] = splitDomain(candidate);
+    let distance: number;
+    if (name === candidateName) {
+      // One edit only: "yahoo.co.jp" is another country's Yahoo, not a typo
+      distance = editDistance(rest, candidateRest);
+      if (distance > 1) continue;
+    } else if (candidateName.length >= MIN_FUZZY_NAME_LENGTH && name[0] === candidateName[0]) {
+      distance = editDistance(normalized, candidate);
+    } else {
+      continue;
+    }
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  // Allow two edits for longer domains, one for short ones
+  const maxDistance = normalized.length > 6 ? 2 : 1;
+  return bestDistance <= maxDistance ? best : undefined;
+}
+
+/**
+ * Diagnostic result for a single address in the recipients field.
+ */
+export interface RecipientDiagnostic {
+  /** The address as entered (trimmed) */
+  address: string;
+  /** Position of the address in the extracted list */
+  index: number;
+  /** Whether the address passes `isValidEmail` */
+  valid: boolean;
+  /** True when an earlier entry has the same address (case-insensitive) */
+  duplicate: boolean;
+  /** Corrected address when the domain looks like a typo of a common provider */
+  suggestion?: string;
+  /** True for role/system mailboxes such as noreply@ or postmaster@ */
+  roleAccount: boolean;
+}
+
+/**
+ * Analyzes every address in the raw recipients string.
+ * Flags invalid addresses, case-insensitive duplicates, likely domain
+ * typos and role accounts so the UI can show them per address.
+ */
+export function analyzeRecipients(raw: string): RecipientDiagnostic[] {
+  const seen = new Set<string>();
+
+  return extractEmails(raw).map((address, index) => {
+    const key = address.toLowerCase();
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    const at = address.lastIndexOf("@");
+    const localPart = at === -1 ? address : address.slice(0, at);
+    const domain = at === -1 ? "" : address.slice(at + 1);
+    const suggestedDomain = at === -1 ? undefined : suggestDomain(domain);
+
+    return {
+      address,
+      index,
+      valid: isValidEmail(address),
+      duplicate,
+      suggestion: suggestedDomain && `${localPart}@${suggestedDomain}`,
+      roleAccount: ROLE_ACCOUNTS.has(localPart.toLowerCase()),
+    };
+  });
+}
+
+/**
+ * Returns the cleaned recipient list: valid addresses only, with
+ * case-insensitive duplicates removed (first occurrence wins).
+ */
+export function cleanRecipients(raw: string): string[] {
+  return analyzeRecipients(raw)
+    .filter((diagnostic) => diagnostic.valid && !diagnostic.duplicate)
+    .map((diagnostic) => diagnostic.address);
+}
+
+/**
+ * Returns the cleaned recipients of every group, in group order.
+ */
+export function cleanGroupRecipients(groups: RecipientGroupFields[]): string[] {
+  return groups.flatMap((group) => cleanRecipients(group.recipients));
+}
+
 /**
  * Form field values expected by the validation function.
+ * `tone`, `audienceType` and `language` are the campaign defaults that
+ * recipient groups can override.
  */
 export interface FormFields {
   holidayName: string;
@@ -33,7 +226,61 @@ export interface FormFields {
   audienceType: string;
   language: string;
   senderName: string;
-  recipients: string;
+  /** Recipient groups; a campaign has at least one */
+  groups: RecipientGroupFields[];
+  /** Scheduled delivery time as a `datetime-local` value; empty sends immediately */
+  sendAt: string;
+  /** IANA timezone the `sendAt` wall-clock time is expressed in */
+  timezone: string;
+  /** Personal note for every email, with `{{field}}` placeholders (see shared/note.ts) */
+  note: string;
+}
+
+/**
+ * Extra inputs for `validateForm` that aren't plain form fields.
+ */
+export interface ValidationOptions {
+  /** Optional per-recipient IANA timezones, keyed by lowercased email */
+  recipientTimezones?: Record<string, string>;
+  /** Current time, used to reject scheduled times in the past */
+  now?: Date;
+  /** Lowercased addresses on the suppression list, which are left out of the payload */
+  suppressedEmails?: Set<string>;
+  /** Merge fields of the imported contacts besides the standard ones, e.g. "project" */
+  customMergeFields?: string[];
+  /** Email languages the backend supports; unset accepts any */
+  languages?: string[];
+  /** Audience types the backend supports; unset accepts any */
+  audiences?: string[];
+  /** Most recipients the backend accepts, suppressed addresses aside; unset means no limit */
+  maxRecipients?: number | null;
+  /** Whether the backend needs a personal note (e.g. an SMTP relay, which sends it as the email text) */
+  noteRequired?: boolean;
+}
+
+/**
+ * Checks a personal note: its length, and that every placeholder is
+ * well-formed and names a standard merge field or one of
+ * `customMergeFields`. Returns the error message, if any.
+ */
+export function validateNote(note: string, customMergeFields: string[] = []): string | undefined {
+  if (note.length > MAX_NOTE_LENGTH) {
+    return t("validation.noteTooLong", { max: MAX_NOTE_LENGTH });
+  }
+
+  const { fields, malformed } = parseNote(note);
+  if (malformed.length > 0) {
+    return t("validation.noteMalformed", { placeholders: malformed.join(" ") });
+  }
+  const known = new Set([...STANDARD_MERGE_FIELDS, ...customMergeFields]);
+  const unknown = fields.filter((name) => !known.has(name));
+  if (unknown.length > 0) {
+    return t("validation.noteUnknownFields", {
+      count: unknown.length,
+      fields: unknown.map((name) => `{{${name}}}`).join(", "),
+    });
+  }
+  return undefined;
 }
 
 /**
@@ -50,36 +297,135 @@ export interface ValidationResult {
  * Required fields:
  * - holidayName
  * - senderName
- * - recipients (must contain at least one valid email)
+ * - the recipients of every group (at least one email, and every email
+ *   must be valid; duplicates within a group are allowed and removed when
+ *   the payload is built, but an address can't be in two groups)
+ *
+ * Group errors are keyed by "groups.<index>.<field>". When every recipient
+ * is on the suppression list there is nobody left to email, which is
+ * reported on the first group.
+ *
+ * When `sendAt` is set, the timezone must be a valid IANA zone and the time
+ * must be in the future - both in the campaign timezone and in every
+ * per-recipient timezone.
+ *
+ * The note's placeholders must be well-formed and name a standard merge
+ * field or a column of the imported contacts. With `noteRequired` the
+ * note can't be empty.
  */
-export function validateForm(fields: FormFields): ValidationResult {
+export function validateForm(fields: FormFields, options: ValidationOptions = {}): ValidationResult {
   const errors: Record<string, string> = {};
 
   // Holiday name is required
   if (!fields.holidayName.trim()) {
-    errors.holidayName = "Holiday name is required.";
+    errors.holidayName = t("validation.holidayNameRequired");
   }
 
   // Sender name is required
   if (!fields.senderName.trim()) {
-    errors.senderName = "Sender name is required.";
+    errors.senderName = t("validation.senderNameRequired");
+  }
+
+  // Every group needs at least one valid email, and no address may be in
+  // more than one group (it would get two different emails)
+  const groupOf = new Map<string, number>();
+  fields.groups.forEach((group, index) => {
+    const key = `groups.${index}.recipients`;
+    const diagnostics = analyzeRecipients(group.recipients);
+    const invalidCount = diagnostics.filter((diagnostic) => !diagnostic.valid).length;
+
+    if (diagnostics.length === 0) {
+      errors[key] = t("validation.recipientsRequired");
+    } else if (invalidCount === diagnostics.length) {
+      errors[key] = t("validation.noValidRecipients");
+    } else if (invalidCount > 0) {
+      // Block sending until every invalid address is fixed or removed
+      errors[key] = t("validation.invalidRecipients", { count: invalidCount });
+    } else {
+      for (const email of cleanRecipients(group.recipients)) {
+        const other = groupOf.get(email.toLowerCase());
+        if (other !== undefined) {
+          errors[key] = t("validation.recipientInOtherGroup", {
+            email,
+            group: getGroupLabel(fields.groups[other], other),
+          });
+          break;
+        }
+        groupOf.set(email.toLowerCase(), index);
+      }
+    }
+  });
+
+  const suppressed = options.suppressedEmails;
+  if (suppressed?.size && Object.keys(errors).every((key) => !key.startsWith("groups."))) {
+    const recipients = cleanGroupRecipients(fields.groups);
+    if (recipients.every((email) => suppressed.has(email.toLowerCase()))) {
+      errors["groups.0.recipients"] = t("validation.allSuppressed", { count: recipients.length });
+    }
+  }
+
+  // The backend only writes in the languages and for the audiences it supports
+  const { languages, audiences, maxRecipients } = options;
+  if (languages && !languages.includes(fields.language)) {
+    errors.language = t("validation.unsupportedLanguage", { language: fields.language });
+  }
+  if (audiences && !audiences.includes(fields.audienceType)) {
+    errors.audienceType = t("validation.unsupportedAudience", { audience: fields.audienceType });
+  }
+  fields.groups.forEach((group, index) => {
+    if (languages && group.language && !languages.includes(group.language)) {
+      errors[`groups.${index}.language`] = t("validation.unsupportedLanguage", { language: group.language });
+    }
+    if (audiences && group.audienceType && !audiences.includes(group.audienceType)) {
+      errors[`groups.${index}.audienceType`] = t("validation.unsupportedAudience", { audience: group.audienceType });
+    }
+  });
+
+  if (maxRecipients && Object.keys(errors).every((key) => !key.endsWith(".recipients"))) {
+    const count = cleanGroupRecipients(fields.groups).filter((email) => !suppressed?.has(email.toLowerCase())).length;
+    if (count > maxRecipients) {
+      errors["groups.0.recipients"] = t("validation.tooManyRecipients", { count, max: maxRecipients });
+    }
   }
 
-  // Recipients is required and must contain at least one valid email
-  if (!fields.recipients.trim()) {
-    errors.recipients = "At least one recipient email is required.";
-  } else {
-    const emails = extractEmails(fields.recipients);
-    
-    if (emails.length === 0) {
-      errors.recipients = "At least one recipient email is required.";
+  // Scheduled delivery must use a valid timezone and lie in the future
+  if (fields.sendAt.trim()) {
+    const now = options.now ?? new Date();
+
+    if (!isValidTimeZone(fields.timezone)) {
+      errors.timezone = t("validation.invalidTimezone");
     } else {
-      // Check if at least one email looks valid
-      const hasValidEmail = emails.some(isValidEmail);
-      if (!hasValidEmail) {
-        errors.recipients = "Please enter at least one valid email address.";
+      const sendAt = zonedTimeToUtc(fields.sendAt, fields.timezone);
+      if (!sendAt) {
+        errors.sendAt = t("validation.invalidSendAt");
+      } else if (sendAt <= now) {
+        errors.sendAt = t("validation.sendAtPast");
       }
     }
+
+    const recipients = new Set(cleanGroupRecipients(fields.groups).map((email) => email.toLowerCase()));
+    for (const [email, timeZone] of Object.entries(options.recipientTimezones ?? {})) {
+      if (!recipients.has(email) || !timeZone) continue;
+
+      if (!isValidTimeZone(timeZone)) {
+        errors.recipientTimezones = t("validation.invalidRecipientTimezone", { timezone: timeZone, email });
+        break;
+      }
+      const localSendAt = zonedTimeToUtc(fields.sendAt, timeZone);
+      if (localSendAt && localSendAt <= now) {
+        errors.recipientTimezones = t("validation.recipientTimezonePast", { timezone: timeZone, email });
+        break;
+      }
+    }
+  }
+
+  // The note can only use fields the recipients can have, and some
+  // delivery adapters send nothing else
+  const noteError = options.noteRequired && !fields.note.trim()
+    ? t("validation.noteRequired")
+    : validateNote(fields.note, options.customMergeFields);
+  if (noteError) {
+    errors.note = noteError;
   }
 
   return {
@@ -0,0 +1,223 @@
+/**
+ * Webhook client for the Holiday Email Orchestrator.
+ * Posts payloads to the backend through its profile's delivery adapter
+ * (see lib/adapters.ts) and turns failures into user-facing messages.
+ * The contract itself lives in shared/schema.ts.
+ */
+
+import { WebhookPayload, createErrorResponse, parseErrorResponse } from "../../../shared/schema";
+import { AdapterRequest, DeliveryAdapter, getProfileAdapter } from "./adapters";
+import { findProfile, getAuthHeaders } from "./profiles";
+import { t } from "./i18n";
+
+export type {
+  PayloadAttachment,
+  RecipientDetail,
+  RecipientGroup,
+  WebhookMode,
+  WebhookPayload,
+} from "../../../shared/schema";
+
+/**
+ * Returns the error shown when the webhook can't be reached at all, in the
+ * current UI language.
+ */
+export function getNetworkErrorMessage(): string {
+  return t("errors.network");
+}
+
+/**
+ * Options for posting a payload.
+ */
+export interface PostOptions {
+  /**
+   * Unique key for the submission. Retries of the same submission reuse it
+   * so the backend can recognize duplicates and not send emails twice.
+   */
+  idempotencyKey?: string;
+  /** Aborts the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Returns a new random idempotency key.
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  // randomUUID is only available in secure contexts (HTTPS or localhost)
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Returns a JSON response, for answers the adapter rewrote or that never
+ * reached the backend.
+ */
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+/**
+ * Rewrites a 2xx response into the contract's format with the adapter's
+ * readResponse, if it has one.
+ */
+async function readAdapterResponse(
+  adapter: DeliveryAdapter,
+  response: Response,
+  payload: WebhookPayload
+): Promise<Response> {
+  if (!response.ok || !adapter.readResponse) return response;
+
+  const text = await response.text().catch(() => "");
+  let body: unknown = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Plain-text acknowledgements (e.g. Make's "Accepted")
+  }
+  return jsonResponse(response.status, adapter.readResponse(body, payload));
+}
+
+/**
+ * POSTs a payload to the webhook as JSON, in the format of the matching
+ * backend profile's adapter and with its auth header. Responses come back
+ * in the contract's format. Settings the adapter can't build a request
+ * from are reported as a 400 response without contacting the backend.
+ */
+export async function postPayload(
+  webhookUrl: string,
+  payload: WebhookPayload,
+  { idempotencyKey, signal }: PostOptions = {}
+): Promise<Response> {
+  const profile = findProfile(webhookUrl);
+  const adapter = getProfileAdapter(profile ?? { webhookUrl });
+
+  let request: AdapterRequest;
+  try {
+    request = adapter.buildRequest(payload, idempotencyKey, profile ?? {});
+  } catch (error) {
+    return jsonResponse(400, createErrorResponse("invalid_payload", error instanceof Error ? error.message : String(error)));
+  }
+
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...getAuthHeaders(webhookUrl),
+      ...request.headers,
+    },
+    body: JSON.stringify(request.body),
+    signal,
+  });
+  return readAdapterResponse(adapter, response, payload);
+}
+
+/**
+ * A failed webhook response, with field errors keyed by payload field.
+ */
+export interface HttpError {
+  status: number;
+  /** Error code from a structured error body, if any */
+  code?: string;
+  message: string;
+  fieldErrors: Record<string, string>;
+}
+
+/**
+ * Reads a non-2xx webhook response. Structured error bodies (see
+ * ErrorResponse in shared/schema.ts) are used as-is; anything else is
+ * shown as a generic server error with the raw body.
+ */
+export async function readHttpError(response: Response): Promise<HttpError> {
+  let errorBody = "";
+  try {
+    errorBody = await response.text();
+  } catch {
+    // Ignore if we can't read the body
+  }
+
+  let structured: ReturnType<typeof parseErrorResponse> = null;
+  try {
+    structured = parseErrorResponse(JSON.parse(errorBody));
+  } catch {
+    // Not JSON: fall back to the raw body
+  }
+
+  if (structured) {
+    // The proxy rejects missing or expired sessions; point at the sign-in
+    const message = t("errors.structured", { message: structured.message, status: String(response.status) });
+    const hint = structured.code === "unauthorized" ? ` ${t("errors.signInHint")}` : "";
+    return {
+      status: response.status,
+      code: structured.code,
+      message: message + hint,
+      fieldErrors: structured.field_errors ?? {},
+    };
+  }
+  return {
+    status: response.status,
+    message: errorBody
+      ? t("errors.serverWithBody", { status: String(response.status), body: errorBody })
+      : t("errors.server", { status: String(response.status) }),
+    fieldErrors: {},
+  };
+}
+
+/**
+ * Builds a user-facing error message for a non-2xx webhook response.
+ */
+export async function describeHttpError(response: Response): Promise<string> {
+  return (await readHttpError(response)).message;
+}
+
+/**
+ * Form fields that correspond to payload fields, for showing server-side
+ * field errors next to the matching input.
+ */
+const PAYLOAD_FIELD_TO_FORM_FIELD: Record<string, string> = {
+  holiday_name: "holidayName",
+  sender_name: "senderName",
+  groups: "groups.0.recipients",
+  recipient_details: "groups.0.recipients",
+  send_at: "sendAt",
+  timezone: "timezone",
+  recipient_schedule: "recipientTimezones",
+  attachment: "attachment",
+  note: "note",
+};
+
+/**
+ * Group fields of the payload and the matching fields of a form group.
+ */
+const GROUP_FIELD_TO_FORM_FIELD: Record<string, string> = {
+  name: "name",
+  audience_type: "audienceType",
+  language: "language",
+  tone: "tone",
+  recipients: "recipients",
+};
+
+/**
+ * Maps server field errors (e.g. "recipient_schedule.0.timezone" or
+ * "groups.1.recipients") onto form field names. Payload groups are
+ * translated through `groupIndexes`, the form group of each payload group
+ * (see getFormGroupIndexes in lib/groups.ts), since groups left without
+ * recipients aren't sent. Errors for fields the form doesn't have are
+ * dropped; the error message still summarizes them.
+ */
+export function toFormErrors(fieldErrors: Record<string, string>, groupIndexes: number[] = []): Record<string, string> {
+  const formErrors: Record<string, string> = {};
+  Object.entries(fieldErrors).forEach(([path, message]) => {
+    const [key, index, groupField] = path.split(".");
+    const field =
+      key === "groups" && index !== undefined
+        ? `groups.${groupIndexes[Number(index)] ?? index}.${GROUP_FIELD_TO_FORM_FIELD[groupField] ?? "recipients"}`
+        : PAYLOAD_FIELD_TO_FORM_FIELD[key];
+    if (field && !formErrors[field]) {
+      formErrors[field] = message;
+    }
+  });
+  return formErrors;
+}
@@ -0,0 +1,797 @@
+/**
+ * Arabic UI messages (right-to-left). Counted messages use all six Arabic
+ * plural forms: zero, one, two, few (3–10), many (11–99) and other.
+ */
+
+import type { Catalog } from "../lib/i18n";
+
+export const ar: Catalog = {
+  // App shell
+  "app.title": "🎄 منسّق رسائل الأعياد",
+  "app.subtitle": "أرسل رسائل تهنئة بالأعياد مخصّصة ومكتوبة بالذكاء الاصطناعي إلى جهات اتصالك باستخدام {toolhouse} + {n8n}.",
+  "app.uiLanguage": "لغة الواجهة",
+  "app.tab.compose": "✉️ إنشاء",
+  "app.tab.contacts": "📇 جهات الاتصال",
+  "app.tab.history": "🕘 السجل",
+  "app.tab.suppressions": "🚫 قائمة الحظر",
+  "app.tab.settings": "⚙️ الإعدادات",
+  "app.configWarning":
+    "⚠️ لم يتم ضبط WEBHOOK_URL. اضبط متغير البيئة VITE_WEBHOOK_URL أو أنشئ ملف .env.local أو أضف خادمًا في الإعدادات.",
+  "app.devInfo": "معلومات المطوّر",
+  "app.backend": "الخادم:",
+  "app.webhookUrl": "عنوان Webhook:",
+  "app.capabilities": "الإمكانات:",
+  "app.capabilitiesBackend": "من الخادم",
+  "app.capabilitiesCache": "محفوظة بتاريخ {date} (تعذّر الوصول إلى الخادم)",
+  "app.capabilitiesFallback": "مدمجة (لا ينشر الخادم أي إمكانات)",
+  "app.tip":
+    "💡 اضبط {env} في {file} (محليًا) أو في إعدادات Vercel/Render (الإنتاج) للخادم الافتراضي، أو أضف خوادم أخرى في الإعدادات.",
+  "backend.local": "🖥️ محلي",
+  "backend.render": "🚀 Render",
+  "backend.vercel": "▲ Vercel",
+  "backend.ngrok": "🔗 ngrok",
+  "backend.make": "🟣 Make",
+  "backend.zapier": "⚡ Zapier",
+  "backend.other": "🌐 بعيد",
+
+  // Shared
+  "common.cancel": "إلغاء",
+  "common.delete": "حذف",
+  "common.dismiss": "إغلاق",
+  "common.sending": "جارٍ الإرسال…",
+
+  // Form
+  "form.holidayName.label": "اسم المناسبة",
+  "form.holidayName.placeholder": "مثل: عيد الفطر، عيد الميلاد، رأس السنة",
+  "form.tone.label": "الأسلوب",
+  "form.tone.placeholder": "ودود، رسمي، مرح…",
+  "form.audienceType.label": "نوع الجمهور",
+  "form.language.label": "اللغة",
+  "form.languageHint": "تم ضبط اللغة على {language} لمناسبة {holiday}.",
+  "form.senderName.label": "اسم المرسل",
+  "form.senderName.placeholder": "اسمك (يُوقَّع به على الرسائل)",
+  "form.recipients.label": "المستلمون",
+  "form.recipients.placeholder": "أدخل عناوين البريد (مفصولة بفاصلة أو بسطر جديد)",
+  "form.sendAt.label": "وقت الإرسال",
+  "form.timezone.label": "المنطقة الزمنية",
+  "form.timezone.placeholder": "مثل: Asia/Riyadh",
+  "form.perRecipientTimezones": "أرسل في هذا الوقت المحلي حسب المنطقة الزمنية لكل مستلم",
+  "form.sendNowHint": "اترك \"وقت الإرسال\" فارغًا للإرسال فورًا.",
+  "form.preview": "👀 معاينة المسودات",
+  "form.generatingDrafts": "جارٍ إنشاء المسودات…",
+  "form.schedule": "🗓️ جدولة الرسائل",
+  "form.send": "🚀 إنشاء الرسائل وإرسالها",
+  "form.accepted": "تم قبول الطلب! {delivery}",
+  "form.draftsAccepted": {
+    zero: "لم تُقبل مسودات لأي مستلم. {delivery}",
+    one: "تم قبول المسودات المعتمدة لمستلم واحد. {delivery}",
+    two: "تم قبول المسودات المعتمدة لمستلمَين. {delivery}",
+    few: "تم قبول المسودات المعتمدة لـ {count} مستلمين. {delivery}",
+    many: "تم قبول المسودات المعتمدة لـ {count} مستلمًا. {delivery}",
+    other: "تم قبول المسودات المعتمدة لـ {count} مستلم. {delivery}",
+  },
+  "form.queued": "أنت غير متصل. تم حفظ الحملة في صندوق الصادر وستُرسل تلقائيًا عند عودة الاتصال.",
+  "form.cancelled": "تم إلغاء الإرسال. يمكنك إعادة محاولة الحملة من تبويب السجل.",
+  "form.noDraftForRecipient": "لم يُرجع الخادم مسودة لهذا المستلم.",
+  "audience.business": "عمل",
+  "audience.personal": "شخصي",
+  "delivery.immediate": "سيتم إنشاء الرسائل وإرسالها.",
+  "delivery.scheduled": "الإرسال مجدول في {when}.",
+  "delivery.scheduledLocal": {
+    zero: "الإرسال مجدول في {when}.",
+    one: "الإرسال مجدول في {when}؛ وسيصل إلى مستلم واحد في هذا الوقت بتوقيته المحلي.",
+    two: "الإرسال مجدول في {when}؛ وسيصل إلى مستلمَين في هذا الوقت بتوقيت كل منهما المحلي.",
+    few: "الإرسال مجدول في {when}؛ وسيصل إلى {count} مستلمين في هذا الوقت بتوقيت كل منهم المحلي.",
+    many: "الإرسال مجدول في {when}؛ وسيصل إلى {count} مستلمًا في هذا الوقت بتوقيت كل منهم المحلي.",
+    other: "الإرسال مجدول في {when}؛ وسيصل إلى {count} مستلم في هذا الوقت بتوقيت كل منهم المحلي.",
+  },
+
+  // Validation
+  "validation.holidayNameRequired": "اسم المناسبة مطلوب.",
+  "validation.senderNameRequired": "اسم المرسل مطلوب.",
+  "validation.recipientsRequired": "يلزم عنوان بريد مستلم واحد على الأقل.",
+  "validation.noValidRecipients": "يرجى إدخال عنوان بريد صالح واحد على الأقل.",
+  "validation.invalidRecipients": {
+    one: "عنوان واحد غير صالح — صحّحه أو احذفه قبل الإرسال.",
+    two: "عنوانان غير صالحين — صحّحهما أو احذفهما قبل الإرسال.",
+    few: "{count} عناوين غير صالحة — صحّحها أو احذفها قبل الإرسال.",
+    many: "{count} عنوانًا غير صالح — صحّحها أو احذفها قبل الإرسال.",
+    other: "{count} عنوان غير صالح — صحّحها أو احذفها قبل الإرسال.",
+  },
+  "validation.invalidTimezone": "يرجى اختيار منطقة زمنية صالحة (مثل Asia/Riyadh).",
+  "validation.invalidSendAt": "يرجى إدخال تاريخ ووقت صالحين.",
+  "validation.sendAtPast": "الوقت المجدول قد مضى.",
+  "validation.invalidRecipientTimezone": "\"{timezone}\" ليست منطقة زمنية صالحة ({email}).",
+  "validation.recipientTimezonePast": "الوقت المجدول قد مضى في {timezone} ({email}).",
+  "validation.recipientInOtherGroup": "{email} موجود بالفعل في {group}؛ يمكن أن يكون العنوان في مجموعة واحدة فقط.",
+  "validation.allSuppressed": {
+    zero: "لا يوجد مستلمون.",
+    one: "المستلم الوحيد موجود في قائمة الحظر.",
+    two: "كلا المستلمَين موجودان في قائمة الحظر.",
+    few: "جميع المستلمين الـ{count} موجودون في قائمة الحظر.",
+    many: "جميع المستلمين الـ{count} موجودون في قائمة الحظر.",
+    other: "جميع المستلمين الـ{count} موجودون في قائمة الحظر.",
+  },
+  "validation.unsupportedLanguage": "لا يكتب الخادم رسائل باللغة \"{language}\". اختر لغة أخرى.",
+  "validation.unsupportedAudience": "لا يدعم الخادم الجمهور \"{audience}\". اختر جمهورًا آخر.",
+  "validation.tooManyRecipients": {
+    zero: "يقبل الخادم {max} مستلمًا كحد أقصى؛ لا تضم هذه الحملة أي مستلم.",
+    one: "يقبل الخادم {max} مستلمًا كحد أقصى؛ تضم هذه الحملة مستلمًا واحدًا.",
+    two: "يقبل الخادم {max} مستلمًا كحد أقصى؛ تضم هذه الحملة مستلمَين.",
+    few: "يقبل الخادم {max} مستلمًا كحد أقصى؛ تضم هذه الحملة {count} مستلمين.",
+    many: "يقبل الخادم {max} مستلمًا كحد أقصى؛ تضم هذه الحملة {count} مستلمًا.",
+    other: "يقبل الخادم {max} مستلمًا كحد أقصى؛ تضم هذه الحملة {count} مستلم.",
+  },
+  "validation.noteTooLong": "يمكن أن تتكون الملاحظة من {max} حرف كحد أقصى.",
+  "validation.noteMalformed": "أصلح هذه العناصر النائبة في الملاحظة: {placeholders} (استخدم {{field_name}}).",
+  "validation.noteUnknownFields": {
+    one: "تستخدم الملاحظة حقلًا غير معروف: {fields}.",
+    two: "تستخدم الملاحظة حقلين غير معروفين: {fields}.",
+    few: "تستخدم الملاحظة حقولًا غير معروفة: {fields}.",
+    many: "تستخدم الملاحظة حقولًا غير معروفة: {fields}.",
+    other: "تستخدم الملاحظة حقولًا غير معروفة: {fields}.",
+  },
+  "validation.noteRequired": "الملاحظة الشخصية مطلوبة: هذه الخدمة ترسلها نصًا للبريد.",
+
+  // Recipient chips
+  "chips.willBeSent": {
+    zero: "لن يُرسل إلى أي مستلم",
+    one: "سيُرسل إلى مستلم واحد",
+    two: "سيُرسل إلى مستلمَين",
+    few: "سيُرسل إلى {count} مستلمين",
+    many: "سيُرسل إلى {count} مستلمًا",
+    other: "سيُرسل إلى {count} مستلم",
+  },
+  "chips.invalidCount": "{count} غير صالح",
+  "chips.toReview": "{count} للمراجعة",
+  "chips.duplicateCount": {
+    one: "عنوان مكرر",
+    two: "عنوانان مكرران",
+    few: "{count} عناوين مكررة",
+    many: "{count} عنوانًا مكررًا",
+    other: "{count} عنوان مكرر",
+  },
+  "chips.removeDuplicates": "إزالة",
+  "chips.edit": "تعديل عنوان المستلم",
+  "chips.clickToEdit": "انقر للتعديل",
+  "chips.invalid": "غير صالح",
+  "chips.duplicate": "مكرر",
+  "chips.roleAccount": "حساب وظيفي",
+  "chips.roleAccountHint": "الحسابات الوظيفية لا يقرؤها شخص بعينه عادةً",
+  "chips.didYouMean": "هل تقصد {suggestion}؟",
+  "chips.remove": "إزالة {address}",
+
+  // Contact import
+  "import.dropZone": "📇 استيراد جهات الاتصال من ملف CSV أو TSV أو vCard (أو أفلته هنا)",
+  "import.noContacts": "لم يتم العثور على جهات اتصال في {file}.",
+  "import.readError": "تعذّرت قراءة {file}.",
+  "import.rows": {
+    zero: "لا صفوف",
+    one: "صف واحد",
+    two: "صفّان",
+    few: "{count} صفوف",
+    many: "{count} صفًا",
+    other: "{count} صف",
+  },
+  "import.notMapped": "— غير مرتبط —",
+  "import.field.email": "البريد الإلكتروني",
+  "import.field.firstName": "الاسم الأول",
+  "import.field.lastName": "اسم العائلة",
+  "import.field.company": "الشركة",
+  "import.empty": "فارغ",
+  "import.invalidEmail": "بريد غير صالح",
+  "import.showingFirst": "عرض أول {limit} صفًا من أصل {count}.",
+  "import.invalidRows": {
+    one: "⚠️ صف واحد بريده مفقود أو غير صالح وسيتم تخطيه.",
+    two: "⚠️ صفّان بريدهما مفقود أو غير صالح وسيتم تخطيهما.",
+    few: "⚠️ {count} صفوف بريدها مفقود أو غير صالح وسيتم تخطيها.",
+    many: "⚠️ {count} صفًا بريدها مفقود أو غير صالح وسيتم تخطيها.",
+    other: "⚠️ {count} صف بريدها مفقود أو غير صالح وسيتم تخطيها.",
+  },
+  "import.add": {
+    zero: "إضافة جهات الاتصال",
+    one: "إضافة جهة اتصال واحدة",
+    two: "إضافة جهتَي اتصال",
+    few: "إضافة {count} جهات اتصال",
+    many: "إضافة {count} جهة اتصال",
+    other: "إضافة {count} جهة اتصال",
+  },
+  "import.customColumns": "يمكن استخدام الأعمدة الأخرى في الملاحظة: {fields}",
+
+  // Contact book
+  "contacts.intro": "يمكن اختيار جهات الاتصال المحفوظة، مع لغة البريد والجمهور المفضلين لديها، في النموذج واحدة تلو الأخرى أو حسب الوسم. ويمكن دمج جهات الاتصال التي تتشارك العنوان نفسه.",
+  "contacts.loading": "جارٍ تحميل جهات الاتصال…",
+  "contacts.unavailable": "لا يمكن حفظ جهات الاتصال في هذا المتصفح (IndexedDB غير متاح).",
+  "contacts.email": "عنوان البريد الإلكتروني",
+  "contacts.invalidEmail": "أدخل عنوان بريد إلكتروني صالحًا.",
+  "contacts.languageDefault": "اللغة: الافتراضية للحملة",
+  "contacts.audienceDefault": "الجمهور: الافتراضي للحملة",
+  "contacts.tags": "الوسوم",
+  "contacts.tagsPlaceholder": "وسوم مفصولة بفواصل، مثل clients, family",
+  "contacts.add": "إضافة جهة اتصال",
+  "contacts.save": "حفظ",
+  "contacts.edit": "تعديل",
+  "contacts.imported": {
+    one: "أُضيفت جهة اتصال واحدة.",
+    two: "أُضيفت جهتا اتصال.",
+    few: "أُضيفت {count} جهات اتصال.",
+    many: "أُضيفت {count} جهة اتصال.",
+    other: "أُضيفت {count} جهة اتصال.",
+  },
+  "contacts.importUpdated": {
+    one: "حُدّثت جهة اتصال موجودة واحدة.",
+    two: "حُدّثت جهتا اتصال موجودتان.",
+    few: "حُدّثت {count} جهات اتصال موجودة.",
+    many: "حُدّثت {count} جهة اتصال موجودة.",
+    other: "حُدّثت {count} جهة اتصال موجودة.",
+  },
+  "contacts.duplicates": {
+    one: "عنوان واحد يخص أكثر من جهة اتصال.",
+    two: "عنوانان يخصان أكثر من جهة اتصال.",
+    few: "{count} عناوين تخص أكثر من جهة اتصال.",
+    many: "{count} عنوانًا يخص أكثر من جهة اتصال.",
+    other: "{count} عنوان يخص أكثر من جهة اتصال.",
+  },
+  "contacts.merge": {
+    one: "دمج جهة اتصال واحدة",
+    two: "دمج جهتي الاتصال",
+    few: "دمج {count} جهات اتصال",
+    many: "دمج {count} جهة اتصال",
+    other: "دمج {count} جهة اتصال",
+  },
+  "contacts.mergeAll": "دمج الكل",
+  "contacts.search": {
+    one: "ابحث في جهة اتصال واحدة بالاسم أو العنوان أو الشركة أو الوسم…",
+    two: "ابحث في جهتي اتصال بالاسم أو العنوان أو الشركة أو الوسم…",
+    few: "ابحث في {count} جهات اتصال بالاسم أو العنوان أو الشركة أو الوسم…",
+    many: "ابحث في {count} جهة اتصال بالاسم أو العنوان أو الشركة أو الوسم…",
+    other: "ابحث في {count} جهة اتصال بالاسم أو العنوان أو الشركة أو الوسم…",
+  },
+  "contacts.selectAll": {
+    one: "تحديد جهة الاتصال المعروضة",
+    two: "تحديد جهتي الاتصال المعروضتين",
+    few: "تحديد {count} جهات اتصال معروضة",
+    many: "تحديد {count} جهة اتصال معروضة",
+    other: "تحديد {count} جهة اتصال معروضة",
+  },
+  "contacts.selected": {
+    one: "جهة اتصال واحدة محددة",
+    two: "جهتا اتصال محددتان",
+    few: "{count} جهات اتصال محددة",
+    many: "{count} جهة اتصال محددة",
+    other: "{count} جهة اتصال محددة",
+  },
+  "contacts.bulkLanguage": "اللغة: دون تغيير",
+  "contacts.bulkAudience": "الجمهور: دون تغيير",
+  "contacts.bulkAddTags": "إضافة وسوم",
+  "contacts.bulkRemoveTag": "إزالة وسم",
+  "contacts.bulkApply": {
+    one: "تحديث جهة اتصال واحدة",
+    two: "تحديث جهتي اتصال",
+    few: "تحديث {count} جهات اتصال",
+    many: "تحديث {count} جهة اتصال",
+    other: "تحديث {count} جهة اتصال",
+  },
+  "contacts.bulkUpdated": {
+    one: "حُدّثت جهة اتصال واحدة.",
+    two: "حُدّثت جهتا اتصال.",
+    few: "حُدّثت {count} جهات اتصال.",
+    many: "حُدّثت {count} جهة اتصال.",
+    other: "حُدّثت {count} جهة اتصال.",
+  },
+  "contacts.deleteSelected": "حذف المحدد",
+  "contacts.deleted": {
+    one: "حُذفت جهة اتصال واحدة.",
+    two: "حُذفت جهتا اتصال.",
+    few: "حُذفت {count} جهات اتصال.",
+    many: "حُذفت {count} جهة اتصال.",
+    other: "حُذفت {count} جهة اتصال.",
+  },
+  "contacts.empty": "لا توجد جهات اتصال بعد. أضف واحدة أعلاه أو استورد ملفًا.",
+  "contacts.noMatch": "لا توجد جهات اتصال تطابق بحثك.",
+  "contacts.pick": "📇 الاختيار من جهات الاتصال",
+  "contacts.pickTitle": "الاختيار من جهات الاتصال",
+  "contacts.pickEmpty": "دفتر جهات الاتصال فارغ. أضف جهات اتصال في علامة التبويب 📇 جهات الاتصال.",
+  "contacts.pickByTag": "الاختيار حسب الوسم:",
+  "contacts.pickHint": "تُضاف جهات الاتصال إلى المجموعة التي تطابق لغتها وجمهورها؛ وتُضاف مجموعة للتي لا تطابق أيًا منها.",
+  "contacts.alreadyAdded": "مضافة بالفعل",
+  "contacts.pickAdd": {
+    one: "إضافة جهة اتصال واحدة",
+    two: "إضافة جهتي اتصال",
+    few: "إضافة {count} جهات اتصال",
+    many: "إضافة {count} جهة اتصال",
+    other: "إضافة {count} جهة اتصال",
+  },
+
+  // Personal note
+  "note.label": "ملاحظة شخصية",
+  "note.placeholder": "اختيارية. تُضمَّن حرفيًا في كل رسالة، مثل: شكرًا على عام رائع من العمل على {{project}}، {{first_name}}!",
+  "note.insertField": "إدراج حقل:",
+  "note.preview": "معاينة",
+  "note.sample": "المعاينة لـ",
+  "note.emptyValue": "لا توجد قيمة لهذا المستلم؛ ستُترك فارغة.",
+  "note.noRecipients": "أضف مستلمين لمعاينة الملاحظة بتفاصيلهم.",
+  "note.missing": {
+    one: "ليس لدى مستلم واحد قيمة لـ {field}؛ ستُترك فارغة.",
+    two: "ليس لدى مستلمَين قيمة لـ {field}؛ ستُترك فارغة.",
+    few: "ليس لدى {count} مستلمين قيمة لـ {field}؛ ستُترك فارغة.",
+    many: "ليس لدى {count} مستلمًا قيمة لـ {field}؛ ستُترك فارغة.",
+    other: "ليس لدى {count} مستلم قيمة لـ {field}؛ ستُترك فارغة.",
+  },
+
+  // Holiday calendar
+  "holidays.upcoming": {
+    one: "📅 القادمة خلال يوم واحد",
+    two: "📅 القادمة خلال يومين",
+    few: "📅 القادمة خلال {count} أيام",
+    many: "📅 القادمة خلال {count} يومًا",
+    other: "📅 القادمة خلال {count} يوم",
+  },
+  "holidays.filterRegion": "تصفية المناسبات القادمة حسب المنطقة",
+  "holidays.allRegions": "كل المناطق",
+  "holidays.none": "لا توجد مناسبات في هذه الفترة.",
+  "region.global": "حول العالم",
+  "region.MENA": "الشرق الأوسط وشمال أفريقيا",
+  "tradition.christian": "مسيحية",
+  "tradition.hindu": "هندوسية",
+  "tradition.islamic": "إسلامية",
+  "tradition.jewish": "يهودية",
+  "tradition.chinese": "صينية",
+  "tradition.secular": "مدنية / وطنية",
+
+  // Scheduling
+  "recipientTimezones.empty": "أضف مستلمين لضبط مناطقهم الزمنية.",
+  "recipientTimezones.label": "المنطقة الزمنية لـ {email}",
+  "groups.defaultName": "المجموعة {number}",
+  "groups.name.label": "اسم المجموعة",
+  "groups.name.placeholder": "مثل العملاء، العائلة",
+  "groups.remove": "إزالة المجموعة",
+  "groups.add": "+ إضافة مجموعة مستلمين",
+  "groups.addHint": "يمكن لكل مجموعة استخدام جمهورها ولغتها ونبرتها الخاصة.",
+  "groups.defaultsHint": "الإعدادات المتروكة على افتراضي الحملة تستخدم الجمهور واللغة والنبرة أعلاه.",
+  "groups.campaignDefault": "افتراضي الحملة ({value})",
+  "templates.label": "قالب الحملة",
+  "templates.choose": "ابدأ من قالب…",
+  "templates.none": "لا توجد قوالب محفوظة بعد",
+  "templates.save": "حفظ كقالب",
+  "templates.manage": "إدارة القوالب",
+  "templates.name": "اسم القالب",
+  "templates.instructions": "التعليمات",
+  "templates.instructionsPlaceholder": "تعليمات اختيارية لمن يستخدم هذا القالب",
+  "templates.saveConfirm": "حفظ القالب",
+  "templates.saved": "تم حفظ القالب \"{name}\".",
+  "templates.updated": "تم تحديث القالب \"{name}\".",
+  "templates.untitled": "قالب بلا اسم",
+  "templates.empty": "احفظ النموذج كقالب أو استورد ملف قوالب.",
+  "templates.export": "تصدير إلى JSON",
+  "templates.import": "استيراد من JSON",
+  "templates.imported": {
+    zero: "لم يُستورد أي قالب.",
+    one: "تم استيراد قالب واحد.",
+    two: "تم استيراد قالبين.",
+    few: "تم استيراد {count} قوالب.",
+    many: "تم استيراد {count} قالبًا.",
+    other: "تم استيراد {count} قالب.",
+  },
+  "templates.invalidFile": "{file} ليس ملف قوالب.",
+  "image.label": "بطاقة المناسبة",
+  "image.dropZone": "🖼️ أفلت صورة JPEG أو PNG أو WebP هنا أو انقر لاختيار صورة (اختياري)",
+  "image.processing": "جارٍ تغيير حجم الصورة…",
+  "image.previewAlt": "معاينة بطاقة المناسبة",
+  "image.details": "{width} × {height} بكسل · {size}",
+  "image.remove": "إزالة",
+  "image.unsupportedType": "{file} ليست صورة JPEG أو PNG أو WebP.",
+  "image.tooLarge": "{file} كبيرة جدًا؛ اختر صورة أصغر من {size}.",
+  "image.unreadable": "تعذّرت قراءة {file} كصورة.",
+  "image.cannotCompress": "تعذّر ضغط {file} إلى أقل من {size}؛ جرّب صورة أبسط.",
+
+  // Suppression list
+  "suppressions.intro": "لا تُرسَل أي رسالة إلى العناوين الموجودة في هذه القائمة: تُستبعد من كل حملة ومعاينة. تُضاف العناوين المرتدة تلقائيًا عند انتهاء مهمة متابَعة.",
+  "suppressions.loading": "جارٍ تحميل قائمة الحظر…",
+  "suppressions.unavailable": "لا يمكن حفظ قائمة الحظر في هذا المتصفح (IndexedDB غير متاح).",
+  "suppressions.email": "عنوان البريد الإلكتروني",
+  "suppressions.reason": "السبب",
+  "suppressions.reason.unsubscribed": "ألغى الاشتراك",
+  "suppressions.reason.bounced": "مرتد",
+  "suppressions.reason.complained": "عُلّم كرسالة مزعجة",
+  "suppressions.reason.manual": "أُضيف يدويًا",
+  "suppressions.note": "ملاحظة",
+  "suppressions.notePlaceholder": "ملاحظة (اختيارية)، مثل: طلب ذلك هاتفيًا",
+  "suppressions.add": "إضافة",
+  "suppressions.invalidEmail": "أدخل عنوان بريد إلكتروني صالحًا.",
+  "suppressions.remove": "إزالة",
+  "suppressions.search": {
+    zero: "بحث…",
+    one: "ابحث في عنوان واحد…",
+    two: "ابحث في عنوانين…",
+    few: "ابحث في {count} عناوين…",
+    many: "ابحث في {count} عنوانًا…",
+    other: "ابحث في {count} عنوان…",
+  },
+  "suppressions.empty": "لا توجد عناوين محظورة بعد.",
+  "suppressions.noMatch": "لا توجد عناوين تطابق بحثك.",
+  "suppressions.import": "استيراد CSV",
+  "suppressions.export": "تصدير CSV",
+  "suppressions.imported": {
+    zero: "لم يُضف أي عنوان.",
+    one: "تمت إضافة عنوان واحد.",
+    two: "تمت إضافة عنوانين.",
+    few: "تمت إضافة {count} عناوين.",
+    many: "تمت إضافة {count} عنوانًا.",
+    other: "تمت إضافة {count} عنوان.",
+  },
+  "suppressions.importSkipped": {
+    zero: "لم يُتخطَّ أي صف.",
+    one: "تم تخطي صف واحد بلا عنوان صالح.",
+    two: "تم تخطي صفين بلا عنوان صالح.",
+    few: "تم تخطي {count} صفوف بلا عنوان صالح.",
+    many: "تم تخطي {count} صفًا بلا عنوان صالح.",
+    other: "تم تخطي {count} صف بلا عنوان صالح.",
+  },
+  "suppressions.sync": "مزامنة الارتدادات وإلغاءات الاشتراك من {name}",
+  "suppressions.syncing": "جارٍ المزامنة…",
+  "suppressions.synced": {
+    zero: "لم تصل أي تقارير من {name}.",
+    one: "وصل تقرير واحد من {name}.",
+    two: "وصل تقريران من {name}.",
+    few: "وصلت {count} تقارير من {name}.",
+    many: "وصل {count} تقريرًا من {name}.",
+    other: "وصل {count} تقرير من {name}.",
+  },
+  "suppressions.syncNoUrl": "لا يوجد رابط صالح لقائمة الحظر لهذه الواجهة الخلفية؛ اضبطه في الإعدادات.",
+  "suppressions.syncNotFound": "لا تُبلغ هذه الواجهة الخلفية عن الارتدادات أو إلغاءات الاشتراك (HTTP 404).",
+  "suppressions.syncUnexpected": "رد الواجهة الخلفية ليس قائمة حظر.",
+  "suppressions.willSkip": {
+    zero: "لا يوجد مستلمون في قائمة الحظر:",
+    one: "مستلم واحد في قائمة الحظر وسيتم تخطيه:",
+    two: "مستلمان في قائمة الحظر وسيتم تخطيهما:",
+    few: "{count} مستلمين في قائمة الحظر وسيتم تخطيهم:",
+    many: "{count} مستلمًا في قائمة الحظر وسيتم تخطيهم:",
+    other: "{count} مستلم في قائمة الحظر وسيتم تخطيهم:",
+  },
+  "suppressions.skipped": {
+    zero: "لم يُتخطَّ أي مستلم محظور.",
+    one: "تم تخطي مستلم محظور واحد.",
+    two: "تم تخطي مستلمَين محظورَين.",
+    few: "تم تخطي {count} مستلمين محظورين.",
+    many: "تم تخطي {count} مستلمًا محظورًا.",
+    other: "تم تخطي {count} مستلم محظور.",
+  },
+
+  // Draft review
+  "drafts.title": "مراجعة المسودات",
+  "drafts.sample": "عيّنة من {sample} من أصل {count} مستلمًا",
+  "drafts.count": {
+    zero: "لا مسودات",
+    one: "مسودة واحدة",
+    two: "مسودتان",
+    few: "{count} مسودات",
+    many: "{count} مسودة",
+    other: "{count} مسودة",
+  },
+  "drafts.to": "إلى: {recipient}",
+  "drafts.edited": "معدّلة",
+  "drafts.regenerate": "🔄 إعادة الإنشاء",
+  "drafts.regenerating": "جارٍ إعادة الإنشاء…",
+  "drafts.approve": "اعتماد",
+  "drafts.subjectFor": "الموضوع لـ {recipient}",
+  "drafts.bodyFor": "النص لـ {recipient}",
+  "drafts.summaryApproved": {
+    zero: "لا توجد مسودات معتمدة للإرسال.",
+    one: "ستُرسل مسودة معتمدة واحدة كما هي معروضة.",
+    two: "ستُرسل مسودتان معتمدتان كما هما معروضتان.",
+    few: "ستُرسل {count} مسودات معتمدة كما هي معروضة.",
+    many: "ستُرسل {count} مسودة معتمدة كما هي معروضة.",
+    other: "ستُرسل {count} مسودة معتمدة كما هي معروضة.",
+  },
+  "drafts.summaryExcluded": {
+    one: "سيتم تخطي مستلم واحد مستبعد.",
+    two: "سيتم تخطي مستلمَين مستبعدَين.",
+    few: "سيتم تخطي {count} مستلمين مستبعدين.",
+    many: "سيتم تخطي {count} مستلمًا مستبعدًا.",
+    other: "سيتم تخطي {count} مستلم مستبعد.",
+  },
+  "drafts.summaryRemaining": {
+    one: "المستلم المتبقي سيصله بريد يُنشأ من جديد.",
+    two: "المستلمان المتبقيان سيصلهما بريد يُنشأ من جديد.",
+    few: "المستلمون الـ {count} المتبقون ستصلهم رسائل تُنشأ من جديد.",
+    many: "المستلمون الـ {count} المتبقون ستصلهم رسائل تُنشأ من جديد.",
+    other: "المستلمون الـ {count} المتبقون ستصلهم رسائل تُنشأ من جديد.",
+  },
+  "drafts.back": "→ العودة إلى التحرير",
+  "drafts.send": "✉️ إرسال المعتمدة ({count})",
+  "drafts.errorNone": "لم يُرجع الخادم أي مسودات. هل يدعم سير العمل وضع المعاينة؟",
+  "drafts.errorIncomplete": "المسودة {index} ينقصها المستلم أو النص.",
+
+  // Job progress
+  "job.title": "تقدّم الإرسال",
+  "job.close": "إغلاق",
+  "job.stopWatching": "إيقاف المتابعة",
+  "job.failed": "فشلت المهمة.",
+  "job.finishedWithProblems": "اكتملت: أُرسلت {sent}، ولم تُسلَّم {problems}.",
+  "job.allSent": {
+    one: "أُرسلت رسالة واحدة.",
+    two: "أُرسلت الرسالتان.",
+    few: "أُرسلت الرسائل الـ {count} كلها.",
+    many: "أُرسلت الرسائل الـ {count} كلها.",
+    other: "أُرسلت الرسائل الـ {count} كلها.",
+  },
+  "job.trackingStopped": "توقفت متابعة المهمة {jobId}: {error} قد تُسلَّم الرسائل مع ذلك.",
+  "job.finished": "اكتملت",
+  "job.queued": "في الانتظار…",
+  "job.working": "قيد التنفيذ…",
+  "job.status.pending": "قيد الانتظار",
+  "job.status.generated": "تم الإنشاء",
+  "job.status.sent": "أُرسلت",
+  "job.status.bounced": "مرتدّة",
+  "job.status.failed": "فشلت",
+  "job.errorUnrecognized": "أرجع الخادم حالة مهمة غير معروفة.",
+  "job.errorStreamLost": "انقطع الاتصال ببث حالة المهمة.",
+  "job.errorUnreachable": "تعذّر الوصول إلى عنوان حالة المهمة.",
+  "job.errorUnsupported": "لا يستطيع هذا المتصفح متابعة تقدّم المهمة.",
+
+  // Send results
+  "results.title": "نتائج الإرسال",
+  "results.close": "إغلاق",
+  "results.filter": "عرض",
+  "results.filterAll": "الكل",
+  "results.filterProblems": "فاشلة أو مرتدّة",
+  "results.search": "البحث في النتائج",
+  "results.email": "المستلم",
+  "results.status": "الحالة",
+  "results.subject": "الموضوع",
+  "results.error": "الخطأ",
+  "results.noMatch": "لا توجد نتائج مطابقة.",
+  "results.copyFailed": {
+    one: "نسخ العنوان الفاشل إلى النموذج",
+    two: "نسخ العنوانين الفاشلين إلى النموذج",
+    few: "نسخ {count} عناوين فاشلة إلى النموذج",
+    many: "نسخ {count} عنوانًا فاشلًا إلى النموذج",
+    other: "نسخ {count} عنوان فاشل إلى النموذج",
+  },
+  "results.copied": {
+    one: "عاد العنوان الفاشل إلى النموذج بإعدادات الحملة. صحّحه أو أرسل مجددًا.",
+    two: "عاد العنوانان الفاشلان إلى النموذج بإعدادات الحملة. صحّحهما أو أرسل مجددًا.",
+    few: "عادت {count} عناوين فاشلة إلى النموذج بإعدادات الحملة. صحّحها أو أرسل مجددًا.",
+    many: "عاد {count} عنوانًا فاشلًا إلى النموذج بإعدادات الحملة. صحّحها أو أرسل مجددًا.",
+    other: "عاد {count} عنوان فاشل إلى النموذج بإعدادات الحملة. صحّحها أو أرسل مجددًا.",
+  },
+  "results.exportCsv": "تصدير CSV",
+  "results.exportJson": "تصدير JSON",
+
+  // Test sends
+  "test.send": "✉️ إرسال تجربة",
+  "test.sending": "جارٍ إرسال التجربة…",
+  "test.sendTo": "إرسال هذه الحملة إلى {email} فقط، مع [TEST] في الموضوع",
+  "test.sent": {
+    one: "أُرسلت رسالة تجريبية إلى {email}. تحقق من شكلها قبل إرسال الحملة.",
+    two: "أُرسلت رسالتان تجريبيتان (واحدة لكل مجموعة) إلى {email}. تحقق من شكلهما قبل إرسال الحملة.",
+    few: "أُرسلت {count} رسائل تجريبية (واحدة لكل مجموعة) إلى {email}. تحقق من شكلها قبل إرسال الحملة.",
+    many: "أُرسلت {count} رسالة تجريبية (واحدة لكل مجموعة) إلى {email}. تحقق من شكلها قبل إرسال الحملة.",
+    other: "أُرسلت {count} رسالة تجريبية (واحدة لكل مجموعة) إلى {email}. تحقق من شكلها قبل إرسال الحملة.",
+  },
+  "test.upToDate": "✓ أُرسلت تجربة لهذه القيم إلى {email}.",
+  "test.required": "أرسل تجربة إلى {email} أولًا: يمكن إرسال الحملة بعد إرسال تجربة للقيم الحالية.",
+  "test.requiredDrafts": "أرسل اختبارًا إلى {email} أولًا: عُد إلى النموذج وأرسل اختبارًا ثم عاين مجددًا.",
+  "test.noAddress": "عيّن عنوانًا تجريبيًا لهذه الواجهة الخلفية في ⚙️ الإعدادات لترسل لنفسك تجربة أولًا.",
+
+  // Batched sending
+  "batches.title": {
+    one: "الإرسال على دفعة واحدة",
+    two: "الإرسال على دفعتين",
+    few: "الإرسال على {count} دفعات",
+    many: "الإرسال على {count} دفعة",
+    other: "الإرسال على {count} دفعة",
+  },
+  "batches.status.pending": "في الانتظار",
+  "batches.status.sending": "جارٍ الإرسال…",
+  "batches.status.sent": "أُرسلت",
+  "batches.status.queued": "في قائمة الانتظار دون اتصال",
+  "batches.status.failed": "فشلت",
+  "batches.batch": {
+    one: "الدفعة {number} · مستلم واحد",
+    two: "الدفعة {number} · مستلمان",
+    few: "الدفعة {number} · {count} مستلمين",
+    many: "الدفعة {number} · {count} مستلمًا",
+    other: "الدفعة {number} · {count} مستلم",
+  },
+  "batches.job": "المهمة {jobId}",
+  "batches.paused": "متوقف مؤقتًا — تنتظر الدفعة التالية حتى تستأنف",
+  "batches.nextIn": "الدفعة التالية خلال {seconds} ث",
+  "batches.pause": "⏸ إيقاف مؤقت",
+  "batches.resume": "▶ استئناف",
+  "batches.stop": "إيقاف",
+  "batches.allSent": {
+    one: "تم إرسال الدفعة.",
+    two: "تم إرسال الدفعتين.",
+    few: "تم إرسال جميع الدفعات الـ{count}.",
+    many: "تم إرسال جميع الدفعات الـ{count}.",
+    other: "تم إرسال جميع الدفعات الـ{count}.",
+  },
+  "batches.leftover": {
+    one: "لم تُرسل دفعة واحدة: الدفعة {batches}. أعد إرسالها أدناه.",
+    two: "لم تُرسل دفعتان: الدفعتان {batches}. أعد إرسالهما أدناه.",
+    few: "لم تُرسل {count} دفعات: الدفعات {batches}. أعد إرسالها أدناه.",
+    many: "لم تُرسل {count} دفعة: الدفعات {batches}. أعد إرسالها أدناه.",
+    other: "لم تُرسل {count} دفعة: الدفعات {batches}. أعد إرسالها أدناه.",
+  },
+  "batches.stoppedLeftover": {
+    one: "تم الإيقاف. لم تُرسل دفعة واحدة: الدفعة {batches}.",
+    two: "تم الإيقاف. لم تُرسل دفعتان: الدفعتان {batches}.",
+    few: "تم الإيقاف. لم تُرسل {count} دفعات: الدفعات {batches}.",
+    many: "تم الإيقاف. لم تُرسل {count} دفعة: الدفعات {batches}.",
+    other: "تم الإيقاف. لم تُرسل {count} دفعة: الدفعات {batches}.",
+  },
+  "batches.retry": {
+    one: "🔁 إرسال الدفعة المتبقية",
+    two: "🔁 إرسال الدفعتين المتبقيتين",
+    few: "🔁 إرسال الدفعات الـ{count} المتبقية",
+    many: "🔁 إرسال الدفعات الـ{count} المتبقية",
+    other: "🔁 إرسال الدفعات الـ{count} المتبقية",
+  },
+  "batches.hint": {
+    one: "تُرسل في طلب واحد.",
+    two: "ستُرسل هذه الحملة على دفعتين تضم كل منهما {size} مستلمًا كحد أقصى، بفاصل {seconds} ث.",
+    few: "ستُرسل هذه الحملة على {count} دفعات تضم كل منها {size} مستلمًا كحد أقصى، بفاصل {seconds} ث.",
+    many: "ستُرسل هذه الحملة على {count} دفعة تضم كل منها {size} مستلمًا كحد أقصى، بفاصل {seconds} ث.",
+    other: "ستُرسل هذه الحملة على {count} دفعة تضم كل منها {size} مستلمًا كحد أقصى، بفاصل {seconds} ث.",
+  },
+  "quota.warning": {
+    one: "⚠️ الإرسال إلى مستلم إضافي سيتجاوز الحصة اليومية لهذه الواجهة الخلفية البالغة {quota} (أُرسل {sent} اليوم).",
+    two: "⚠️ الإرسال إلى مستلمَين سيتجاوز الحصة اليومية البالغة {quota} بمقدار {excess} (أُرسل {sent} اليوم).",
+    few: "⚠️ الإرسال إلى {count} مستلمين سيتجاوز الحصة اليومية البالغة {quota} بمقدار {excess} (أُرسل {sent} اليوم).",
+    many: "⚠️ الإرسال إلى {count} مستلمًا سيتجاوز الحصة اليومية البالغة {quota} بمقدار {excess} (أُرسل {sent} اليوم). فكّر في إرسال جزء من القائمة غدًا.",
+    other: "⚠️ الإرسال إلى {count} مستلم سيتجاوز الحصة اليومية البالغة {quota} بمقدار {excess} (أُرسل {sent} اليوم). فكّر في إرسال جزء من القائمة غدًا.",
+  },
+
+  // Retries and outbox
+  "retry.notice": "⏳ {reason}. {when} (المحاولة {attempt} من {max})…",
+  "retry.in": "إعادة المحاولة خلال {seconds} ث",
+  "retry.now": "جارٍ إعادة المحاولة الآن",
+  "retry.networkError": "خطأ في الشبكة",
+  "outbox.offline": "📴 أنت غير متصل.",
+  "outbox.waiting": {
+    one: "📤 حملة واحدة تنتظر في صندوق الصادر.",
+    two: "📤 حملتان تنتظران في صندوق الصادر.",
+    few: "📤 {count} حملات تنتظر في صندوق الصادر.",
+    many: "📤 {count} حملة تنتظر في صندوق الصادر.",
+    other: "📤 {count} حملة تنتظر في صندوق الصادر.",
+  },
+  "outbox.waitingOffline": {
+    one: "حملة واحدة تنتظر في صندوق الصادر — ستُرسل تلقائيًا عند عودة الاتصال.",
+    two: "حملتان تنتظران في صندوق الصادر — ستُرسلان تلقائيًا عند عودة الاتصال.",
+    few: "{count} حملات تنتظر في صندوق الصادر — ستُرسل تلقائيًا عند عودة الاتصال.",
+    many: "{count} حملة تنتظر في صندوق الصادر — ستُرسل تلقائيًا عند عودة الاتصال.",
+    other: "{count} حملة تنتظر في صندوق الصادر — ستُرسل تلقائيًا عند عودة الاتصال.",
+  },
+  "outbox.willWait": "الحملات التي ترسلها الآن ستنتظر في صندوق الصادر حتى عودة الاتصال.",
+  "outbox.sendNow": "أرسل الآن",
+
+  // History
+  "history.loading": "جارٍ تحميل السجل…",
+  "history.unavailable": "سجل الحملات غير متاح في هذا المتصفح (IndexedDB معطّل).",
+  "history.filterHoliday": "تصفية حسب المناسبة",
+  "history.filterStatus": "تصفية حسب الحالة",
+  "history.allHolidays": "كل المناسبات",
+  "history.allStatuses": "كل الحالات",
+  "history.status.success": "نجحت",
+  "history.status.failed": "فشلت",
+  "history.status.pending": "قيد الانتظار",
+  "history.status.queued": "في الصادر (غير متصل)",
+  "history.empty": "لم تُرسل أي حملات بعد.",
+  "history.noMatch": "لا توجد حملات تطابق هذه التصفية.",
+  "history.recipients": {
+    zero: "لا مستلمين",
+    one: "مستلم واحد",
+    two: "مستلمان",
+    few: "{count} مستلمين",
+    many: "{count} مستلمًا",
+    other: "{count} مستلم",
+  },
+  "history.attempts": {
+    one: "محاولة واحدة",
+    two: "محاولتان",
+    few: "{count} محاولات",
+    many: "{count} محاولة",
+    other: "{count} محاولة",
+  },
+  "history.batch": "الدفعة {number} من {count}",
+  "history.mode.send": "أُرسلت مباشرة",
+  "history.mode.send_drafts": "أُرسلت المسودات المعتمدة",
+  "history.backend": "الخادم:",
+  "history.duplicate": "📋 نسخ إلى النموذج",
+  "history.retry": "🔁 إعادة المحاولة",
+  "history.retrying": "جارٍ إعادة المحاولة…",
+
+  // Errors from the webhook
+  "errors.network": "تعذّر الوصول إلى خادم الأتمتة. هل n8n قيد التشغيل؟",
+  "errors.server": "خطأ في الخادم (HTTP {status})",
+  "errors.serverWithBody": "خطأ في الخادم (HTTP {status}): {body}",
+  "errors.structured": "{message} (HTTP {status})",
+  "errors.signInHint": "سجّل الدخول من ⚙️ الإعدادات.",
+
+  // Delivery adapters
+  "adapters.n8n": "سير عمل n8n",
+  "adapters.n8nDescription": "يرسل الحملة كما هي؛ ويكتب سير العمل الرسائل ويرسلها. يدعم كل الميزات.",
+  "adapters.catchHook": "خطاف Make / Zapier",
+  "adapters.catchHookDescription": "يرسل كائن JSON مسطحًا مع قائمة المستلمين، يسهل ربطه في سيناريو أو Zap. لا يمكن معاينة المسودات.",
+  "adapters.generic": "HTTP عام (قالب JSON)",
+  "adapters.genericDescription": "يملأ قالب JSON الخاص بك بحقول الحملة ويرسله. لا يمكن معاينة المسودات.",
+  "adapters.smtpRelay": "مرحّل SMTP محلي",
+  "adapters.smtpRelayDescription": "يرسل رسالة جاهزة لكل مستلم، نصها الملاحظة الشخصية. لا معاينة ولا جدولة.",
+  "adapters.templateInvalid": "قالب المحتوى ليس JSON صالحًا: {error}",
+  "adapters.templateUnknownFields": "قالب المحتوى يستخدم حقولًا غير معروفة: {fields}",
+  "adapters.relayRejected": "رفضه مرحّل SMTP.",
+
+  // Backend settings
+  "settings.intro":
+    "احفظ الخوادم التي تعمل معها وبدّل بينها دون إعادة البناء. تُرسل الطلبات الجديدة إلى الخادم النشط.",
+  "settings.use": "استخدام {name}",
+  "settings.profileName": "اسم الملف",
+  "settings.newProfile": "خادم {count}",
+  "settings.webhookUrl": "عنوان Webhook",
+  "settings.healthUrl": "عنوان فحص الحالة",
+  "settings.healthUrlDefault": "افتراضيًا /healthz على مضيف Webhook",
+  "settings.suppressionsUrl": "رابط قائمة الحظر",
+  "settings.capabilitiesUrl": "رابط الإمكانات",
+  "settings.adapter": "محوّل التسليم",
+  "settings.bodyTemplate": "قالب المحتوى",
+  "settings.bodyTemplateHint": "JSON يُرسل مع كل إرسال. الحقول المتاحة: {fields}",
+  "settings.relaySubject": "موضوع الرسالة",
+  "settings.relaySubjectHint": "يمكن استخدام {{holiday_name}} و{{sender_name}}.",
+  "settings.testEmail": "العنوان التجريبي",
+  "settings.testEmailHint": "تُرسل التجارب إلى هنا، وعادةً ما يكون عنوانك الخاص. عند تعيينه، لا يمكن إرسال الحملات إلا بعد تجربة.",
+  "settings.testEmailInvalid": "أدخل عنوان بريد إلكتروني صالحًا.",
+  "settings.sendingLimits": "حدود الإرسال",
+  "settings.batchSize": "حجم الدفعة",
+  "settings.batchDelay": "ثوانٍ بين الدفعات",
+  "settings.dailyQuota": "الحصة اليومية",
+  "settings.dailyQuotaNone": "بلا حد",
+  "settings.sentToday": {
+    one: "أُرسل إلى مستلم واحد عبر هذه الواجهة الخلفية اليوم.",
+    two: "أُرسل إلى مستلمَين عبر هذه الواجهة الخلفية اليوم.",
+    few: "أُرسل إلى {count} مستلمين عبر هذه الواجهة الخلفية اليوم.",
+    many: "أُرسل إلى {count} مستلمًا عبر هذه الواجهة الخلفية اليوم.",
+    other: "أُرسل إلى {count} مستلم عبر هذه الواجهة الخلفية اليوم.",
+  },
+  "settings.optional": "(اختياري)",
+  "settings.authHeader": "ترويسة المصادقة",
+  "settings.authHeaderName": "اسم ترويسة المصادقة",
+  "settings.authHeaderValue": "قيمة ترويسة المصادقة",
+  "settings.authHeaderStorage": "تُحفظ في localStorage لهذا المتصفح وتُرسل مع كل طلب إلى هذا الخادم.",
+  "settings.urlRequired": "العنوان مطلوب",
+  "settings.urlProtocol": "استخدم عنوان http(s)",
+  "settings.urlInvalid": "أدخل عنوانًا كاملًا، مثل https://example.com/webhook/holiday",
+  "settings.test": "🩺 اختبار الاتصال",
+  "settings.add": "+ إضافة خادم",
+
+  // Health
+  "health.title": "الحالة:",
+  "health.checkNow": "افحص الآن",
+  "health.active": "(نشط)",
+  "health.checking": "جارٍ الفحص…",
+  "health.latency": "{ms} م.ث",
+  "health.coldStart": "تشغيل بارد",
+  "health.opaque": "يمكن الوصول إليه (لا CORS على عنوان الفحص)",
+  "health.waking": "قيد الاستيقاظ (HTTP {status})",
+  "health.httpError": "HTTP {status}",
+  "health.timeout": "لا استجابة خلال {seconds} ث",
+  "health.unreachable": "لا يمكن الوصول إليه",
+  "health.noUrl": "لا يوجد عنوان فحص",
+
+  // Proxy sign-in
+  "signIn.title": "تسجيل الدخول إلى الوكيل",
+  "signIn.onlyProxy": "(فقط للخوادم التي خلف الوكيل)",
+  "signIn.signedIn": "🔐 مسجّل الدخول إلى الوكيل باسم {username} حتى {expires}.",
+  "signIn.signOut": "تسجيل الخروج",
+  "signIn.expired": "انتهت جلستك. سجّل الدخول مجددًا لمتابعة الإرسال.",
+  "signIn.username": "اسم المستخدم",
+  "signIn.password": "كلمة المرور",
+  "signIn.usernameLabel": "اسم مستخدم الوكيل",
+  "signIn.passwordLabel": "كلمة مرور الوكيل",
+  "signIn.submit": "تسجيل الدخول",
+  "signIn.submitting": "جارٍ تسجيل الدخول…",
+  "signIn.errorNoUrl": "اضبط عنوان Webhook صالحًا أولًا.",
+  "signIn.errorNotFound": "لا يدعم هذا الخادم تسجيل الدخول (HTTP 404). هل هو الوكيل؟",
+  "signIn.errorUnexpected": "استجابة غير متوقعة لتسجيل الدخول. هل هذا الخادم هو الوكيل؟",
+};
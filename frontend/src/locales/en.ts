@@ -0,0 +1,496 @@
+/**
+ * English UI messages: the source catalog. Every other catalog provides
+ * the same keys. See lib/i18n.ts for placeholders and plural forms.
+ */
+
+import type { Message } from "../lib/i18n";
+
+export const en = {
+  // App shell
+  "app.title": "🎄 Holiday Email Orchestrator",
+  "app.subtitle": "Send personalized AI-generated holiday emails to your contacts using {toolhouse} + {n8n}.",
+  "app.uiLanguage": "Interface language",
+  "app.tab.compose": "✉️ Compose",
+  "app.tab.contacts": "📇 Contacts",
+  "app.tab.history": "🕘 History",
+  "app.tab.suppressions": "🚫 Suppressions",
+  "app.tab.settings": "⚙️ Settings",
+  "app.configWarning":
+    "⚠️ WEBHOOK_URL is not configured. Set the VITE_WEBHOOK_URL environment variable, create a .env.local file or add a backend in Settings.",
+  "app.devInfo": "Developer Info",
+  "app.backend": "Backend:",
+  "app.webhookUrl": "Webhook URL:",
+  "app.capabilities": "Capabilities:",
+  "app.capabilitiesBackend": "from the backend",
+  "app.capabilitiesCache": "cached {date} (backend unreachable)",
+  "app.capabilitiesFallback": "built-in (the backend publishes none)",
+  "app.tip":
+    "💡 Set {env} in {file} (local) or Vercel/Render settings (production) for the default backend, or add more backends in Settings.",
+  "backend.local": "🖥️ Local",
+  "backend.render": "🚀 Render",
+  "backend.vercel": "▲ Vercel",
+  "backend.ngrok": "🔗 ngrok",
+  "backend.make": "🟣 Make",
+  "backend.zapier": "⚡ Zapier",
+  "backend.other": "🌐 Remote",
+
+  // Shared
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.dismiss": "Dismiss",
+  "common.sending": "Sending…",
+
+  // Form
+  "form.holidayName.label": "Holiday Name",
+  "form.holidayName.placeholder": "e.g., Diwali, Christmas, New Year",
+  "form.tone.label": "Tone",
+  "form.tone.placeholder": "warm, formal, playful…",
+  "form.audienceType.label": "Audience Type",
+  "form.language.label": "Language",
+  "form.languageHint": "Language set to {language} for {holiday}.",
+  "form.senderName.label": "Sender Name",
+  "form.senderName.placeholder": "Your name (will sign the emails)",
+  "form.recipients.label": "Recipients",
+  "form.recipients.placeholder": "Enter email addresses (comma or newline separated)",
+  "form.sendAt.label": "Send At",
+  "form.timezone.label": "Timezone",
+  "form.timezone.placeholder": "e.g., Asia/Kolkata",
+  "form.perRecipientTimezones": "Deliver at this local time in each recipient's own timezone",
+  "form.sendNowHint": "Leave \"Send At\" empty to send right away.",
+  "form.preview": "👀 Preview Drafts",
+  "form.generatingDrafts": "Generating drafts…",
+  "form.schedule": "🗓️ Schedule Emails",
+  "form.send": "🚀 Generate & Send Emails",
+  "form.accepted": "Request accepted! {delivery}",
+  "form.draftsAccepted": {
+    one: "Approved drafts accepted for {count} recipient. {delivery}",
+    other: "Approved drafts accepted for {count} recipients. {delivery}",
+  },
+  "form.queued":
+    "You're offline. The campaign was saved to the outbox and will be sent automatically when you're back online.",
+  "form.cancelled": "Sending was cancelled. You can retry the campaign from the History tab.",
+  "form.noDraftForRecipient": "The server returned no draft for this recipient.",
+  "audience.business": "Business",
+  "audience.personal": "Personal",
+  "delivery.immediate": "Emails will be generated and sent.",
+  "delivery.scheduled": "Delivery is scheduled for {when}.",
+  "delivery.scheduledLocal": {
+    one: "Delivery is scheduled for {when}; {count} recipient will get it at that local time in their own timezone.",
+    other: "Delivery is scheduled for {when}; {count} recipients will get it at that local time in their own timezone.",
+  },
+
+  // Validation
+  "validation.holidayNameRequired": "Holiday name is required.",
+  "validation.senderNameRequired": "Sender name is required.",
+  "validation.recipientsRequired": "At least one recipient email is required.",
+  "validation.noValidRecipients": "Please enter at least one valid email address.",
+  "validation.invalidRecipients": {
+    one: "{count} invalid address — fix or remove it before sending.",
+    other: "{count} invalid addresses — fix or remove them before sending.",
+  },
+  "validation.invalidTimezone": "Please choose a valid timezone (e.g. Asia/Kolkata).",
+  "validation.invalidSendAt": "Please enter a valid date and time.",
+  "validation.sendAtPast": "The scheduled time is in the past.",
+  "validation.invalidRecipientTimezone": "\"{timezone}\" is not a valid timezone ({email}).",
+  "validation.recipientTimezonePast": "The scheduled time has already passed in {timezone} ({email}).",
+  "validation.recipientInOtherGroup": "{email} is already in {group}; an address can only be in one group.",
+  "validation.allSuppressed": { one: "The only recipient is on the suppression list.", other: "All {count} recipients are on the suppression list." },
+  "validation.unsupportedLanguage": "The backend doesn't write emails in \"{language}\". Pick another language.",
+  "validation.unsupportedAudience": "The backend doesn't support the \"{audience}\" audience. Pick another audience.",
+  "validation.tooManyRecipients": { one: "The backend accepts at most {max} recipients; this campaign has {count}.", other: "The backend accepts at most {max} recipients; this campaign has {count}." },
+  "validation.noteTooLong": "The note can be at most {max} characters.",
+  "validation.noteMalformed": "Fix these placeholders in the note: {placeholders} (use {{field_name}}).",
+  "validation.noteUnknownFields": { one: "The note uses an unknown field: {fields}.", other: "The note uses unknown fields: {fields}." },
+  "validation.noteRequired": "A personal note is required: this backend sends it as the email text.",
+
+  // Recipient chips
+  "chips.willBeSent": { one: "{count} recipient will be sent", other: "{count} recipients will be sent" },
+  "chips.invalidCount": "{count} invalid",
+  "chips.toReview": "{count} to review",
+  "chips.duplicateCount": { one: "{count} duplicate", other: "{count} duplicates" },
+  "chips.removeDuplicates": "Remove",
+  "chips.edit": "Edit recipient address",
+  "chips.clickToEdit": "Click to edit",
+  "chips.invalid": "invalid",
+  "chips.duplicate": "duplicate",
+  "chips.roleAccount": "role account",
+  "chips.roleAccountHint": "Role accounts usually aren't read by a person",
+  "chips.didYouMean": "did you mean {suggestion}?",
+  "chips.remove": "Remove {address}",
+
+  // Contact import
+  "import.dropZone": "📇 Import contacts from a CSV, TSV or vCard file (or drop it here)",
+  "import.noContacts": "No contacts found in {file}.",
+  "import.readError": "Could not read {file}.",
+  "import.rows": { one: "{count} row", other: "{count} rows" },
+  "import.notMapped": "— not mapped —",
+  "import.field.email": "Email",
+  "import.field.firstName": "First name",
+  "import.field.lastName": "Last name",
+  "import.field.company": "Company",
+  "import.empty": "empty",
+  "import.invalidEmail": "invalid email",
+  "import.showingFirst": "Showing the first {limit} of {count} rows.",
+  "import.invalidRows": {
+    one: "⚠️ {count} row has a missing or invalid email and will be skipped.",
+    other: "⚠️ {count} rows have a missing or invalid email and will be skipped.",
+  },
+  "import.add": { one: "Add {count} contact", other: "Add {count} contacts" },
+  "import.customColumns": "Other columns can be used in the note: {fields}",
+
+  // Contact book
+  "contacts.intro": "Saved contacts, with their preferred email language and audience, can be picked in the form one by one or by tag. Contacts sharing an address can be merged.",
+  "contacts.loading": "Loading contacts…",
+  "contacts.unavailable": "Contacts can't be saved in this browser (IndexedDB is unavailable).",
+  "contacts.email": "Email address",
+  "contacts.invalidEmail": "Enter a valid email address.",
+  "contacts.languageDefault": "Language: campaign default",
+  "contacts.audienceDefault": "Audience: campaign default",
+  "contacts.tags": "Tags",
+  "contacts.tagsPlaceholder": "Tags, comma-separated, e.g. clients, family",
+  "contacts.add": "Add contact",
+  "contacts.save": "Save",
+  "contacts.edit": "Edit",
+  "contacts.imported": { one: "Added {count} contact.", other: "Added {count} contacts." },
+  "contacts.importUpdated": { one: "{count} existing contact was updated.", other: "{count} existing contacts were updated." },
+  "contacts.duplicates": { one: "{count} address belongs to more than one contact.", other: "{count} addresses belong to more than one contact." },
+  "contacts.merge": { one: "Merge {count} contact", other: "Merge {count} contacts" },
+  "contacts.mergeAll": "Merge all",
+  "contacts.search": { one: "Search {count} contact by name, address, company or tag…", other: "Search {count} contacts by name, address, company or tag…" },
+  "contacts.selectAll": { one: "Select the {count} contact shown", other: "Select the {count} contacts shown" },
+  "contacts.selected": { one: "{count} contact selected", other: "{count} contacts selected" },
+  "contacts.bulkLanguage": "Language: unchanged",
+  "contacts.bulkAudience": "Audience: unchanged",
+  "contacts.bulkAddTags": "Add tags",
+  "contacts.bulkRemoveTag": "Remove a tag",
+  "contacts.bulkApply": { one: "Update {count} contact", other: "Update {count} contacts" },
+  "contacts.bulkUpdated": { one: "Updated {count} contact.", other: "Updated {count} contacts." },
+  "contacts.deleteSelected": "Delete selected",
+  "contacts.deleted": { one: "Deleted {count} contact.", other: "Deleted {count} contacts." },
+  "contacts.empty": "No contacts yet. Add one above or import a file.",
+  "contacts.noMatch": "No contacts match your search.",
+  "contacts.pick": "📇 Pick from contacts",
+  "contacts.pickTitle": "Pick from contacts",
+  "contacts.pickEmpty": "Your contact book is empty. Add contacts in the 📇 Contacts tab.",
+  "contacts.pickByTag": "Pick by tag:",
+  "contacts.pickHint": "Contacts go into the group matching their language and audience; a group is added for those that match none.",
+  "contacts.alreadyAdded": "already added",
+  "contacts.pickAdd": { one: "Add {count} contact", other: "Add {count} contacts" },
+
+  // Personal note
+  "note.label": "Personal note",
+  "note.placeholder": "Optional. Included word for word in every email, e.g. Thanks for a great year working on {{project}}, {{first_name}}!",
+  "note.insertField": "Insert field:",
+  "note.preview": "Preview",
+  "note.sample": "Preview for",
+  "note.emptyValue": "No value for this recipient; it will be left empty.",
+  "note.noRecipients": "Add recipients to preview the note with their details.",
+  "note.missing": { one: "{count} recipient has no value for {field}; it will be left empty.", other: "{count} recipients have no value for {field}; it will be left empty." },
+
+  // Holiday calendar
+  "holidays.upcoming": { one: "📅 Upcoming in the next {count} day", other: "📅 Upcoming in the next {count} days" },
+  "holidays.filterRegion": "Filter upcoming holidays by region",
+  "holidays.allRegions": "All regions",
+  "holidays.none": "No holidays in this period.",
+  "region.global": "Worldwide",
+  "region.MENA": "Middle East & North Africa",
+  "tradition.christian": "Christian",
+  "tradition.hindu": "Hindu",
+  "tradition.islamic": "Islamic",
+  "tradition.jewish": "Jewish",
+  "tradition.chinese": "Chinese",
+  "tradition.secular": "Secular / National",
+
+  // Scheduling
+  "recipientTimezones.empty": "Add recipients to set their timezones.",
+  "recipientTimezones.label": "Timezone for {email}",
+  "groups.defaultName": "Group {number}",
+  "groups.name.label": "Group name",
+  "groups.name.placeholder": "e.g. Clients, Family",
+  "groups.remove": "Remove group",
+  "groups.add": "+ Add recipient group",
+  "groups.addHint": "Groups can use their own audience, language and tone.",
+  "groups.defaultsHint": "Settings left on the campaign default use the audience, language and tone above.",
+  "groups.campaignDefault": "Campaign default ({value})",
+  "templates.label": "Campaign template",
+  "templates.choose": "Start from a template…",
+  "templates.none": "No saved templates yet",
+  "templates.save": "Save as template",
+  "templates.manage": "Manage templates",
+  "templates.name": "Template name",
+  "templates.instructions": "Instructions",
+  "templates.instructionsPlaceholder": "Optional instructions for whoever uses this template",
+  "templates.saveConfirm": "Save template",
+  "templates.saved": "Saved template \"{name}\".",
+  "templates.updated": "Updated template \"{name}\".",
+  "templates.untitled": "Untitled template",
+  "templates.empty": "Save the form as a template or import a templates file.",
+  "templates.export": "Export to JSON",
+  "templates.import": "Import from JSON",
+  "templates.imported": { one: "Imported {count} template.", other: "Imported {count} templates." },
+  "templates.invalidFile": "{file} is not a templates file.",
+  "image.label": "Holiday card",
+  "image.dropZone": "🖼️ Drop a JPEG, PNG or WebP image here or click to choose one (optional)",
+  "image.processing": "Resizing image…",
+  "image.previewAlt": "Holiday card preview",
+  "image.details": "{width} × {height} px · {size}",
+  "image.remove": "Remove",
+  "image.unsupportedType": "{file} is not a JPEG, PNG or WebP image.",
+  "image.tooLarge": "{file} is too large; choose an image under {size}.",
+  "image.unreadable": "{file} could not be read as an image.",
+  "image.cannotCompress": "{file} could not be compressed below {size}; try a simpler image.",
+
+  // Suppression list
+  "suppressions.intro": "Addresses on this list are never emailed: they are left out of every campaign and preview. Bounces are added automatically when a tracked job finishes.",
+  "suppressions.loading": "Loading suppression list…",
+  "suppressions.unavailable": "The suppression list can't be saved in this browser (IndexedDB is unavailable).",
+  "suppressions.email": "Email address",
+  "suppressions.reason": "Reason",
+  "suppressions.reason.unsubscribed": "Unsubscribed",
+  "suppressions.reason.bounced": "Bounced",
+  "suppressions.reason.complained": "Marked as spam",
+  "suppressions.reason.manual": "Added manually",
+  "suppressions.note": "Note",
+  "suppressions.notePlaceholder": "Note (optional), e.g. asked by phone",
+  "suppressions.add": "Add",
+  "suppressions.invalidEmail": "Enter a valid email address.",
+  "suppressions.remove": "Remove",
+  "suppressions.search": { one: "Search {count} address…", other: "Search {count} addresses…" },
+  "suppressions.empty": "No suppressed addresses yet.",
+  "suppressions.noMatch": "No addresses match your search.",
+  "suppressions.import": "Import CSV",
+  "suppressions.export": "Export CSV",
+  "suppressions.imported": { one: "Added {count} address.", other: "Added {count} addresses." },
+  "suppressions.importSkipped": { one: "{count} row without a valid address was skipped.", other: "{count} rows without a valid address were skipped." },
+  "suppressions.sync": "Sync bounces and unsubscribes from {name}",
+  "suppressions.syncing": "Syncing…",
+  "suppressions.synced": { one: "Received {count} report from {name}.", other: "Received {count} reports from {name}." },
+  "suppressions.syncNoUrl": "This backend has no valid suppressions URL; set one in Settings.",
+  "suppressions.syncNotFound": "This backend doesn't report bounces or unsubscribes (HTTP 404).",
+  "suppressions.syncUnexpected": "The backend's answer isn't a suppression list.",
+  "suppressions.willSkip": { one: "{count} recipient is on the suppression list and will be skipped:", other: "{count} recipients are on the suppression list and will be skipped:" },
+  "suppressions.skipped": { one: "{count} suppressed recipient was skipped.", other: "{count} suppressed recipients were skipped." },
+
+  // Draft review
+  "drafts.title": "Review drafts",
+  "drafts.sample": "Sample of {sample} of {count} recipients",
+  "drafts.count": { one: "{count} draft", other: "{count} drafts" },
+  "drafts.to": "To: {recipient}",
+  "drafts.edited": "edited",
+  "drafts.regenerate": "🔄 Regenerate",
+  "drafts.regenerating": "Regenerating…",
+  "drafts.approve": "Approve",
+  "drafts.subjectFor": "Subject for {recipient}",
+  "drafts.bodyFor": "Body for {recipient}",
+  "drafts.summaryApproved": {
+    one: "{count} approved draft will be sent as shown.",
+    other: "{count} approved drafts will be sent as shown.",
+  },
+  "drafts.summaryExcluded": {
+    one: "{count} excluded recipient will be skipped.",
+    other: "{count} excluded recipients will be skipped.",
+  },
+  "drafts.summaryRemaining": {
+    one: "The remaining {count} recipient gets a freshly generated email.",
+    other: "The remaining {count} recipients get freshly generated emails.",
+  },
+  "drafts.back": "← Back to editing",
+  "drafts.send": "✉️ Send {count} approved",
+  "drafts.errorNone": "The server did not return any drafts. Does your workflow support preview mode?",
+  "drafts.errorIncomplete": "Draft {index} is missing a recipient or body.",
+
+  // Job progress
+  "job.title": "Delivery progress",
+  "job.close": "Close",
+  "job.stopWatching": "Stop watching",
+  "job.failed": "The job failed.",
+  "job.finishedWithProblems": "Finished: {sent} sent, {problems} not delivered.",
+  "job.allSent": { one: "{count} email sent.", other: "All {count} emails sent." },
+  "job.trackingStopped": "Stopped following job {jobId}: {error} The emails may still be delivered.",
+  "job.finished": "Finished",
+  "job.queued": "Queued…",
+  "job.working": "Working…",
+  "job.status.pending": "Pending",
+  "job.status.generated": "Generated",
+  "job.status.sent": "Sent",
+  "job.status.bounced": "Bounced",
+  "job.status.failed": "Failed",
+  "job.errorUnrecognized": "The server returned an unrecognized job status.",
+  "job.errorStreamLost": "Lost the connection to the job status stream.",
+  "job.errorUnreachable": "Unable to reach the job status endpoint.",
+  "job.errorUnsupported": "This browser can't follow the job's progress.",
+
+  // Send results
+  "results.title": "Send results",
+  "results.close": "Close",
+  "results.filter": "Show",
+  "results.filterAll": "All",
+  "results.filterProblems": "Failed or bounced",
+  "results.search": "Search results",
+  "results.email": "Recipient",
+  "results.status": "Status",
+  "results.subject": "Subject",
+  "results.error": "Error",
+  "results.noMatch": "No results match.",
+  "results.copyFailed": { one: "Copy {count} failed address into the form", other: "Copy {count} failed addresses into the form" },
+  "results.copied": { one: "The failed address is back in the form with the campaign's settings. Fix it or send again.", other: "The {count} failed addresses are back in the form with the campaign's settings. Fix them or send again." },
+  "results.exportCsv": "Export CSV",
+  "results.exportJson": "Export JSON",
+
+  // Test sends
+  "test.send": "✉️ Send test",
+  "test.sending": "Sending test…",
+  "test.sendTo": "Send this campaign to {email} only, with [TEST] in the subject",
+  "test.sent": { one: "Test email sent to {email}. Check how it looks before sending the campaign.", other: "{count} test emails (one per group) sent to {email}. Check how they look before sending the campaign." },
+  "test.upToDate": "✓ A test of these values was sent to {email}.",
+  "test.required": "Send a test to {email} first: the campaign can be sent once a test of the current values went out.",
+  "test.requiredDrafts": "Send a test to {email} first: go back to the form, send a test, then preview again.",
+  "test.noAddress": "Set a test address for this backend in ⚙️ Settings to send yourself a test first.",
+
+  // Batched sending
+  "batches.title": { one: "Sending in {count} batch", other: "Sending in {count} batches" },
+  "batches.status.pending": "Waiting",
+  "batches.status.sending": "Sending…",
+  "batches.status.sent": "Sent",
+  "batches.status.queued": "Queued offline",
+  "batches.status.failed": "Failed",
+  "batches.batch": { one: "Batch {number} · {count} recipient", other: "Batch {number} · {count} recipients" },
+  "batches.job": "job {jobId}",
+  "batches.paused": "Paused — the next batch waits until you resume",
+  "batches.nextIn": "Next batch in {seconds} s",
+  "batches.pause": "⏸ Pause",
+  "batches.resume": "▶ Resume",
+  "batches.stop": "Stop",
+  "batches.allSent": { one: "The batch was submitted.", other: "All {count} batches were submitted." },
+  "batches.leftover": { one: "{count} batch wasn't sent: batch {batches}. Retry it below.", other: "{count} batches weren't sent: batches {batches}. Retry them below." },
+  "batches.stoppedLeftover": { one: "Stopped. {count} batch wasn't sent: batch {batches}.", other: "Stopped. {count} batches weren't sent: batches {batches}." },
+  "batches.retry": { one: "🔁 Send the remaining batch", other: "🔁 Send the {count} remaining batches" },
+  "batches.hint": { one: "Sent as one request.", other: "This campaign will be sent in {count} batches of up to {size} recipients, {seconds} s apart." },
+  "quota.warning": { one: "⚠️ Sending to {count} more recipient would go over this backend's daily quota of {quota} ({sent} already sent today).", other: "⚠️ Sending to {count} recipients would go over this backend's daily quota of {quota} by {excess} ({sent} already sent today). Consider sending part of the list tomorrow." },
+
+  // Retries and outbox
+  "retry.notice": "⏳ {reason}. {when} (attempt {attempt} of {max})…",
+  "retry.in": "Retrying in {seconds}s",
+  "retry.now": "Retrying now",
+  "retry.networkError": "Network error",
+  "outbox.offline": "📴 You are offline.",
+  "outbox.waiting": {
+    one: "📤 {count} campaign waiting in the outbox.",
+    other: "📤 {count} campaigns waiting in the outbox.",
+  },
+  "outbox.waitingOffline": {
+    one: "{count} campaign waiting in the outbox — it'll be sent automatically when you're back online.",
+    other: "{count} campaigns waiting in the outbox — they'll be sent automatically when you're back online.",
+  },
+  "outbox.willWait": "Campaigns you send now will wait in the outbox until you are back online.",
+  "outbox.sendNow": "Send now",
+
+  // History
+  "history.loading": "Loading history…",
+  "history.unavailable": "Campaign history is unavailable in this browser (IndexedDB is disabled).",
+  "history.filterHoliday": "Filter by holiday",
+  "history.filterStatus": "Filter by status",
+  "history.allHolidays": "All holidays",
+  "history.allStatuses": "All statuses",
+  "history.status.success": "Succeeded",
+  "history.status.failed": "Failed",
+  "history.status.pending": "Pending",
+  "history.status.queued": "Queued (offline)",
+  "history.empty": "No campaigns sent yet.",
+  "history.noMatch": "No campaigns match these filters.",
+  "history.recipients": { one: "{count} recipient", other: "{count} recipients" },
+  "history.attempts": { one: "{count} attempt", other: "{count} attempts" },
+  "history.batch": "batch {number} of {count}",
+  "history.mode.send": "Sent directly",
+  "history.mode.send_drafts": "Sent approved drafts",
+  "history.backend": "Backend:",
+  "history.duplicate": "📋 Duplicate into form",
+  "history.retry": "🔁 Retry",
+  "history.retrying": "Retrying…",
+
+  // Errors from the webhook
+  "errors.network": "Unable to reach the automation server. Is n8n running?",
+  "errors.server": "Server error (HTTP {status})",
+  "errors.serverWithBody": "Server error (HTTP {status}): {body}",
+  "errors.structured": "{message} (HTTP {status})",
+  "errors.signInHint": "Sign in under ⚙️ Settings.",
+
+  // Delivery adapters
+  "adapters.n8n": "n8n workflow",
+  "adapters.n8nDescription": "Sends the campaign as it is; the workflow writes and sends the emails. Supports every feature.",
+  "adapters.catchHook": "Make / Zapier catch hook",
+  "adapters.catchHookDescription": "Sends one flat JSON object with a recipients list, easy to map in a scenario or Zap. Drafts can't be previewed.",
+  "adapters.generic": "Generic HTTP (JSON template)",
+  "adapters.genericDescription": "Fills your JSON template with the campaign's fields and posts it. Drafts can't be previewed.",
+  "adapters.smtpRelay": "Local SMTP relay",
+  "adapters.smtpRelayDescription": "Posts one ready-made email per recipient, with the personal note as its text. No previews or scheduling.",
+  "adapters.templateInvalid": "The body template isn't valid JSON: {error}",
+  "adapters.templateUnknownFields": "The body template uses unknown fields: {fields}",
+  "adapters.relayRejected": "Rejected by the SMTP relay.",
+
+  // Backend settings
+  "settings.intro":
+    "Save the backends you work with and switch between them without rebuilding. New submissions go to the active backend.",
+  "settings.use": "Use {name}",
+  "settings.profileName": "Profile name",
+  "settings.newProfile": "Backend {count}",
+  "settings.webhookUrl": "Webhook URL",
+  "settings.healthUrl": "Health URL",
+  "settings.healthUrlDefault": "Defaults to /healthz on the webhook host",
+  "settings.suppressionsUrl": "Suppressions URL",
+  "settings.capabilitiesUrl": "Capabilities URL",
+  "settings.adapter": "Delivery adapter",
+  "settings.bodyTemplate": "Body template",
+  "settings.bodyTemplateHint": "JSON posted for each send. Available fields: {fields}",
+  "settings.relaySubject": "Email subject",
+  "settings.relaySubjectHint": "Can use {{holiday_name}} and {{sender_name}}.",
+  "settings.testEmail": "Test address",
+  "settings.testEmailHint": "Test sends go here, usually your own address. While set, campaigns can only be sent after a test.",
+  "settings.testEmailInvalid": "Enter a valid email address.",
+  "settings.sendingLimits": "Sending limits",
+  "settings.batchSize": "Batch size",
+  "settings.batchDelay": "Seconds between batches",
+  "settings.dailyQuota": "Daily quota",
+  "settings.dailyQuotaNone": "No limit",
+  "settings.sentToday": { one: "{count} recipient sent to through this backend today.", other: "{count} recipients sent to through this backend today." },
+  "settings.optional": "(optional)",
+  "settings.authHeader": "Auth header",
+  "settings.authHeaderName": "Auth header name",
+  "settings.authHeaderValue": "Auth header value",
+  "settings.authHeaderStorage": "Stored in this browser's localStorage and sent with every request to this backend.",
+  "settings.urlRequired": "URL is required",
+  "settings.urlProtocol": "Use an http(s) URL",
+  "settings.urlInvalid": "Enter a full URL, e.g. https://example.com/webhook/holiday",
+  "settings.test": "🩺 Test connection",
+  "settings.add": "+ Add backend",
+
+  // Health
+  "health.title": "Health:",
+  "health.checkNow": "Check now",
+  "health.active": "(active)",
+  "health.checking": "checking…",
+  "health.latency": "{ms} ms",
+  "health.coldStart": "cold start",
+  "health.opaque": "reachable (no CORS on health URL)",
+  "health.waking": "waking up (HTTP {status})",
+  "health.httpError": "HTTP {status}",
+  "health.timeout": "No answer within {seconds}s",
+  "health.unreachable": "Unreachable",
+  "health.noUrl": "no health URL",
+
+  // Proxy sign-in
+  "signIn.title": "Proxy sign-in",
+  "signIn.onlyProxy": "(only for backends behind the proxy)",
+  "signIn.signedIn": "🔐 Signed in to the proxy as {username} until {expires}.",
+  "signIn.signOut": "Sign out",
+  "signIn.expired": "Your session expired. Sign in again to keep sending.",
+  "signIn.username": "Username",
+  "signIn.password": "Password",
+  "signIn.usernameLabel": "Proxy username",
+  "signIn.passwordLabel": "Proxy password",
+  "signIn.submit": "Sign in",
+  "signIn.submitting": "Signing in…",
+  "signIn.errorNoUrl": "Set a valid webhook URL first.",
+  "signIn.errorNotFound": "This backend has no sign-in (HTTP 404). Is it the proxy?",
+  "signIn.errorUnexpected": "Unexpected sign-in response. Is this backend the proxy?",
+} satisfies Record<string, Message>;
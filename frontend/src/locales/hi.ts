@@ -0,0 +1,495 @@
+/**
+ * Hindi UI messages.
+ */
+
+import type { Catalog } from "../lib/i18n";
+
+export const hi: Catalog = {
+  // App shell
+  "app.title": "🎄 हॉलिडे ईमेल ऑर्केस्ट्रेटर",
+  "app.subtitle": "{toolhouse} + {n8n} की मदद से अपने संपर्कों को AI से लिखे व्यक्तिगत त्योहार ईमेल भेजें।",
+  "app.uiLanguage": "इंटरफ़ेस की भाषा",
+  "app.tab.compose": "✉️ लिखें",
+  "app.tab.contacts": "📇 संपर्क",
+  "app.tab.history": "🕘 इतिहास",
+  "app.tab.suppressions": "🚫 रोकी गई सूची",
+  "app.tab.settings": "⚙️ सेटिंग्स",
+  "app.configWarning":
+    "⚠️ WEBHOOK_URL कॉन्फ़िगर नहीं है। VITE_WEBHOOK_URL एनवायरनमेंट वेरिएबल सेट करें, .env.local फ़ाइल बनाएँ या सेटिंग्स में बैकएंड जोड़ें।",
+  "app.devInfo": "डेवलपर जानकारी",
+  "app.backend": "बैकएंड:",
+  "app.webhookUrl": "वेबहुक URL:",
+  "app.capabilities": "क्षमताएँ:",
+  "app.capabilitiesBackend": "बैकएंड से",
+  "app.capabilitiesCache": "{date} को सहेजी गई (बैकएंड उपलब्ध नहीं)",
+  "app.capabilitiesFallback": "अंतर्निहित (बैकएंड कोई प्रकाशित नहीं करता)",
+  "app.tip":
+    "💡 डिफ़ॉल्ट बैकएंड के लिए {file} (लोकल) या Vercel/Render सेटिंग्स (प्रोडक्शन) में {env} सेट करें, या सेटिंग्स में और बैकएंड जोड़ें।",
+  "backend.local": "🖥️ लोकल",
+  "backend.render": "🚀 Render",
+  "backend.vercel": "▲ Vercel",
+  "backend.ngrok": "🔗 ngrok",
+  "backend.make": "🟣 Make",
+  "backend.zapier": "⚡ Zapier",
+  "backend.other": "🌐 रिमोट",
+
+  // Shared
+  "common.cancel": "रद्द करें",
+  "common.delete": "हटाएँ",
+  "common.dismiss": "बंद करें",
+  "common.sending": "भेजा जा रहा है…",
+
+  // Form
+  "form.holidayName.label": "त्योहार का नाम",
+  "form.holidayName.placeholder": "जैसे, दिवाली, क्रिसमस, नया साल",
+  "form.tone.label": "लहजा",
+  "form.tone.placeholder": "आत्मीय, औपचारिक, चुलबुला…",
+  "form.audienceType.label": "पाठक वर्ग",
+  "form.language.label": "भाषा",
+  "form.languageHint": "{holiday} के लिए भाषा {language} रखी गई।",
+  "form.senderName.label": "भेजने वाले का नाम",
+  "form.senderName.placeholder": "आपका नाम (ईमेल के अंत में लिखा जाएगा)",
+  "form.recipients.label": "प्राप्तकर्ता",
+  "form.recipients.placeholder": "ईमेल पते लिखें (अल्पविराम या नई पंक्ति से अलग करें)",
+  "form.sendAt.label": "भेजने का समय",
+  "form.timezone.label": "समय क्षेत्र",
+  "form.timezone.placeholder": "जैसे, Asia/Kolkata",
+  "form.perRecipientTimezones": "हर प्राप्तकर्ता को उसके अपने समय क्षेत्र में इसी स्थानीय समय पर भेजें",
+  "form.sendNowHint": "तुरंत भेजने के लिए \"भेजने का समय\" खाली छोड़ दें।",
+  "form.preview": "👀 ड्राफ़्ट देखें",
+  "form.generatingDrafts": "ड्राफ़्ट बनाए जा रहे हैं…",
+  "form.schedule": "🗓️ ईमेल शेड्यूल करें",
+  "form.send": "🚀 ईमेल बनाएँ और भेजें",
+  "form.accepted": "अनुरोध स्वीकार हुआ! {delivery}",
+  "form.draftsAccepted": {
+    one: "{count} प्राप्तकर्ता के लिए स्वीकृत ड्राफ़्ट स्वीकार हुए। {delivery}",
+    other: "{count} प्राप्तकर्ताओं के लिए स्वीकृत ड्राफ़्ट स्वीकार हुए। {delivery}",
+  },
+  "form.queued":
+    "आप ऑफ़लाइन हैं। अभियान आउटबॉक्स में सहेजा गया है और ऑनलाइन होते ही अपने आप भेज दिया जाएगा।",
+  "form.cancelled": "भेजना रद्द किया गया। आप इतिहास टैब से अभियान दोबारा भेज सकते हैं।",
+  "form.noDraftForRecipient": "सर्वर ने इस प्राप्तकर्ता के लिए कोई ड्राफ़्ट नहीं लौटाया।",
+  "audience.business": "व्यावसायिक",
+  "audience.personal": "निजी",
+  "delivery.immediate": "ईमेल बनाकर भेजे जाएँगे।",
+  "delivery.scheduled": "भेजने का समय {when} तय है।",
+  "delivery.scheduledLocal": {
+    one: "भेजने का समय {when} तय है; {count} प्राप्तकर्ता को यह उसके अपने समय क्षेत्र में इसी स्थानीय समय पर मिलेगा।",
+    other: "भेजने का समय {when} तय है; {count} प्राप्तकर्ताओं को यह उनके अपने समय क्षेत्र में इसी स्थानीय समय पर मिलेगा।",
+  },
+
+  // Validation
+  "validation.holidayNameRequired": "त्योहार का नाम ज़रूरी है।",
+  "validation.senderNameRequired": "भेजने वाले का नाम ज़रूरी है।",
+  "validation.recipientsRequired": "कम से कम एक प्राप्तकर्ता का ईमेल ज़रूरी है।",
+  "validation.noValidRecipients": "कृपया कम से कम एक मान्य ईमेल पता लिखें।",
+  "validation.invalidRecipients": {
+    one: "{count} अमान्य पता — भेजने से पहले इसे ठीक करें या हटाएँ।",
+    other: "{count} अमान्य पते — भेजने से पहले इन्हें ठीक करें या हटाएँ।",
+  },
+  "validation.invalidTimezone": "कृपया मान्य समय क्षेत्र चुनें (जैसे Asia/Kolkata)।",
+  "validation.invalidSendAt": "कृपया मान्य तारीख और समय लिखें।",
+  "validation.sendAtPast": "तय किया गया समय बीत चुका है।",
+  "validation.invalidRecipientTimezone": "\"{timezone}\" मान्य समय क्षेत्र नहीं है ({email})।",
+  "validation.recipientTimezonePast": "{timezone} में तय किया गया समय बीत चुका है ({email})।",
+  "validation.recipientInOtherGroup": "{email} पहले से {group} में है; एक पता केवल एक समूह में हो सकता है।",
+  "validation.allSuppressed": { one: "एकमात्र प्राप्तकर्ता रोकी गई सूची में है।", other: "सभी {count} प्राप्तकर्ता रोकी गई सूची में हैं।" },
+  "validation.unsupportedLanguage": "बैकएंड \"{language}\" में ईमेल नहीं लिखता। कोई दूसरी भाषा चुनें।",
+  "validation.unsupportedAudience": "बैकएंड \"{audience}\" दर्शक का समर्थन नहीं करता। कोई दूसरा दर्शक चुनें।",
+  "validation.tooManyRecipients": { one: "बैकएंड अधिकतम {max} प्राप्तकर्ता स्वीकार करता है; इस अभियान में {count} है।", other: "बैकएंड अधिकतम {max} प्राप्तकर्ता स्वीकार करता है; इस अभियान में {count} हैं।" },
+  "validation.noteTooLong": "नोट अधिकतम {max} अक्षरों का हो सकता है।",
+  "validation.noteMalformed": "नोट में ये प्लेसहोल्डर ठीक करें: {placeholders} ({{field_name}} का उपयोग करें)।",
+  "validation.noteUnknownFields": { one: "नोट एक अज्ञात फ़ील्ड का उपयोग करता है: {fields}।", other: "नोट अज्ञात फ़ील्ड का उपयोग करता है: {fields}।" },
+  "validation.noteRequired": "व्यक्तिगत नोट आवश्यक है: यह बैकएंड इसे ईमेल के टेक्स्ट के रूप में भेजता है।",
+
+  // Recipient chips
+  "chips.willBeSent": { one: "{count} प्राप्तकर्ता को भेजा जाएगा", other: "{count} प्राप्तकर्ताओं को भेजा जाएगा" },
+  "chips.invalidCount": "{count} अमान्य",
+  "chips.toReview": "{count} जाँचने हैं",
+  "chips.duplicateCount": { one: "{count} दोहराव", other: "{count} दोहराव" },
+  "chips.removeDuplicates": "हटाएँ",
+  "chips.edit": "प्राप्तकर्ता का पता बदलें",
+  "chips.clickToEdit": "बदलने के लिए क्लिक करें",
+  "chips.invalid": "अमान्य",
+  "chips.duplicate": "दोहराव",
+  "chips.roleAccount": "रोल अकाउंट",
+  "chips.roleAccountHint": "रोल अकाउंट अक्सर कोई व्यक्ति नहीं पढ़ता",
+  "chips.didYouMean": "क्या आपका मतलब {suggestion} था?",
+  "chips.remove": "{address} हटाएँ",
+
+  // Contact import
+  "import.dropZone": "📇 CSV, TSV या vCard फ़ाइल से संपर्क आयात करें (या यहाँ छोड़ें)",
+  "import.noContacts": "{file} में कोई संपर्क नहीं मिला।",
+  "import.readError": "{file} पढ़ी नहीं जा सकी।",
+  "import.rows": { one: "{count} पंक्ति", other: "{count} पंक्तियाँ" },
+  "import.notMapped": "— नहीं जोड़ा गया —",
+  "import.field.email": "ईमेल",
+  "import.field.firstName": "पहला नाम",
+  "import.field.lastName": "उपनाम",
+  "import.field.company": "कंपनी",
+  "import.empty": "खाली",
+  "import.invalidEmail": "अमान्य ईमेल",
+  "import.showingFirst": "{count} में से पहली {limit} पंक्तियाँ दिखाई जा रही हैं।",
+  "import.invalidRows": {
+    one: "⚠️ {count} पंक्ति में ईमेल नहीं है या अमान्य है, उसे छोड़ दिया जाएगा।",
+    other: "⚠️ {count} पंक्तियों में ईमेल नहीं है या अमान्य है, उन्हें छोड़ दिया जाएगा।",
+  },
+  "import.add": { one: "{count} संपर्क जोड़ें", other: "{count} संपर्क जोड़ें" },
+  "import.customColumns": "अन्य कॉलम नोट में उपयोग किए जा सकते हैं: {fields}",
+
+  // Contact book
+  "contacts.intro": "सहेजे गए संपर्क, उनकी पसंदीदा ईमेल भाषा और दर्शकों के साथ, फ़ॉर्म में एक-एक करके या टैग से चुने जा सकते हैं। एक ही पते वाले संपर्कों को मिलाया जा सकता है।",
+  "contacts.loading": "संपर्क लोड हो रहे हैं…",
+  "contacts.unavailable": "इस ब्राउज़र में संपर्क सहेजे नहीं जा सकते (IndexedDB उपलब्ध नहीं है)।",
+  "contacts.email": "ईमेल पता",
+  "contacts.invalidEmail": "मान्य ईमेल पता दर्ज करें।",
+  "contacts.languageDefault": "भाषा: अभियान की डिफ़ॉल्ट",
+  "contacts.audienceDefault": "दर्शक: अभियान के डिफ़ॉल्ट",
+  "contacts.tags": "टैग",
+  "contacts.tagsPlaceholder": "टैग, अल्पविराम से अलग, जैसे clients, family",
+  "contacts.add": "संपर्क जोड़ें",
+  "contacts.save": "सहेजें",
+  "contacts.edit": "संपादित करें",
+  "contacts.imported": { one: "{count} संपर्क जोड़ा गया।", other: "{count} संपर्क जोड़े गए।" },
+  "contacts.importUpdated": { one: "{count} मौजूदा संपर्क अपडेट किया गया।", other: "{count} मौजूदा संपर्क अपडेट किए गए।" },
+  "contacts.duplicates": { one: "{count} पता एक से अधिक संपर्कों का है।", other: "{count} पते एक से अधिक संपर्कों के हैं।" },
+  "contacts.merge": { one: "{count} संपर्क मिलाएँ", other: "{count} संपर्क मिलाएँ" },
+  "contacts.mergeAll": "सभी मिलाएँ",
+  "contacts.search": { one: "{count} संपर्क में नाम, पता, कंपनी या टैग से खोजें…", other: "{count} संपर्कों में नाम, पता, कंपनी या टैग से खोजें…" },
+  "contacts.selectAll": { one: "दिखाया गया {count} संपर्क चुनें", other: "दिखाए गए {count} संपर्क चुनें" },
+  "contacts.selected": { one: "{count} संपर्क चुना गया", other: "{count} संपर्क चुने गए" },
+  "contacts.bulkLanguage": "भाषा: अपरिवर्तित",
+  "contacts.bulkAudience": "दर्शक: अपरिवर्तित",
+  "contacts.bulkAddTags": "टैग जोड़ें",
+  "contacts.bulkRemoveTag": "कोई टैग हटाएँ",
+  "contacts.bulkApply": { one: "{count} संपर्क अपडेट करें", other: "{count} संपर्क अपडेट करें" },
+  "contacts.bulkUpdated": { one: "{count} संपर्क अपडेट किया गया।", other: "{count} संपर्क अपडेट किए गए।" },
+  "contacts.deleteSelected": "चुने हुए हटाएँ",
+  "contacts.deleted": { one: "{count} संपर्क हटाया गया।", other: "{count} संपर्क हटाए गए।" },
+  "contacts.empty": "अभी कोई संपर्क नहीं है। ऊपर एक जोड़ें या फ़ाइल आयात करें।",
+  "contacts.noMatch": "आपकी खोज से कोई संपर्क मेल नहीं खाता।",
+  "contacts.pick": "📇 संपर्कों से चुनें",
+  "contacts.pickTitle": "संपर्कों से चुनें",
+  "contacts.pickEmpty": "आपकी संपर्क सूची खाली है। 📇 संपर्क टैब में संपर्क जोड़ें।",
+  "contacts.pickByTag": "टैग से चुनें:",
+  "contacts.pickHint": "संपर्क उस समूह में जाते हैं जिसकी भाषा और दर्शक उनसे मेल खाते हैं; किसी से मेल न खाने वालों के लिए एक समूह जोड़ा जाता है।",
+  "contacts.alreadyAdded": "पहले से जोड़ा गया",
+  "contacts.pickAdd": { one: "{count} संपर्क जोड़ें", other: "{count} संपर्क जोड़ें" },
+
+  // Personal note
+  "note.label": "व्यक्तिगत नोट",
+  "note.placeholder": "वैकल्पिक। हर ईमेल में शब्दशः शामिल होता है, जैसे {{project}} पर शानदार साल के लिए धन्यवाद, {{first_name}}!",
+  "note.insertField": "फ़ील्ड डालें:",
+  "note.preview": "पूर्वावलोकन",
+  "note.sample": "इसके लिए पूर्वावलोकन",
+  "note.emptyValue": "इस प्राप्तकर्ता के लिए कोई मान नहीं; यह खाली छोड़ा जाएगा।",
+  "note.noRecipients": "नोट को उनके विवरण के साथ देखने के लिए प्राप्तकर्ता जोड़ें।",
+  "note.missing": { one: "{count} प्राप्तकर्ता के लिए {field} का कोई मान नहीं है; यह खाली छोड़ा जाएगा।", other: "{count} प्राप्तकर्ताओं के लिए {field} का कोई मान नहीं है; यह खाली छोड़ा जाएगा।" },
+
+  // Holiday calendar
+  "holidays.upcoming": { one: "📅 अगले {count} दिन में", other: "📅 अगले {count} दिनों में" },
+  "holidays.filterRegion": "आने वाले त्योहारों को क्षेत्र से छाँटें",
+  "holidays.allRegions": "सभी क्षेत्र",
+  "holidays.none": "इस अवधि में कोई त्योहार नहीं है।",
+  "region.global": "दुनिया भर",
+  "region.MENA": "मध्य पूर्व और उत्तरी अफ़्रीका",
+  "tradition.christian": "ईसाई",
+  "tradition.hindu": "हिंदू",
+  "tradition.islamic": "इस्लामी",
+  "tradition.jewish": "यहूदी",
+  "tradition.chinese": "चीनी",
+  "tradition.secular": "धर्मनिरपेक्ष / राष्ट्रीय",
+
+  // Scheduling
+  "recipientTimezones.empty": "समय क्षेत्र सेट करने के लिए प्राप्तकर्ता जोड़ें।",
+  "recipientTimezones.label": "{email} का समय क्षेत्र",
+  "groups.defaultName": "समूह {number}",
+  "groups.name.label": "समूह का नाम",
+  "groups.name.placeholder": "जैसे ग्राहक, परिवार",
+  "groups.remove": "समूह हटाएँ",
+  "groups.add": "+ प्राप्तकर्ता समूह जोड़ें",
+  "groups.addHint": "समूह अपना अलग दर्शक वर्ग, भाषा और लहजा रख सकते हैं।",
+  "groups.defaultsHint": "अभियान डिफ़ॉल्ट पर छोड़ी गई सेटिंग्स ऊपर दिए गए दर्शक वर्ग, भाषा और लहजे का उपयोग करती हैं।",
+  "groups.campaignDefault": "अभियान डिफ़ॉल्ट ({value})",
+  "templates.label": "अभियान टेम्पलेट",
+  "templates.choose": "किसी टेम्पलेट से शुरू करें…",
+  "templates.none": "अभी कोई सहेजा गया टेम्पलेट नहीं",
+  "templates.save": "टेम्पलेट के रूप में सहेजें",
+  "templates.manage": "टेम्पलेट प्रबंधित करें",
+  "templates.name": "टेम्पलेट का नाम",
+  "templates.instructions": "निर्देश",
+  "templates.instructionsPlaceholder": "इस टेम्पलेट का उपयोग करने वाले के लिए वैकल्पिक निर्देश",
+  "templates.saveConfirm": "टेम्पलेट सहेजें",
+  "templates.saved": "टेम्पलेट \"{name}\" सहेजा गया।",
+  "templates.updated": "टेम्पलेट \"{name}\" अपडेट किया गया।",
+  "templates.untitled": "बिना नाम का टेम्पलेट",
+  "templates.empty": "फ़ॉर्म को टेम्पलेट के रूप में सहेजें या टेम्पलेट फ़ाइल आयात करें।",
+  "templates.export": "JSON में निर्यात करें",
+  "templates.import": "JSON से आयात करें",
+  "templates.imported": { one: "{count} टेम्पलेट आयात किया गया।", other: "{count} टेम्पलेट आयात किए गए।" },
+  "templates.invalidFile": "{file} टेम्पलेट फ़ाइल नहीं है।",
+  "image.label": "त्योहार कार्ड",
+  "image.dropZone": "🖼️ JPEG, PNG या WebP चित्र यहाँ छोड़ें या चुनने के लिए क्लिक करें (वैकल्पिक)",
+  "image.processing": "चित्र का आकार बदला जा रहा है…",
+  "image.previewAlt": "त्योहार कार्ड का पूर्वावलोकन",
+  "image.details": "{width} × {height} px · {size}",
+  "image.remove": "हटाएँ",
+  "image.unsupportedType": "{file} JPEG, PNG या WebP चित्र नहीं है।",
+  "image.tooLarge": "{file} बहुत बड़ी है; {size} से छोटा चित्र चुनें।",
+  "image.unreadable": "{file} को चित्र के रूप में पढ़ा नहीं जा सका।",
+  "image.cannotCompress": "{file} को {size} से छोटा नहीं किया जा सका; कोई सरल चित्र आज़माएँ।",
+
+  // Suppression list
+  "suppressions.intro": "इस सूची के पतों पर कभी ईमेल नहीं भेजा जाता: उन्हें हर अभियान और पूर्वावलोकन से बाहर रखा जाता है। ट्रैक किया गया जॉब पूरा होने पर बाउंस अपने आप जुड़ जाते हैं।",
+  "suppressions.loading": "रोकी गई सूची लोड हो रही है…",
+  "suppressions.unavailable": "इस ब्राउज़र में रोकी गई सूची सहेजी नहीं जा सकती (IndexedDB उपलब्ध नहीं है)।",
+  "suppressions.email": "ईमेल पता",
+  "suppressions.reason": "कारण",
+  "suppressions.reason.unsubscribed": "सदस्यता छोड़ी",
+  "suppressions.reason.bounced": "बाउंस हुआ",
+  "suppressions.reason.complained": "स्पैम चिह्नित",
+  "suppressions.reason.manual": "मैन्युअल रूप से जोड़ा गया",
+  "suppressions.note": "टिप्पणी",
+  "suppressions.notePlaceholder": "टिप्पणी (वैकल्पिक), जैसे फ़ोन पर अनुरोध किया",
+  "suppressions.add": "जोड़ें",
+  "suppressions.invalidEmail": "एक मान्य ईमेल पता दर्ज करें।",
+  "suppressions.remove": "हटाएँ",
+  "suppressions.search": { one: "{count} पता खोजें…", other: "{count} पते खोजें…" },
+  "suppressions.empty": "अभी तक कोई पता रोका नहीं गया है।",
+  "suppressions.noMatch": "आपकी खोज से कोई पता मेल नहीं खाता।",
+  "suppressions.import": "CSV आयात करें",
+  "suppressions.export": "CSV निर्यात करें",
+  "suppressions.imported": { one: "{count} पता जोड़ा गया।", other: "{count} पते जोड़े गए।" },
+  "suppressions.importSkipped": { one: "मान्य पते के बिना {count} पंक्ति छोड़ दी गई।", other: "मान्य पते के बिना {count} पंक्तियाँ छोड़ दी गईं।" },
+  "suppressions.sync": "{name} से बाउंस और सदस्यता-त्याग सिंक करें",
+  "suppressions.syncing": "सिंक हो रहा है…",
+  "suppressions.synced": { one: "{name} से {count} रिपोर्ट मिली।", other: "{name} से {count} रिपोर्टें मिलीं।" },
+  "suppressions.syncNoUrl": "इस बैकएंड का कोई मान्य रोकी गई सूची URL नहीं है; इसे सेटिंग्स में सेट करें।",
+  "suppressions.syncNotFound": "यह बैकएंड बाउंस या सदस्यता-त्याग की रिपोर्ट नहीं देता (HTTP 404)।",
+  "suppressions.syncUnexpected": "बैकएंड का उत्तर रोकी गई सूची नहीं है।",
+  "suppressions.willSkip": { one: "{count} प्राप्तकर्ता रोकी गई सूची में है और छोड़ दिया जाएगा:", other: "{count} प्राप्तकर्ता रोकी गई सूची में हैं और छोड़ दिए जाएँगे:" },
+  "suppressions.skipped": { one: "रोकी गई सूची का {count} प्राप्तकर्ता छोड़ दिया गया।", other: "रोकी गई सूची के {count} प्राप्तकर्ता छोड़ दिए गए।" },
+
+  // Draft review
+  "drafts.title": "ड्राफ़्ट जाँचें",
+  "drafts.sample": "{count} में से {sample} प्राप्तकर्ताओं का नमूना",
+  "drafts.count": { one: "{count} ड्राफ़्ट", other: "{count} ड्राफ़्ट" },
+  "drafts.to": "प्रति: {recipient}",
+  "drafts.edited": "बदला गया",
+  "drafts.regenerate": "🔄 फिर से बनाएँ",
+  "drafts.regenerating": "फिर से बनाया जा रहा है…",
+  "drafts.approve": "स्वीकृत करें",
+  "drafts.subjectFor": "{recipient} के लिए विषय",
+  "drafts.bodyFor": "{recipient} के लिए संदेश",
+  "drafts.summaryApproved": {
+    one: "{count} स्वीकृत ड्राफ़्ट जैसा दिख रहा है वैसा ही भेजा जाएगा।",
+    other: "{count} स्वीकृत ड्राफ़्ट जैसे दिख रहे हैं वैसे ही भेजे जाएँगे।",
+  },
+  "drafts.summaryExcluded": {
+    one: "{count} बाहर रखा गया प्राप्तकर्ता छोड़ दिया जाएगा।",
+    other: "{count} बाहर रखे गए प्राप्तकर्ता छोड़ दिए जाएँगे।",
+  },
+  "drafts.summaryRemaining": {
+    one: "बाकी {count} प्राप्तकर्ता को नया बनाया गया ईमेल मिलेगा।",
+    other: "बाकी {count} प्राप्तकर्ताओं को नए बनाए गए ईमेल मिलेंगे।",
+  },
+  "drafts.back": "← बदलाव पर लौटें",
+  "drafts.send": "✉️ {count} स्वीकृत भेजें",
+  "drafts.errorNone": "सर्वर ने कोई ड्राफ़्ट नहीं लौटाया। क्या आपका वर्कफ़्लो प्रीव्यू मोड सपोर्ट करता है?",
+  "drafts.errorIncomplete": "ड्राफ़्ट {index} में प्राप्तकर्ता या संदेश नहीं है।",
+
+  // Job progress
+  "job.title": "भेजने की प्रगति",
+  "job.close": "बंद करें",
+  "job.stopWatching": "देखना बंद करें",
+  "job.failed": "जॉब विफल रहा।",
+  "job.finishedWithProblems": "पूरा हुआ: {sent} भेजे गए, {problems} नहीं पहुँचे।",
+  "job.allSent": { one: "{count} ईमेल भेजा गया।", other: "सभी {count} ईमेल भेजे गए।" },
+  "job.trackingStopped": "जॉब {jobId} पर नज़र रखना बंद हुआ: {error} ईमेल फिर भी पहुँच सकते हैं।",
+  "job.finished": "पूरा हुआ",
+  "job.queued": "कतार में…",
+  "job.working": "काम जारी है…",
+  "job.status.pending": "बाकी",
+  "job.status.generated": "बनाया गया",
+  "job.status.sent": "भेजा गया",
+  "job.status.bounced": "लौट आया",
+  "job.status.failed": "विफल",
+  "job.errorUnrecognized": "सर्वर ने अनजान जॉब स्थिति लौटाई।",
+  "job.errorStreamLost": "जॉब स्थिति स्ट्रीम से कनेक्शन टूट गया।",
+  "job.errorUnreachable": "जॉब स्थिति एंडपॉइंट तक नहीं पहुँच सके।",
+  "job.errorUnsupported": "यह ब्राउज़र जॉब की प्रगति नहीं दिखा सकता।",
+
+  // Send results
+  "results.title": "भेजने के परिणाम",
+  "results.close": "बंद करें",
+  "results.filter": "दिखाएँ",
+  "results.filterAll": "सभी",
+  "results.filterProblems": "विफल या बाउंस",
+  "results.search": "परिणाम खोजें",
+  "results.email": "प्राप्तकर्ता",
+  "results.status": "स्थिति",
+  "results.subject": "विषय",
+  "results.error": "त्रुटि",
+  "results.noMatch": "कोई परिणाम मेल नहीं खाता।",
+  "results.copyFailed": { one: "{count} विफल पता फ़ॉर्म में कॉपी करें", other: "{count} विफल पते फ़ॉर्म में कॉपी करें" },
+  "results.copied": { one: "विफल पता अभियान की सेटिंग्स के साथ फ़ॉर्म में वापस है। इसे ठीक करें या फिर से भेजें।", other: "{count} विफल पते अभियान की सेटिंग्स के साथ फ़ॉर्म में वापस हैं। इन्हें ठीक करें या फिर से भेजें।" },
+  "results.exportCsv": "CSV निर्यात करें",
+  "results.exportJson": "JSON निर्यात करें",
+
+  // Test sends
+  "test.send": "✉️ टेस्ट भेजें",
+  "test.sending": "टेस्ट भेजा जा रहा है…",
+  "test.sendTo": "यह अभियान केवल {email} को भेजें, विषय में [TEST] के साथ",
+  "test.sent": { one: "टेस्ट ईमेल {email} को भेजा गया। अभियान भेजने से पहले देखें कि यह कैसा दिखता है।", other: "{count} टेस्ट ईमेल (हर समूह के लिए एक) {email} को भेजे गए। अभियान भेजने से पहले देखें कि वे कैसे दिखते हैं।" },
+  "test.upToDate": "✓ इन मानों का टेस्ट {email} को भेजा गया।",
+  "test.required": "पहले {email} को टेस्ट भेजें: मौजूदा मानों का टेस्ट जाने के बाद ही अभियान भेजा जा सकता है।",
+  "test.requiredDrafts": "पहले {email} पर टेस्ट भेजें: फ़ॉर्म पर वापस जाएँ, टेस्ट भेजें, फिर दोबारा पूर्वावलोकन करें।",
+  "test.noAddress": "पहले खुद को टेस्ट भेजने के लिए ⚙️ सेटिंग्स में इस बैकएंड का टेस्ट पता सेट करें।",
+
+  // Batched sending
+  "batches.title": { one: "{count} बैच में भेजा जा रहा है", other: "{count} बैचों में भेजा जा रहा है" },
+  "batches.status.pending": "प्रतीक्षा में",
+  "batches.status.sending": "भेजा जा रहा है…",
+  "batches.status.sent": "भेजा गया",
+  "batches.status.queued": "ऑफ़लाइन कतार में",
+  "batches.status.failed": "विफल",
+  "batches.batch": { one: "बैच {number} · {count} प्राप्तकर्ता", other: "बैच {number} · {count} प्राप्तकर्ता" },
+  "batches.job": "जॉब {jobId}",
+  "batches.paused": "रोका गया — अगला बैच आपके फिर से शुरू करने तक प्रतीक्षा करेगा",
+  "batches.nextIn": "अगला बैच {seconds} सेकंड में",
+  "batches.pause": "⏸ रोकें",
+  "batches.resume": "▶ फिर से शुरू करें",
+  "batches.stop": "बंद करें",
+  "batches.allSent": { one: "बैच जमा किया गया।", other: "सभी {count} बैच जमा किए गए।" },
+  "batches.leftover": { one: "{count} बैच नहीं भेजा गया: बैच {batches}। इसे नीचे फिर से भेजें।", other: "{count} बैच नहीं भेजे गए: बैच {batches}। इन्हें नीचे फिर से भेजें।" },
+  "batches.stoppedLeftover": { one: "रोक दिया गया। {count} बैच नहीं भेजा गया: बैच {batches}।", other: "रोक दिया गया। {count} बैच नहीं भेजे गए: बैच {batches}।" },
+  "batches.retry": { one: "🔁 बचा हुआ बैच भेजें", other: "🔁 बचे हुए {count} बैच भेजें" },
+  "batches.hint": { one: "एक ही अनुरोध में भेजा जाएगा।", other: "यह अभियान {size} प्राप्तकर्ताओं तक के {count} बैचों में, {seconds} सेकंड के अंतर पर भेजा जाएगा।" },
+  "quota.warning": { one: "⚠️ {count} और प्राप्तकर्ता को भेजने से इस बैकएंड का {quota} का दैनिक कोटा पार हो जाएगा (आज {sent} पहले ही भेजे जा चुके हैं)।", other: "⚠️ {count} प्राप्तकर्ताओं को भेजने से इस बैकएंड का {quota} का दैनिक कोटा {excess} से पार हो जाएगा (आज {sent} पहले ही भेजे जा चुके हैं)। सूची का कुछ हिस्सा कल भेजने पर विचार करें।" },
+
+  // Retries and outbox
+  "retry.notice": "⏳ {reason}। {when} (प्रयास {attempt} / {max})…",
+  "retry.in": "{seconds} सेकंड में फिर कोशिश",
+  "retry.now": "अभी फिर कोशिश की जा रही है",
+  "retry.networkError": "नेटवर्क त्रुटि",
+  "outbox.offline": "📴 आप ऑफ़लाइन हैं।",
+  "outbox.waiting": {
+    one: "📤 आउटबॉक्स में {count} अभियान इंतज़ार में है।",
+    other: "📤 आउटबॉक्स में {count} अभियान इंतज़ार में हैं।",
+  },
+  "outbox.waitingOffline": {
+    one: "आउटबॉक्स में {count} अभियान इंतज़ार में है — ऑनलाइन होते ही यह अपने आप भेजा जाएगा।",
+    other: "आउटबॉक्स में {count} अभियान इंतज़ार में हैं — ऑनलाइन होते ही ये अपने आप भेजे जाएँगे।",
+  },
+  "outbox.willWait": "अभी भेजे गए अभियान आपके ऑनलाइन होने तक आउटबॉक्स में रहेंगे।",
+  "outbox.sendNow": "अभी भेजें",
+
+  // History
+  "history.loading": "इतिहास लोड हो रहा है…",
+  "history.unavailable": "इस ब्राउज़र में अभियान इतिहास उपलब्ध नहीं है (IndexedDB बंद है)।",
+  "history.filterHoliday": "त्योहार से छाँटें",
+  "history.filterStatus": "स्थिति से छाँटें",
+  "history.allHolidays": "सभी त्योहार",
+  "history.allStatuses": "सभी स्थितियाँ",
+  "history.status.success": "सफल",
+  "history.status.failed": "विफल",
+  "history.status.pending": "बाकी",
+  "history.status.queued": "कतार में (ऑफ़लाइन)",
+  "history.empty": "अभी तक कोई अभियान नहीं भेजा गया।",
+  "history.noMatch": "इन फ़िल्टरों से कोई अभियान मेल नहीं खाता।",
+  "history.recipients": { one: "{count} प्राप्तकर्ता", other: "{count} प्राप्तकर्ता" },
+  "history.attempts": { one: "{count} प्रयास", other: "{count} प्रयास" },
+  "history.batch": "बैच {number} / {count}",
+  "history.mode.send": "सीधे भेजा गया",
+  "history.mode.send_drafts": "स्वीकृत ड्राफ़्ट भेजे गए",
+  "history.backend": "बैकएंड:",
+  "history.duplicate": "📋 फ़ॉर्म में कॉपी करें",
+  "history.retry": "🔁 फिर भेजें",
+  "history.retrying": "फिर भेजा जा रहा है…",
+
+  // Errors from the webhook
+  "errors.network": "ऑटोमेशन सर्वर तक नहीं पहुँच सके। क्या n8n चल रहा है?",
+  "errors.server": "सर्वर त्रुटि (HTTP {status})",
+  "errors.serverWithBody": "सर्वर त्रुटि (HTTP {status}): {body}",
+  "errors.structured": "{message} (HTTP {status})",
+  "errors.signInHint": "⚙️ सेटिंग्स में साइन इन करें।",
+
+  // Delivery adapters
+  "adapters.n8n": "n8n वर्कफ़्लो",
+  "adapters.n8nDescription": "अभियान को वैसे ही भेजता है; वर्कफ़्लो ईमेल लिखता और भेजता है। सभी सुविधाएँ समर्थित हैं।",
+  "adapters.catchHook": "Make / Zapier कैच हुक",
+  "adapters.catchHookDescription": "प्राप्तकर्ताओं की सूची के साथ एक सपाट JSON ऑब्जेक्ट भेजता है, जिसे सिनेरियो या Zap में मैप करना आसान है। ड्राफ़्ट का पूर्वावलोकन नहीं हो सकता।",
+  "adapters.generic": "सामान्य HTTP (JSON टेम्पलेट)",
+  "adapters.genericDescription": "आपके JSON टेम्पलेट को अभियान के फ़ील्ड से भरकर भेजता है। ड्राफ़्ट का पूर्वावलोकन नहीं हो सकता।",
+  "adapters.smtpRelay": "लोकल SMTP रिले",
+  "adapters.smtpRelayDescription": "हर प्राप्तकर्ता के लिए एक तैयार ईमेल भेजता है, जिसका टेक्स्ट व्यक्तिगत नोट होता है। पूर्वावलोकन या शेड्यूलिंग नहीं।",
+  "adapters.templateInvalid": "बॉडी टेम्पलेट मान्य JSON नहीं है: {error}",
+  "adapters.templateUnknownFields": "बॉडी टेम्पलेट अज्ञात फ़ील्ड का उपयोग करता है: {fields}",
+  "adapters.relayRejected": "SMTP रिले ने अस्वीकार किया।",
+
+  // Backend settings
+  "settings.intro":
+    "जिन बैकएंड के साथ आप काम करते हैं उन्हें सहेजें और बिना दोबारा बिल्ड किए उनके बीच बदलें। नए अनुरोध सक्रिय बैकएंड पर जाते हैं।",
+  "settings.use": "{name} इस्तेमाल करें",
+  "settings.profileName": "प्रोफ़ाइल का नाम",
+  "settings.newProfile": "बैकएंड {count}",
+  "settings.webhookUrl": "वेबहुक URL",
+  "settings.healthUrl": "हेल्थ URL",
+  "settings.healthUrlDefault": "डिफ़ॉल्ट रूप से वेबहुक होस्ट पर /healthz",
+  "settings.suppressionsUrl": "रोकी गई सूची URL",
+  "settings.capabilitiesUrl": "क्षमताएँ URL",
+  "settings.adapter": "डिलीवरी एडाप्टर",
+  "settings.bodyTemplate": "बॉडी टेम्पलेट",
+  "settings.bodyTemplateHint": "हर भेजने पर पोस्ट किया जाने वाला JSON। उपलब्ध फ़ील्ड: {fields}",
+  "settings.relaySubject": "ईमेल विषय",
+  "settings.relaySubjectHint": "{{holiday_name}} और {{sender_name}} का उपयोग कर सकते हैं।",
+  "settings.testEmail": "टेस्ट पता",
+  "settings.testEmailHint": "टेस्ट यहाँ भेजे जाते हैं, आमतौर पर आपका अपना पता। सेट होने पर अभियान केवल टेस्ट के बाद भेजे जा सकते हैं।",
+  "settings.testEmailInvalid": "मान्य ईमेल पता दर्ज करें।",
+  "settings.sendingLimits": "भेजने की सीमाएँ",
+  "settings.batchSize": "बैच का आकार",
+  "settings.batchDelay": "बैचों के बीच सेकंड",
+  "settings.dailyQuota": "दैनिक कोटा",
+  "settings.dailyQuotaNone": "कोई सीमा नहीं",
+  "settings.sentToday": { one: "आज इस बैकएंड से {count} प्राप्तकर्ता को भेजा गया।", other: "आज इस बैकएंड से {count} प्राप्तकर्ताओं को भेजा गया।" },
+  "settings.optional": "(वैकल्पिक)",
+  "settings.authHeader": "ऑथ हेडर",
+  "settings.authHeaderName": "ऑथ हेडर का नाम",
+  "settings.authHeaderValue": "ऑथ हेडर का मान",
+  "settings.authHeaderStorage": "इस ब्राउज़र के localStorage में सहेजा जाता है और इस बैकएंड के हर अनुरोध के साथ भेजा जाता है।",
+  "settings.urlRequired": "URL ज़रूरी है",
+  "settings.urlProtocol": "http(s) URL इस्तेमाल करें",
+  "settings.urlInvalid": "पूरा URL लिखें, जैसे https://example.com/webhook/holiday",
+  "settings.test": "🩺 कनेक्शन जाँचें",
+  "settings.add": "+ बैकएंड जोड़ें",
+
+  // Health
+  "health.title": "हेल्थ:",
+  "health.checkNow": "अभी जाँचें",
+  "health.active": "(सक्रिय)",
+  "health.checking": "जाँच हो रही है…",
+  "health.latency": "{ms} ms",
+  "health.coldStart": "कोल्ड स्टार्ट",
+  "health.opaque": "पहुँच योग्य (हेल्थ URL पर CORS नहीं)",
+  "health.waking": "जाग रहा है (HTTP {status})",
+  "health.httpError": "HTTP {status}",
+  "health.timeout": "{seconds} सेकंड में कोई जवाब नहीं",
+  "health.unreachable": "पहुँच से बाहर",
+  "health.noUrl": "कोई हेल्थ URL नहीं",
+
+  // Proxy sign-in
+  "signIn.title": "प्रॉक्सी साइन-इन",
+  "signIn.onlyProxy": "(सिर्फ़ प्रॉक्सी के पीछे वाले बैकएंड के लिए)",
+  "signIn.signedIn": "🔐 प्रॉक्सी में {username} के रूप में {expires} तक साइन इन हैं।",
+  "signIn.signOut": "साइन आउट",
+  "signIn.expired": "आपका सेशन समाप्त हो गया। भेजना जारी रखने के लिए फिर से साइन इन करें।",
+  "signIn.username": "यूज़रनेम",
+  "signIn.password": "पासवर्ड",
+  "signIn.usernameLabel": "प्रॉक्सी यूज़रनेम",
+  "signIn.passwordLabel": "प्रॉक्सी पासवर्ड",
+  "signIn.submit": "साइन इन",
+  "signIn.submitting": "साइन इन हो रहा है…",
+  "signIn.errorNoUrl": "पहले मान्य वेबहुक URL सेट करें।",
+  "signIn.errorNotFound": "इस बैकएंड में साइन-इन नहीं है (HTTP 404)। क्या यह प्रॉक्सी है?",
+  "signIn.errorUnexpected": "साइन-इन का जवाब अनपेक्षित है। क्या यह बैकएंड प्रॉक्सी है?",
+};
@@ -1,8 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { applyDocumentLocale } from './lib/i18n';
 import './index.css';
 
+// Set the document's lang and dir for the detected UI language
+applyDocumentLocale();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -7,5 +7,9 @@ export default defineConfig({
   server: {
     port: 3000,
     open: true,
+    fs: {
+      // Allow importing the webhook contract from ../shared
+      allow: ['..'],
+    },
   },
 });
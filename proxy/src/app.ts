@@ -0,0 +1,196 @@
+/**
+ * Express app for the proxy the frontend talks to instead of the webhook:
+ * - POST /auth/login:  exchange a username and password for a token
+ * - POST /webhook:     validate, rate-limit per user, sign and forward a
+ *                      payload to the real webhook
+ * - GET  /jobs/:id:    poll the status of a job started through the proxy
+ * - GET  /webhook/suppressions: bounces and unsubscribes reported by the
+ *                      webhook, for the frontend's suppression list
+ * - GET  /webhook/capabilities: languages, audiences, tones and features
+ *                      the webhook supports, for the frontend's form
+ * - GET  /healthz:     liveness, for the frontend's health indicator
+ */
+
+import cors from "cors";
+import express, { NextFunction, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import {
+  LoginRequest,
+  SendResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  validateWebhookPayload,
+} from "../../shared/schema";
+import { issueToken, requireAuth } from "./auth";
+import { Config } from "./config";
+import { UpstreamError, UpstreamResponse, forward } from "./forward";
+import { createJobRegistry } from "./jobs";
+import { authenticate } from "./users";
+
+/** Request header carrying the frontend's idempotency key, passed on as-is. */
+const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+/** Window for counting failed logins per IP address. */
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+export function createApp(config: Config) {
+  const app = express();
+  const jobs = createJobRegistry();
+
+  app.set("trust proxy", config.trustProxy);
+  app.use(
+    cors({
+      origin: config.corsOrigin,
+      exposedHeaders: ["Retry-After", "Idempotent-Replayed", "RateLimit", "RateLimit-Policy"],
+    })
+  );
+  // Room for a holiday card image (see MAX_ATTACHMENT_BYTES in shared/schema.ts)
+  app.use(express.json({ limit: "2mb" }));
+
+  const loginLimiter = rateLimit({
+    windowMs: LOGIN_WINDOW_MS,
+    limit: config.loginLimitMax,
+    skipSuccessfulRequests: true,
+    standardHeaders: "draft-7",
+    legacyHeaders: false,
+    message: createErrorResponse("rate_limited", "Too many failed sign-in attempts. Try again later."),
+  });
+
+  // Runs after requireAuth, so requests are counted per user
+  const sendLimiter = rateLimit({
+    windowMs: config.rateLimitWindowMs,
+    limit: config.rateLimitMax,
+    keyGenerator: (_req, res) => res.locals.username,
+    standardHeaders: "draft-7",
+    legacyHeaders: false,
+    message: createErrorResponse("rate_limited", "Too many requests. Wait a moment and try again."),
+  });
+
+  /**
+   * Replaces the webhook's job URLs in a send response with the proxy's.
+   * Streaming is dropped: EventSource can't send the Authorization header,
+   * so the frontend polls the status URL instead.
+   */
+  const proxyJobUrls = (upstream: UpstreamResponse, username: string): string => {
+    if (upstream.status < 200 || upstream.status >= 300) return upstream.body;
+
+    let body: SendResponse;
+    try {
+      body = JSON.parse(upstream.body);
+    } catch {
+      return upstream.body;
+    }
+    if (body === null || typeof body !== "object" || body.job_id === undefined) return upstream.body;
+
+    const jobId = String(body.job_id);
+    if (body.status_url) {
+      jobs.register(jobId, new URL(body.status_url, config.webhookUrl).toString(), username);
+      body.status_url = `/jobs/${encodeURIComponent(jobId)}`;
+    }
+    delete body.events_url;
+    return JSON.stringify(body);
+  };
+
+  /**
+   * Sends the webhook's answer back, or a 502/504 when it couldn't be reached.
+   */
+  const relay = (res: Response, next: NextFunction, error: unknown) => {
+    if (error instanceof UpstreamError) {
+      res.status(error.timedOut ? 504 : 502).json(createErrorResponse("upstream_error", error.message));
+      return;
+    }
+    next(error);
+  };
+
+  app.post("/auth/login", loginLimiter, (req: Request, res: Response) => {
+    const { username, password } = (req.body ?? {}) as Partial<LoginRequest>;
+    if (typeof username !== "string" || !username || typeof password !== "string" || !password) {
+      res.status(400).json(
+        createErrorResponse("invalid_payload", "Enter a username and password.", {
+          ...((typeof username !== "string" || !username) && { username: "Required" }),
+          ...((typeof password !== "string" || !password) && { password: "Required" }),
+        })
+      );
+      return;
+    }
+
+    const user = authenticate(config.users, username, password);
+    if (!user) {
+      console.log(`🔒 Failed sign-in for "${username}" from ${req.ip}`);
+      res.status(401).json(createErrorResponse("unauthorized", "Invalid username or password."));
+      return;
+    }
+
+    console.log(`🔑 ${user.username} signed in`);
+    res.json(issueToken(config, user.username));
+  });
+
+  app.post("/webhook", requireAuth(config), sendLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    const result = validateWebhookPayload(req.body);
+    if (!result.ok) {
+      res.status(400).json(createValidationErrorResponse(result.errors));
+      return;
+    }
+
+    const username: string = res.locals.username;
+    const idempotencyKey = req.get(IDEMPOTENCY_HEADER);
+    console.log(`📨 ${username}: ${result.value.mode} for ${result.value.holiday_name}`);
+
+    try {
+      const upstream = await forward(config, config.webhookUrl, {
+        method: "POST",
+        username,
+        body: JSON.stringify(req.body),
+        headers: idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : undefined,
+      });
+      res.status(upstream.status).set(upstream.headers).send(proxyJobUrls(upstream, username));
+    } catch (error) {
+      relay(res, next, error);
+    }
+  });
+
+  app.get("/webhook/suppressions", requireAuth(config), async (req: Request, res: Response, next: NextFunction) => {
+    const url = new URL(`${config.webhookUrl.replace(/\/+$/, "")}/suppressions`);
+    if (typeof req.query.since === "string") url.searchParams.set("since", req.query.since);
+
+    try {
+      const upstream = await forward(config, url.toString(), { method: "GET", username: res.locals.username });
+      res.status(upstream.status).set(upstream.headers).send(upstream.body);
+    } catch (error) {
+      relay(res, next, error);
+    }
+  });
+
+  app.get("/webhook/capabilities", requireAuth(config), async (_req: Request, res: Response, next: NextFunction) => {
+    const url = `${config.webhookUrl.replace(/\/+$/, "")}/capabilities`;
+
+    try {
+      const upstream = await forward(config, url, { method: "GET", username: res.locals.username });
+      res.status(upstream.status).set(upstream.headers).send(upstream.body);
+    } catch (error) {
+      relay(res, next, error);
+    }
+  });
+
+  app.get("/jobs/:id", requireAuth(config), async (req: Request, res: Response, next: NextFunction) => {
+    const username: string = res.locals.username;
+    const statusUrl = jobs.get(req.params.id, username);
+    if (!statusUrl) {
+      res.status(404).json(createErrorResponse("not_found", "Unknown job."));
+      return;
+    }
+
+    try {
+      const upstream = await forward(config, statusUrl, { method: "GET", username });
+      res.status(upstream.status).set(upstream.headers).send(upstream.body);
+    } catch (error) {
+      relay(res, next, error);
+    }
+  });
+
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  return app;
+}
@@ -0,0 +1,54 @@
+/**
+ * Login tokens.
+ *
+ * A successful login returns a signed JWT (see LoginResponse in
+ * shared/schema.ts) that the frontend sends as `Authorization: Bearer
+ * <token>`. Tokens are stateless: they expire after TOKEN_TTL, and
+ * changing JWT_SECRET revokes all of them.
+ */
+
+import { NextFunction, Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { LoginResponse, createErrorResponse } from "../../shared/schema";
+import { Config } from "./config";
+
+/**
+ * Issues a token for a user.
+ */
+export function issueToken(config: Config, username: string): LoginResponse {
+  const token = jwt.sign({ sub: username }, config.jwtSecret, {
+    expiresIn: config.tokenTtl as jwt.SignOptions["expiresIn"],
+  });
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+  return {
+    token,
+    token_type: "Bearer",
+    username,
+    expires_at: new Date(exp! * 1000).toISOString(),
+  };
+}
+
+/**
+ * Middleware rejecting requests without a valid token with 401. The
+ * user's name is available as `res.locals.username` afterwards.
+ */
+export function requireAuth(config: Config) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const [scheme, token] = (req.get("Authorization") ?? "").split(" ");
+    if (scheme !== "Bearer" || !token) {
+      res.status(401).json(createErrorResponse("unauthorized", "Sign in to send emails."));
+      return;
+    }
+
+    try {
+      const { sub } = jwt.verify(token, config.jwtSecret) as jwt.JwtPayload;
+      if (!sub || !config.users.some((user) => user.username === sub)) {
+        throw new Error("Unknown user");
+      }
+      res.locals.username = sub;
+      next();
+    } catch {
+      res.status(401).json(createErrorResponse("unauthorized", "Your session has expired. Sign in again."));
+    }
+  };
+}
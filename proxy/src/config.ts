@@ -0,0 +1,75 @@
+/**
+ * Configuration for the proxy.
+ *
+ * All settings come from environment variables (a `.env` file in `proxy/`
+ * is loaded automatically). The webhook URL and the secrets are required
+ * and only ever live here: the browser talks to the proxy and never sees
+ * them.
+ */
+
+import "dotenv/config";
+import { User, parseUsers } from "./users";
+
+export interface Config {
+  /** Port to listen on */
+  port: number;
+  /** Allowed CORS origin(s); "*" allows any */
+  corsOrigin: string;
+  /** Number of reverse proxies in front of this server (for client IPs in rate limits) */
+  trustProxy: number;
+  /** Real webhook URL (n8n) requests are forwarded to */
+  webhookUrl: string;
+  /** Secret shared with the webhook for HMAC request signatures */
+  webhookSecret: string;
+  /** Secret used to sign login tokens */
+  jwtSecret: string;
+  /** Lifetime of login tokens, e.g. "8h" */
+  tokenTtl: string;
+  /** Users allowed to log in */
+  users: User[];
+  /** Rate limit window for webhook requests, per user */
+  rateLimitWindowMs: number;
+  /** Webhook requests allowed per user and window */
+  rateLimitMax: number;
+  /** Failed login attempts allowed per IP address and window */
+  loginLimitMax: number;
+  /** How long to wait for the webhook before giving up */
+  upstreamTimeoutMs: number;
+}
+
+/**
+ * Reads a number from the environment, falling back to a default.
+ */
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Reads the configuration from the environment. Throws when a required
+ * setting is missing, so a misconfigured proxy fails at startup instead
+ * of forwarding unsigned or unauthenticated requests.
+ */
+export function loadConfig(): Config {
+  const missing = ["WEBHOOK_URL", "WEBHOOK_SECRET", "JWT_SECRET", "PROXY_USERS"].filter(
+    (name) => !process.env[name]?.trim()
+  );
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(", ")} (see .env.example)`);
+  }
+
+  return {
+    port: numberFromEnv("PORT", 8787),
+    corsOrigin: process.env.CORS_ORIGIN || "http://localhost:3000",
+    trustProxy: numberFromEnv("TRUST_PROXY", 0),
+    webhookUrl: process.env.WEBHOOK_URL!.trim(),
+    webhookSecret: process.env.WEBHOOK_SECRET!,
+    jwtSecret: process.env.JWT_SECRET!,
+    tokenTtl: process.env.TOKEN_TTL || "8h",
+    users: parseUsers(process.env.PROXY_USERS!),
+    rateLimitWindowMs: numberFromEnv("RATE_LIMIT_WINDOW_MS", 60000),
+    rateLimitMax: numberFromEnv("RATE_LIMIT_MAX", 10),
+    loginLimitMax: numberFromEnv("LOGIN_LIMIT_MAX", 10),
+    upstreamTimeoutMs: numberFromEnv("UPSTREAM_TIMEOUT_MS", 120000),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Forwarding to the real webhook.
+ *
+ * Every forwarded request is signed (see shared/signature.ts) and names
+ * the user it was made for, so the workflow can verify it came through
+ * the proxy and log who sent it.
+ */
+
+import { signRequest } from "../../shared/signature";
+import { Config } from "./config";
+
+/** Header naming the proxy user a request was made for. */
+export const USER_HEADER = "X-Holiday-User";
+
+/** Upstream response headers passed back to the browser. */
+const PASSTHROUGH_HEADERS = ["Content-Type", "Retry-After", "Idempotent-Replayed"];
+
+/**
+ * The webhook's answer, ready to send back to the browser.
+ */
+export interface UpstreamResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Thrown when the webhook can't be reached or doesn't answer in time.
+ */
+export class UpstreamError extends Error {
+  constructor(message: string, readonly timedOut: boolean) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+/**
+ * Sends a signed request to the webhook (or one of its job URLs).
+ */
+export async function forward(
+  config: Config,
+  url: string,
+  options: { method: "GET" | "POST"; username: string; body?: string; headers?: Record<string, string> }
+): Promise<UpstreamResponse> {
+  const body = options.body ?? "";
+
+  let response: Response;
+  let responseBody: string;
+  try {
+    response = await fetch(url, {
+      method: options.method,
+      headers: {
+        ...(options.method === "POST" && { "Content-Type": "application/json" }),
+        Accept: "application/json",
+        ...options.headers,
+        ...signRequest(config.webhookSecret, body),
+        [USER_HEADER]: options.username,
+      },
+      body: options.method === "POST" ? body : undefined,
+      signal: AbortSignal.timeout(config.upstreamTimeoutMs),
+    });
+    responseBody = await response.text();
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+    throw new UpstreamError(
+      timedOut ? "The email service did not answer in time." : "The email service is unreachable.",
+      timedOut
+    );
+  }
+
+  const headers: Record<string, string> = {};
+  for (const name of PASSTHROUGH_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  }
+  return { status: response.status, headers, body: responseBody };
+}
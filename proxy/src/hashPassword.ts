@@ -0,0 +1,15 @@
+/**
+ * Prints a password hash for PROXY_USERS:
+ *
+ *   npm run hash-password -- 'correct horse battery staple'
+ */
+
+import { hashPassword } from "./users";
+
+const password = process.argv[2];
+if (!password) {
+  console.error("Usage: npm run hash-password -- <password>");
+  process.exit(1);
+}
+
+console.log(hashPassword(password));
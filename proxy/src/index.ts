@@ -0,0 +1,15 @@
+/**
+ * Entry point of the proxy.
+ */
+
+import { createApp } from "./app";
+import { loadConfig } from "./config";
+
+const config = loadConfig();
+
+createApp(config).listen(config.port, () => {
+  const base = `http://localhost:${config.port}`;
+  console.log(`🔐 Holiday email proxy running`);
+  console.log(`   Webhook: POST ${base}/webhook → ${new URL(config.webhookUrl).origin}`);
+  console.log(`   Login:   POST ${base}/auth/login (${config.users.length} user(s))`);
+});
@@ -0,0 +1,42 @@
+/**
+ * Job status URLs behind the proxy.
+ *
+ * When the webhook answers with a job to track, its status URL points at
+ * the webhook's host. The proxy remembers that URL and hands the browser
+ * `/jobs/<id>` on the proxy instead, so the webhook's address never
+ * reaches the browser. Only the user who started a job can poll it.
+ */
+
+/** How long job URLs are remembered. */
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+interface RegisteredJob {
+  statusUrl: string;
+  username: string;
+  expiresAt: number;
+}
+
+export interface JobRegistry {
+  register(jobId: string, statusUrl: string, username: string): void;
+  /** Returns the webhook's status URL for a job the user started */
+  get(jobId: string, username: string): string | undefined;
+}
+
+export function createJobRegistry(ttlMs = TTL_MS): JobRegistry {
+  const jobs = new Map<string, RegisteredJob>();
+
+  return {
+    register(jobId, statusUrl, username) {
+      const now = Date.now();
+      for (const [id, job] of jobs) {
+        if (job.expiresAt < now) jobs.delete(id);
+      }
+      jobs.set(jobId, { statusUrl, username, expiresAt: now + ttlMs });
+    },
+
+    get(jobId, username) {
+      const job = jobs.get(jobId);
+      return job && job.username === username && job.expiresAt >= Date.now() ? job.statusUrl : undefined;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Proxy users and password hashing.
+ *
+ * Users are configured in PROXY_USERS as comma-separated
+ * `username:passwordHash` entries. Hashes use scrypt with a random salt,
+ * formatted as `scrypt:<salt hex>:<hash hex>`; generate one with
+ * `npm run hash-password -- <password>`.
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+export interface User {
+  username: string;
+  passwordHash: string;
+}
+
+const KEY_LENGTH = 32;
+
+/**
+ * Hashes a password for PROXY_USERS.
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `scrypt:${salt.toString("hex")}:${scryptSync(password, salt, KEY_LENGTH).toString("hex")}`;
+}
+
+/**
+ * Checks a password against a hash from hashPassword.
+ */
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [scheme, salt, hash] = passwordHash.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, Buffer.from(salt, "hex"), expected.length || KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Parses PROXY_USERS. Throws on malformed entries so typos surface at
+ * startup.
+ */
+export function parseUsers(value: string): User[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      const username = entry.slice(0, separator).trim();
+      const passwordHash = entry.slice(separator + 1).trim();
+      if (separator <= 0 || !passwordHash.startsWith("scrypt:")) {
+        throw new Error(`Invalid PROXY_USERS entry #${index + 1}: expected username:scrypt:<salt>:<hash>`);
+      }
+      return { username, passwordHash };
+    });
+}
+
+/** Hash checked for unknown users, so a login takes as long whether or not the user exists. */
+const DUMMY_HASH = hashPassword(randomBytes(16).toString("hex"));
+
+/**
+ * Returns the user when the credentials are valid.
+ */
+export function authenticate(users: User[], username: string, password: string): User | null {
+  const user = users.find((u) => u.username === username);
+  const valid = verifyPassword(password, user?.passwordHash ?? DUMMY_HASH);
+  return user && valid ? user : null;
+}
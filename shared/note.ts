@@ -0,0 +1,105 @@
+/**
+ * Personal notes with merge fields.
+ *
+ * A campaign's `note` is included word for word in every email, with
+ * `{{field}}` placeholders filled in from the recipient's details:
+ * `{{first_name}}`, `{{last_name}}`, `{{company}}`, `{{email}}`, or any
+ * other column of the imported contacts (`{{project}}`). Field names are
+ * case-insensitive and may be surrounded by spaces (`{{ First_Name }}`).
+ *
+ * Imported by the frontend (to check and preview notes) and by the mock
+ * backend (to render them), so keep it free of dependencies.
+ */
+
+import { MERGE_FIELD_NAME_PATTERN, RecipientDetail } from "./schema";
+
+/** Merge fields every recipient can have, from RecipientDetail. */
+export const STANDARD_MERGE_FIELDS: readonly string[] = ["first_name", "last_name", "company", "email"];
+
+/**
+ * A piece of a parsed note: literal text, or a placeholder with its
+ * (lowercased) field name.
+ */
+export type NoteSegment = { type: "text"; text: string } | { type: "field"; name: string };
+
+/**
+ * A note split into text and placeholders.
+ */
+export interface ParsedNote {
+  segments: NoteSegment[];
+  /** Field names used by the placeholders, without duplicates */
+  fields: string[];
+  /** Placeholders that aren't a valid field name, or a `{{` without `}}`, as written */
+  malformed: string[];
+}
+
+const PLACEHOLDER = /\{\{([^{}]*)\}\}/g;
+
+/**
+ * Splits a note into text and placeholders.
+ */
+export function parseNote(note: string): ParsedNote {
+  const segments: NoteSegment[] = [];
+  const fields = new Set<string>();
+  const malformed: string[] = [];
+  let text = "";
+  let last = 0;
+
+  for (const match of note.matchAll(PLACEHOLDER)) {
+    text += note.slice(last, match.index);
+    last = match.index! + match[0].length;
+
+    const name = match[1].trim().toLowerCase();
+    if (!MERGE_FIELD_NAME_PATTERN.test(name)) {
+      malformed.push(match[0]);
+      text += match[0];
+      continue;
+    }
+    if (text) segments.push({ type: "text", text });
+    text = "";
+    segments.push({ type: "field", name });
+    fields.add(name);
+  }
+  text += note.slice(last);
+  if (text) segments.push({ type: "text", text });
+
+  // Braces left over once the placeholders are taken out, e.g. "{{name}"
+  const unmatched = note.replace(PLACEHOLDER, "").match(/\{\{|\}\}/g) ?? [];
+  malformed.push(...new Set(unmatched));
+
+  return { segments, fields: [...fields], malformed };
+}
+
+/**
+ * Turns a column header into a merge field name, e.g. "Project Name" →
+ * "project_name". Returns an empty string when nothing usable is left.
+ */
+export function toMergeFieldName(header: string): string {
+  const name = header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[_0-9]+|_+$/g, "");
+  return MERGE_FIELD_NAME_PATTERN.test(name) ? name : "";
+}
+
+/**
+ * Returns the merge field values of a recipient: the standard fields and
+ * the imported columns. Fields without a value are left out.
+ */
+export function getMergeValues(email: string, detail?: RecipientDetail): Record<string, string> {
+  const values: Record<string, string> = { ...detail?.fields, email };
+  if (detail?.first_name) values.first_name = detail.first_name;
+  if (detail?.last_name) values.last_name = detail.last_name;
+  if (detail?.company) values.company = detail.company;
+  return values;
+}
+
+/**
+ * Fills in a note's placeholders; fields without a value become empty.
+ */
+export function renderNote(note: string, values: Record<string, string>): string {
+  return parseNote(note)
+    .segments.map((segment) => (segment.type === "text" ? segment.text : values[segment.name] ?? ""))
+    .join("");
+}
@@ -0,0 +1,736 @@
+/**
+ * Shared webhook contract for the Holiday Email Orchestrator.
+ *
+ * Types and runtime validators for the request payload, the success
+ * responses and the structured error format. Imported by the frontend
+ * and by TypeScript backends (see backend/), so keep this module free of
+ * dependencies and of browser- or Node-specific APIs.
+ *
+ * VERSIONING:
+ * Every payload carries `schema_version`. Bump SCHEMA_VERSION for breaking
+ * changes only (renamed/removed fields or changed meaning); new optional
+ * fields don't need a bump. Backends should reject versions newer than
+ * they understand with the `unsupported_schema_version` error code and
+ * treat a missing version as 1 (clients from before versioning).
+ *
+ * Version 2 replaced the flat `recipients`, `audience_type`, `language`
+ * and `tone` fields with a list of recipient groups. `validateWebhookPayload`
+ * upgrades version 1 payloads to a single group, so backends built on this
+ * module only handle the current shape.
+ */
+
+/** Current version of the payload schema. */
+export const SCHEMA_VERSION = 2;
+
+// ============================================================
+// Request
+// ============================================================
+
+/**
+ * What the webhook should do with a request:
+ * - send: generate and send emails right away
+ * - preview: generate drafts and return them without sending
+ * - send_drafts: send the approved drafts as-is (and generate for any
+ *   recipients that weren't part of the preview sample)
+ */
+export type WebhookMode = "send" | "preview" | "send_drafts";
+
+export const WEBHOOK_MODES: readonly WebhookMode[] = ["send", "preview", "send_drafts"];
+
+/**
+ * Extra data about a single recipient, sent alongside the groups.
+ */
+export interface RecipientDetail {
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  /**
+   * Other columns of the imported contact (e.g. `project`), for the note's
+   * merge fields; names match MERGE_FIELD_NAME_PATTERN
+   */
+  fields?: Record<string, string>;
+}
+
+/**
+ * An approved draft sent back with mode "send_drafts".
+ */
+export interface PayloadDraft {
+  recipient: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Delivery time for a recipient who gets the email in their own timezone.
+ */
+export interface RecipientSchedule {
+  email: string;
+  timezone: string;
+  send_at: string;
+}
+
+/** Maximum length of the personal note, in characters. */
+export const MAX_NOTE_LENGTH = 500;
+
+/** Names of merge fields: lowercase letters, digits and underscores. */
+export const MERGE_FIELD_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/** Prefix backends add to the subject of emails sent by a test send. */
+export const TEST_SUBJECT_PREFIX = "[TEST] ";
+
+/** Image types accepted for the holiday card attachment. */
+export const ATTACHMENT_CONTENT_TYPES: readonly string[] = ["image/jpeg", "image/png", "image/webp"];
+
+/** Maximum size of the holiday card attachment, in bytes (before base64). */
+export const MAX_ATTACHMENT_BYTES = 512 * 1024;
+
+/**
+ * Holiday card image attached to (or inlined in) every email.
+ */
+export interface PayloadAttachment {
+  filename: string;
+  /** One of ATTACHMENT_CONTENT_TYPES */
+  content_type: string;
+  /** Image bytes, base64-encoded (no `data:` prefix) */
+  data: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Recipients who get their email with the same audience, language and
+ * tone, e.g. business clients in English and family in Hindi.
+ */
+export interface RecipientGroup {
+  /** Label for the group, e.g. "Clients" */
+  name?: string;
+  audience_type: string;
+  language: string;
+  tone: string;
+  /** Recipient addresses; each address belongs to one group only */
+  recipients: string[];
+}
+
+/**
+ * The payload POSTed to the webhook.
+ */
+export interface WebhookPayload {
+  /** Version of this schema the payload was built against */
+  schema_version: number;
+  mode: WebhookMode;
+  holiday_name: string;
+  sender_name: string;
+  /** Recipient groups; a campaign has at least one */
+  groups: RecipientGroup[];
+  /** Optional per-recipient details for contacts imported from a file */
+  recipient_details?: RecipientDetail[];
+  /** Approved drafts, only sent with mode "send_drafts" */
+  drafts?: PayloadDraft[];
+  /** Scheduled delivery time as a UTC ISO 8601 instant; omitted to send now */
+  send_at?: string;
+  /** IANA timezone the schedule was chosen in */
+  timezone?: string;
+  /** Per-recipient delivery times for recipients with their own timezone */
+  recipient_schedule?: RecipientSchedule[];
+  /** Optional holiday card image for every email */
+  attachment?: PayloadAttachment;
+  /**
+   * Personal note to include in every email, word for word, with
+   * `{{field}}` placeholders filled in from the recipient's details
+   * (see shared/note.ts)
+   */
+  note?: string;
+  /**
+   * Marks a test send: the recipients are the sender's own test address,
+   * and subjects should start with TEST_SUBJECT_PREFIX
+   */
+  test?: boolean;
+}
+
+/**
+ * A version 1 payload: one set of recipients sharing the audience,
+ * language and tone. Still accepted (see `upgradePayload`).
+ */
+export interface LegacyWebhookPayload extends Omit<WebhookPayload, "groups"> {
+  tone: string;
+  audience_type: string;
+  language: string;
+  /** Recipient addresses separated by commas or newlines (the raw textarea) */
+  recipients: string;
+}
+
+/**
+ * Converts a version 1 payload to the current shape, with its recipients
+ * in a single group. Current payloads are returned unchanged.
+ */
+export function upgradePayload(payload: WebhookPayload | LegacyWebhookPayload): WebhookPayload {
+  if ("groups" in payload) return payload;
+
+  const { tone, audience_type, language, recipients, ...rest } = payload;
+  return {
+    ...rest,
+    schema_version: SCHEMA_VERSION,
+    groups: [
+      {
+        audience_type,
+        language,
+        tone,
+        recipients: recipients
+          .split(/[,\n]+/)
+          .map((email) => email.trim())
+          .filter(Boolean),
+      },
+    ],
+  };
+}
+
+/**
+ * Returns every recipient of a payload with the group it belongs to, in
+ * group order.
+ */
+export function listPayloadRecipients(payload: WebhookPayload): { email: string; group: RecipientGroup }[] {
+  return payload.groups.flatMap((group) => group.recipients.map((email) => ({ email, group })));
+}
+
+// ============================================================
+// Success responses
+// ============================================================
+
+/**
+ * Response to "send" and "send_drafts". All fields are optional: an empty
+ * 2xx body is a valid (fire-and-forget) answer. A `job_id` with a
+ * `status_url` and/or `events_url` lets the client follow delivery;
+ * `results` reports the outcome of each recipient right away.
+ */
+export interface SendResponse {
+  ok?: boolean;
+  /** Number of emails accepted */
+  accepted?: number;
+  job_id?: string | number;
+  status_url?: string;
+  events_url?: string;
+  poll_interval_ms?: number;
+  results?: SendResult[];
+}
+
+/**
+ * Outcome of one recipient of a send, as reported in the response.
+ */
+export interface SendResult {
+  email: string;
+  status: RecipientDeliveryStatus;
+  /** Subject of the generated email */
+  subject?: string;
+  /** Reason for a bounce or failure */
+  error?: string;
+}
+
+/**
+ * Response to "preview".
+ */
+export interface PreviewResponse {
+  drafts: { id?: string | number; recipient: string; subject: string; body: string }[];
+}
+
+/** Overall state of a job. */
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export const JOB_STATUSES: readonly JobStatus[] = ["queued", "running", "completed", "failed"];
+
+/** Delivery state of a single recipient within a job. */
+export type RecipientDeliveryStatus = "pending" | "generated" | "sent" | "bounced" | "failed";
+
+export const RECIPIENT_DELIVERY_STATUSES: readonly RecipientDeliveryStatus[] = [
+  "pending",
+  "generated",
+  "sent",
+  "bounced",
+  "failed",
+];
+
+/**
+ * Body returned by a job's status URL and by each event of its stream.
+ */
+export interface JobStatusResponse {
+  job_id: string;
+  status: JobStatus;
+  recipients: { email: string; status: RecipientDeliveryStatus; error?: string }[];
+  /** Job-level error, e.g. when generation failed for everyone */
+  error?: string;
+}
+
+// ============================================================
+// Suppressions
+// ============================================================
+
+/** Why an address must not be emailed again. */
+export type SuppressionReason = "unsubscribed" | "bounced" | "complained" | "manual";
+
+export const SUPPRESSION_REASONS: readonly SuppressionReason[] = ["unsubscribed", "bounced", "complained", "manual"];
+
+/**
+ * An address a backend reports as not to be emailed again.
+ */
+export interface ReportedSuppression {
+  email: string;
+  reason: SuppressionReason;
+  /** When the unsubscribe or bounce happened (ISO 8601) */
+  reported_at: string;
+  /** Details, e.g. the bounce message */
+  note?: string;
+}
+
+/**
+ * Body returned by a backend's suppressions URL (by default the webhook
+ * URL followed by `/suppressions`). A `since` query parameter (ISO 8601)
+ * asks for reports after that time only.
+ */
+export interface SuppressionsResponse {
+  suppressions: ReportedSuppression[];
+}
+
+// ============================================================
+// Capabilities
+// ============================================================
+
+/** Optional features a backend can turn off in its capabilities. */
+export type CapabilityFeature = "preview" | "attachments" | "scheduling" | "note";
+
+export const CAPABILITY_FEATURES: readonly CapabilityFeature[] = ["preview", "attachments", "scheduling", "note"];
+
+/**
+ * Body returned by a backend's capabilities URL (by default the webhook
+ * URL followed by `/capabilities`): what the frontend offers in its
+ * selects and checks before sending.
+ */
+export interface CapabilitiesResponse {
+  /** Email languages: code (e.g. "es") and the language's own name */
+  languages: { code: string; label: string }[];
+  /** Audience types, e.g. "family", with an English label for the UI */
+  audiences: { value: string; label: string }[];
+  /** Tones suggested in the form; any other tone is still allowed */
+  tones?: string[];
+  /** Most recipients a campaign may have */
+  max_recipients?: number;
+  /** Features the backend supports; unlisted ones count as supported */
+  features?: Partial<Record<CapabilityFeature, boolean>>;
+}
+
+// ============================================================
+// Proxy authentication
+// ============================================================
+
+/**
+ * Body of `POST /auth/login` on the proxy (see proxy/).
+ */
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+/**
+ * Response to a successful login. The token is sent as
+ * `Authorization: Bearer <token>` with every request to the proxy.
+ */
+export interface LoginResponse {
+  token: string;
+  token_type: "Bearer";
+  username: string;
+  /** ISO 8601 expiry of the token */
+  expires_at: string;
+}
+
+// ============================================================
+// Errors
+// ============================================================
+
+/**
+ * Machine-readable error codes. Backends may use other codes; clients
+ * should fall back to the message for codes they don't know.
+ */
+export type ErrorCode =
+  | "invalid_payload"
+  | "unsupported_schema_version"
+  | "unauthorized"
+  | "invalid_signature"
+  | "rate_limited"
+  | "upstream_error"
+  | "not_found"
+  | "internal_error"
+  | (string & {});
+
+/**
+ * Structured error body for non-2xx responses.
+ * `field_errors` is keyed by payload field, using dots for nested fields
+ * (e.g. "recipient_schedule.0.timezone").
+ */
+export interface ErrorResponse {
+  error: {
+    code: ErrorCode;
+    message: string;
+    field_errors?: Record<string, string>;
+  };
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * Result of validating untrusted input. Errors are keyed like
+ * `ErrorResponse.field_errors`.
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: Record<string, string> };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIsoInstant(value: unknown): boolean {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Validates an array of objects field by field, recording errors under
+ * "<key>.<index>.<field>".
+ */
+function checkObjectArray(
+  data: Record<string, unknown>,
+  key: string,
+  errors: Record<string, string>,
+  checkItem: (item: Record<string, unknown>) => Record<string, string>
+) {
+  const value = data[key];
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors[key] = "Must be a list.";
+    return;
+  }
+  value.forEach((item, index) => {
+    if (!isRecord(item)) {
+      errors[`${key}.${index}`] = "Must be an object.";
+      return;
+    }
+    Object.entries(checkItem(item)).forEach(([field, message]) => {
+      errors[`${key}.${index}.${field}`] = message;
+    });
+  });
+}
+
+/**
+ * Returns errors for fields of `item` that aren't strings (or are empty,
+ * for `required` fields).
+ */
+function checkStrings(item: Record<string, unknown>, required: string[], optional: string[] = []) {
+  const errors: Record<string, string> = {};
+  required.forEach((field) => {
+    if (typeof item[field] !== "string" || !(item[field] as string).trim()) {
+      errors[field] = "Required.";
+    }
+  });
+  optional.forEach((field) => {
+    if (item[field] !== undefined && typeof item[field] !== "string") {
+      errors[field] = "Must be text.";
+    }
+  });
+  return errors;
+}
+
+/**
+ * Returns the decoded size of base64 data in bytes.
+ */
+export function getBase64Size(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * Validates the optional attachment: a supported image type with base64
+ * data no larger than MAX_ATTACHMENT_BYTES.
+ */
+function checkAttachment(data: Record<string, unknown>, errors: Record<string, string>) {
+  const attachment = data.attachment;
+  if (attachment === undefined) return;
+  if (!isRecord(attachment)) {
+    errors.attachment = "Must be an object.";
+    return;
+  }
+
+  const prefix = (field: string) => `attachment.${field}`;
+  Object.entries(checkStrings(attachment, ["filename", "content_type", "data"])).forEach(([field, message]) => {
+    errors[prefix(field)] = message;
+  });
+  if (typeof attachment.content_type === "string" && !ATTACHMENT_CONTENT_TYPES.includes(attachment.content_type)) {
+    errors[prefix("content_type")] = `Must be one of: ${ATTACHMENT_CONTENT_TYPES.join(", ")}.`;
+  }
+  if (typeof attachment.data === "string" && attachment.data) {
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(attachment.data)) {
+      errors[prefix("data")] = "Must be base64-encoded.";
+    } else if (getBase64Size(attachment.data) > MAX_ATTACHMENT_BYTES) {
+      errors[prefix("data")] = `Must be at most ${MAX_ATTACHMENT_BYTES / 1024} KB.`;
+    }
+  }
+  (["width", "height"] as const).forEach((field) => {
+    const value = attachment[field];
+    if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 1)) {
+      errors[prefix(field)] = "Must be a positive integer.";
+    }
+  });
+}
+
+/**
+ * Validates the recipient groups: at least one group, each with at least
+ * one address, and no address in more than one group.
+ */
+function checkGroups(data: Record<string, unknown>, errors: Record<string, string>) {
+  if (!Array.isArray(data.groups) || data.groups.length === 0) {
+    errors.groups = "Must be a list with at least one group.";
+    return;
+  }
+
+  // Lowercased address -> number of the group it was first seen in
+  const seen = new Map<string, number>();
+  let groupNumber = 0;
+  checkObjectArray(data, "groups", errors, (group) => {
+    groupNumber++;
+    const groupErrors = checkStrings(group, ["audience_type", "language"], ["name", "tone"]);
+    const recipients = group.recipients;
+    if (!Array.isArray(recipients) || recipients.length === 0) {
+      groupErrors.recipients = "Must be a list with at least one address.";
+    } else if (!recipients.every((email) => typeof email === "string" && email.trim())) {
+      groupErrors.recipients = "Every address must be non-empty text.";
+    } else {
+      for (const email of recipients as string[]) {
+        const key = email.trim().toLowerCase();
+        const other = seen.get(key) ?? groupNumber;
+        if (other !== groupNumber) {
+          groupErrors.recipients = `${email} is already in group ${other}.`;
+          break;
+        }
+        seen.set(key, groupNumber);
+      }
+    }
+    return groupErrors;
+  });
+}
+
+/**
+ * Validates a webhook payload received from an untrusted source.
+ * A missing `schema_version` is treated as 1; version 1 payloads are
+ * upgraded to the current shape (see `upgradePayload`).
+ */
+export function validateWebhookPayload(input: unknown): ValidationResult<WebhookPayload> {
+  if (!isRecord(input)) {
+    return { ok: false, errors: { body: "The request body must be a JSON object." } };
+  }
+
+  const errors: Record<string, string> = checkStrings(input, ["holiday_name", "sender_name"], ["timezone"]);
+
+  const version = input.schema_version ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    errors.schema_version = "Must be a positive integer.";
+  } else if (version > SCHEMA_VERSION) {
+    errors.schema_version = `Version ${version} is not supported (latest is ${SCHEMA_VERSION}).`;
+  }
+
+  let data = input;
+  if (version === 1) {
+    const legacyErrors = checkStrings(input, ["audience_type", "language", "recipients"], ["tone"]);
+    Object.assign(errors, legacyErrors);
+    if (Object.keys(legacyErrors).length === 0) {
+      const upgraded = upgradePayload({ tone: "", ...input } as unknown as LegacyWebhookPayload);
+      data = upgraded as unknown as Record<string, unknown>;
+    }
+  } else {
+    checkGroups(data, errors);
+  }
+
+  if (!WEBHOOK_MODES.includes(input.mode as WebhookMode)) {
+    errors.mode = `Must be one of: ${WEBHOOK_MODES.join(", ")}.`;
+  }
+  if (input.test !== undefined && typeof input.test !== "boolean") {
+    errors.test = "Must be true or false.";
+  }
+  if (input.send_at !== undefined && !isIsoInstant(input.send_at)) {
+    errors.send_at = "Must be an ISO 8601 date and time.";
+  }
+
+  if (input.note !== undefined) {
+    if (typeof input.note !== "string") {
+      errors.note = "Must be text.";
+    } else if (input.note.length > MAX_NOTE_LENGTH) {
+      errors.note = `Must be at most ${MAX_NOTE_LENGTH} characters.`;
+    }
+  }
+
+  checkObjectArray(input, "recipient_details", errors, (item) => {
+    const itemErrors = checkStrings(item, ["email"], ["first_name", "last_name", "company"]);
+    if (item.fields !== undefined) {
+      const valid =
+        isRecord(item.fields) &&
+        Object.entries(item.fields).every(
+          ([name, value]) => MERGE_FIELD_NAME_PATTERN.test(name) && typeof value === "string"
+        );
+      if (!valid) itemErrors.fields = "Must map field names (lowercase letters, digits and _) to text.";
+    }
+    return itemErrors;
+  });
+  checkObjectArray(input, "drafts", errors, (item) => checkStrings(item, ["recipient", "body"], ["subject"]));
+  checkObjectArray(input, "recipient_schedule", errors, (item) => {
+    const itemErrors = checkStrings(item, ["email", "timezone"]);
+    if (!isIsoInstant(item.send_at)) itemErrors.send_at = "Must be an ISO 8601 date and time.";
+    return itemErrors;
+  });
+  checkAttachment(input, errors);
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+  const payload = data as unknown as WebhookPayload;
+  return {
+    ok: true,
+    value: {
+      ...payload,
+      schema_version: SCHEMA_VERSION,
+      groups: payload.groups.map((group) => ({ ...group, tone: group.tone ?? "" })),
+    },
+  };
+}
+
+/**
+ * Reads the reports of a suppressions response, skipping malformed
+ * entries. Returns null when the body isn't a suppressions response.
+ */
+export function parseSuppressionsResponse(input: unknown): ReportedSuppression[] | null {
+  if (!isRecord(input) || !Array.isArray(input.suppressions)) {
+    return null;
+  }
+
+  return input.suppressions.filter(
+    (item): item is ReportedSuppression =>
+      isRecord(item) &&
+      Object.keys(checkStrings(item, ["email"], ["note"])).length === 0 &&
+      SUPPRESSION_REASONS.includes(item.reason as SuppressionReason) &&
+      isIsoInstant(item.reported_at)
+  );
+}
+
+/**
+ * Reads the per-recipient results of a send response: its `results`, or
+ * the body itself when it's a list (n8n's "Respond to Webhook" node
+ * answers with all items that way). Entries without an address are
+ * skipped; an unknown status counts as failed when the entry has an error
+ * and as sent otherwise. Returns null when the body has no results.
+ */
+export function parseSendResults(input: unknown): SendResult[] | null {
+  const items = Array.isArray(input) ? input : isRecord(input) ? input.results : undefined;
+  if (!Array.isArray(items)) {
+    return null;
+  }
+
+  return items
+    .filter((item): item is Record<string, unknown> => isRecord(item) && typeof item.email === "string" && !!item.email)
+    .map((item) => {
+      const error = typeof item.error === "string" && item.error ? item.error : undefined;
+      const status = RECIPIENT_DELIVERY_STATUSES.includes(item.status as RecipientDeliveryStatus)
+        ? (item.status as RecipientDeliveryStatus)
+        : error
+          ? "failed"
+          : "sent";
+      return {
+        email: item.email as string,
+        status,
+        ...(typeof item.subject === "string" && item.subject && { subject: item.subject }),
+        ...(error && { error }),
+      };
+    });
+}
+
+/**
+ * Reads a capabilities response, skipping malformed languages, audiences,
+ * tones and flags. Returns null when the body isn't a capabilities
+ * response or offers no language or no audience.
+ */
+export function parseCapabilitiesResponse(input: unknown): CapabilitiesResponse | null {
+  if (!isRecord(input) || !Array.isArray(input.languages) || !Array.isArray(input.audiences)) {
+    return null;
+  }
+
+  const hasText = (item: unknown, fields: string[]): item is Record<string, string> =>
+    isRecord(item) && Object.keys(checkStrings(item, fields)).length === 0;
+
+  const languages = input.languages
+    .filter((item) => hasText(item, ["code", "label"]))
+    .map((item) => ({ code: item.code.trim(), label: item.label.trim() }));
+  const audiences = input.audiences
+    .filter((item) => hasText(item, ["value", "label"]))
+    .map((item) => ({ value: item.value.trim(), label: item.label.trim() }));
+  if (languages.length === 0 || audiences.length === 0) {
+    return null;
+  }
+
+  const result: CapabilitiesResponse = { languages, audiences };
+  if (Array.isArray(input.tones)) {
+    result.tones = input.tones
+      .filter((tone): tone is string => typeof tone === "string" && !!tone.trim())
+      .map((tone) => tone.trim());
+  }
+  if (typeof input.max_recipients === "number" && Number.isInteger(input.max_recipients) && input.max_recipients > 0) {
+    result.max_recipients = input.max_recipients;
+  }
+  if (isRecord(input.features)) {
+    const features = input.features;
+    result.features = Object.fromEntries(
+      CAPABILITY_FEATURES.filter((feature) => typeof features[feature] === "boolean").map((feature) => [
+        feature,
+        features[feature] as boolean,
+      ])
+    );
+  }
+  return result;
+}
+
+/**
+ * Reads a structured error from a response body, or returns null when the
+ * body doesn't follow the ErrorResponse format.
+ */
+export function parseErrorResponse(input: unknown): ErrorResponse["error"] | null {
+  const error = isRecord(input) ? input.error : undefined;
+  if (!isRecord(error) || typeof error.code !== "string" || typeof error.message !== "string") {
+    return null;
+  }
+
+  const fieldErrors: Record<string, string> = {};
+  if (isRecord(error.field_errors)) {
+    Object.entries(error.field_errors).forEach(([field, message]) => {
+      if (typeof message === "string") fieldErrors[field] = message;
+    });
+  }
+  return { code: error.code, message: error.message, field_errors: fieldErrors };
+}
+
+/**
+ * Builds a structured error body.
+ */
+export function createErrorResponse(
+  code: ErrorCode,
+  message: string,
+  fieldErrors?: Record<string, string>
+): ErrorResponse {
+  return { error: { code, message, ...(fieldErrors && { field_errors: fieldErrors }) } };
+}
+
+/**
+ * Builds the 400 error body for a payload that failed validation:
+ * `unsupported_schema_version` when the version is the only problem,
+ * `invalid_payload` with field errors otherwise.
+ */
+export function createValidationErrorResponse(errors: Record<string, string>): ErrorResponse {
+  const unsupported = Object.keys(errors).length === 1 && errors.schema_version;
+  return unsupported
+    ? createErrorResponse("unsupported_schema_version", errors.schema_version)
+    : createErrorResponse("invalid_payload", `Invalid fields: ${Object.keys(errors).join(", ")}.`, errors);
+}
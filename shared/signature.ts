@@ -0,0 +1,71 @@
+/**
+ * Request signing between the proxy (see proxy/) and the webhook.
+ *
+ * The proxy signs every request it forwards with HMAC-SHA256 over
+ * `<timestamp>.<raw body>` using a secret shared with the webhook, and
+ * sends the signature and timestamp in headers. The webhook recomputes
+ * the signature over the raw body it received and rejects the request
+ * when it doesn't match or when the timestamp is too old (which stops
+ * captured requests from being replayed later).
+ *
+ * Node-only (uses `crypto`): imported by the proxy and the mock backend,
+ * never by the frontend.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/** Header carrying `sha256=<hex digest>`. */
+export const SIGNATURE_HEADER = "X-Holiday-Signature";
+
+/** Header carrying the signing time in Unix seconds. */
+export const TIMESTAMP_HEADER = "X-Holiday-Timestamp";
+
+/** Default maximum age of a signed request, in seconds. */
+export const DEFAULT_SIGNATURE_TOLERANCE_S = 300;
+
+/**
+ * Returns the signature header value for a body signed at `timestamp`.
+ */
+export function createSignature(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Returns the signing headers for a request body, signed now.
+ */
+export function signRequest(secret: string, body: string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return {
+    [SIGNATURE_HEADER]: createSignature(secret, timestamp, body),
+    [TIMESTAMP_HEADER]: String(timestamp),
+  };
+}
+
+/**
+ * Checks a request's signature headers against its raw body. Returns an
+ * error message, or null when the signature is valid and recent.
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  toleranceS: number = DEFAULT_SIGNATURE_TOLERANCE_S
+): string | null {
+  if (!signature || !timestamp) {
+    return `Missing ${SIGNATURE_HEADER} or ${TIMESTAMP_HEADER} header.`;
+  }
+
+  const signedAt = Number(timestamp);
+  if (!Number.isInteger(signedAt) || Math.abs(Date.now() / 1000 - signedAt) > toleranceS) {
+    return "Signature timestamp is invalid or too old.";
+  }
+
+  const expected = Buffer.from(createSignature(secret, signedAt, body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return "Signature does not match.";
+  }
+  return null;
+}